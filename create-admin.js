@@ -38,7 +38,7 @@ async function createAdminUser() {
         password: hashedPassword,
         firstName: firstName,
         lastName: lastName,
-        role: 'admin',
+        role: 'super_admin',
         phone: '1234567890',
         isEmailVerified: true,
         isActive: true,
@@ -0,0 +1,80 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Cases created before the lifecycle existed have no status or aligner
+// counts. They start at SUBMITTED with a single history entry so the
+// timeline is never empty. The old free-text `quantity` field is left in
+// place for the lab to reconcile into upper/lower counts by hand.
+async function migrateAlignerCases() {
+  try {
+    console.log('Backfilling aligner case lifecycle fields...');
+
+    // Every case before dentist submissions existed was opened by the lab
+    const labCases = await prisma.$runCommandRaw({
+      update: 'AlignerCase',
+      updates: [
+        {
+          q: { dentistSubmitted: { $exists: false } },
+          u: { $set: { dentistSubmitted: false } },
+          multi: true,
+        },
+      ],
+    });
+    console.log(`- ${labCases.nModified} case(s) marked as lab-opened`);
+
+    const cases = await prisma.$runCommandRaw({
+      find: 'AlignerCase',
+      filter: { status: { $exists: false } },
+      projection: { _id: 1, createdAt: 1 },
+      batchSize: 100000,
+    });
+    const legacy = cases.cursor.firstBatch;
+
+    if (legacy.length === 0) {
+      console.log('No aligner cases need migrating');
+      return;
+    }
+
+    const result = await prisma.$runCommandRaw({
+      update: 'AlignerCase',
+      updates: [
+        {
+          q: { status: { $exists: false } },
+          u: [
+            {
+              $set: {
+                status: 'SUBMITTED',
+                statusChangedAt: '$createdAt',
+                upperAlignerCount: { $ifNull: ['$upperAlignerCount', 0] },
+                lowerAlignerCount: { $ifNull: ['$lowerAlignerCount', 0] },
+              },
+            },
+          ],
+          multi: true,
+        },
+      ],
+    });
+    console.log(`- ${result.nModified} case(s) set to SUBMITTED`);
+
+    await prisma.$runCommandRaw({
+      insert: 'AlignerCaseStatusChange',
+      documents: legacy.map((alignerCase) => ({
+        caseId: alignerCase._id,
+        fromStatus: null,
+        toStatus: 'SUBMITTED',
+        note: 'Backfilled from existing case',
+        createdAt: alignerCase.createdAt,
+      })),
+    });
+    console.log(`- ${legacy.length} history entr(y/ies) created`);
+
+    console.log('Aligner case migration complete');
+  } catch (error) {
+    console.error('Error migrating aligner cases:', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateAlignerCases();
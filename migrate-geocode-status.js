@@ -0,0 +1,59 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Records saved before background geocoding have no geocodeStatus. Those
+// with coordinates are RESOLVED; dentists with an address but no pin are
+// FAILED so they show up in the admin geocoding queue.
+async function migrateGeocodeStatus() {
+  try {
+    console.log('Backfilling geocode status...');
+
+    for (const collection of ['User', 'MapUsers']) {
+      const result = await prisma.$runCommandRaw({
+        update: collection,
+        updates: [
+          {
+            q: {
+              geocodeStatus: { $exists: false },
+              latitude: { $type: 'number' },
+              longitude: { $type: 'number' },
+            },
+            u: { $set: { geocodeStatus: 'RESOLVED' } },
+            multi: true,
+          },
+        ],
+      });
+      console.log(`- ${result.nModified} ${collection} record(s) RESOLVED`);
+    }
+
+    const unresolved = await prisma.$runCommandRaw({
+      update: 'User',
+      updates: [
+        {
+          q: {
+            geocodeStatus: { $exists: false },
+            role: 'dentist',
+            location: { $type: 'string', $ne: '' },
+          },
+          u: {
+            $set: {
+              geocodeStatus: 'FAILED',
+              geocodeError: 'Location was never geocoded',
+            },
+          },
+          multi: true,
+        },
+      ],
+    });
+    console.log(`- ${unresolved.nModified} dentist(s) marked FAILED`);
+
+    console.log('Geocode status migration complete');
+  } catch (error) {
+    console.error('Error migrating geocode status:', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateGeocodeStatus();
@@ -0,0 +1,46 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Nearby search runs on a 2dsphere index over `geoLocation`. Records saved
+// before that field existed only have latitude/longitude, so copy them over.
+async function migrateGeoLocation() {
+  try {
+    console.log('Backfilling geoLocation points...');
+
+    for (const collection of ['User', 'MapUsers']) {
+      const result = await prisma.$runCommandRaw({
+        update: collection,
+        updates: [
+          {
+            q: {
+              geoLocation: { $exists: false },
+              latitude: { $type: 'number' },
+              longitude: { $type: 'number' },
+            },
+            u: [
+              {
+                $set: {
+                  geoLocation: {
+                    type: 'Point',
+                    coordinates: ['$longitude', '$latitude'],
+                  },
+                },
+              },
+            ],
+            multi: true,
+          },
+        ],
+      });
+      console.log(`- ${result.nModified} ${collection} record(s) updated`);
+    }
+
+    console.log('GeoLocation migration complete');
+  } catch (error) {
+    console.error('Error migrating geoLocation:', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateGeoLocation();
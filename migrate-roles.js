@@ -0,0 +1,31 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Legacy role values -> granular roles introduced with the permission model
+const ROLE_MAPPING = {
+  admin: 'super_admin',
+  user: 'dentist',
+};
+
+async function migrateRoles() {
+  try {
+    console.log('Migrating legacy user roles...');
+
+    for (const [legacyRole, newRole] of Object.entries(ROLE_MAPPING)) {
+      const result = await prisma.user.updateMany({
+        where: { role: legacyRole },
+        data: { role: newRole },
+      });
+      console.log(`- ${legacyRole} -> ${newRole}: ${result.count} user(s)`);
+    }
+
+    console.log('Role migration complete');
+  } catch (error) {
+    console.error('Error migrating roles:', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateRoles();
@@ -0,0 +1,81 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+const GRANDFATHERED_NOTE = 'Listed on the map before DCI verification existed';
+
+// Existing accounts predate DCI verification and have no status yet.
+// Dentists already shown on the map stay there: they are APPROVED, with a
+// history entry saying why, and reviewers can still revoke them. Everyone
+// else starts as PENDING without a submission, so they only reach the
+// review queue once they upload their certificate and submit it.
+async function migrateVerification() {
+  try {
+    console.log('Backfilling verification status...');
+
+    const listed = await prisma.$runCommandRaw({
+      find: 'User',
+      filter: {
+        role: 'dentist',
+        showOnMap: true,
+        verificationStatus: { $exists: false },
+      },
+      projection: { _id: 1 },
+      batchSize: 100000,
+    });
+    const grandfathered = listed.cursor.firstBatch;
+
+    if (grandfathered.length > 0) {
+      const now = { $date: new Date().toISOString() };
+      const approved = await prisma.$runCommandRaw({
+        update: 'User',
+        updates: [
+          {
+            q: { _id: { $in: grandfathered.map((user) => user._id) } },
+            u: {
+              $set: {
+                verificationStatus: 'APPROVED',
+                verificationNote: GRANDFATHERED_NOTE,
+                verificationReviewedAt: now,
+              },
+            },
+            multi: true,
+          },
+        ],
+      });
+      console.log(`- ${approved.nModified} listed dentist(s) set to APPROVED`);
+
+      await prisma.$runCommandRaw({
+        insert: 'VerificationReview',
+        documents: grandfathered.map((user) => ({
+          userId: user._id,
+          fromStatus: 'PENDING',
+          toStatus: 'APPROVED',
+          note: GRANDFATHERED_NOTE,
+          createdAt: now,
+        })),
+      });
+      console.log(`- ${grandfathered.length} history entr(y/ies) created`);
+    }
+
+    const result = await prisma.$runCommandRaw({
+      update: 'User',
+      updates: [
+        {
+          q: { verificationStatus: { $exists: false } },
+          u: { $set: { verificationStatus: 'PENDING' } },
+          multi: true,
+        },
+      ],
+    });
+    console.log(`- ${result.nModified} user(s) set to PENDING`);
+
+    console.log('Verification migration complete');
+  } catch (error) {
+    console.error('Error migrating verification status:', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateVerification();
@@ -26,8 +26,57 @@ import { TestimonialService } from './services/testimonial.service';
 import { TestimonialController } from './controller/testimonial.controller';
 import { AlignerCaseController } from './controller/alignercase.controller';
 import { AlignerCaseService } from './services/alignercase.service';
+import { TreatmentPlanController } from './controller/treatment-plan.controller';
+import { TreatmentPlanService } from './services/treatment-plan.service';
+import { CaseMessageController } from './controller/case-message.controller';
+import { CaseMessageService } from './services/case-message.service';
+import { PatientController } from './controller/patient.controller';
+import { PatientService } from './services/patient.service';
+import { BillingController } from './controller/billing.controller';
+import { BillingService } from './services/billing.service';
+import { ShipmentController } from './controller/shipment.controller';
+import { ShipmentService } from './services/shipment.service';
+import { CourseCurriculumController } from './controller/course-curriculum.controller';
+import { CourseCurriculumService } from './services/course-curriculum.service';
+import { CourseQuizController } from './controller/course-quiz.controller';
+import { CourseQuizService } from './services/course-quiz.service';
+import { CertificateController } from './controller/certificate.controller';
+import { CertificateService } from './services/certificate.service';
+import { PaymentController } from './controller/payment.controller';
+import { PaymentService } from './services/payment.service';
+import { RefundController } from './controller/refund.controller';
+import { JobsController } from './controller/jobs.controller';
+import { RefundService } from './services/refund.service';
+import {
+  createPaymentGateway,
+  PAYMENT_GATEWAY,
+} from './services/payment-gateway.provider';
+import {
+  CARRIER_TRACKING_ADAPTER,
+  createCarrierTrackingAdapter,
+} from './services/carrier-tracking.provider';
 import { MapUsersController } from './controller/mapusers.controller';
 import { MapUsersService } from './services/mapusers.service';
+import { SessionService } from './services/session.service';
+import { LoginThrottleService } from './services/login-throttle.service';
+import { MfaService } from './services/mfa.service';
+import { DentistVerificationService } from './services/dentist-verification.service';
+import { DentistProfileService } from './services/dentist-profile.service';
+import { DentistProfileController } from './controller/dentist-profile.controller';
+import { ProviderService } from './services/provider.service';
+import { ProviderController } from './controller/provider.controller';
+import { GeocodingService } from './services/geocoding.service';
+import { GeocodingJobService } from './services/geocoding-job.service';
+import { GeocodingController } from './controller/geocoding.controller';
+import { MapUserLinkService } from './services/map-user-link.service';
+import {
+  GEOCODING_PROVIDER,
+  createGeocodingProvider,
+} from './services/geocoding.provider';
+import {
+  LOGIN_ATTEMPT_STORE,
+  PrismaLoginAttemptStore,
+} from './services/login-attempt.store';
 
 @Module({
   imports: [PrismaModule],
@@ -45,6 +94,20 @@ import { MapUsersService } from './services/mapusers.service';
     TestimonialController,
     AlignerCaseController,
     MapUsersController,
+    DentistProfileController,
+    ProviderController,
+    GeocodingController,
+    TreatmentPlanController,
+    CaseMessageController,
+    PatientController,
+    BillingController,
+    ShipmentController,
+    CourseCurriculumController,
+    CourseQuizController,
+    CertificateController,
+    PaymentController,
+    RefundController,
+    JobsController,
   ],
   providers: [
     AuthService,
@@ -62,6 +125,32 @@ import { MapUsersService } from './services/mapusers.service';
     TestimonialService,
     AlignerCaseService,
     MapUsersService,
+    SessionService,
+    LoginThrottleService,
+    MfaService,
+    DentistVerificationService,
+    DentistProfileService,
+    ProviderService,
+    { provide: LOGIN_ATTEMPT_STORE, useClass: PrismaLoginAttemptStore },
+    GeocodingService,
+    GeocodingJobService,
+    MapUserLinkService,
+    TreatmentPlanService,
+    CaseMessageService,
+    PatientService,
+    BillingService,
+    ShipmentService,
+    CourseCurriculumService,
+    CourseQuizService,
+    CertificateService,
+    PaymentService,
+    RefundService,
+    { provide: GEOCODING_PROVIDER, useFactory: createGeocodingProvider },
+    {
+      provide: CARRIER_TRACKING_ADAPTER,
+      useFactory: createCarrierTrackingAdapter,
+    },
+    { provide: PAYMENT_GATEWAY, useFactory: createPaymentGateway },
   ],
   exports: [
     AuthService,
@@ -78,6 +167,7 @@ import { MapUsersService } from './services/mapusers.service';
     AlignerProcessService,
     AlignerCaseService,
     MapUsersService,
+    SessionService,
   ],
 })
 export class ApiModule {}
@@ -3,6 +3,7 @@ import {
   Get,
   Post,
   Put,
+  Patch,
   Delete,
   Body,
   Param,
@@ -12,17 +13,65 @@ import {
   ValidationPipe,
   HttpStatus,
   Res,
+  UseInterceptors,
+  UploadedFiles,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
 import { Request, Response } from 'express';
 
-import { AuthGuard, UserRole } from '../../guards/auth.guard';
-import { RolesGuard, Roles } from '../../guards/role.guard';
-import { AlignerCaseService } from '../services/alignercase.service';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+import {
+  AlignerCaseService,
+  MAX_RECORDS_UPLOAD_SIZE,
+  RECORD_FIELDS,
+  RECORD_FILE_RULES,
+} from '../services/alignercase.service';
 import {
   AlignerCaseQueryDto,
   CreateAlignerCaseDto,
+  SubmitAlignerCaseDto,
   UpdateAlignerCaseDto,
+  UpdateAlignerCaseStatusDto,
 } from '../dto/alignercase.dto';
+import { errorMessage } from '../../helpers/error.helper';
+import { limitedMemoryStorage } from '../../helpers/upload.helper';
+
+type CaseRecordFiles = Record<string, Express.Multer.File[] | undefined>;
+
+// One multipart field per record type. Each file is checked against its
+// own type's size limit while it is read, and the request against a total.
+const CaseRecordsInterceptor = FileFieldsInterceptor(
+  Object.entries(RECORD_FIELDS).map(([name, type]) => ({
+    name,
+    maxCount: RECORD_FILE_RULES[type].maxFiles,
+  })),
+  {
+    storage: limitedMemoryStorage(
+      (fieldName) => RECORD_FILE_RULES[RECORD_FIELDS[fieldName]]?.maxSize ?? 0,
+      MAX_RECORDS_UPLOAD_SIZE,
+    ),
+    fileFilter: (req, file, callback) => {
+      if (
+        AlignerCaseService.isAcceptedRecordFile(
+          file.fieldname,
+          file.originalname,
+        )
+      ) {
+        callback(null, true);
+      } else {
+        callback(
+          new BadRequestException(
+            `${file.originalname} is not an accepted file type for ${file.fieldname}`,
+          ),
+          false,
+        );
+      }
+    },
+  },
+);
 
 @Controller('aligner-cases')
 export class AlignerCaseController {
@@ -40,15 +89,18 @@ export class AlignerCaseController {
    * POST /api/v1/aligner-cases
    */
   @Post()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CASES_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async createAlignerCase(
     @Body(ValidationPipe) createAlignerCaseDto: CreateAlignerCaseDto,
+    @Req() req: Request,
     @Res() res: Response,
   ) {
     try {
-      const alignerCase =
-        await this.alignerCaseService.createAlignerCase(createAlignerCaseDto);
+      const alignerCase = await this.alignerCaseService.createAlignerCase(
+        createAlignerCaseDto,
+        req.user.id,
+      );
 
       return res.status(HttpStatus.CREATED).json({
         success: true,
@@ -69,7 +121,7 @@ export class AlignerCaseController {
    * GET /api/v1/aligner-cases/admin
    */
   @Get('admin')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CASES_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getAllAlignerCasesAdmin(
     @Query() query: AlignerCaseQueryDto,
@@ -98,7 +150,7 @@ export class AlignerCaseController {
    * GET /api/v1/aligner-cases/admin/statistics
    */
   @Get('admin/statistics')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CASES_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getAlignerCaseStatistics(@Res() res: Response) {
     try {
@@ -123,7 +175,7 @@ export class AlignerCaseController {
    * PUT /api/v1/aligner-cases/:id
    */
   @Put(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CASES_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async updateAlignerCase(
     @Param('id') id: string,
@@ -165,7 +217,7 @@ export class AlignerCaseController {
    * DELETE /api/v1/aligner-cases/:id
    */
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CASES_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async deleteAlignerCase(@Param('id') id: string, @Res() res: Response) {
     try {
@@ -199,7 +251,7 @@ export class AlignerCaseController {
    * GET /api/v1/aligner-cases/admin/:id
    */
   @Get('admin/:id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CASES_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getAlignerCaseByIdAdmin(@Param('id') id: string, @Res() res: Response) {
     try {
@@ -229,6 +281,52 @@ export class AlignerCaseController {
     }
   }
 
+  /**
+   * Move a case to its next lab stage (Admin only). Sending a plan and the
+   * dentist's answer go through the treatment plan routes.
+   * PATCH /api/v1/aligner-cases/:id/status
+   */
+  @Patch(':id/status')
+  @RequirePermissions(Permission.CASES_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async updateAlignerCaseStatus(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateStatusDto: UpdateAlignerCaseStatusDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    try {
+      if (!this.isValidObjectId(id)) {
+        return res.status(HttpStatus.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid aligner case ID format',
+        });
+      }
+
+      const alignerCase = await this.alignerCaseService.updateAlignerCaseStatus(
+        id,
+        updateStatusDto,
+        { id: req.user.id, role: req.user.role },
+      );
+
+      return res.status(HttpStatus.OK).json({
+        success: true,
+        message: 'Aligner case status updated successfully',
+        data: alignerCase,
+      });
+    } catch (error) {
+      console.error('Update aligner case status error:', error);
+      const message = errorMessage(error);
+      const statusCode = message.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).json({
+        success: false,
+        message: message || 'Failed to update aligner case status',
+      });
+    }
+  }
+
   // ==================== USER ROUTES ====================
 
   /**
@@ -264,6 +362,129 @@ export class AlignerCaseController {
     }
   }
 
+  /**
+   * Submit a new case with clinical records (verified dentists). Files go
+   * in the intraoralPhotos, extraoralPhotos, xrays and scans fields.
+   * POST /api/v1/aligner-cases/submit
+   */
+  @Post('submit')
+  @UseGuards(AuthGuard)
+  @UseInterceptors(CaseRecordsInterceptor)
+  async submitAlignerCase(
+    @Body(ValidationPipe) submitDto: SubmitAlignerCaseDto,
+    @UploadedFiles() files: CaseRecordFiles,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    try {
+      const alignerCase = await this.alignerCaseService.submitAlignerCase(
+        req.user.id,
+        submitDto,
+        files ?? {},
+      );
+
+      return res.status(HttpStatus.CREATED).json({
+        success: true,
+        message: 'Aligner case submitted successfully',
+        data: alignerCase,
+      });
+    } catch (error) {
+      console.error('Submit aligner case error:', error);
+      const message = errorMessage(error);
+      const statusCode = message.includes('verified dentists')
+        ? HttpStatus.FORBIDDEN
+        : HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).json({
+        success: false,
+        message: message || 'Failed to submit aligner case',
+      });
+    }
+  }
+
+  /**
+   * Add clinical records to a case (case dentist or case managers)
+   * POST /api/v1/aligner-cases/:id/records
+   */
+  @Post(':id/records')
+  @UseGuards(AuthGuard)
+  @UseInterceptors(CaseRecordsInterceptor)
+  async addCaseRecords(
+    @Param('id') id: string,
+    @UploadedFiles() files: CaseRecordFiles,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    try {
+      const alignerCase = await this.alignerCaseService.addCaseRecords(
+        id,
+        { id: req.user.id, role: req.user.role },
+        files ?? {},
+      );
+
+      return res.status(HttpStatus.CREATED).json({
+        success: true,
+        message: 'Case records uploaded successfully',
+        data: alignerCase,
+      });
+    } catch (error) {
+      console.error('Add case records error:', error);
+      const message = errorMessage(error);
+
+      let statusCode = HttpStatus.BAD_REQUEST;
+      if (message.includes('not found')) {
+        statusCode = HttpStatus.NOT_FOUND;
+      } else if (message.includes('access your own')) {
+        statusCode = HttpStatus.FORBIDDEN;
+      }
+
+      return res.status(statusCode).json({
+        success: false,
+        message: message || 'Failed to upload case records',
+      });
+    }
+  }
+
+  /**
+   * Remove a clinical record from a case
+   * DELETE /api/v1/aligner-cases/:id/records/:recordId
+   */
+  @Delete(':id/records/:recordId')
+  @UseGuards(AuthGuard)
+  async deleteCaseRecord(
+    @Param('id') id: string,
+    @Param('recordId') recordId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    try {
+      const result = await this.alignerCaseService.deleteCaseRecord(
+        id,
+        recordId,
+        { id: req.user.id, role: req.user.role },
+      );
+
+      return res.status(HttpStatus.OK).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      console.error('Delete case record error:', error);
+      const message = errorMessage(error);
+
+      let statusCode = HttpStatus.BAD_REQUEST;
+      if (message.includes('not found')) {
+        statusCode = HttpStatus.NOT_FOUND;
+      } else if (message.includes('access your own')) {
+        statusCode = HttpStatus.FORBIDDEN;
+      }
+
+      return res.status(statusCode).json({
+        success: false,
+        message: message || 'Failed to delete case record',
+      });
+    }
+  }
+
   /**
    * Get user's specific aligner case by ID (User can only see their own case)
    * GET /api/v1/aligner-cases/:id
@@ -9,6 +9,8 @@ import {
   UseGuards,
   Req,
   Param,
+  Delete,
+  Query,
 } from '@nestjs/common';
 import { Response, Request } from 'express';
 import { AuthService } from '../services/auth.service';
@@ -17,16 +19,28 @@ import {
   LoginDto,
   ForgotPasswordDto,
   ResetPasswordDto,
+  UnlockAccountDto,
+  MfaChallengeDto,
+  MfaEnrollmentDto,
+  ConfirmMfaEnrollmentDto,
+  EnableTwoFactorDto,
+  TwoFactorCodeDto,
 } from '../dto/auth.dto';
 import { CookieHelper } from '../../helpers/cookies.helper';
 import { AuthGuard, UserRole } from '../../guards/auth.guard';
 import { MapService } from '../services/map.service';
+import { SessionContext } from '../services/session.service';
+import { MfaService } from '../services/mfa.service';
+import { UsersService } from '../services/users.service';
+import { ConfirmEmailChangeDto } from '../dto/users.dto';
 
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
     private readonly mapService: MapService,
+    private readonly mfaService: MfaService,
+    private readonly usersService: UsersService,
   ) {}
 
   @Post('signup')
@@ -35,8 +49,8 @@ export class AuthController {
     @Res() res: Response,
   ) {
     const result = await this.authService.signup(signupDto);
-    if (result.user.role === UserRole.USER) {
-      this.mapService.updateUserLocationOnMap(
+    if (result.user.role === UserRole.DENTIST) {
+      await this.mapService.updateUserLocationOnMap(
         result.user.id,
         signupDto.location,
       );
@@ -44,28 +58,313 @@ export class AuthController {
     return res.status(HttpStatus.CREATED).json(result);
   }
 
+  private getSessionContext(req: Request): SessionContext {
+    return {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    };
+  }
+
+  // Browsers send the refresh cookie; other clients pass it in the body
+  private getRefreshToken(req: Request, bodyRefreshToken?: string) {
+    const cookies = req.cookies as Record<string, string | undefined>;
+    return cookies?.[CookieHelper.REFRESH_TOKEN_COOKIE] || bodyRefreshToken;
+  }
+
   @Post('login')
-  async login(@Body(ValidationPipe) loginDto: LoginDto, @Res() res: Response) {
-    const result = await this.authService.login(loginDto);
+  async login(
+    @Body(ValidationPipe) loginDto: LoginDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.authService.login(
+      loginDto,
+      this.getSessionContext(req),
+    );
 
-    if (result.user.role.includes('admin')) {
-      CookieHelper.setAccessTokenCookie(res, result.token, 24 * 60 * 60);
-    } else {
-      CookieHelper.setAccessTokenCookie(res, result.token, 30 * 24 * 60 * 60);
+    // No cookies yet when a second factor is still needed
+    if ('token' in result) {
+      return this.sendSession(req, res, result);
     }
     return res.status(HttpStatus.OK).json(result);
   }
 
+  /**
+   * Browsers only ever get the refresh token as an httpOnly cookie. Native
+   * clients that cannot keep cookies opt in with `X-Token-Delivery: body`
+   * (not a CORS-allowed header, so browser pages cannot send it).
+   */
+  private sendSession<
+    T extends {
+      token: string;
+      refreshToken: string;
+      accessTokenExpiresIn: number;
+      refreshTokenExpiresIn: number;
+    },
+  >(req: Request, res: Response, result: T) {
+    CookieHelper.setAccessTokenCookie(
+      res,
+      result.token,
+      result.accessTokenExpiresIn,
+    );
+    CookieHelper.setRefreshTokenCookie(
+      res,
+      result.refreshToken,
+      result.refreshTokenExpiresIn,
+    );
+
+    if (req.headers['x-token-delivery'] === 'body') {
+      return res.status(HttpStatus.OK).json(result);
+    }
+    return res
+      .status(HttpStatus.OK)
+      .json({ ...result, refreshToken: undefined });
+  }
+
+  /**
+   * Second login step: submit a TOTP or recovery code with the MFA token
+   * POST /api/v1/auth/2fa/verify
+   */
+  @Post('2fa/verify')
+  async verifyMfaLogin(
+    @Body(ValidationPipe) mfaChallengeDto: MfaChallengeDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.authService.verifyMfaLogin(
+      mfaChallengeDto,
+      this.getSessionContext(req),
+    );
+
+    return this.sendSession(req, res, result);
+  }
+
+  /**
+   * Start mandatory 2FA setup during login (returns the secret and QR URI)
+   * POST /api/v1/auth/2fa/enroll
+   */
+  @Post('2fa/enroll')
+  async beginMfaEnrollment(
+    @Body(ValidationPipe) mfaEnrollmentDto: MfaEnrollmentDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.authService.beginMfaEnrollment(mfaEnrollmentDto);
+    return res.status(HttpStatus.OK).json(result);
+  }
+
+  /**
+   * Finish mandatory 2FA setup and sign in; recovery codes are shown once
+   * POST /api/v1/auth/2fa/enroll/confirm
+   */
+  @Post('2fa/enroll/confirm')
+  async confirmMfaEnrollment(
+    @Body(ValidationPipe) confirmMfaEnrollmentDto: ConfirmMfaEnrollmentDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.authService.confirmMfaEnrollment(
+      confirmMfaEnrollmentDto,
+      this.getSessionContext(req),
+    );
+
+    return this.sendSession(req, res, result);
+  }
+
+  /**
+   * Get the current user's 2FA status
+   * GET /api/v1/auth/2fa
+   */
+  @Get('2fa')
+  @UseGuards(AuthGuard)
+  async getTwoFactorStatus(@Req() req: Request, @Res() res: Response) {
+    const status = await this.mfaService.getStatus(req.user.id);
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Two-factor status retrieved successfully',
+      data: status,
+    });
+  }
+
+  /**
+   * Start 2FA setup for a signed-in user
+   * POST /api/v1/auth/2fa/setup
+   */
+  @Post('2fa/setup')
+  @UseGuards(AuthGuard)
+  async setupTwoFactor(@Req() req: Request, @Res() res: Response) {
+    const enrollment = await this.mfaService.beginEnrollment(req.user.id);
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app',
+      data: enrollment,
+    });
+  }
+
+  /**
+   * Confirm 2FA setup with a code; recovery codes are shown once
+   * POST /api/v1/auth/2fa/enable
+   */
+  @Post('2fa/enable')
+  @UseGuards(AuthGuard)
+  async enableTwoFactor(
+    @Body(ValidationPipe) enableTwoFactorDto: EnableTwoFactorDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.mfaService.confirmEnrollment(
+      req.user.id,
+      enableTwoFactorDto.code,
+    );
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: result,
+    });
+  }
+
+  /**
+   * Turn off 2FA (not allowed for roles where it is mandatory)
+   * POST /api/v1/auth/2fa/disable
+   */
+  @Post('2fa/disable')
+  @UseGuards(AuthGuard)
+  async disableTwoFactor(
+    @Body(ValidationPipe) twoFactorCodeDto: TwoFactorCodeDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    await this.mfaService.disable(req.user.id, twoFactorCodeDto);
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  }
+
+  /**
+   * Replace all recovery codes with a fresh set
+   * POST /api/v1/auth/2fa/recovery-codes
+   */
+  @Post('2fa/recovery-codes')
+  @UseGuards(AuthGuard)
+  async regenerateRecoveryCodes(
+    @Body(ValidationPipe) twoFactorCodeDto: TwoFactorCodeDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.mfaService.regenerateRecoveryCodes(
+      req.user.id,
+      twoFactorCodeDto,
+    );
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Recovery codes regenerated',
+      data: result,
+    });
+  }
+
+  /**
+   * Rotate the refresh token and issue a new access token.
+   * Browsers send the refresh cookie; other clients pass `refreshToken` and
+   * get the rotated one back in the body (see sendSession).
+   */
+  @Post('refresh')
+  async refresh(
+    @Body('refreshToken') bodyRefreshToken: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const refreshToken = this.getRefreshToken(req, bodyRefreshToken);
+
+    try {
+      const result = await this.authService.refresh(
+        refreshToken,
+        this.getSessionContext(req),
+      );
+
+      return this.sendSession(req, res, result);
+    } catch (error) {
+      // A refresh that fails leaves the client with nothing usable
+      CookieHelper.clearAccessTokenCookie(res);
+      CookieHelper.clearRefreshTokenCookie(res);
+      throw error;
+    }
+  }
+
   @Post('logout')
-  logout(@Res() res: Response) {
-    // Clear the access token cookie
+  async logout(
+    @Body('refreshToken') bodyRefreshToken: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const refreshToken = this.getRefreshToken(req, bodyRefreshToken);
+    const result = await this.authService.logout(refreshToken);
+
+    // Clear the token cookies
     CookieHelper.clearAccessTokenCookie(res);
+    CookieHelper.clearRefreshTokenCookie(res);
+
+    return res.status(HttpStatus.OK).json(result);
+  }
+
+  /**
+   * List the current user's active sessions (signed-in devices)
+   * GET /api/v1/auth/sessions
+   */
+  @Get('sessions')
+  @UseGuards(AuthGuard)
+  async getSessions(@Req() req: Request, @Res() res: Response) {
+    const sessions = await this.authService.getSessions(
+      req.user.id,
+      req.user.sessionId,
+    );
 
     return res.status(HttpStatus.OK).json({
-      message: 'Logged out successfully',
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: sessions,
     });
   }
 
+  /**
+   * Revoke all sessions ("log out everywhere")
+   * DELETE /api/v1/auth/sessions?keepCurrent=true
+   */
+  @Delete('sessions')
+  @UseGuards(AuthGuard)
+  async revokeAllSessions(
+    @Query('keepCurrent') keepCurrent: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const keepCurrentSession = keepCurrent === 'true';
+    const result = await this.authService.revokeAllSessions(
+      req.user.id,
+      keepCurrentSession ? req.user.sessionId : undefined,
+    );
+
+    if (!keepCurrentSession) {
+      CookieHelper.clearAccessTokenCookie(res);
+      CookieHelper.clearRefreshTokenCookie(res);
+    }
+
+    return res.status(HttpStatus.OK).json({ success: true, ...result });
+  }
+
+  /**
+   * Revoke a single session (log out one device)
+   * DELETE /api/v1/auth/sessions/:id
+   */
+  @Delete('sessions/:id')
+  @UseGuards(AuthGuard)
+  async revokeSession(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.authService.revokeSession(id, req.user.id);
+    return res.status(HttpStatus.OK).json(result);
+  }
+
   @Get('get-logged-in-user')
   @UseGuards(AuthGuard)
   getProfile(@Req() req: Request) {
@@ -94,12 +393,36 @@ export class AuthController {
     return res.status(HttpStatus.OK).json(result);
   }
 
+  @Post('unlock-account')
+  async unlockAccount(
+    @Body(ValidationPipe) unlockAccountDto: UnlockAccountDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.authService.unlockAccount(unlockAccountDto);
+    return res.status(HttpStatus.OK).json(result);
+  }
+
   @Post('verify-email')
   async verifyEmail(@Body('token') token: string, @Res() res: Response) {
     const result = await this.authService.verifyEmail(token);
     return res.status(HttpStatus.OK).json(result);
   }
 
+  /**
+   * Confirm an email change from the link sent to the new address
+   * POST /api/v1/auth/confirm-email-change
+   */
+  @Post('confirm-email-change')
+  async confirmEmailChange(
+    @Body(ValidationPipe) confirmEmailChangeDto: ConfirmEmailChangeDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.usersService.confirmEmailChange(
+      confirmEmailChangeDto,
+    );
+    return res.status(HttpStatus.OK).json({ success: true, ...result });
+  }
+
   @Post('resend-verification')
   async resendVerification(@Body('email') email: string, @Res() res: Response) {
     const result = await this.authService.resendVerificationEmail(email);
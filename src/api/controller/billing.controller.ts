@@ -0,0 +1,237 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { BillingService } from '../services/billing.service';
+import {
+  AlignerPriceQueryDto,
+  BillingHistoryQueryDto,
+  InvoiceQueryDto,
+  UpdateInvoicePaymentDto,
+  UpsertAlignerPriceDto,
+} from '../dto/billing.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+@Controller('billing')
+@UseGuards(AuthGuard)
+export class BillingController {
+  constructor(private readonly billingService: BillingService) {}
+
+  // ---- Price lists ----
+
+  /**
+   * Aligner package prices for the current dentist
+   * GET /api/v1/billing/prices/me
+   */
+  @Get('prices/me')
+  async getMyPrices(@Req() req: Request, @Res() res: Response) {
+    const prices = await this.billingService.getEffectivePrices(req.user.id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Prices retrieved successfully',
+      data: prices,
+    });
+  }
+
+  /**
+   * Default price list, or one dentist's overrides (Admin only)
+   * GET /api/v1/billing/prices
+   */
+  @Get('prices')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(RolesGuard)
+  async getPrices(
+    @Query(ValidationPipe) query: AlignerPriceQueryDto,
+    @Res() res: Response,
+  ) {
+    const prices = await this.billingService.getPrices(query.dentistId);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Prices retrieved successfully',
+      data: prices,
+    });
+  }
+
+  /**
+   * Set a package price, for everyone or for one dentist (Admin only)
+   * PUT /api/v1/billing/prices
+   */
+  @Put('prices')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(RolesGuard)
+  async upsertPrice(
+    @Body(ValidationPipe) upsertAlignerPriceDto: UpsertAlignerPriceDto,
+    @Res() res: Response,
+  ) {
+    const price = await this.billingService.upsertPrice(upsertAlignerPriceDto);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Price saved successfully',
+      data: price,
+    });
+  }
+
+  /**
+   * Remove a price; a dentist falls back to the default (Admin only)
+   * DELETE /api/v1/billing/prices/:id
+   */
+  @Delete('prices/:id')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(RolesGuard)
+  async deletePrice(@Param('id') id: string, @Res() res: Response) {
+    const result = await this.billingService.deletePrice(id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+
+  // ---- Invoices ----
+
+  /**
+   * The current dentist's invoices with paid and outstanding totals
+   * GET /api/v1/billing/history
+   */
+  @Get('history')
+  async getBillingHistory(
+    @Query(ValidationPipe) query: BillingHistoryQueryDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.billingService.getBillingHistory(
+      { id: req.user.id, role: req.user.role },
+      query,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Billing history retrieved successfully',
+      data: result.data,
+      summary: result.summary,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * All invoices (Admin only)
+   * GET /api/v1/billing/invoices
+   */
+  @Get('invoices')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(RolesGuard)
+  async getInvoices(
+    @Query(ValidationPipe) query: InvoiceQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.billingService.getInvoices(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Invoices retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * Invoice the latest approved plan of a case by hand (Admin only)
+   * POST /api/v1/billing/invoices/cases/:caseId
+   */
+  @Post('invoices/cases/:caseId')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(RolesGuard)
+  async issueInvoice(@Param('caseId') caseId: string, @Res() res: Response) {
+    const invoice = await this.billingService.issueForApprovedPlan(caseId);
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Invoice issued successfully',
+      data: invoice,
+    });
+  }
+
+  /**
+   * Download an invoice as PDF (its dentist or Admin)
+   * GET /api/v1/billing/invoices/:id/pdf
+   */
+  @Get('invoices/:id/pdf')
+  async getInvoicePdf(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const { fileName, pdf } = await this.billingService.getInvoicePdf(id, {
+      id: req.user.id,
+      role: req.user.role,
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.status(HttpStatus.OK).send(pdf);
+  }
+
+  /**
+   * A single invoice (its dentist or Admin)
+   * GET /api/v1/billing/invoices/:id
+   */
+  @Get('invoices/:id')
+  async getInvoice(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const invoice = await this.billingService.getInvoice(id, {
+      id: req.user.id,
+      role: req.user.role,
+    });
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Invoice retrieved successfully',
+      data: invoice,
+    });
+  }
+
+  /**
+   * Mark an issued invoice as paid, or void it (Admin only)
+   * PATCH /api/v1/billing/invoices/:id/payment
+   */
+  @Patch('invoices/:id/payment')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(RolesGuard)
+  async updatePayment(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateInvoicePaymentDto: UpdateInvoicePaymentDto,
+    @Res() res: Response,
+  ) {
+    const invoice = await this.billingService.updatePayment(
+      id,
+      updateInvoicePaymentDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: `Invoice marked as ${invoice.status}`,
+      data: invoice,
+    });
+  }
+}
@@ -23,15 +23,16 @@ import {
   PublishBlogDto,
   BlogServiceQuery,
 } from '../dto/blog.dto';
-import { AuthGuard, UserRole } from '../../guards/auth.guard';
-import { RolesGuard, Roles } from '../../guards/role.guard';
+import { AuthGuard, OptionalAuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
 
 @Controller('blogs')
 export class BlogController {
   constructor(private readonly blogService: BlogService) {}
 
   @Post()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async createBlog(
     @Body(ValidationPipe) createBlogDto: CreateBlogDto,
@@ -51,7 +52,7 @@ export class BlogController {
    * GET /api/v1/blogs/admin
    */
   @Get()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getAllBlogsAdmin(@Query() query: BlogQueryDto, @Res() res: Response) {
     const result = await this.blogService.getAllBlogs(query);
@@ -69,7 +70,7 @@ export class BlogController {
    * GET /api/v1/blogs/admin/statistics
    */
   @Get('admin/statistics')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getBlogStatistics(@Res() res: Response) {
     const stats = await this.blogService.getBlogStatistics();
@@ -86,7 +87,7 @@ export class BlogController {
    * PUT /api/v1/blogs/:id
    */
   @Put(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async updateBlog(
     @Param('id') id: string,
@@ -113,7 +114,7 @@ export class BlogController {
    * PATCH /api/v1/blogs/:id/publish
    */
   @Patch(':id/publish')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async publishBlog(
     @Param('id') id: string,
@@ -134,7 +135,7 @@ export class BlogController {
    * PATCH /api/v1/blogs/:id/unpublish
    */
   @Patch(':id/unpublish')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async unpublishBlog(@Param('id') id: string, @Res() res: Response) {
     const blog = await this.blogService.unpublishBlog(id);
@@ -151,7 +152,7 @@ export class BlogController {
    * DELETE /api/v1/blogs/:id
    */
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async deleteBlog(
     @Param('id') id: string,
@@ -171,15 +172,14 @@ export class BlogController {
   }
 
   @Get(':id/admin')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getBlogByIdAdmin(
     @Param('id') id: string,
     @Req() req: Request,
     @Res() res: Response,
   ) {
-    const role = req.user.role;
-    const blog = await this.blogService.getBlogById(id, role);
+    const blog = await this.blogService.getBlogById(id, req.user);
 
     return res.status(HttpStatus.OK).json({
       success: true,
@@ -201,14 +201,22 @@ export class BlogController {
     return value === 'true';
   }
   @Get('public')
-  async getPublishedBlogs(@Query() query: BlogQueryDto, @Res() res: Response) {
+  @UseGuards(OptionalAuthGuard)
+  async getPublishedBlogs(
+    @Query() query: BlogQueryDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
     const isForDentist = this.parseBoolean(query.isForDentist);
 
     const serviceQuery: BlogServiceQuery = {
       ...query,
       isForDentist,
     };
-    const result = await this.blogService.getPublishedBlogs(serviceQuery);
+    const result = await this.blogService.getPublishedBlogs(
+      serviceQuery,
+      req.user,
+    );
 
     return res.status(HttpStatus.OK).json({
       success: true,
@@ -223,9 +231,11 @@ export class BlogController {
    * GET /api/v1/blogs/search?q=searchterm
    */
   @Get('search')
+  @UseGuards(OptionalAuthGuard)
   async searchBlogs(
     @Query('q') query: string,
     @Query() filters: BlogQueryDto,
+    @Req() req: Request,
     @Res() res: Response,
   ) {
     if (!query) {
@@ -235,7 +245,7 @@ export class BlogController {
       });
     }
 
-    const blogs = await this.blogService.searchBlogs(query, filters);
+    const blogs = await this.blogService.searchBlogs(query, filters, req.user);
 
     return res.status(HttpStatus.OK).json({
       success: true,
@@ -265,24 +275,13 @@ export class BlogController {
    * GET /api/v1/blogs/slug/:slug
    */
   @Get('slug/:slug')
+  @UseGuards(OptionalAuthGuard)
   async getBlogBySlug(
     @Param('slug') slug: string,
     @Req() req: Request,
     @Res() res: Response,
   ) {
-    // Check if user is authenticated and get their role
-    let userRole: UserRole | undefined;
-    try {
-      const token = req.cookies?.access_token;
-
-      if (token && req.user) {
-        userRole = req.user.role;
-      }
-    } catch (error) {
-      // User is not authenticated, continue as public user
-    }
-
-    const blog = await this.blogService.getBlogBySlug(slug, userRole);
+    const blog = await this.blogService.getBlogBySlug(slug, req.user);
 
     return res.status(HttpStatus.OK).json({
       success: true,
@@ -296,12 +295,13 @@ export class BlogController {
    * GET /api/v1/blogs/:id
    */
   @Get(':id')
+  @UseGuards(OptionalAuthGuard)
   async getBlogById(
     @Param('id') id: string,
     @Req() req: Request,
     @Res() res: Response,
   ) {
-    const blog = await this.blogService.getBlogById(id, UserRole.USER);
+    const blog = await this.blogService.getBlogById(id, req.user);
 
     return res.status(HttpStatus.OK).json({
       success: true,
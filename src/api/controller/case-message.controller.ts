@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFiles,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import { CaseMessageService } from '../services/case-message.service';
+import {
+  CaseInboxQueryDto,
+  CaseMessageQueryDto,
+  CreateCaseMessageDto,
+} from '../dto/case-message.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+@Controller('aligner-cases')
+@UseGuards(AuthGuard)
+export class CaseMessageController {
+  constructor(private readonly caseMessageService: CaseMessageService) {}
+
+  /**
+   * Message threads across all cases, most recent first (Admin only)
+   * GET /api/v1/aligner-cases/messages/inbox?unreadOnly=true
+   */
+  @Get('messages/inbox')
+  @RequirePermissions(Permission.CASES_MANAGE)
+  @UseGuards(RolesGuard)
+  async getInbox(
+    @Query(ValidationPipe) query: CaseInboxQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.caseMessageService.getInbox(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Inbox retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * Messages on a case, newest first. Opening the thread marks the other
+   * side's messages as read.
+   * GET /api/v1/aligner-cases/:caseId/messages
+   */
+  @Get(':caseId/messages')
+  async getThread(
+    @Param('caseId') caseId: string,
+    @Query(ValidationPipe) query: CaseMessageQueryDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.caseMessageService.getThread(
+      caseId,
+      { id: req.user.id, role: req.user.role },
+      query,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Messages retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * Post a message, with optional `attachments` files
+   * POST /api/v1/aligner-cases/:caseId/messages
+   */
+  @Post(':caseId/messages')
+  @UseInterceptors(
+    FilesInterceptor('attachments', CaseMessageService.MAX_ATTACHMENTS, {
+      limits: {
+        fileSize: CaseMessageService.MAX_ATTACHMENT_SIZE,
+      },
+    }),
+  )
+  async sendMessage(
+    @Param('caseId') caseId: string,
+    @Body(ValidationPipe) createCaseMessageDto: CreateCaseMessageDto,
+    @UploadedFiles() attachments: Express.Multer.File[] | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const message = await this.caseMessageService.sendMessage(
+      caseId,
+      { id: req.user.id, role: req.user.role },
+      createCaseMessageDto,
+      attachments ?? [],
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Message sent successfully',
+      data: message,
+    });
+  }
+}
@@ -28,8 +28,9 @@ import {
   Gender,
 } from '../dto/casestudy.dto';
 import { ImageKitService } from '../services/imagekit.service';
-import { AuthGuard, UserRole } from 'src/guards/auth.guard';
-import { Roles, RolesGuard } from 'src/guards/role.guard';
+import { AuthGuard } from 'src/guards/auth.guard';
+import { RequirePermissions, RolesGuard } from 'src/guards/role.guard';
+import { Permission } from 'src/guards/permissions';
 
 @Controller('case-studies')
 export class CaseStudyController {
@@ -50,7 +51,7 @@ export class CaseStudyController {
    * POST /api/v1/case-studies
    */
   @Post()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileFieldsInterceptor([
@@ -194,7 +195,7 @@ export class CaseStudyController {
    * GET /api/v1/case-studies/admin
    */
   @Get('admin')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getAllCaseStudiesAdmin(
     @Query() query: CaseStudyQueryDto,
@@ -222,7 +223,7 @@ export class CaseStudyController {
    * PUT /api/v1/case-studies/:id
    */
   @Put(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileFieldsInterceptor([
@@ -368,7 +369,7 @@ export class CaseStudyController {
    * DELETE /api/v1/case-studies/:id
    */
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async deleteCaseStudy(@Param('id') id: string, @Res() res: Response) {
     try {
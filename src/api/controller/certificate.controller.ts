@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Get,
+  Param,
+  UseGuards,
+  Req,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { CertificateService } from '../services/certificate.service';
+import { AuthGuard } from '../../guards/auth.guard';
+
+@Controller('certificates')
+export class CertificateController {
+  constructor(private readonly certificateService: CertificateService) {}
+
+  /**
+   * Confirm a certificate is authentic by its serial (Public)
+   * GET /api/v1/certificates/verify/:serial
+   */
+  @Get('verify/:serial')
+  async verify(@Param('serial') serial: string, @Res() res: Response) {
+    const certificate = await this.certificateService.verify(serial);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Certificate is valid',
+      data: certificate,
+    });
+  }
+
+  /**
+   * The current user's certificates
+   * GET /api/v1/certificates/me
+   */
+  @Get('me')
+  @UseGuards(AuthGuard)
+  async getMyCertificates(@Req() req: Request, @Res() res: Response) {
+    const certificates = await this.certificateService.getMyCertificates(
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Certificates retrieved successfully',
+      data: certificates,
+    });
+  }
+
+  /**
+   * The certificate of a completed enrollment, with its PDF link
+   * GET /api/v1/certificates/enrollments/:enrollmentId
+   */
+  @Get('enrollments/:enrollmentId')
+  @UseGuards(AuthGuard)
+  async getForEnrollment(
+    @Param('enrollmentId') enrollmentId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const certificate = await this.certificateService.getForEnrollment(
+      enrollmentId,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Certificate retrieved successfully',
+      data: certificate,
+    });
+  }
+}
@@ -0,0 +1,348 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import { CourseCurriculumService } from '../services/course-curriculum.service';
+import {
+  CreateCourseModuleDto,
+  CreateLessonDto,
+  ReorderDto,
+  UpdateCourseModuleDto,
+  UpdateLessonDto,
+} from '../dto/course-curriculum.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+const LessonPdfInterceptor = FileInterceptor('pdf', {
+  limits: { fileSize: CourseCurriculumService.MAX_LESSON_PDF_SIZE },
+  fileFilter: (req, file, callback) => {
+    if (file.mimetype === 'application/pdf') {
+      callback(null, true);
+    } else {
+      callback(new BadRequestException('Lesson file must be a PDF'), false);
+    }
+  },
+});
+
+@Controller('courses')
+export class CourseCurriculumController {
+  constructor(
+    private readonly courseCurriculumService: CourseCurriculumService,
+  ) {}
+
+  // ==================== LEARNER ROUTES ====================
+
+  /**
+   * Modules and lesson titles of a published course (Public)
+   * GET /api/v1/courses/:courseId/outline
+   */
+  @Get(':courseId/outline')
+  async getOutline(@Param('courseId') courseId: string, @Res() res: Response) {
+    const modules = await this.courseCurriculumService.getOutline(courseId);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Course outline retrieved successfully',
+      data: modules,
+    });
+  }
+
+  /**
+   * Full curriculum with the learner's completed lessons (Enrolled users)
+   * GET /api/v1/courses/:courseId/curriculum
+   */
+  @Get(':courseId/curriculum')
+  @UseGuards(AuthGuard)
+  async getCurriculum(
+    @Param('courseId') courseId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const curriculum = await this.courseCurriculumService.getLearnerCurriculum(
+      courseId,
+      req.user.id,
+      req.user.role,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Course curriculum retrieved successfully',
+      data: curriculum,
+    });
+  }
+
+  /**
+   * Mark a lesson as completed (Enrolled users)
+   * POST /api/v1/courses/:courseId/lessons/:lessonId/complete
+   */
+  @Post(':courseId/lessons/:lessonId/complete')
+  @UseGuards(AuthGuard)
+  async completeLesson(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const enrollment = await this.courseCurriculumService.completeLesson(
+      courseId,
+      lessonId,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Lesson completed',
+      data: enrollment,
+    });
+  }
+
+  /**
+   * Mark a lesson as not completed (Enrolled users)
+   * DELETE /api/v1/courses/:courseId/lessons/:lessonId/complete
+   */
+  @Delete(':courseId/lessons/:lessonId/complete')
+  @UseGuards(AuthGuard)
+  async uncompleteLesson(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const enrollment = await this.courseCurriculumService.uncompleteLesson(
+      courseId,
+      lessonId,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Lesson marked as not completed',
+      data: enrollment,
+    });
+  }
+
+  // ==================== ADMIN ROUTES ====================
+
+  /**
+   * Add a module at the end of the course (Admin only)
+   * POST /api/v1/courses/:courseId/modules
+   */
+  @Post(':courseId/modules')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async createModule(
+    @Param('courseId') courseId: string,
+    @Body(ValidationPipe) createCourseModuleDto: CreateCourseModuleDto,
+    @Res() res: Response,
+  ) {
+    const courseModule = await this.courseCurriculumService.createModule(
+      courseId,
+      createCourseModuleDto,
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Module created successfully',
+      data: courseModule,
+    });
+  }
+
+  /**
+   * Reorder the modules of a course (Admin only)
+   * PATCH /api/v1/courses/:courseId/modules/reorder
+   */
+  @Patch(':courseId/modules/reorder')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async reorderModules(
+    @Param('courseId') courseId: string,
+    @Body(ValidationPipe) reorderDto: ReorderDto,
+    @Res() res: Response,
+  ) {
+    const modules = await this.courseCurriculumService.reorderModules(
+      courseId,
+      reorderDto.ids,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Modules reordered successfully',
+      data: modules,
+    });
+  }
+
+  /**
+   * Update a module (Admin only)
+   * PUT /api/v1/courses/:courseId/modules/:moduleId
+   */
+  @Put(':courseId/modules/:moduleId')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async updateModule(
+    @Param('courseId') courseId: string,
+    @Param('moduleId') moduleId: string,
+    @Body(ValidationPipe) updateCourseModuleDto: UpdateCourseModuleDto,
+    @Res() res: Response,
+  ) {
+    const courseModule = await this.courseCurriculumService.updateModule(
+      courseId,
+      moduleId,
+      updateCourseModuleDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Module updated successfully',
+      data: courseModule,
+    });
+  }
+
+  /**
+   * Delete a module and its lessons (Admin only)
+   * DELETE /api/v1/courses/:courseId/modules/:moduleId
+   */
+  @Delete(':courseId/modules/:moduleId')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async deleteModule(
+    @Param('courseId') courseId: string,
+    @Param('moduleId') moduleId: string,
+    @Res() res: Response,
+  ) {
+    const result = await this.courseCurriculumService.deleteModule(
+      courseId,
+      moduleId,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+
+  /**
+   * Add a lesson at the end of a module (Admin only). Multipart, with a
+   * `pdf` file for PDF lessons.
+   * POST /api/v1/courses/:courseId/modules/:moduleId/lessons
+   */
+  @Post(':courseId/modules/:moduleId/lessons')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  @UseInterceptors(LessonPdfInterceptor)
+  async createLesson(
+    @Param('courseId') courseId: string,
+    @Param('moduleId') moduleId: string,
+    @Body(ValidationPipe) createLessonDto: CreateLessonDto,
+    @UploadedFile() pdf: Express.Multer.File | undefined,
+    @Res() res: Response,
+  ) {
+    const lesson = await this.courseCurriculumService.createLesson(
+      courseId,
+      moduleId,
+      createLessonDto,
+      pdf,
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Lesson created successfully',
+      data: lesson,
+    });
+  }
+
+  /**
+   * Reorder a module's lessons, moving lessons in from other modules
+   * (Admin only)
+   * PATCH /api/v1/courses/:courseId/modules/:moduleId/lessons/reorder
+   */
+  @Patch(':courseId/modules/:moduleId/lessons/reorder')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async reorderLessons(
+    @Param('courseId') courseId: string,
+    @Param('moduleId') moduleId: string,
+    @Body(ValidationPipe) reorderDto: ReorderDto,
+    @Res() res: Response,
+  ) {
+    const lessons = await this.courseCurriculumService.reorderLessons(
+      courseId,
+      moduleId,
+      reorderDto.ids,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Lessons reordered successfully',
+      data: lessons,
+    });
+  }
+
+  /**
+   * Update a lesson (Admin only). A new `pdf` file replaces the old one.
+   * PUT /api/v1/courses/:courseId/lessons/:lessonId
+   */
+  @Put(':courseId/lessons/:lessonId')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  @UseInterceptors(LessonPdfInterceptor)
+  async updateLesson(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Body(ValidationPipe) updateLessonDto: UpdateLessonDto,
+    @UploadedFile() pdf: Express.Multer.File | undefined,
+    @Res() res: Response,
+  ) {
+    const lesson = await this.courseCurriculumService.updateLesson(
+      courseId,
+      lessonId,
+      updateLessonDto,
+      pdf,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Lesson updated successfully',
+      data: lesson,
+    });
+  }
+
+  /**
+   * Delete a lesson (Admin only)
+   * DELETE /api/v1/courses/:courseId/lessons/:lessonId
+   */
+  @Delete(':courseId/lessons/:lessonId')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async deleteLesson(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Res() res: Response,
+  ) {
+    const result = await this.courseCurriculumService.deleteLesson(
+      courseId,
+      lessonId,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+}
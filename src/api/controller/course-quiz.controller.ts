@@ -0,0 +1,176 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { CourseQuizService } from '../services/course-quiz.service';
+import { SubmitQuizAttemptDto, UpsertQuizDto } from '../dto/course-quiz.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+@Controller('courses')
+export class CourseQuizController {
+  constructor(private readonly courseQuizService: CourseQuizService) {}
+
+  // ==================== LEARNER ROUTES ====================
+
+  /**
+   * A quiz lesson's questions, without answers (Enrolled users)
+   * GET /api/v1/courses/:courseId/lessons/:lessonId/quiz
+   */
+  @Get(':courseId/lessons/:lessonId/quiz')
+  @UseGuards(AuthGuard)
+  async getQuiz(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const quiz = await this.courseQuizService.getQuiz(
+      courseId,
+      lessonId,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Quiz retrieved successfully',
+      data: quiz,
+    });
+  }
+
+  /**
+   * Submit answers to be graded (Enrolled users)
+   * POST /api/v1/courses/:courseId/lessons/:lessonId/quiz/attempts
+   */
+  @Post(':courseId/lessons/:lessonId/quiz/attempts')
+  @UseGuards(AuthGuard)
+  async submitAttempt(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Body(ValidationPipe) submitQuizAttemptDto: SubmitQuizAttemptDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.courseQuizService.submitAttempt(
+      courseId,
+      lessonId,
+      req.user.id,
+      submitQuizAttemptDto,
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: result.passed ? 'Quiz passed' : 'Quiz not passed',
+      data: result,
+    });
+  }
+
+  /**
+   * The learner's attempts at a quiz (Enrolled users)
+   * GET /api/v1/courses/:courseId/lessons/:lessonId/quiz/attempts
+   */
+  @Get(':courseId/lessons/:lessonId/quiz/attempts')
+  @UseGuards(AuthGuard)
+  async getMyAttempts(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const attempts = await this.courseQuizService.getMyAttempts(
+      courseId,
+      lessonId,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Quiz attempts retrieved successfully',
+      data: attempts,
+    });
+  }
+
+  // ==================== ADMIN ROUTES ====================
+
+  /**
+   * A quiz with its correct answers, for editing (Admin only)
+   * GET /api/v1/courses/:courseId/lessons/:lessonId/quiz/manage
+   */
+  @Get(':courseId/lessons/:lessonId/quiz/manage')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getQuizForEditing(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Res() res: Response,
+  ) {
+    const quiz = await this.courseQuizService.getQuizForEditing(
+      courseId,
+      lessonId,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Quiz retrieved successfully',
+      data: quiz,
+    });
+  }
+
+  /**
+   * Create or replace the quiz of a quiz lesson (Admin only)
+   * PUT /api/v1/courses/:courseId/lessons/:lessonId/quiz
+   */
+  @Put(':courseId/lessons/:lessonId/quiz')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async upsertQuiz(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Body(ValidationPipe) upsertQuizDto: UpsertQuizDto,
+    @Res() res: Response,
+  ) {
+    const quiz = await this.courseQuizService.upsertQuiz(
+      courseId,
+      lessonId,
+      upsertQuizDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Quiz saved successfully',
+      data: quiz,
+    });
+  }
+
+  /**
+   * Delete a quiz and its attempts (Admin only)
+   * DELETE /api/v1/courses/:courseId/lessons/:lessonId/quiz
+   */
+  @Delete(':courseId/lessons/:lessonId/quiz')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async deleteQuiz(
+    @Param('courseId') courseId: string,
+    @Param('lessonId') lessonId: string,
+    @Res() res: Response,
+  ) {
+    const result = await this.courseQuizService.deleteQuiz(courseId, lessonId);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+}
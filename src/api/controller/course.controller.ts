@@ -27,8 +27,10 @@ import {
   CourseQueryDto,
   PublishCourseDto,
 } from '../dto/course.dto';
+import { CancelEnrollmentDto } from '../dto/refund.dto';
 import { AuthGuard, UserRole } from '../../guards/auth.guard';
-import { RolesGuard, Roles } from '../../guards/role.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission, hasPermission } from '../../guards/permissions';
 
 @Controller('courses')
 export class CourseController {
@@ -48,7 +50,7 @@ export class CourseController {
    * Create a new course (Admin only)
    * POST /api/v1/courses
    */ @Post()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileFieldsInterceptor([
@@ -224,7 +226,7 @@ export class CourseController {
    * GET /api/v1/courses/admin
    */
   @Get('admin')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getAllCoursesAdmin(
     @Query() query: CourseQueryDto,
@@ -245,7 +247,7 @@ export class CourseController {
    * GET /api/v1/courses/admin/statistics
    */
   @Get('admin/statistics')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getCourseStatistics(@Res() res: Response) {
     const stats = await this.courseService.getCourseStatistics();
@@ -261,7 +263,7 @@ export class CourseController {
    * PUT /api/v1/courses/:id
    */
   @Put(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileFieldsInterceptor([
@@ -453,7 +455,7 @@ export class CourseController {
    * PATCH /api/v1/courses/:id/publish
    */
   @Patch(':id/publish')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async publishCourse(
     @Param('id') id: string,
@@ -481,7 +483,7 @@ export class CourseController {
    * PATCH /api/v1/courses/:id/unpublish
    */
   @Patch(':id/unpublish')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async unpublishCourse(@Param('id') id: string, @Res() res: Response) {
     // Validate MongoDB ObjectID format
@@ -506,7 +508,7 @@ export class CourseController {
    * DELETE /api/v1/courses/:id
    */
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async deleteCourse(
     @Param('id') id: string,
@@ -643,7 +645,10 @@ export class CourseController {
     }
 
     // If course is not published and user is not admin, throw error
-    if (course.status !== 'PUBLISHED' && userRole !== UserRole.ADMIN) {
+    if (
+      course.status !== 'PUBLISHED' &&
+      !hasPermission(userRole, Permission.CONTENT_MANAGE)
+    ) {
       return res.status(HttpStatus.NOT_FOUND).json({
         success: false,
         message: 'Course not found',
@@ -715,14 +720,14 @@ export class CourseController {
   }
 
   /**
-   * Update enrollment progress (Authenticated users)
+   * Recalculate enrollment progress from completed lessons (Authenticated
+   * users). Any progress value in the body is ignored.
    * PATCH /api/v1/courses/enrollments/:id/progress
    */
   @Patch('enrollments/:id/progress')
   @UseGuards(AuthGuard)
   async updateEnrollmentProgress(
     @Param('id') enrollmentId: string,
-    @Body('progress') progress: number,
     @Req() req: Request,
     @Res() res: Response,
   ) {
@@ -737,7 +742,6 @@ export class CourseController {
     const enrollment = await this.courseService.updateEnrollmentProgress(
       enrollmentId,
       req.user.id,
-      progress,
     );
 
     return res.status(HttpStatus.OK).json({
@@ -748,13 +752,16 @@ export class CourseController {
   }
 
   /**
-   * Cancel enrollment (Authenticated users)
+   * Cancel enrollment (Authenticated users). Paid enrollments cancelled
+   * inside the refund policy open a refund request. Completed courses
+   * cannot be cancelled.
    * DELETE /api/v1/courses/enrollments/:id
    */
   @Delete('enrollments/:id')
   @UseGuards(AuthGuard)
   async cancelEnrollment(
     @Param('id') enrollmentId: string,
+    @Body(ValidationPipe) cancelEnrollmentDto: CancelEnrollmentDto,
     @Req() req: Request,
     @Res() res: Response,
   ) {
@@ -766,11 +773,18 @@ export class CourseController {
       });
     }
 
-    await this.courseService.cancelEnrollment(enrollmentId, req.user.id);
+    const result = await this.courseService.cancelEnrollment(
+      enrollmentId,
+      req.user.id,
+      cancelEnrollmentDto.reason,
+    );
 
     return res.status(HttpStatus.OK).json({
       success: true,
-      message: 'Enrollment cancelled successfully',
+      message: result.refund
+        ? 'Enrollment cancelled; your refund request is awaiting review'
+        : 'Enrollment cancelled successfully',
+      data: result,
     });
   }
 
@@ -779,7 +793,7 @@ export class CourseController {
    * GET /api/v1/courses/:id/enrollments
    */
   @Get(':id/enrollments')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getCourseEnrollments(
     @Param('id') courseId: string,
@@ -0,0 +1,213 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { DentistProfileService } from '../services/dentist-profile.service';
+import {
+  CreateDentistProfileDto,
+  UpdateDentistProfileDto,
+  DentistQueryDto,
+} from '../dto/dentist.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+@Controller('dentist-profiles')
+export class DentistProfileController {
+  constructor(private readonly dentistProfileService: DentistProfileService) {}
+
+  // ==================== DENTIST ROUTES ====================
+
+  /**
+   * Create the logged-in dentist's clinic profile
+   * POST /api/v1/dentist-profiles/me
+   */
+  @Post('me')
+  @UseGuards(AuthGuard)
+  async createMyProfile(
+    @Body(ValidationPipe) createDentistProfileDto: CreateDentistProfileDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const profile = await this.dentistProfileService.createProfile(
+      req.user.id,
+      createDentistProfileDto,
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Dentist profile created successfully',
+      data: profile,
+    });
+  }
+
+  /**
+   * Get the logged-in dentist's clinic profile
+   * GET /api/v1/dentist-profiles/me
+   */
+  @Get('me')
+  @UseGuards(AuthGuard)
+  async getMyProfile(@Req() req: Request, @Res() res: Response) {
+    const profile = await this.dentistProfileService.getProfileByUserId(
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Dentist profile retrieved successfully',
+      data: profile,
+    });
+  }
+
+  /**
+   * Update the logged-in dentist's clinic profile
+   * PATCH /api/v1/dentist-profiles/me
+   */
+  @Patch('me')
+  @UseGuards(AuthGuard)
+  async updateMyProfile(
+    @Body(ValidationPipe) updateDentistProfileDto: UpdateDentistProfileDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const profile = await this.dentistProfileService.updateProfileByUserId(
+      req.user.id,
+      updateDentistProfileDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Dentist profile updated successfully',
+      data: profile,
+    });
+  }
+
+  /**
+   * Delete the logged-in dentist's clinic profile
+   * DELETE /api/v1/dentist-profiles/me
+   */
+  @Delete('me')
+  @UseGuards(AuthGuard)
+  async deleteMyProfile(@Req() req: Request, @Res() res: Response) {
+    const result = await this.dentistProfileService.deleteProfileByUserId(
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+
+  // ==================== ADMIN ROUTES ====================
+
+  /**
+   * Get all dentist profiles with filtering and pagination (Admin only)
+   * GET /api/v1/dentist-profiles
+   */
+  @Get()
+  @RequirePermissions(Permission.USERS_READ)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getAllProfiles(
+    @Query(ValidationPipe) query: DentistQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.dentistProfileService.getAllProfiles(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Dentist profiles retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  // ==================== PUBLIC ROUTES ====================
+
+  /**
+   * Get a verified dentist's public clinic profile
+   * GET /api/v1/dentist-profiles/slug/:slug
+   */
+  @Get('slug/:slug')
+  async getPublicProfile(@Param('slug') slug: string, @Res() res: Response) {
+    const profile =
+      await this.dentistProfileService.getPublicProfileBySlug(slug);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Dentist profile retrieved successfully',
+      data: profile,
+    });
+  }
+
+  // ==================== ADMIN ROUTES (BY ID) ====================
+
+  /**
+   * Get a dentist profile by ID (Admin only)
+   * GET /api/v1/dentist-profiles/:id
+   */
+  @Get(':id')
+  @RequirePermissions(Permission.USERS_READ)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getProfileById(@Param('id') id: string, @Res() res: Response) {
+    const profile = await this.dentistProfileService.getProfileById(id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Dentist profile retrieved successfully',
+      data: profile,
+    });
+  }
+
+  /**
+   * Update a dentist profile (Admin only)
+   * PATCH /api/v1/dentist-profiles/:id
+   */
+  @Patch(':id')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async updateProfile(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateDentistProfileDto: UpdateDentistProfileDto,
+    @Res() res: Response,
+  ) {
+    const profile = await this.dentistProfileService.updateProfileById(
+      id,
+      updateDentistProfileDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Dentist profile updated successfully',
+      data: profile,
+    });
+  }
+
+  /**
+   * Delete a dentist profile (Admin only)
+   * DELETE /api/v1/dentist-profiles/:id
+   */
+  @Delete(':id')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async deleteProfile(@Param('id') id: string, @Res() res: Response) {
+    const result = await this.dentistProfileService.deleteProfileById(id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+}
@@ -27,8 +27,13 @@ import {
   EbookQueryDto,
   PublishEbookDto,
 } from '../dto/ebook.dto';
-import { AuthGuard, UserRole } from '../../guards/auth.guard';
-import { RolesGuard, Roles } from '../../guards/role.guard';
+import {
+  AuthGuard,
+  OptionalAuthGuard,
+  UserRole,
+} from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission, hasPermission } from '../../guards/permissions';
 
 @Controller('ebooks')
 export class EbookController {
@@ -47,7 +52,7 @@ export class EbookController {
    * POST /api/v1/ebooks
    */
   @Post()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileFieldsInterceptor([
@@ -185,7 +190,7 @@ export class EbookController {
    * GET /api/v1/ebooks/admin
    */
   @Get('admin')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getAllEbooksAdmin(@Query() query: EbookQueryDto, @Res() res: Response) {
     const result = await this.ebookService.getAllEbooks(query);
@@ -203,7 +208,7 @@ export class EbookController {
    * GET /api/v1/ebooks/admin/statistics
    */
   @Get('admin/statistics')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getEbookStatistics(@Res() res: Response) {
     const stats = await this.ebookService.getEbookStatistics();
@@ -219,7 +224,7 @@ export class EbookController {
    * PUT /api/v1/ebooks/:id
    */
   @Put(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileFieldsInterceptor([
@@ -361,7 +366,7 @@ export class EbookController {
    * PATCH /api/v1/ebooks/:id/publish
    */
   @Patch(':id/publish')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async publishEbook(
     @Param('id') id: string,
@@ -388,7 +393,7 @@ export class EbookController {
    * PATCH /api/v1/ebooks/:id/unpublish
    */
   @Patch(':id/unpublish')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async unpublishEbook(@Param('id') id: string, @Res() res: Response) {
     if (!this.isValidObjectId(id)) {
@@ -411,7 +416,7 @@ export class EbookController {
    * DELETE /api/v1/ebooks/:id
    */
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async deleteEbook(
     @Param('id') id: string,
@@ -485,6 +490,7 @@ export class EbookController {
   }
 
   @Get(':id/download')
+  @UseGuards(OptionalAuthGuard)
   async downloadEbook(
     @Param('id') id: string,
     @Req() req: Request,
@@ -496,16 +502,11 @@ export class EbookController {
         message: 'Invalid course ID format',
       });
     }
-    let userId: string | undefined;
-    try {
-      if (req.user) {
-        userId = req.user.id;
-      }
-    } catch (error) {
-      // User is not authenticated, continue as anonymous
-    }
-
-    const downloadInfo = await this.ebookService.downloadEbook(id, userId);
+    const downloadInfo = await this.ebookService.downloadEbook(
+      id,
+      req.user?.id,
+      req.user?.role,
+    );
 
     return res.status(HttpStatus.OK).json({
       success: true,
@@ -540,7 +541,10 @@ export class EbookController {
     }
 
     // If ebook is not published and user is not admin, throw error
-    if (ebook.status !== 'PUBLISHED' && userRole !== UserRole.ADMIN) {
+    if (
+      ebook.status !== 'PUBLISHED' &&
+      !hasPermission(userRole, Permission.CONTENT_MANAGE)
+    ) {
       return res.status(HttpStatus.NOT_FOUND).json({
         success: false,
         message: 'Ebook not found',
@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  ParseEnumPipe,
+  Query,
+  UseGuards,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { GeocodingJobService } from '../services/geocoding-job.service';
+import {
+  FixGeocodeAddressDto,
+  GeocodeFailuresQueryDto,
+  GeocodeTarget,
+  PinLocationDto,
+} from '../dto/geocoding.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+@Controller('geocoding')
+@RequirePermissions(Permission.MAP_MANAGE)
+@UseGuards(AuthGuard, RolesGuard)
+export class GeocodingController {
+  constructor(private readonly geocodingJobService: GeocodingJobService) {}
+
+  /**
+   * List users and map entries whose location could not be geocoded
+   * GET /api/v1/geocoding/failures?target=user|map_user
+   */
+  @Get('failures')
+  async getFailures(
+    @Query(ValidationPipe) query: GeocodeFailuresQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.geocodingJobService.getFailures(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Geocoding failures retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * Correct the address and queue it for geocoding again
+   * PATCH /api/v1/geocoding/failures/:target/:id/address
+   */
+  @Patch('failures/:target/:id/address')
+  async fixAddress(
+    @Param('target', new ParseEnumPipe(GeocodeTarget)) target: GeocodeTarget,
+    @Param('id') id: string,
+    @Body(ValidationPipe) fixGeocodeAddressDto: FixGeocodeAddressDto,
+    @Res() res: Response,
+  ) {
+    const record = await this.geocodingJobService.fixAddress(
+      target,
+      id,
+      fixGeocodeAddressDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Address updated and queued for geocoding',
+      data: record,
+    });
+  }
+
+  /**
+   * Set the map pin by hand
+   * PATCH /api/v1/geocoding/failures/:target/:id/pin
+   */
+  @Patch('failures/:target/:id/pin')
+  async pinLocation(
+    @Param('target', new ParseEnumPipe(GeocodeTarget)) target: GeocodeTarget,
+    @Param('id') id: string,
+    @Body(ValidationPipe) pinLocationDto: PinLocationDto,
+    @Res() res: Response,
+  ) {
+    const record = await this.geocodingJobService.pinLocation(
+      target,
+      id,
+      pinLocationDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Location pinned successfully',
+      data: record,
+    });
+  }
+
+  /**
+   * Queue the current address for geocoding again
+   * POST /api/v1/geocoding/failures/:target/:id/retry
+   */
+  @Post('failures/:target/:id/retry')
+  async retry(
+    @Param('target', new ParseEnumPipe(GeocodeTarget)) target: GeocodeTarget,
+    @Param('id') id: string,
+    @Res() res: Response,
+  ) {
+    const record = await this.geocodingJobService.retry(target, id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Location queued for geocoding',
+      data: record,
+    });
+  }
+}
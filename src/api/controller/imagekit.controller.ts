@@ -15,10 +15,11 @@ import {
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ImageKitService } from '../services/imagekit.service';
-import { AuthGuard, UserRole } from 'src/guards/auth.guard';
-import { Roles, RolesGuard } from 'src/guards/role.guard';
+import { AuthGuard } from 'src/guards/auth.guard';
+import { RequirePermissions, RolesGuard } from 'src/guards/role.guard';
+import { Permission } from 'src/guards/permissions';
 
-@Roles(UserRole.ADMIN)
+@RequirePermissions(Permission.MEDIA_MANAGE)
 @UseGuards(AuthGuard, RolesGuard)
 @Controller('image-kit')
 export class ImageKitController {
@@ -28,7 +29,7 @@ export class ImageKitController {
    * Upload a file to ImageKit
    */
   @Post('upload')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MEDIA_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(FileInterceptor('file'))
   async uploadFile(
@@ -60,7 +61,7 @@ export class ImageKitController {
    * Upload a file from URL
    */
   @Post('upload-from-url')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MEDIA_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async uploadFromUrl(
     @Body('url') url: string,
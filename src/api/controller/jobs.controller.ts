@@ -0,0 +1,60 @@
+import { Controller, Get, UseGuards, HttpStatus, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { GeocodingJobService } from '../services/geocoding-job.service';
+import { CaseMessageService } from '../services/case-message.service';
+import { ShipmentService } from '../services/shipment.service';
+import { CronGuard } from '../../guards/cron.guard';
+
+// One pass of each background job, for deployments where in-process timers
+// do not run (see jobTimersEnabled). Vercel Cron calls these with GET.
+@Controller('jobs')
+@UseGuards(CronGuard)
+export class JobsController {
+  constructor(
+    private readonly geocodingJobService: GeocodingJobService,
+    private readonly caseMessageService: CaseMessageService,
+    private readonly shipmentService: ShipmentService,
+  ) {}
+
+  /**
+   * Geocode queued addresses (Cron only)
+   * GET /api/v1/jobs/geocoding
+   */
+  @Get('geocoding')
+  async processGeocodingJobs(@Res() res: Response) {
+    await this.geocodingJobService.processDueJobs();
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Geocoding jobs processed',
+    });
+  }
+
+  /**
+   * Email digests of unread case messages (Cron only)
+   * GET /api/v1/jobs/case-message-digests
+   */
+  @Get('case-message-digests')
+  async sendCaseMessageDigests(@Res() res: Response) {
+    await this.caseMessageService.sendDigests();
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Case message digests sent',
+    });
+  }
+
+  /**
+   * Ask carriers about shipments still on the road (Cron only)
+   * GET /api/v1/jobs/shipment-tracking
+   */
+  @Get('shipment-tracking')
+  async pollCarriers(@Res() res: Response) {
+    await this.shipmentService.pollCarriers();
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Shipment tracking polled',
+    });
+  }
+}
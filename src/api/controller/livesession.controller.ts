@@ -22,7 +22,8 @@ import {
   LiveSessionQueryDto,
 } from '../dto/livesession.dto';
 import { AuthGuard, UserRole } from '../../guards/auth.guard';
-import { RolesGuard, Roles } from '../../guards/role.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission, hasPermission } from '../../guards/permissions';
 
 @Controller('live-sessions')
 @UseGuards(AuthGuard)
@@ -35,7 +36,7 @@ export class LiveSessionController {
    * POST /api/v1/live-sessions
    */
   @Post()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(RolesGuard)
   async createLiveSession(
     @Body(ValidationPipe) createSessionDto: CreateLiveSessionDto,
@@ -57,7 +58,7 @@ export class LiveSessionController {
    * GET /api/v1/live-sessions/admin
    */
   @Get('admin')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(RolesGuard)
   async getAllLiveSessionsAdmin(
     @Query() query: LiveSessionQueryDto,
@@ -77,7 +78,7 @@ export class LiveSessionController {
    * GET /api/v1/live-sessions/admin/statistics
    */
   @Get('admin/statistics')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(RolesGuard)
   async getLiveSessionStatistics(@Res() res: Response) {
     const stats = await this.liveSessionService.getLiveSessionStatistics();
@@ -92,7 +93,7 @@ export class LiveSessionController {
    * PUT /api/v1/live-sessions/:id
    */
   @Put(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(RolesGuard)
   async updateLiveSession(
     @Param('id') id: string,
@@ -124,7 +125,7 @@ export class LiveSessionController {
    * PATCH /api/v1/live-sessions/:id/start
    */
   @Patch(':id/start')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(RolesGuard)
   async startLiveSession(@Param('id') id: string, @Res() res: Response) {
     const session = await this.liveSessionService.startLiveSession(id);
@@ -140,7 +141,7 @@ export class LiveSessionController {
    * PATCH /api/v1/live-sessions/:id/end
    */
   @Patch(':id/end')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(RolesGuard)
   async endLiveSession(@Param('id') id: string, @Res() res: Response) {
     const session = await this.liveSessionService.endLiveSession(id);
@@ -156,7 +157,7 @@ export class LiveSessionController {
    * PATCH /api/v1/live-sessions/:id/cancel
    */
   @Patch(':id/cancel')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(RolesGuard)
   async cancelLiveSession(@Param('id') id: string, @Res() res: Response) {
     const session = await this.liveSessionService.cancelLiveSession(id);
@@ -172,7 +173,7 @@ export class LiveSessionController {
    * DELETE /api/v1/live-sessions/:id
    */
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseGuards(RolesGuard)
   async deleteLiveSession(
     @Param('id') id: string,
@@ -303,7 +304,10 @@ export class LiveSessionController {
     }
 
     // If session is not active and user is not admin, throw error
-    if (!session.isActive && userRole !== UserRole.ADMIN) {
+    if (
+      !session.isActive &&
+      !hasPermission(userRole, Permission.CONTENT_MANAGE)
+    ) {
       return res.status(HttpStatus.NOT_FOUND).json({
         success: false,
         message: 'Live session not found',
@@ -14,20 +14,34 @@ import {
   Res,
   Patch,
   BadRequestException,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Request, Response } from 'express';
 import { MapUsersService } from '../services/mapusers.service';
+import { MapUserLinkService } from '../services/map-user-link.service';
 import {
   CreateMapUserDto,
   UpdateMapUserDto,
   MapUserQueryDto,
+  DuplicateQueryDto,
+  MergeMapUserDto,
+  ClaimMapUserDto,
+  ClaimQueryDto,
+  ClaimDecisionDto,
+  ClaimStatus,
 } from '../dto/mapusers.dto';
-import { AuthGuard, UserRole } from '../../guards/auth.guard';
-import { RolesGuard, Roles } from '../../guards/role.guard';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
 
 @Controller('map-users')
 export class MapUsersController {
-  constructor(private readonly mapUsersService: MapUsersService) {}
+  constructor(
+    private readonly mapUsersService: MapUsersService,
+    private readonly mapUserLinkService: MapUserLinkService,
+  ) {}
 
   // Helper method to validate MongoDB ObjectID
   private isValidObjectId(id: string): boolean {
@@ -40,7 +54,7 @@ export class MapUsersController {
    * POST /api/v1/map-users
    */
   @Post()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MAP_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async createMapUser(
     @Body(ValidationPipe) createMapUserDto: CreateMapUserDto,
@@ -68,7 +82,7 @@ export class MapUsersController {
    * GET /api/v1/map-users/admin
    */
   @Get('admin')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MAP_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getAllMapUsersAdmin(
     @Query() query: MapUserQueryDto,
@@ -97,7 +111,7 @@ export class MapUsersController {
    * GET /api/v1/map-users/admin/statistics
    */
   @Get('admin/statistics')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MAP_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getMapUsersStatistics(@Res() res: Response) {
     try {
@@ -117,12 +131,70 @@ export class MapUsersController {
     }
   }
 
+  /**
+   * Import map users from a CSV or XLSX spreadsheet (Admin only)
+   * POST /api/v1/map-users/import
+   */
+  @Post('import')
+  @RequirePermissions(Permission.MAP_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: MapUsersService.MAX_IMPORT_FILE_SIZE,
+      },
+    }),
+  )
+  async importMapUsers(
+    @UploadedFile() file: Express.Multer.File,
+    @Res() res: Response,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Please upload a CSV or XLSX file');
+    }
+
+    const report = await this.mapUsersService.importMapUsers(file);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: `Imported ${report.summary.created} of ${report.summary.total} rows`,
+      data: report,
+    });
+  }
+
+  /**
+   * Download the filtered admin list as CSV (Admin only)
+   * GET /api/v1/map-users/export
+   */
+  @Get('export')
+  @RequirePermissions(Permission.MAP_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async exportMapUsers(@Query() query: MapUserQueryDto, @Res() res: Response) {
+    const fileName = `map-users-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    try {
+      for await (const line of this.mapUsersService.exportMapUsers(query)) {
+        res.write(line);
+      }
+      res.end();
+    } catch (error) {
+      console.error('Export map users error:', error);
+      // Headers are already sent; cut the download short so it is not
+      // mistaken for a complete file
+      res.destroy(error);
+    }
+  }
+
   /**
    * Get map user by ID (Admin only)
    * GET /api/v1/map-users/:id/admin
    */
   @Get(':id/admin')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MAP_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async getMapUserByIdAdmin(@Param('id') id: string, @Res() res: Response) {
     try {
@@ -161,7 +233,7 @@ export class MapUsersController {
    * PUT /api/v1/map-users/:id
    */
   @Put(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MAP_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async updateMapUser(
     @Param('id') id: string,
@@ -207,7 +279,7 @@ export class MapUsersController {
    * PATCH /api/v1/map-users/:id/toggle-visibility
    */
   @Patch(':id/toggle-visibility')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MAP_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async toggleMapUserVisibility(
     @Param('id') id: string,
@@ -248,6 +320,12 @@ export class MapUsersController {
           message: error.message,
         });
       }
+      if (error instanceof BadRequestException) {
+        return res.status(HttpStatus.BAD_REQUEST).json({
+          success: false,
+          message: error.message,
+        });
+      }
       return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
         success: false,
         message: error.message || 'Failed to toggle map user visibility',
@@ -260,7 +338,7 @@ export class MapUsersController {
    * DELETE /api/v1/map-users/:id
    */
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.MAP_MANAGE)
   @UseGuards(AuthGuard, RolesGuard)
   async deleteMapUser(@Param('id') id: string, @Res() res: Response) {
     try {
@@ -293,6 +371,176 @@ export class MapUsersController {
     }
   }
 
+  // ==================== DUPLICATES & MERGING ====================
+  /**
+   * List directory listings that look like registered dentists (Admin only)
+   * GET /api/v1/map-users/duplicates
+   */
+  @Get('duplicates')
+  @RequirePermissions(Permission.MAP_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async findDuplicates(
+    @Query(ValidationPipe) query: DuplicateQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.mapUserLinkService.findDuplicates(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Possible duplicates retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * Merge a directory listing into a dentist's account (Admin only)
+   * POST /api/v1/map-users/:id/merge
+   */
+  @Post(':id/merge')
+  @RequirePermissions(Permission.MAP_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async mergeMapUser(
+    @Param('id') id: string,
+    @Body(ValidationPipe) mergeMapUserDto: MergeMapUserDto,
+    @Res() res: Response,
+  ) {
+    const listing = await this.mapUserLinkService.mergeListing(
+      id,
+      mergeMapUserDto.userId,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Listing merged into the dentist account',
+      data: listing,
+    });
+  }
+
+  /**
+   * Undo a merge (Admin only)
+   * DELETE /api/v1/map-users/:id/link
+   */
+  @Delete(':id/link')
+  @RequirePermissions(Permission.MAP_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async unlinkMapUser(@Param('id') id: string, @Res() res: Response) {
+    const listing = await this.mapUserLinkService.unlinkListing(id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Listing unlinked from the dentist account',
+      data: listing,
+    });
+  }
+
+  // ==================== LISTING CLAIMS ====================
+  /**
+   * Directory listings that look like the logged-in dentist's clinic
+   * GET /api/v1/map-users/claimable
+   */
+  @Get('claimable')
+  @UseGuards(AuthGuard)
+  async getClaimableListings(@Req() req: Request, @Res() res: Response) {
+    const listings = await this.mapUserLinkService.findClaimableListings(
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Claimable listings retrieved successfully',
+      data: listings,
+    });
+  }
+
+  /**
+   * The logged-in dentist's listing claims
+   * GET /api/v1/map-users/me/claims
+   */
+  @Get('me/claims')
+  @UseGuards(AuthGuard)
+  async getMyClaims(@Req() req: Request, @Res() res: Response) {
+    const claims = await this.mapUserLinkService.getMyClaims(req.user.id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Claims retrieved successfully',
+      data: claims,
+    });
+  }
+
+  /**
+   * Ask to take over a directory listing (verified dentists only)
+   * POST /api/v1/map-users/:id/claim
+   */
+  @Post(':id/claim')
+  @UseGuards(AuthGuard)
+  async claimMapUser(
+    @Param('id') id: string,
+    @Body(ValidationPipe) claimMapUserDto: ClaimMapUserDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const claim = await this.mapUserLinkService.claimListing(
+      req.user.id,
+      id,
+      claimMapUserDto,
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Claim submitted for review',
+      data: claim,
+    });
+  }
+
+  /**
+   * Listing claims awaiting review (Admin only)
+   * GET /api/v1/map-users/claims
+   */
+  @Get('claims')
+  @RequirePermissions(Permission.MAP_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getClaims(
+    @Query(ValidationPipe) query: ClaimQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.mapUserLinkService.getClaims(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Claims retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * Approve or reject a listing claim (Admin only)
+   * PATCH /api/v1/map-users/claims/:claimId
+   */
+  @Patch('claims/:claimId')
+  @RequirePermissions(Permission.MAP_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async decideClaim(
+    @Param('claimId') claimId: string,
+    @Body(ValidationPipe) claimDecisionDto: ClaimDecisionDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const claim = await this.mapUserLinkService.decideClaim(
+      claimId,
+      claimDecisionDto,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: `Claim ${(claim.status as ClaimStatus) === ClaimStatus.APPROVED ? 'approved' : 'rejected'}`,
+      data: claim,
+    });
+  }
+
   // ==================== PUBLIC ROUTES ====================
   /**
    * Get all visible map users (Public access)
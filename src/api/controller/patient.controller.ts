@@ -0,0 +1,164 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { PatientService } from '../services/patient.service';
+import {
+  CreatePatientDto,
+  PatientQueryDto,
+  UpdatePatientDto,
+} from '../dto/patient.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+
+// A dentist's own patients; every route is scoped to the signed-in dentist
+@Controller('patients')
+@UseGuards(AuthGuard)
+export class PatientController {
+  constructor(private readonly patientService: PatientService) {}
+
+  /**
+   * Add a patient
+   * POST /api/v1/patients
+   */
+  @Post()
+  async createPatient(
+    @Body(ValidationPipe) createPatientDto: CreatePatientDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const patient = await this.patientService.createPatient(
+      { id: req.user.id, role: req.user.role },
+      createPatientDto,
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Patient created successfully',
+      data: patient,
+    });
+  }
+
+  /**
+   * List and search patients
+   * GET /api/v1/patients?search=
+   */
+  @Get()
+  async getPatients(
+    @Query(ValidationPipe) query: PatientQueryDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.patientService.getPatients(
+      { id: req.user.id, role: req.user.role },
+      query,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Patients retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * Aligner cases for a patient, newest first
+   * GET /api/v1/patients/:id/cases
+   */
+  @Get(':id/cases')
+  async getPatientCases(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const cases = await this.patientService.getPatientCases(
+      { id: req.user.id, role: req.user.role },
+      id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Patient cases retrieved successfully',
+      data: cases,
+    });
+  }
+
+  /**
+   * Get a patient
+   * GET /api/v1/patients/:id
+   */
+  @Get(':id')
+  async getPatient(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const patient = await this.patientService.getPatient(
+      { id: req.user.id, role: req.user.role },
+      id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Patient retrieved successfully',
+      data: patient,
+    });
+  }
+
+  /**
+   * Update a patient, including consent flags
+   * PUT /api/v1/patients/:id
+   */
+  @Put(':id')
+  async updatePatient(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updatePatientDto: UpdatePatientDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const patient = await this.patientService.updatePatient(
+      { id: req.user.id, role: req.user.role },
+      id,
+      updatePatientDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Patient updated successfully',
+      data: patient,
+    });
+  }
+
+  /**
+   * Delete a patient who has no aligner cases
+   * DELETE /api/v1/patients/:id
+   */
+  @Delete(':id')
+  async deletePatient(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.patientService.deletePatient(
+      { id: req.user.id, role: req.user.role },
+      id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+}
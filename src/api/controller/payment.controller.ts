@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { PaymentService } from '../services/payment.service';
+import { CheckoutDto } from '../dto/payment.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+
+@Controller('payments')
+export class PaymentController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  /**
+   * Start paying for a course, ebook or live session (Authenticated users)
+   * POST /api/v1/payments/checkout
+   */
+  @Post('checkout')
+  @UseGuards(AuthGuard)
+  async checkout(
+    @Body(ValidationPipe) checkoutDto: CheckoutDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const checkout = await this.paymentService.checkout(
+      checkoutDto,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Checkout started',
+      data: checkout,
+    });
+  }
+
+  /**
+   * Payment results from the gateway, verified by signature (Public)
+   * POST /api/v1/payments/webhook
+   */
+  @Post('webhook')
+  async handleWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
+  ) {
+    const signature = req.header(this.paymentService.webhookSignatureHeader());
+    const result = await this.paymentService.handleWebhook(
+      req.rawBody,
+      signature,
+      req.body,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.handled ? 'Webhook processed' : 'Webhook ignored',
+    });
+  }
+
+  /**
+   * The current user's orders
+   * GET /api/v1/payments/orders/me
+   */
+  @Get('orders/me')
+  @UseGuards(AuthGuard)
+  async getMyOrders(@Req() req: Request, @Res() res: Response) {
+    const orders = await this.paymentService.getMyOrders(req.user.id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Orders retrieved successfully',
+      data: orders,
+    });
+  }
+
+  /**
+   * A single order of the current user
+   * GET /api/v1/payments/orders/:id
+   */
+  @Get('orders/:id')
+  @UseGuards(AuthGuard)
+  async getOrder(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const order = await this.paymentService.getOrder(id, req.user.id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Order retrieved successfully',
+      data: order,
+    });
+  }
+}
@@ -16,8 +16,9 @@ import {
 import { AlignerProcessDto } from '../dto/alignerprocess.dto';
 import { AlignerProcessService } from '../services/alignerprocess.service';
 import { ImageKitService } from '../services/imagekit.service';
-import { AuthGuard, UserRole } from 'src/guards/auth.guard';
-import { Roles } from 'src/guards/role.guard';
+import { AuthGuard } from 'src/guards/auth.guard';
+import { RequirePermissions, RolesGuard } from 'src/guards/role.guard';
+import { Permission } from 'src/guards/permissions';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Request, Response } from 'express';
 
@@ -36,8 +37,8 @@ export class ProcessController {
   ) {}
 
   @Put('')
-  @Roles(UserRole.ADMIN)
-  @UseGuards(AuthGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileInterceptor('videoFile', {
       limits: {
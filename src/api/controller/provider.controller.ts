@@ -0,0 +1,37 @@
+import {
+  Controller,
+  Get,
+  Query,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { ProviderService } from '../services/provider.service';
+import { NearbyProvidersQueryDto } from '../dto/provider.dto';
+
+@Controller('providers')
+export class ProviderController {
+  constructor(private readonly providerService: ProviderService) {}
+
+  /**
+   * Find verified dentists and directory clinics near a point or PIN code
+   * GET /api/v1/providers/nearby?lat=&lng=&radiusKm=
+   * GET /api/v1/providers/nearby?zip=&radiusKm=
+   */
+  @Get('nearby')
+  async findNearby(
+    @Query(ValidationPipe) query: NearbyProvidersQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.providerService.findNearby(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Nearby providers retrieved successfully',
+      data: result.data,
+      center: result.center,
+      pagination: result.pagination,
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { RefundService } from '../services/refund.service';
+import {
+  ApproveRefundDto,
+  DenyRefundDto,
+  RefundQueryDto,
+} from '../dto/refund.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+@Controller('refunds')
+export class RefundController {
+  constructor(private readonly refundService: RefundService) {}
+
+  /**
+   * The refund policy for cancelled paid enrollments (Public)
+   * GET /api/v1/refunds/policy
+   */
+  @Get('policy')
+  getPolicy(@Res() res: Response) {
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Refund policy retrieved successfully',
+      data: this.refundService.getPolicy(),
+    });
+  }
+
+  /**
+   * The current user's refund requests
+   * GET /api/v1/refunds/me
+   */
+  @Get('me')
+  @UseGuards(AuthGuard)
+  async getMyRefunds(@Req() req: Request, @Res() res: Response) {
+    const refunds = await this.refundService.getMyRefunds(req.user.id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Refund requests retrieved successfully',
+      data: refunds,
+    });
+  }
+
+  /**
+   * All refund requests (Admin only)
+   * GET /api/v1/refunds
+   */
+  @Get()
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getRefunds(
+    @Query(ValidationPipe) query: RefundQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.refundService.getRefunds(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Refund requests retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * A refund request with its audit trail (Admin only)
+   * GET /api/v1/refunds/:id
+   */
+  @Get(':id')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getRefund(@Param('id') id: string, @Res() res: Response) {
+    const refund = await this.refundService.getRefund(id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Refund request retrieved successfully',
+      data: refund,
+    });
+  }
+
+  /**
+   * Approve a refund and pay it back through the gateway (Admin only)
+   * PATCH /api/v1/refunds/:id/approve
+   */
+  @Patch(':id/approve')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async approve(
+    @Param('id') id: string,
+    @Body(ValidationPipe) approveRefundDto: ApproveRefundDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const refund = await this.refundService.approve(
+      id,
+      approveRefundDto,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Refund issued successfully',
+      data: refund,
+    });
+  }
+
+  /**
+   * Deny a refund (Admin only)
+   * PATCH /api/v1/refunds/:id/deny
+   */
+  @Patch(':id/deny')
+  @RequirePermissions(Permission.BILLING_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
+  async deny(
+    @Param('id') id: string,
+    @Body(ValidationPipe) denyRefundDto: DenyRefundDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const refund = await this.refundService.deny(
+      id,
+      denyRefundDto,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Refund denied',
+      data: refund,
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { ShipmentService } from '../services/shipment.service';
+import {
+  CreateShipmentDto,
+  UpdateShipmentStatusDto,
+} from '../dto/shipment.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+@Controller('aligner-cases/:caseId/shipments')
+@UseGuards(AuthGuard)
+export class ShipmentController {
+  constructor(private readonly shipmentService: ShipmentService) {}
+
+  /**
+   * Shipments of a case with their tracking history
+   * GET /api/v1/aligner-cases/:caseId/shipments
+   */
+  @Get()
+  async getShipments(
+    @Param('caseId') caseId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const shipments = await this.shipmentService.getShipments(caseId, {
+      id: req.user.id,
+      role: req.user.role,
+    });
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Shipments retrieved successfully',
+      data: shipments,
+    });
+  }
+
+  /**
+   * Record a dispatched set of aligners (Admin only)
+   * POST /api/v1/aligner-cases/:caseId/shipments
+   */
+  @Post()
+  @RequirePermissions(Permission.CASES_MANAGE)
+  @UseGuards(RolesGuard)
+  async createShipment(
+    @Param('caseId') caseId: string,
+    @Body(ValidationPipe) createShipmentDto: CreateShipmentDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const shipment = await this.shipmentService.createShipment(
+      caseId,
+      createShipmentDto,
+      { id: req.user.id, role: req.user.role },
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Shipment recorded and the dentist notified',
+      data: shipment,
+    });
+  }
+
+  /**
+   * Set the shipment status by hand (Admin only)
+   * PATCH /api/v1/aligner-cases/:caseId/shipments/:shipmentId/status
+   */
+  @Patch(':shipmentId/status')
+  @RequirePermissions(Permission.CASES_MANAGE)
+  @UseGuards(RolesGuard)
+  async updateStatus(
+    @Param('caseId') caseId: string,
+    @Param('shipmentId') shipmentId: string,
+    @Body(ValidationPipe) updateShipmentStatusDto: UpdateShipmentStatusDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const shipment = await this.shipmentService.updateStatus(
+      caseId,
+      shipmentId,
+      updateShipmentStatusDto,
+      { id: req.user.id, role: req.user.role },
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Shipment status updated',
+      data: shipment,
+    });
+  }
+
+  /**
+   * Check with the carrier now (Admin only)
+   * POST /api/v1/aligner-cases/:caseId/shipments/:shipmentId/refresh
+   */
+  @Post(':shipmentId/refresh')
+  @RequirePermissions(Permission.CASES_MANAGE)
+  @UseGuards(RolesGuard)
+  async refreshShipment(
+    @Param('caseId') caseId: string,
+    @Param('shipmentId') shipmentId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const shipment = await this.shipmentService.refreshShipment(
+      caseId,
+      shipmentId,
+      { id: req.user.id, role: req.user.role },
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Tracking refreshed',
+      data: shipment,
+    });
+  }
+}
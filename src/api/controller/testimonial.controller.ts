@@ -17,8 +17,9 @@ import {
 import { TestimonialService } from '../services/testimonial.service';
 import { ImageKitService } from '../services/imagekit.service';
 import { TestimonialDto } from '../dto/testimonial.dto';
-import { AuthGuard, UserRole } from 'src/guards/auth.guard';
-import { Roles } from 'src/guards/role.guard';
+import { AuthGuard } from 'src/guards/auth.guard';
+import { RequirePermissions, RolesGuard } from 'src/guards/role.guard';
+import { Permission } from 'src/guards/permissions';
 import { FileInterceptor } from '@nestjs/platform-express';
 
 @Controller('testimonial')
@@ -45,8 +46,8 @@ export class TestimonialController {
   }
 
   @Post()
-  @Roles(UserRole.ADMIN)
-  @UseGuards(AuthGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileInterceptor('file', {
       limits: {
@@ -113,8 +114,8 @@ export class TestimonialController {
   }
 
   @Put(':id')
-  @Roles(UserRole.ADMIN)
-  @UseGuards(AuthGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
   @UseInterceptors(
     FileInterceptor('file', {
       limits: {
@@ -178,8 +179,8 @@ export class TestimonialController {
   }
 
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
-  @UseGuards(AuthGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UseGuards(AuthGuard, RolesGuard)
   async deleteTestimonial(@Param('id') id: string) {
     try {
       await this.testimonialService.deleteTestimonial(id);
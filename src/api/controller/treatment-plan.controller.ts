@@ -0,0 +1,125 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Req,
+  ValidationPipe,
+  HttpStatus,
+  Res,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import { TreatmentPlanService } from '../services/treatment-plan.service';
+import {
+  CreateTreatmentPlanDto,
+  PlanDecisionDto,
+} from '../dto/treatment-plan.dto';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
+
+@Controller('aligner-cases/:caseId/plans')
+@UseGuards(AuthGuard)
+export class TreatmentPlanController {
+  constructor(private readonly treatmentPlanService: TreatmentPlanService) {}
+
+  /**
+   * All plan versions of a case with their decisions, newest first
+   * GET /api/v1/aligner-cases/:caseId/plans
+   */
+  @Get()
+  async getPlans(
+    @Param('caseId') caseId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const plans = await this.treatmentPlanService.getPlans(caseId, {
+      id: req.user.id,
+      role: req.user.role,
+    });
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Treatment plans retrieved successfully',
+      data: plans,
+    });
+  }
+
+  /**
+   * Share a new plan version with the dentist (Admin only). Multipart, with
+   * an optional `stagingPdf` file and `iprChart` as a JSON string.
+   * POST /api/v1/aligner-cases/:caseId/plans
+   */
+  @Post()
+  @RequirePermissions(Permission.CASES_MANAGE)
+  @UseGuards(RolesGuard)
+  @UseInterceptors(
+    FileInterceptor('stagingPdf', {
+      limits: {
+        fileSize: TreatmentPlanService.MAX_STAGING_PDF_SIZE,
+      },
+      fileFilter: (req, file, callback) => {
+        if (file.mimetype === 'application/pdf') {
+          callback(null, true);
+        } else {
+          callback(
+            new BadRequestException('Staging file must be a PDF'),
+            false,
+          );
+        }
+      },
+    }),
+  )
+  async createPlan(
+    @Param('caseId') caseId: string,
+    @Body(ValidationPipe) createTreatmentPlanDto: CreateTreatmentPlanDto,
+    @UploadedFile() stagingPdf: Express.Multer.File | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const plan = await this.treatmentPlanService.createPlan(
+      caseId,
+      createTreatmentPlanDto,
+      stagingPdf,
+      { id: req.user.id, role: req.user.role },
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Treatment plan shared with the dentist',
+      data: plan,
+    });
+  }
+
+  /**
+   * Approve the plan or request changes (treating dentist)
+   * POST /api/v1/aligner-cases/:caseId/plans/:planId/decision
+   */
+  @Post(':planId/decision')
+  async decide(
+    @Param('caseId') caseId: string,
+    @Param('planId') planId: string,
+    @Body(ValidationPipe) planDecisionDto: PlanDecisionDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const plan = await this.treatmentPlanService.decide(
+      caseId,
+      planId,
+      planDecisionDto,
+      { id: req.user.id, role: req.user.role },
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Treatment plan decision recorded',
+      data: plan,
+    });
+  }
+}
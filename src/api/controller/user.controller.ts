@@ -1,8 +1,9 @@
 import { Body, Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
 import { MapService } from '../services/map.service';
 import { ContactService } from '../services/contact.service';
-import { AuthGuard, UserRole } from 'src/guards/auth.guard';
-import { Roles } from 'src/guards/role.guard';
+import { AuthGuard } from 'src/guards/auth.guard';
+import { RequirePermissions, RolesGuard } from 'src/guards/role.guard';
+import { Permission } from 'src/guards/permissions';
 
 @Controller('user')
 export class UserController {
@@ -16,8 +17,8 @@ export class UserController {
     return await this.mapService.getAllUsersWithCoordinates();
   }
 
-  @Roles(UserRole.ADMIN)
-  @UseGuards(AuthGuard)
+  @RequirePermissions(Permission.CONTACTS_READ)
+  @UseGuards(AuthGuard, RolesGuard)
   @Get('contacts')
   async getContacts(
     @Query('page') page: string,
@@ -11,28 +11,45 @@ import {
   HttpStatus,
   Res,
   Req,
+  Post,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Request, Response } from 'express';
 import { UsersService } from '../services/users.service';
+import { DentistVerificationService } from '../services/dentist-verification.service';
 import {
   UsersQueryDto,
   UpdateUserStatusDto,
   ToggleShowOnMapDto,
+  UpdateUserRoleDto,
+  VerificationQueueQueryDto,
+  VerificationDecisionDto,
+  SubmitVerificationDto,
+  UpdateProfileDto,
+  ChangePasswordDto,
+  RequestEmailChangeDto,
 } from '../dto/users.dto';
-import { AuthGuard, UserRole } from '../../guards/auth.guard';
-import { RolesGuard, Roles } from '../../guards/role.guard';
+import { AuthGuard } from '../../guards/auth.guard';
+import { RequirePermissions, RolesGuard } from '../../guards/role.guard';
+import { Permission } from '../../guards/permissions';
 
 @Controller('users')
 @UseGuards(AuthGuard)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly verificationService: DentistVerificationService,
+  ) {}
 
   /**
    * Get all users with filtering and pagination (Admin only)
    * GET /api/v1/users
    */
   @Get()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.USERS_READ)
   @UseGuards(RolesGuard)
   async getAllUsers(
     @Query(ValidationPipe) query: UsersQueryDto,
@@ -55,7 +72,7 @@ export class UsersController {
    * GET /api/v1/users/statistics
    */
   @Get('statistics')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.USERS_READ)
   @UseGuards(RolesGuard)
   async getUserStatistics(@Res() res: Response) {
     const stats = await this.usersService.getUserStatistics();
@@ -78,10 +95,267 @@ export class UsersController {
       data: user,
     });
   }
+  // ==================== SELF SERVICE ====================
+
+  /**
+   * Update the logged-in user's profile (re-geocodes when location changes)
+   * PATCH /api/v1/users/me
+   */
+  @Patch('me')
+  async updateProfile(
+    @Body(ValidationPipe) updateProfileDto: UpdateProfileDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const user = await this.usersService.updateProfile(
+      req.user.id,
+      updateProfileDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Profile updated successfully',
+      data: user,
+    });
+  }
+
+  /**
+   * Change password (requires the current password)
+   * POST /api/v1/users/me/password
+   */
+  @Post('me/password')
+  async changePassword(
+    @Body(ValidationPipe) changePasswordDto: ChangePasswordDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.usersService.changePassword(
+      req.user.id,
+      changePasswordDto,
+      req.user.sessionId,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+
   /**
+   * Request an email change; a confirmation link is sent to the new address
+   * POST /api/v1/users/me/email
+   */
+  @Post('me/email')
+  async requestEmailChange(
+    @Body(ValidationPipe) requestEmailChangeDto: RequestEmailChangeDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.usersService.requestEmailChange(
+      req.user.id,
+      requestEmailChangeDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+
+  /**
+   * Cancel a pending email change
+   * DELETE /api/v1/users/me/email
+   */
+  @Delete('me/email')
+  async cancelEmailChange(@Req() req: Request, @Res() res: Response) {
+    const result = await this.usersService.cancelEmailChange(req.user.id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+
+  // ==================== DCI VERIFICATION ====================
+
+  /**
+   * Get the logged-in dentist's verification status and documents
+   * GET /api/v1/users/me/verification
+   */
+  @Get('me/verification')
+  async getMyVerification(@Req() req: Request, @Res() res: Response) {
+    const verification = await this.verificationService.getMyVerification(
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Verification status retrieved successfully',
+      data: verification,
+    });
+  }
+
+  /**
+   * Upload a credential document (DCI certificate, degree)
+   * POST /api/v1/users/me/verification/documents
+   */
+  @Post('me/verification/documents')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: DentistVerificationService.MAX_DOCUMENT_SIZE,
+      },
+      fileFilter: (req, file, callback) => {
+        if (
+          DentistVerificationService.ALLOWED_DOCUMENT_TYPES.includes(
+            file.mimetype,
+          )
+        ) {
+          callback(null, true);
+        } else {
+          callback(
+            new BadRequestException('Document must be a PDF, JPEG or PNG'),
+            false,
+          );
+        }
+      },
+    }),
+  )
+  async uploadVerificationDocument(
+    @UploadedFile() file: Express.Multer.File,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    const document = await this.verificationService.uploadDocument(
+      req.user.id,
+      file,
+    );
+
+    return res.status(HttpStatus.CREATED).json({
+      success: true,
+      message: 'Document uploaded successfully',
+      data: document,
+    });
+  }
+
+  /**
+   * Remove an uploaded credential document
+   * DELETE /api/v1/users/me/verification/documents/:documentId
+   */
+  @Delete('me/verification/documents/:documentId')
+  async deleteVerificationDocument(
+    @Param('documentId') documentId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.verificationService.deleteDocument(
+      req.user.id,
+      documentId,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: result.message,
+    });
+  }
+
+  /**
+   * Submit (or resubmit) credentials for review
+   * POST /api/v1/users/me/verification/submit
+   */
+  @Post('me/verification/submit')
+  async submitVerification(
+    @Body(ValidationPipe) submitVerificationDto: SubmitVerificationDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const result = await this.verificationService.submitForReview(
+      req.user.id,
+      submitVerificationDto,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Your credentials have been submitted for review',
+      data: result,
+    });
+  }
+
+  /**
+   * Review queue of dentists awaiting verification (oldest first)
+   * GET /api/v1/users/verifications?status=PENDING
+   */
+  @Get('verifications')
+  @RequirePermissions(Permission.VERIFICATIONS_REVIEW)
+  @UseGuards(RolesGuard)
+  async getVerificationQueue(
+    @Query(ValidationPipe) query: VerificationQueueQueryDto,
+    @Res() res: Response,
+  ) {
+    const result = await this.verificationService.getReviewQueue(query);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Verification queue retrieved successfully',
+      data: result.users,
+      pagination: result.pagination,
+    });
+  }
+
+  /**
+   * Get a dentist's documents and verification history
+   * GET /api/v1/users/:id/verification
+   */
+  @Get(':id/verification')
+  @RequirePermissions(Permission.VERIFICATIONS_REVIEW)
+  @UseGuards(RolesGuard)
+  async getVerificationDetails(@Param('id') id: string, @Res() res: Response) {
+    const details = await this.verificationService.getVerificationDetails(id);
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Verification details retrieved successfully',
+      data: details,
+    });
+  }
+
+  /**
+   * Approve, reject or request more information
+   * PATCH /api/v1/users/:id/verification
+   */
+  @Patch(':id/verification')
+  @RequirePermissions(Permission.VERIFICATIONS_REVIEW)
+  @UseGuards(RolesGuard)
+  async decideVerification(
+    @Param('id') id: string,
+    @Body(ValidationPipe) verificationDecisionDto: VerificationDecisionDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const user = await this.verificationService.decide(
+      id,
+      verificationDecisionDto,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'Verification decision saved successfully',
+      data: user,
+    });
+  }
+
+  /**
+   * Get user by ID (Admin only)
    * GET /api/v1/users/:id
    */
   @Get(':id')
+  @RequirePermissions(Permission.USERS_READ)
+  @UseGuards(RolesGuard)
   async getUserById(@Param('id') id: string, @Res() res: Response) {
     const user = await this.usersService.getUserById(id);
 
@@ -97,7 +371,7 @@ export class UsersController {
    * PATCH /api/v1/users/:id/status
    */
   @Patch(':id/status')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.USERS_MANAGE)
   @UseGuards(RolesGuard)
   async updateUserStatus(
     @Param('id') id: string,
@@ -116,12 +390,38 @@ export class UsersController {
     });
   }
 
+  /**
+   * Change a user's role (Super admin only)
+   * PATCH /api/v1/users/:id/role
+   */
+  @Patch(':id/role')
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @UseGuards(RolesGuard)
+  async updateUserRole(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateUserRoleDto: UpdateUserRoleDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const user = await this.usersService.updateUserRole(
+      id,
+      updateUserRoleDto.role,
+      req.user.id,
+    );
+
+    return res.status(HttpStatus.OK).json({
+      success: true,
+      message: 'User role updated successfully',
+      data: user,
+    });
+  }
+
   /**
    * Toggle user showOnMap property (Admin only)
    * PATCH /api/v1/users/:id/show-on-map
    */
   @Patch(':id/show-on-map')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.USERS_MANAGE)
   @UseGuards(RolesGuard)
   async toggleShowOnMap(
     @Param('id') id: string,
@@ -145,7 +445,7 @@ export class UsersController {
    * DELETE /api/v1/users/:id
    */
   @Delete(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.USERS_MANAGE)
   @UseGuards(RolesGuard)
   async deleteUser(@Param('id') id: string, @Res() res: Response) {
     const result = await this.usersService.deleteUser(id);
@@ -3,9 +3,48 @@ import {
   IsNotEmpty,
   IsOptional,
   IsNumber,
+  IsInt,
+  IsEnum,
+  IsMongoId,
+  MaxLength,
   Min,
+  Max,
 } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
+
+export enum AlignerCaseStatus {
+  SUBMITTED = 'SUBMITTED',
+  RECORDS_RECEIVED = 'RECORDS_RECEIVED',
+  PLANNING = 'PLANNING',
+  PLAN_SENT = 'PLAN_SENT',
+  APPROVED = 'APPROVED',
+  MANUFACTURING = 'MANUFACTURING',
+  SHIPPED = 'SHIPPED',
+  IN_TREATMENT = 'IN_TREATMENT',
+  REFINEMENT = 'REFINEMENT',
+  COMPLETED = 'COMPLETED',
+}
+
+export enum PatientGender {
+  MALE = 'MALE',
+  FEMALE = 'FEMALE',
+  OTHER = 'OTHER',
+}
+
+// What the first approved plan is billed as; later plans are refinements
+export enum AlignerPackage {
+  LITE = 'LITE',
+  MODERATE = 'MODERATE',
+  COMPREHENSIVE = 'COMPREHENSIVE',
+  REFINEMENT = 'REFINEMENT',
+}
+
+export enum AlignerRecordType {
+  INTRAORAL_PHOTO = 'INTRAORAL_PHOTO',
+  EXTRAORAL_PHOTO = 'EXTRAORAL_PHOTO',
+  XRAY = 'XRAY',
+  SCAN = 'SCAN',
+}
 
 export class CreateAlignerCaseDto {
   @IsString()
@@ -13,12 +52,56 @@ export class CreateAlignerCaseDto {
   name: string;
 
   @IsString()
-  @IsNotEmpty()
-  quantity: string;
+  @IsOptional()
+  @MaxLength(100)
+  patientReference?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  upperAlignerCount?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  lowerAlignerCount?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  @IsOptional()
+  patientAge?: number;
+
+  @IsEnum(PatientGender)
+  @IsOptional()
+  patientGender?: PatientGender;
 
   @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  chiefComplaint?: string;
+
+  @IsEnum(AlignerPackage)
+  @IsOptional()
+  package?: AlignerPackage;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsMongoId()
   @IsNotEmpty()
   userId: string;
+
+  // Must be one of that dentist's patients
+  @IsMongoId()
+  @IsOptional()
+  patientId?: string;
 }
 
 export class UpdateAlignerCaseDto {
@@ -28,11 +111,107 @@ export class UpdateAlignerCaseDto {
 
   @IsString()
   @IsOptional()
-  quantity?: string;
+  @MaxLength(100)
+  patientReference?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  upperAlignerCount?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  lowerAlignerCount?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  @IsOptional()
+  patientAge?: number;
+
+  @IsEnum(PatientGender)
+  @IsOptional()
+  patientGender?: PatientGender;
 
   @IsString()
   @IsOptional()
+  @MaxLength(2000)
+  chiefComplaint?: string;
+
+  @IsEnum(AlignerPackage)
+  @IsOptional()
+  package?: AlignerPackage;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsMongoId()
+  @IsOptional()
   userId?: string;
+
+  @IsMongoId()
+  @IsOptional()
+  patientId?: string;
+}
+
+// Multipart form fields sent alongside the record files
+export class SubmitAlignerCaseDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  // Demographics come from the patient record when one is given
+  @IsMongoId()
+  @IsOptional()
+  patientId?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  patientReference?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  @IsOptional()
+  patientAge?: number;
+
+  @IsEnum(PatientGender)
+  @IsOptional()
+  patientGender?: PatientGender;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  chiefComplaint: string;
+
+  @IsEnum(AlignerPackage)
+  @IsOptional()
+  package?: AlignerPackage;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class UpdateAlignerCaseStatusDto {
+  @IsEnum(AlignerCaseStatus)
+  status: AlignerCaseStatus;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  note?: string;
 }
 
 export class AlignerCaseQueryDto {
@@ -56,6 +235,10 @@ export class AlignerCaseQueryDto {
   @IsString()
   userId?: string;
 
+  @IsOptional()
+  @IsEnum(AlignerCaseStatus)
+  status?: AlignerCaseStatus;
+
   @IsOptional()
   @IsString()
   sortBy?: string = 'createdAt';
@@ -84,3 +84,55 @@ export class ResetPasswordDto {
   @MinLength(6)
   newPassword: string;
 }
+
+export class UnlockAccountDto {
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+}
+
+export class MfaChallengeDto {
+  @IsNotEmpty()
+  @IsString()
+  mfaToken: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(6, 6)
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
+
+export class MfaEnrollmentDto {
+  @IsNotEmpty()
+  @IsString()
+  mfaToken: string;
+}
+
+export class ConfirmMfaEnrollmentDto extends MfaEnrollmentDto {
+  @IsNotEmpty()
+  @IsString()
+  @Length(6, 6)
+  code: string;
+}
+
+export class EnableTwoFactorDto {
+  @IsNotEmpty()
+  @IsString()
+  @Length(6, 6)
+  code: string;
+}
+
+export class TwoFactorCodeDto {
+  @IsOptional()
+  @IsString()
+  @Length(6, 6)
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
@@ -0,0 +1,127 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { AlignerPackage } from './alignercase.dto';
+
+export enum InvoiceStatus {
+  ISSUED = 'ISSUED',
+  PAID = 'PAID',
+  VOID = 'VOID',
+}
+
+// Sets the default price of a package, or one dentist's price when dentistId is given
+export class UpsertAlignerPriceDto {
+  @IsMongoId()
+  @IsOptional()
+  dentistId?: string;
+
+  @IsEnum(AlignerPackage)
+  package: AlignerPackage;
+
+  // Rupees before GST
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(10000000)
+  amount: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  description?: string;
+}
+
+export class AlignerPriceQueryDto {
+  // Without it only the default price list is returned
+  @IsMongoId()
+  @IsOptional()
+  dentistId?: string;
+}
+
+export class InvoiceQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsEnum(InvoiceStatus)
+  status?: InvoiceStatus;
+
+  @IsOptional()
+  @IsMongoId()
+  dentistId?: string;
+
+  // Matches invoice number, case name or billed clinic
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }: { value: string }) => value?.trim())
+  search?: string;
+}
+
+export class BillingHistoryQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsEnum(InvoiceStatus)
+  status?: InvoiceStatus;
+}
+
+// Records a payment against an issued invoice, or voids it
+export class UpdateInvoicePaymentDto {
+  @IsIn([InvoiceStatus.PAID, InvoiceStatus.VOID])
+  status: InvoiceStatus.PAID | InvoiceStatus.VOID;
+
+  @ValidateIf(
+    (dto: UpdateInvoicePaymentDto) => dto.status === InvoiceStatus.PAID,
+  )
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  paymentReference?: string;
+
+  // Defaults to now
+  @IsOptional()
+  @IsDateString()
+  paidAt?: string;
+
+  @ValidateIf(
+    (dto: UpdateInvoicePaymentDto) => dto.status === InvoiceStatus.VOID,
+  )
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  voidReason?: string;
+}
@@ -0,0 +1,120 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export enum LessonType {
+  VIDEO = 'VIDEO',
+  PDF = 'PDF',
+  TEXT = 'TEXT',
+  QUIZ = 'QUIZ',
+}
+
+export class CreateCourseModuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  description?: string;
+}
+
+export class UpdateCourseModuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(200)
+  title?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  description?: string;
+}
+
+// The complete new order, as left by a drag-and-drop
+export class ReorderDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsMongoId({ each: true })
+  ids: string[];
+}
+
+// Multipart form fields sent alongside the optional `pdf` file
+export class CreateLessonDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @IsEnum(LessonType)
+  type: LessonType;
+
+  @IsUrl()
+  @IsOptional()
+  videoUrl?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100000)
+  body?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @IsOptional()
+  durationMinutes?: number;
+
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  isPreview?: boolean;
+}
+
+// The type of a lesson is fixed once created
+export class UpdateLessonDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(200)
+  title?: string;
+
+  @IsUrl()
+  @IsOptional()
+  videoUrl?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100000)
+  body?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @IsOptional()
+  durationMinutes?: number;
+
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  isPreview?: boolean;
+}
@@ -0,0 +1,136 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+
+export enum QuizQuestionType {
+  SINGLE_CHOICE = 'SINGLE_CHOICE',
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE',
+  TRUE_FALSE = 'TRUE_FALSE',
+}
+
+export class QuizOptionDto {
+  // Set when editing an existing option, so its id stays the same
+  @IsString()
+  @IsOptional()
+  id?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  text: string;
+
+  @IsBoolean()
+  isCorrect: boolean;
+}
+
+export class QuizQuestionDto {
+  // Set when editing an existing question, so its id stays the same
+  @IsString()
+  @IsOptional()
+  id?: string;
+
+  @IsEnum(QuizQuestionType)
+  type: QuizQuestionType;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  prompt: string;
+
+  // Choice questions list their options
+  @ValidateIf(
+    (dto: QuizQuestionDto) => dto.type !== QuizQuestionType.TRUE_FALSE,
+  )
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => QuizOptionDto)
+  options?: QuizOptionDto[];
+
+  // True/false questions only give the right answer
+  @ValidateIf(
+    (dto: QuizQuestionDto) => dto.type === QuizQuestionType.TRUE_FALSE,
+  )
+  @IsBoolean()
+  correctAnswer?: boolean;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  explanation?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  points?: number;
+}
+
+// Creates the quiz of a QUIZ lesson, or replaces it entirely
+export class UpsertQuizDto {
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  passMarkPercent: number;
+
+  // Omit for unlimited attempts
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  maxAttempts?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  shuffleQuestions?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  shuffleOptions?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isRequired?: boolean;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => QuizQuestionDto)
+  questions: QuizQuestionDto[];
+}
+
+export class QuizAnswerDto {
+  @IsString()
+  @IsNotEmpty()
+  questionId: string;
+
+  // One option for single choice and true/false, any number for multiple choice
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  optionIds: string[];
+}
+
+export class SubmitQuizAttemptDto {
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => QuizAnswerDto)
+  answers: QuizAnswerDto[];
+}
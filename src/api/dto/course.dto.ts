@@ -14,6 +14,14 @@ import {
   MinLength,
 } from 'class-validator';
 
+export enum EnrollmentStatus {
+  PENDING_PAYMENT = 'PENDING_PAYMENT',
+  ACTIVE = 'ACTIVE',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  REFUNDED = 'REFUNDED',
+}
+
 export enum CourseStatus {
   DRAFT = 'DRAFT',
   PUBLISHED = 'PUBLISHED',
@@ -94,6 +102,14 @@ export class CreateCourseDto {
   @Min(1)
   maxEnrollments?: number;
 
+  // Continuing education credit printed on completion certificates
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @Type(() => Number)
+  ceHours?: number;
+
   @IsOptional()
   @IsString()
   @MaxLength(200)
@@ -178,6 +194,14 @@ export class UpdateCourseDto {
   @Min(1)
   maxEnrollments?: number;
 
+  // Continuing education credit printed on completion certificates
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @Type(() => Number)
+  ceHours?: number;
+
   @IsOptional()
   @IsString()
   @MaxLength(200)
@@ -232,17 +256,10 @@ export class EnrollCourseDto {
   paymentId?: string;
 }
 
-export class UpdateEnrollmentProgressDto {
-  @IsNumber()
-  @Min(0)
-  @Max(100)
-  progress: number;
-}
-
 export class EnrollmentQueryDto {
   @IsOptional()
   @IsString()
-  status?: 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'REFUNDED';
+  status?: EnrollmentStatus;
 
   @IsOptional()
   @IsString()
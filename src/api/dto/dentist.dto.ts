@@ -9,8 +9,12 @@ import {
   MaxLength,
   IsLatitude,
   IsLongitude,
+  Matches,
 } from 'class-validator';
 
+// 15-character GSTIN: state code, PAN, entity number, 'Z', checksum
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
 export class CreateDentistProfileDto {
   @IsNotEmpty()
   @IsString()
@@ -74,6 +78,12 @@ export class CreateDentistProfileDto {
   @IsOptional()
   @IsUrl()
   website?: string;
+
+  @IsOptional()
+  @Matches(GSTIN_PATTERN, {
+    message: 'gstin must be a valid 15-character GSTIN',
+  })
+  gstin?: string;
 }
 
 export class UpdateDentistProfileDto {
@@ -139,6 +149,12 @@ export class UpdateDentistProfileDto {
   @IsOptional()
   @IsUrl()
   website?: string;
+
+  @IsOptional()
+  @Matches(GSTIN_PATTERN, {
+    message: 'gstin must be a valid 15-character GSTIN',
+  })
+  gstin?: string;
 }
 
 export class DentistQueryDto {
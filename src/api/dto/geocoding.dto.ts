@@ -0,0 +1,64 @@
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export enum GeocodeStatus {
+  PENDING = 'PENDING', // Queued for the background geocoder
+  RESOLVED = 'RESOLVED',
+  FAILED = 'FAILED', // Needs an admin to fix the address or pin it
+  MANUAL = 'MANUAL', // Pinned by an admin
+}
+
+export enum GeocodeJobStatus {
+  PENDING = 'PENDING',
+  PROCESSING = 'PROCESSING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+}
+
+// Which collection a geocoded location belongs to
+export enum GeocodeTarget {
+  USER = 'user',
+  MAP_USER = 'map_user',
+}
+
+export class GeocodeFailuresQueryDto {
+  @IsOptional()
+  @IsEnum(GeocodeTarget)
+  target?: GeocodeTarget;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  limit?: string;
+}
+
+export class FixGeocodeAddressDto {
+  @IsString()
+  @IsNotEmpty()
+  location: string;
+}
+
+export class PinLocationDto {
+  @Type(() => Number)
+  @IsLatitude()
+  latitude: number;
+
+  @Type(() => Number)
+  @IsLongitude()
+  longitude: number;
+}
@@ -1,5 +1,19 @@
 import { Type } from 'class-transformer';
-import { IsString, IsBoolean, IsOptional, IsNotEmpty } from 'class-validator';
+import {
+  IsString,
+  IsBoolean,
+  IsOptional,
+  IsNotEmpty,
+  IsEmail,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsNumberString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
 
 export class CreateMapUserDto {
   @IsString()
@@ -26,6 +40,10 @@ export class CreateMapUserDto {
   @IsNotEmpty()
   zipCode: string;
 
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
   @IsBoolean()
   @IsOptional()
   showOnMap?: boolean;
@@ -56,6 +74,10 @@ export class UpdateMapUserDto {
   @IsOptional()
   zipCode?: string;
 
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
   @IsBoolean()
   @IsOptional()
   showOnMap?: boolean;
@@ -96,3 +118,62 @@ export interface MapUserQuery {
   sortOrder?: 'asc' | 'desc';
   showOnMap?: boolean;
 }
+
+export enum ClaimStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+export class DuplicateQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  minScore?: number;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  limit?: string;
+}
+
+export class MergeMapUserDto {
+  @IsMongoId()
+  userId: string;
+}
+
+export class ClaimMapUserDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class ClaimQueryDto {
+  @IsOptional()
+  @IsEnum(ClaimStatus)
+  status?: ClaimStatus;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  limit?: string;
+}
+
+export class ClaimDecisionDto {
+  @IsIn([ClaimStatus.APPROVED, ClaimStatus.REJECTED])
+  status: ClaimStatus.APPROVED | ClaimStatus.REJECTED;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
@@ -0,0 +1,140 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PatientGender } from './alignercase.dto';
+
+export class CreatePatientDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  firstName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  lastName: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  chartNumber?: string;
+
+  @IsDateString()
+  @IsOptional()
+  dateOfBirth?: string;
+
+  @IsEnum(PatientGender)
+  @IsOptional()
+  gender?: PatientGender;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  phone?: string;
+
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  notes?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  consentTreatment?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  consentRecordsSharing?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  consentEducationalUse?: boolean;
+}
+
+export class UpdatePatientDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(100)
+  firstName?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(100)
+  lastName?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  chartNumber?: string;
+
+  @IsDateString()
+  @IsOptional()
+  dateOfBirth?: string;
+
+  @IsEnum(PatientGender)
+  @IsOptional()
+  gender?: PatientGender;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  phone?: string;
+
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  notes?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  consentTreatment?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  consentRecordsSharing?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  consentEducationalUse?: boolean;
+}
+
+export class PatientQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  // Matches name, chart number, phone or email
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }: { value: string }) => value?.trim())
+  search?: string;
+}
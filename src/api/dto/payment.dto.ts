@@ -0,0 +1,22 @@
+import { IsEnum, IsMongoId } from 'class-validator';
+
+export enum PaymentItemType {
+  COURSE = 'COURSE',
+  EBOOK = 'EBOOK',
+  LIVE_SESSION = 'LIVE_SESSION',
+}
+
+export enum PaymentOrderStatus {
+  CREATED = 'CREATED',
+  PAID = 'PAID',
+  FAILED = 'FAILED',
+  REFUNDED = 'REFUNDED',
+}
+
+export class CheckoutDto {
+  @IsEnum(PaymentItemType)
+  itemType: PaymentItemType;
+
+  @IsMongoId()
+  itemId: string;
+}
@@ -0,0 +1,68 @@
+import { Type } from 'class-transformer';
+import {
+  IsOptional,
+  IsString,
+  IsNumber,
+  IsLatitude,
+  IsLongitude,
+  IsNumberString,
+  Min,
+  Max,
+} from 'class-validator';
+
+export class NearbyProvidersQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsLatitude()
+  lat?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsLongitude()
+  lng?: number;
+
+  // Postal (PIN) code to search around instead of lat/lng
+  @IsOptional()
+  @IsString()
+  zip?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  radiusKm?: number;
+
+  @IsOptional()
+  @IsString()
+  specialty?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  limit?: string;
+}
+
+export enum ProviderSource {
+  DENTIST = 'dentist', // Registered, verified dentist account
+  DIRECTORY = 'directory', // Admin-curated MapUsers entry
+}
+
+export interface NearbyProvider {
+  id: string;
+  source: ProviderSource;
+  firstName: string;
+  lastName: string;
+  clinicName: string | null;
+  phone: string | null;
+  location: string | null;
+  zipCode: string | null;
+  latitude: number;
+  longitude: number;
+  distanceKm: number;
+  profileSlug: string | null;
+  specialties: string[];
+}
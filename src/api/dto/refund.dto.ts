@@ -0,0 +1,61 @@
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export enum RefundStatus {
+  REQUESTED = 'REQUESTED',
+  PROCESSING = 'PROCESSING',
+  REFUNDED = 'REFUNDED',
+  DENIED = 'DENIED',
+  FAILED = 'FAILED',
+}
+
+export class CancelEnrollmentDto {
+  // Passed on to the refund request when the cancellation qualifies
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
+
+export class RefundQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsEnum(RefundStatus)
+  status?: RefundStatus;
+}
+
+export class ApproveRefundDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class DenyRefundDto {
+  // Shown to the learner, so a denial always says why
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string;
+}
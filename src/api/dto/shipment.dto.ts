@@ -0,0 +1,84 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export enum ShipmentStatus {
+  DISPATCHED = 'DISPATCHED',
+  IN_TRANSIT = 'IN_TRANSIT',
+  OUT_FOR_DELIVERY = 'OUT_FOR_DELIVERY',
+  DELIVERED = 'DELIVERED',
+  EXCEPTION = 'EXCEPTION', // Delay, failed attempt, address problem...
+  RETURNED = 'RETURNED',
+}
+
+export class CreateShipmentDto {
+  // Carrier slug as the tracking provider knows it, e.g. bluedart
+  @IsString()
+  @Transform(({ value }: { value: string }) => value?.trim().toLowerCase())
+  @Matches(/^[a-z0-9-]{2,50}$/, {
+    message: 'carrier must be a slug such as bluedart or delhivery',
+  })
+  carrier: string;
+
+  @IsString()
+  @Transform(({ value }: { value: string }) => value?.trim().toUpperCase())
+  @Matches(/^[A-Z0-9-]{4,40}$/, {
+    message: 'awbNumber may only contain letters, digits and dashes',
+  })
+  awbNumber: string;
+
+  // Aligner steps in the box, inclusive
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  fromStep: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  toStep: number;
+
+  // Defaults to now
+  @IsOptional()
+  @IsDateString()
+  dispatchedAt?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+// Status entered by the lab, e.g. when the carrier is not tracked
+export class UpdateShipmentStatusDto {
+  @IsEnum(ShipmentStatus)
+  status: ShipmentStatus;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  detail?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  location?: string;
+
+  // Defaults to now
+  @IsOptional()
+  @IsDateString()
+  occurredAt?: string;
+}
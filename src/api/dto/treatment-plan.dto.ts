@@ -0,0 +1,97 @@
+import { plainToInstance, Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export enum PlanDecisionType {
+  APPROVED = 'APPROVED',
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
+}
+
+// Where a plan version stands; derived from its decision and later versions
+export enum TreatmentPlanState {
+  AWAITING_REVIEW = 'AWAITING_REVIEW',
+  APPROVED = 'APPROVED',
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
+  SUPERSEDED = 'SUPERSEDED',
+}
+
+// One interproximal reduction, between `tooth` and its distal neighbour
+export class IprEntryDto {
+  @IsString()
+  @Matches(/^[1-4][1-8]$/, { message: 'tooth must be an FDI number (11-48)' })
+  tooth: string;
+
+  @IsNumber()
+  @Min(0.1)
+  @Max(1)
+  amountMm: number;
+
+  @IsInt()
+  @Min(0)
+  step: number;
+}
+
+// Multipart form fields sent alongside the optional staging PDF
+export class CreateTreatmentPlanDto {
+  @IsUrl()
+  @IsOptional()
+  viewerUrl?: string;
+
+  // Multipart forms send the chart as a JSON string
+  @Transform(({ value }) => {
+    try {
+      const entries: unknown =
+        typeof value === 'string' ? JSON.parse(value) : value;
+      return Array.isArray(entries)
+        ? plainToInstance(IprEntryDto, entries)
+        : entries;
+    } catch {
+      return value as unknown; // Left for @IsArray to reject
+    }
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @IsOptional()
+  iprChart?: IprEntryDto[];
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  upperSteps: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  lowerSteps: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  notes?: string;
+}
+
+export class PlanDecisionDto {
+  @IsEnum(PlanDecisionType)
+  decision: PlanDecisionType;
+
+  @IsString()
+  @IsOptional()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  comment?: string;
+}
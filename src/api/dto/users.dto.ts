@@ -4,10 +4,22 @@ import {
   IsEnum,
   IsBoolean,
   IsNumberString,
+  IsIn,
+  IsNotEmpty,
+  MaxLength,
+  MinLength,
+  IsEmail,
 } from 'class-validator';
 import { UserRole } from '../../guards/auth.guard';
 import { Type } from 'class-transformer';
 
+export enum VerificationStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  NEEDS_INFO = 'NEEDS_INFO',
+}
+
 export class UsersQueryDto {
   @IsOptional()
   @IsString()
@@ -48,3 +60,121 @@ export class ToggleShowOnMapDto {
   @IsBoolean()
   showOnMap: boolean;
 }
+
+export class UpdateUserRoleDto {
+  @IsEnum(UserRole)
+  role: UserRole;
+}
+
+export class VerificationQueueQueryDto {
+  @IsOptional()
+  @IsEnum(VerificationStatus)
+  status?: VerificationStatus;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  page?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  limit?: string;
+}
+
+export class VerificationDecisionDto {
+  @IsIn([
+    VerificationStatus.APPROVED,
+    VerificationStatus.REJECTED,
+    VerificationStatus.NEEDS_INFO,
+  ])
+  status: VerificationStatus;
+
+  // Required when rejecting or asking for more information
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
+
+export class SubmitVerificationDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  dci_registration_number?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
+
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  firstName?: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  lastName?: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(20)
+  phone?: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(200)
+  clinicName?: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  location?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  zipCode?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  agreeToMarketing?: boolean;
+}
+
+export class ChangePasswordDto {
+  @IsNotEmpty()
+  @IsString()
+  currentPassword: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(8)
+  newPassword: string;
+}
+
+export class RequestEmailChangeDto {
+  @IsNotEmpty()
+  @IsEmail()
+  newEmail: string;
+
+  @IsNotEmpty()
+  @IsString()
+  currentPassword: string;
+}
+
+export class ConfirmEmailChangeDto {
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+}
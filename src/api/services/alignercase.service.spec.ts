@@ -0,0 +1,134 @@
+import { BadRequestException } from '@nestjs/common';
+import { AlignerCaseService, CASE_TRANSITIONS } from './alignercase.service';
+import { ImageKitService } from './imagekit.service';
+import { DentistVerificationService } from './dentist-verification.service';
+import { PatientService } from './patient.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AlignerCaseStatus } from '../dto/alignercase.dto';
+
+const ALL_STATUSES = Object.values(AlignerCaseStatus);
+
+const allowed = ALL_STATUSES.flatMap((from) =>
+  CASE_TRANSITIONS[from].map((to) => [from, to] as const),
+);
+const refused = ALL_STATUSES.flatMap((from) =>
+  ALL_STATUSES.filter((to) => !CASE_TRANSITIONS[from].includes(to)).map(
+    (to) => [from, to] as const,
+  ),
+);
+
+describe('AlignerCaseService status changes', () => {
+  const caseId = '64b000000000000000000001';
+  const actorId = '64b0000000000000000000aa';
+
+  let caseStatus: AlignerCaseStatus;
+  let prisma: {
+    alignerCase: { findUnique: jest.Mock; updateMany: jest.Mock };
+    alignerCaseStatusChange: { create: jest.Mock };
+  };
+  let service: AlignerCaseService;
+
+  beforeEach(() => {
+    caseStatus = AlignerCaseStatus.SUBMITTED;
+
+    // Keeps one case in memory, honouring the status condition
+    prisma = {
+      alignerCase: {
+        findUnique: jest.fn(() =>
+          Promise.resolve({ id: caseId, status: caseStatus }),
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { status: AlignerCaseStatus };
+            data: { status: AlignerCaseStatus };
+          }) => {
+            if (caseStatus !== where.status) {
+              return Promise.resolve({ count: 0 });
+            }
+            caseStatus = data.status;
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+      },
+      alignerCaseStatusChange: { create: jest.fn() },
+    };
+    service = new AlignerCaseService(
+      prisma as unknown as PrismaService,
+      {} as ImageKitService,
+      {} as DentistVerificationService,
+      {} as PatientService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(allowed)('moves a case from %s to %s', async (from, to) => {
+    caseStatus = from;
+
+    await service.applyStatusChange(caseId, from, to, actorId, 'Next step');
+
+    expect(caseStatus).toBe(to);
+    expect(prisma.alignerCaseStatusChange.create).toHaveBeenCalledWith({
+      data: {
+        caseId,
+        fromStatus: from,
+        toStatus: to,
+        note: 'Next step',
+        changedById: actorId,
+      },
+    });
+  });
+
+  it.each(refused)('refuses to move a case from %s to %s', async (from, to) => {
+    caseStatus = from;
+
+    await expect(
+      service.applyStatusChange(caseId, from, to, actorId),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.alignerCase.updateMany).not.toHaveBeenCalled();
+    expect(prisma.alignerCaseStatusChange.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a change when the status moved on in the meantime', async () => {
+    caseStatus = AlignerCaseStatus.PLANNING;
+
+    await expect(
+      service.applyStatusChange(
+        caseId,
+        AlignerCaseStatus.RECORDS_RECEIVED,
+        AlignerCaseStatus.PLANNING,
+        actorId,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.alignerCaseStatusChange.create).not.toHaveBeenCalled();
+  });
+
+  it('leaves sending and answering plans to the treatment plan routes', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    caseStatus = AlignerCaseStatus.PLANNING;
+    await expect(
+      service.updateAlignerCaseStatus(
+        caseId,
+        { status: AlignerCaseStatus.PLAN_SENT },
+        { id: actorId, role: 'case_manager' },
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    caseStatus = AlignerCaseStatus.PLAN_SENT;
+    await expect(
+      service.updateAlignerCaseStatus(
+        caseId,
+        { status: AlignerCaseStatus.APPROVED },
+        { id: actorId, role: 'case_manager' },
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    expect(prisma.alignerCase.updateMany).not.toHaveBeenCalled();
+  });
+});
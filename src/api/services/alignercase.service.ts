@@ -1,18 +1,358 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   ForbiddenException,
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ImageKitService } from './imagekit.service';
+import { DentistVerificationService } from './dentist-verification.service';
+import { PatientService } from './patient.service';
 
 import { UserRole } from '../../guards/auth.guard';
-import { AlignerCase, Prisma } from '@prisma/client';
-import { AlignerCaseQueryDto, CreateAlignerCaseDto, UpdateAlignerCaseDto } from '../dto/alignercase.dto';
+import { Permission, hasPermission } from '../../guards/permissions';
+import { AlignerCase, AlignerCaseRecord, Prisma } from '@prisma/client';
+import {
+  AlignerCaseQueryDto,
+  AlignerCaseStatus,
+  AlignerRecordType,
+  CreateAlignerCaseDto,
+  PatientGender,
+  SubmitAlignerCaseDto,
+  UpdateAlignerCaseDto,
+  UpdateAlignerCaseStatusDto,
+} from '../dto/alignercase.dto';
+import {
+  fileExtension,
+  hasValidSignature,
+} from '../../helpers/file-signature.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+// Where a case may go next from each status
+export const CASE_TRANSITIONS: Record<AlignerCaseStatus, AlignerCaseStatus[]> =
+  {
+    [AlignerCaseStatus.SUBMITTED]: [AlignerCaseStatus.RECORDS_RECEIVED],
+    [AlignerCaseStatus.RECORDS_RECEIVED]: [AlignerCaseStatus.PLANNING],
+    [AlignerCaseStatus.PLANNING]: [AlignerCaseStatus.PLAN_SENT],
+    [AlignerCaseStatus.PLAN_SENT]: [
+      AlignerCaseStatus.APPROVED,
+      AlignerCaseStatus.PLANNING, // Dentist asked for changes
+    ],
+    [AlignerCaseStatus.APPROVED]: [AlignerCaseStatus.MANUFACTURING],
+    [AlignerCaseStatus.MANUFACTURING]: [AlignerCaseStatus.SHIPPED],
+    [AlignerCaseStatus.SHIPPED]: [AlignerCaseStatus.IN_TREATMENT],
+    [AlignerCaseStatus.IN_TREATMENT]: [
+      AlignerCaseStatus.REFINEMENT,
+      AlignerCaseStatus.COMPLETED,
+    ],
+    [AlignerCaseStatus.REFINEMENT]: [
+      AlignerCaseStatus.PLANNING, // Refinement needs a new plan
+      AlignerCaseStatus.COMPLETED,
+    ],
+    [AlignerCaseStatus.COMPLETED]: [],
+  };
+
+// Sharing a plan and the dentist's answer to it go through treatment plan
+// versions, so each of these steps is tied to the plan it concerns
+const PLAN_REVIEW_STATUSES = [AlignerCaseStatus.PLAN_SENT];
+
+export interface CaseActor {
+  id: string;
+  role: UserRole | string;
+}
+
+interface RecordFileRule {
+  label: string;
+  extensions: string[];
+  maxSize: number;
+  maxFiles: number;
+}
+
+const MB = 1024 * 1024;
+
+// Accepted formats per record type. STL/PLY arrive with whatever MIME type
+// the browser guesses, so types are checked by extension and content.
+export const RECORD_FILE_RULES: Record<AlignerRecordType, RecordFileRule> = {
+  [AlignerRecordType.INTRAORAL_PHOTO]: {
+    label: 'Intraoral photos',
+    extensions: ['jpg', 'jpeg', 'png'],
+    maxSize: 15 * MB,
+    maxFiles: 10,
+  },
+  [AlignerRecordType.EXTRAORAL_PHOTO]: {
+    label: 'Extraoral photos',
+    extensions: ['jpg', 'jpeg', 'png'],
+    maxSize: 15 * MB,
+    maxFiles: 10,
+  },
+  [AlignerRecordType.XRAY]: {
+    label: 'X-rays',
+    extensions: ['jpg', 'jpeg', 'png', 'dcm'],
+    maxSize: 30 * MB,
+    maxFiles: 5,
+  },
+  [AlignerRecordType.SCAN]: {
+    label: 'Intraoral scans',
+    extensions: ['stl', 'ply'],
+    maxSize: 100 * MB,
+    maxFiles: 4,
+  },
+};
+
+// All record files in one upload; a full set of scans and photos fits, and
+// dentists can add more records to the case afterwards
+export const MAX_RECORDS_UPLOAD_SIZE = 200 * MB;
+
+// Multipart field carrying each record type
+export const RECORD_FIELDS: Record<string, AlignerRecordType> = {
+  intraoralPhotos: AlignerRecordType.INTRAORAL_PHOTO,
+  extraoralPhotos: AlignerRecordType.EXTRAORAL_PHOTO,
+  xrays: AlignerRecordType.XRAY,
+  scans: AlignerRecordType.SCAN,
+};
+
+// Dentists may add or remove records until the plan is approved, and again
+// when the case comes back for refinement
+const RECORDS_EDITABLE_STATUSES = [
+  AlignerCaseStatus.SUBMITTED,
+  AlignerCaseStatus.RECORDS_RECEIVED,
+  AlignerCaseStatus.PLANNING,
+  AlignerCaseStatus.PLAN_SENT,
+  AlignerCaseStatus.REFINEMENT,
+];
+
+type RecordFiles = Record<string, Express.Multer.File[] | undefined>;
+
+interface PendingRecord {
+  type: AlignerRecordType;
+  file: Express.Multer.File;
+}
+
+// Whole years between a date of birth and today
+function ageOn(dateOfBirth: Date | null): number | undefined {
+  if (!dateOfBirth) {
+    return undefined;
+  }
+  const today = new Date();
+  let age = today.getFullYear() - dateOfBirth.getFullYear();
+  const birthdayPassed =
+    today.getMonth() > dateOfBirth.getMonth() ||
+    (today.getMonth() === dateOfBirth.getMonth() &&
+      today.getDate() >= dateOfBirth.getDate());
+  if (!birthdayPassed) {
+    age -= 1;
+  }
+  return age;
+}
+
+const CASE_USER_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+} as const;
 
 @Injectable()
 export class AlignerCaseService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(AlignerCaseService.name);
+
+  private static readonly RECORD_FOLDER = 'aligner-cases';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly imageKitService: ImageKitService,
+    private readonly verificationService: DentistVerificationService,
+    private readonly patientService: PatientService,
+  ) {}
+
+  // Whether a file could belong in the given multipart field; used by the
+  // upload interceptor to reject obvious mismatches before buffering
+  static isAcceptedRecordFile(fieldName: string, fileName: string): boolean {
+    const type = RECORD_FIELDS[fieldName];
+    return (
+      type !== undefined &&
+      RECORD_FILE_RULES[type].extensions.includes(fileExtension(fileName))
+    );
+  }
+
+  // Flatten and validate the uploaded files. `existing` counts records the
+  // case already has, so per-type limits hold across several uploads.
+  private collectRecordFiles(
+    files: RecordFiles,
+    existing: Partial<Record<AlignerRecordType, number>> = {},
+  ): PendingRecord[] {
+    const records: PendingRecord[] = [];
+
+    for (const [field, type] of Object.entries(RECORD_FIELDS)) {
+      const rule = RECORD_FILE_RULES[type];
+      const fieldFiles = files[field] ?? [];
+
+      if ((existing[type] ?? 0) + fieldFiles.length > rule.maxFiles) {
+        throw new BadRequestException(
+          `${rule.label}: at most ${rule.maxFiles} files per case`,
+        );
+      }
+
+      for (const file of fieldFiles) {
+        const extension = fileExtension(file.originalname);
+        if (!rule.extensions.includes(extension)) {
+          throw new BadRequestException(
+            `${rule.label} must be ${rule.extensions.join(', ').toUpperCase()} files (got ${file.originalname})`,
+          );
+        }
+        if (file.size > rule.maxSize) {
+          throw new BadRequestException(
+            `${file.originalname} is larger than ${rule.maxSize / MB}MB`,
+          );
+        }
+        if (!hasValidSignature(file.buffer, extension)) {
+          throw new BadRequestException(
+            `${file.originalname} is not a valid ${extension.toUpperCase()} file`,
+          );
+        }
+        records.push({ type, file });
+      }
+    }
+
+    return records;
+  }
+
+  // Upload to ImageKit as private files; if any upload fails the ones
+  // already stored are removed so a rejected submission leaves nothing behind
+  private async uploadRecords(
+    ownerId: string,
+    records: PendingRecord[],
+  ): Promise<Prisma.AlignerCaseRecordCreateManyAlignerCaseInput[]> {
+    const uploaded: Prisma.AlignerCaseRecordCreateManyAlignerCaseInput[] = [];
+
+    try {
+      for (const { type, file } of records) {
+        const upload = await this.imageKitService.uploadPrivateFile(
+          file.buffer,
+          file.originalname,
+          `${AlignerCaseService.RECORD_FOLDER}/${ownerId}`,
+          ['aligner-case', type.toLowerCase()],
+        );
+        uploaded.push({
+          type,
+          fileId: upload.fileId,
+          filePath: upload.filePath,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+        });
+      }
+    } catch (error) {
+      await this.discardUploads(uploaded.map((record) => record.fileId));
+      throw error;
+    }
+
+    return uploaded;
+  }
+
+  private async discardUploads(fileIds: string[]) {
+    if (fileIds.length === 0) {
+      return;
+    }
+    try {
+      await this.imageKitService.deleteFiles(fileIds);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to remove ${fileIds.length} orphaned case record(s): ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  // Case with its owner and status history, history shaped as a timeline
+  private async findCaseWithTimeline(id: string) {
+    const alignerCase = await this.prisma.alignerCase.findUnique({
+      where: { id },
+      include: {
+        user: { select: CASE_USER_SELECT },
+        patient: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            chartNumber: true,
+          },
+        },
+        records: { orderBy: { createdAt: 'asc' } },
+        statusHistory: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            changedBy: {
+              select: { id: true, firstName: true, lastName: true, role: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!alignerCase) {
+      return null;
+    }
+
+    const shipmentEvents = await this.prisma.shipmentEvent.findMany({
+      where: { caseId: id },
+      include: {
+        shipment: { select: { carrier: true, awbNumber: true } },
+        recordedBy: {
+          select: { id: true, firstName: true, lastName: true, role: true },
+        },
+      },
+    });
+
+    // Case status changes and shipment updates, in the order they happened
+    const { statusHistory, ...details } = alignerCase;
+    const timeline = [
+      ...statusHistory.map((entry) => ({
+        id: entry.id,
+        type: 'CASE_STATUS' as const,
+        fromStatus: entry.fromStatus,
+        status: entry.toStatus,
+        note: entry.note,
+        at: entry.createdAt,
+        actor: entry.changedBy,
+      })),
+      ...shipmentEvents.map((event) => ({
+        id: event.id,
+        type: 'SHIPMENT' as const,
+        shipmentId: event.shipmentId,
+        fromStatus: null,
+        status: event.status,
+        note: [
+          `${event.shipment.carrier} AWB ${event.shipment.awbNumber}`,
+          event.detail,
+          event.location,
+        ]
+          .filter(Boolean)
+          .join(' - '),
+        at: event.occurredAt,
+        actor: event.recordedBy,
+      })),
+    ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    return { ...details, timeline };
+  }
+
+  // Records are private files, so each view gets short-lived signed URLs.
+  // Only call this once the viewer's access to the case is checked.
+  private withRecordUrls<T extends { records: AlignerCaseRecord[] }>(
+    alignerCase: T,
+  ) {
+    return {
+      ...alignerCase,
+      records: this.imageKitService.withSignedUrls(alignerCase.records),
+    };
+  }
+
+  // Case details for a viewer already allowed to see the case
+  private async findCaseDetails(id: string) {
+    const alignerCase = await this.findCaseWithTimeline(id);
+    return alignerCase && this.withRecordUrls(alignerCase);
+  }
 
   // Helper method to validate MongoDB ObjectID
   private isValidObjectId(id: string): boolean {
@@ -22,6 +362,7 @@ export class AlignerCaseService {
   // Create aligner case (Admin only)
   async createAlignerCase(
     createAlignerCaseDto: CreateAlignerCaseDto,
+    actorId: string,
   ): Promise<AlignerCase> {
     try {
       // Validate if user exists
@@ -33,11 +374,24 @@ export class AlignerCaseService {
         throw new NotFoundException('User not found');
       }
 
+      // Same checks as a dentist submission: their own, consenting patient
+      if (createAlignerCaseDto.patientId) {
+        await this.patientService.findPatientForCase(
+          createAlignerCaseDto.userId,
+          createAlignerCaseDto.patientId,
+        );
+      }
+
       const alignerCase = await this.prisma.alignerCase.create({
         data: {
-          name: createAlignerCaseDto.name,
-          quantity: createAlignerCaseDto.quantity,
-          userId: createAlignerCaseDto.userId,
+          ...createAlignerCaseDto,
+          status: AlignerCaseStatus.SUBMITTED,
+          statusHistory: {
+            create: {
+              toStatus: AlignerCaseStatus.SUBMITTED,
+              changedById: actorId,
+            },
+          },
         },
         include: {
           user: {
@@ -54,7 +408,10 @@ export class AlignerCaseService {
       return alignerCase;
     } catch (error) {
       console.error('Create aligner case error:', error);
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new BadRequestException('Failed to create aligner case');
@@ -69,6 +426,7 @@ export class AlignerCaseService {
         limit = 10,
         search,
         userId,
+        status,
         sortBy = 'createdAt',
         sortOrder = 'desc',
       } = query;
@@ -81,7 +439,7 @@ export class AlignerCaseService {
       if (search) {
         where.OR = [
           { name: { contains: search, mode: 'insensitive' } },
-          { quantity: { contains: search, mode: 'insensitive' } },
+          { patientReference: { contains: search, mode: 'insensitive' } },
           { user: { firstName: { contains: search, mode: 'insensitive' } } },
           { user: { lastName: { contains: search, mode: 'insensitive' } } },
           { user: { email: { contains: search, mode: 'insensitive' } } },
@@ -92,6 +450,10 @@ export class AlignerCaseService {
         where.userId = userId;
       }
 
+      if (status) {
+        where.status = status;
+      }
+
       // Build orderBy clause
       const orderBy: Prisma.AlignerCaseOrderByWithRelationInput = {};
       if (sortBy === 'userName') {
@@ -115,6 +477,7 @@ export class AlignerCaseService {
                 email: true,
               },
             },
+            _count: { select: { records: true } },
           },
         }),
         this.prisma.alignerCase.count({ where }),
@@ -140,31 +503,19 @@ export class AlignerCaseService {
   }
 
   // Get aligner case by ID (Admin only)
-  async getAlignerCaseById(id: string): Promise<AlignerCase> {
+  async getAlignerCaseById(id: string) {
     try {
       if (!this.isValidObjectId(id)) {
         throw new BadRequestException('Invalid aligner case ID format');
       }
 
-      const alignerCase = await this.prisma.alignerCase.findUnique({
-        where: { id },
-        include: {
-          user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
-          },
-        },
-      });
+      const alignerCase = await this.findCaseWithTimeline(id);
 
       if (!alignerCase) {
         throw new NotFoundException('Aligner case not found');
       }
 
-      return alignerCase;
+      return this.withRecordUrls(alignerCase);
     } catch (error) {
       console.error('Get aligner case by ID error:', error);
       if (
@@ -207,9 +558,26 @@ export class AlignerCaseService {
         }
       }
 
+      const data: Prisma.AlignerCaseUncheckedUpdateInput = {
+        ...updateAlignerCaseDto,
+      };
+
+      if (updateAlignerCaseDto.patientId) {
+        await this.patientService.findPatientForCase(
+          updateAlignerCaseDto.userId ?? existingCase.userId,
+          updateAlignerCaseDto.patientId,
+        );
+      } else if (
+        updateAlignerCaseDto.userId &&
+        updateAlignerCaseDto.userId !== existingCase.userId
+      ) {
+        // The old patient belongs to the previous dentist
+        data.patientId = null;
+      }
+
       const updatedAlignerCase = await this.prisma.alignerCase.update({
         where: { id },
-        data: updateAlignerCaseDto,
+        data,
         include: {
           user: {
             select: {
@@ -244,6 +612,11 @@ export class AlignerCaseService {
 
       const existingCase = await this.prisma.alignerCase.findUnique({
         where: { id },
+        include: {
+          records: { select: { fileId: true } },
+          treatmentPlans: { select: { stagingPdfFileId: true } },
+          messages: { select: { attachments: { select: { fileId: true } } } },
+        },
       });
 
       if (!existingCase) {
@@ -253,6 +626,15 @@ export class AlignerCaseService {
       await this.prisma.alignerCase.delete({
         where: { id },
       });
+      await this.discardUploads([
+        ...existingCase.records.map((record) => record.fileId),
+        ...existingCase.treatmentPlans
+          .map((plan) => plan.stagingPdfFileId)
+          .filter((fileId): fileId is string => Boolean(fileId)),
+        ...existingCase.messages.flatMap((message) =>
+          message.attachments.map((attachment) => attachment.fileId),
+        ),
+      ]);
 
       return { message: 'Aligner case deleted successfully' };
     } catch (error) {
@@ -278,6 +660,7 @@ export class AlignerCaseService {
         page = 1,
         limit = 10,
         search,
+        status,
         sortBy = 'createdAt',
         sortOrder = 'desc',
       } = query;
@@ -289,13 +672,17 @@ export class AlignerCaseService {
         userId: userId, // Users can only see their own cases
       };
 
+      if (status) {
+        where.status = status;
+      }
+
       if (search) {
         where.AND = [
           { userId: userId },
           {
             OR: [
               { name: { contains: search, mode: 'insensitive' } },
-              { quantity: { contains: search, mode: 'insensitive' } },
+              { patientReference: { contains: search, mode: 'insensitive' } },
             ],
           },
         ];
@@ -325,10 +712,27 @@ export class AlignerCaseService {
         this.prisma.alignerCase.count({ where }),
       ]);
 
+      // Messages from the lab the dentist has not opened yet
+      const unreadCounts = await this.prisma.caseMessage.groupBy({
+        by: ['caseId'],
+        where: {
+          caseId: { in: alignerCases.map((alignerCase) => alignerCase.id) },
+          fromLab: true,
+          readAt: null,
+        },
+        _count: { caseId: true },
+      });
+      const unreadByCase = new Map(
+        unreadCounts.map((item) => [item.caseId, item._count.caseId]),
+      );
+
       const totalPages = Math.ceil(total / limit);
 
       return {
-        data: alignerCases,
+        data: alignerCases.map((alignerCase) => ({
+          ...alignerCase,
+          unreadMessages: unreadByCase.get(alignerCase.id) ?? 0,
+        })),
         pagination: {
           currentPage: page,
           totalPages,
@@ -349,38 +753,29 @@ export class AlignerCaseService {
     caseId: string,
     userId: string,
     userRole: UserRole,
-  ): Promise<AlignerCase> {
+  ) {
     try {
       if (!this.isValidObjectId(caseId)) {
         throw new BadRequestException('Invalid aligner case ID format');
       }
 
-      const alignerCase = await this.prisma.alignerCase.findUnique({
-        where: { id: caseId },
-        include: {
-          user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
-          },
-        },
-      });
+      const alignerCase = await this.findCaseWithTimeline(caseId);
 
       if (!alignerCase) {
         throw new NotFoundException('Aligner case not found');
       }
 
-      // Check if the case belongs to the user (unless they are admin)
-      if (userRole !== UserRole.ADMIN && alignerCase.userId !== userId) {
+      // Check if the case belongs to the user (unless they manage cases)
+      if (
+        !hasPermission(userRole, Permission.CASES_MANAGE) &&
+        alignerCase.userId !== userId
+      ) {
         throw new ForbiddenException(
           'You can only access your own aligner cases',
         );
       }
 
-      return alignerCase;
+      return this.withRecordUrls(alignerCase);
     } catch (error) {
       console.error('Get user aligner case by ID error:', error);
       if (
@@ -394,10 +789,283 @@ export class AlignerCaseService {
     }
   }
 
+  // ==================== CASE SUBMISSION & RECORDS ====================
+
+  // Verified dentists open their own cases with clinical records attached
+  async submitAlignerCase(
+    dentistId: string,
+    submitDto: SubmitAlignerCaseDto,
+    files: RecordFiles,
+  ) {
+    if (!(await this.verificationService.isApproved(dentistId))) {
+      throw new ForbiddenException(
+        'Only verified dentists can submit aligner cases',
+      );
+    }
+
+    const demographics = await this.resolveDemographics(dentistId, submitDto);
+
+    const records = this.collectRecordFiles(files);
+    if (records.length === 0) {
+      throw new BadRequestException(
+        'Please attach at least one photo, X-ray or scan',
+      );
+    }
+
+    const uploaded = await this.uploadRecords(dentistId, records);
+
+    let alignerCase: AlignerCase;
+    try {
+      alignerCase = await this.prisma.alignerCase.create({
+        data: {
+          ...submitDto,
+          ...demographics,
+          userId: dentistId,
+          dentistSubmitted: true,
+          status: AlignerCaseStatus.SUBMITTED,
+          records: {
+            createMany: {
+              data: uploaded.map((record) => ({
+                ...record,
+                uploadedById: dentistId,
+              })),
+            },
+          },
+          statusHistory: {
+            create: {
+              toStatus: AlignerCaseStatus.SUBMITTED,
+              note: 'Submitted by dentist',
+              changedById: dentistId,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      await this.discardUploads(uploaded.map((record) => record.fileId));
+      console.error('Submit aligner case error:', error);
+      throw new BadRequestException('Failed to submit aligner case');
+    }
+
+    return this.findCaseDetails(alignerCase.id);
+  }
+
+  // Demographics are copied from the patient record so the case keeps
+  // what was true at submission, even if the record changes later
+  private async resolveDemographics(
+    dentistId: string,
+    submitDto: SubmitAlignerCaseDto,
+  ) {
+    if (!submitDto.patientId) {
+      if (
+        submitDto.patientAge === undefined ||
+        submitDto.patientGender === undefined
+      ) {
+        throw new BadRequestException(
+          'Please choose a patient or give the patient age and gender',
+        );
+      }
+      return {};
+    }
+
+    const patient = await this.patientService.findPatientForCase(
+      dentistId,
+      submitDto.patientId,
+    );
+
+    return {
+      patientReference:
+        submitDto.patientReference ?? patient.chartNumber ?? undefined,
+      patientAge: submitDto.patientAge ?? ageOn(patient.dateOfBirth),
+      patientGender:
+        submitDto.patientGender ??
+        (patient.gender as PatientGender | null) ??
+        undefined,
+    };
+  }
+
+  // The case, if the actor is its dentist or manages cases
+  private async findAccessibleCase(caseId: string, actor: CaseActor) {
+    if (!this.isValidObjectId(caseId)) {
+      throw new BadRequestException('Invalid aligner case ID format');
+    }
+
+    const alignerCase = await this.prisma.alignerCase.findUnique({
+      where: { id: caseId },
+    });
+    if (!alignerCase) {
+      throw new NotFoundException('Aligner case not found');
+    }
+
+    const isStaff = hasPermission(actor.role, Permission.CASES_MANAGE);
+    if (!isStaff && alignerCase.userId !== actor.id) {
+      throw new ForbiddenException('You can only access your own cases');
+    }
+    if (
+      !isStaff &&
+      !RECORDS_EDITABLE_STATUSES.includes(
+        alignerCase.status as AlignerCaseStatus,
+      )
+    ) {
+      throw new BadRequestException(
+        `Records cannot be changed while the case is ${alignerCase.status}`,
+      );
+    }
+
+    return alignerCase;
+  }
+
+  async addCaseRecords(caseId: string, actor: CaseActor, files: RecordFiles) {
+    const alignerCase = await this.findAccessibleCase(caseId, actor);
+
+    const counts = await this.prisma.alignerCaseRecord.groupBy({
+      by: ['type'],
+      where: { caseId },
+      _count: { type: true },
+    });
+    const existing = Object.fromEntries(
+      counts.map((item) => [item.type, item._count.type]),
+    );
+
+    const records = this.collectRecordFiles(files, existing);
+    if (records.length === 0) {
+      throw new BadRequestException('No files provided');
+    }
+
+    const uploaded = await this.uploadRecords(alignerCase.userId, records);
+
+    try {
+      await this.prisma.alignerCaseRecord.createMany({
+        data: uploaded.map((record) => ({
+          ...record,
+          caseId,
+          uploadedById: actor.id,
+        })),
+      });
+    } catch (error) {
+      await this.discardUploads(uploaded.map((record) => record.fileId));
+      console.error('Add aligner case records error:', error);
+      throw new BadRequestException('Failed to save case records');
+    }
+
+    return this.findCaseDetails(caseId);
+  }
+
+  async deleteCaseRecord(caseId: string, recordId: string, actor: CaseActor) {
+    if (!this.isValidObjectId(recordId)) {
+      throw new BadRequestException('Invalid record ID format');
+    }
+
+    await this.findAccessibleCase(caseId, actor);
+
+    const record = await this.prisma.alignerCaseRecord.findFirst({
+      where: { id: recordId, caseId },
+    });
+    if (!record) {
+      throw new NotFoundException('Case record not found');
+    }
+
+    await this.prisma.alignerCaseRecord.delete({ where: { id: record.id } });
+    await this.discardUploads([record.fileId]);
+
+    return { message: 'Case record deleted successfully' };
+  }
+
+  /**
+   * Validate and record a status change. Conditional on the old status so
+   * two concurrent changes cannot both apply. Callers check who may make it.
+   */
+  async applyStatusChange(
+    caseId: string,
+    fromStatus: AlignerCaseStatus,
+    toStatus: AlignerCaseStatus,
+    actorId: string,
+    note?: string,
+  ) {
+    if (!CASE_TRANSITIONS[fromStatus].includes(toStatus)) {
+      throw new BadRequestException(
+        `Cannot move a case from ${fromStatus} to ${toStatus}`,
+      );
+    }
+
+    const updated = await this.prisma.alignerCase.updateMany({
+      where: { id: caseId, status: fromStatus },
+      data: { status: toStatus, statusChangedAt: new Date() },
+    });
+
+    if (updated.count === 0) {
+      throw new BadRequestException(
+        'The case status changed in the meantime; please reload it',
+      );
+    }
+
+    await this.prisma.alignerCaseStatusChange.create({
+      data: {
+        caseId,
+        fromStatus,
+        toStatus,
+        note,
+        changedById: actorId,
+      },
+    });
+  }
+
+  // Move a case to its next lab stage (case managers)
+  async updateAlignerCaseStatus(
+    caseId: string,
+    updateStatusDto: UpdateAlignerCaseStatusDto,
+    actor: CaseActor,
+  ) {
+    try {
+      if (!this.isValidObjectId(caseId)) {
+        throw new BadRequestException('Invalid aligner case ID format');
+      }
+
+      const alignerCase = await this.prisma.alignerCase.findUnique({
+        where: { id: caseId },
+      });
+
+      if (!alignerCase) {
+        throw new NotFoundException('Aligner case not found');
+      }
+
+      const currentStatus = alignerCase.status as AlignerCaseStatus;
+      const { status, note } = updateStatusDto;
+
+      if (
+        PLAN_REVIEW_STATUSES.includes(currentStatus) ||
+        PLAN_REVIEW_STATUSES.includes(status)
+      ) {
+        throw new BadRequestException(
+          'Plans are sent and answered through the treatment plan endpoints',
+        );
+      }
+
+      await this.applyStatusChange(
+        caseId,
+        currentStatus,
+        status,
+        actor.id,
+        note,
+      );
+
+      return this.findCaseDetails(caseId);
+    } catch (error) {
+      console.error('Update aligner case status error:', error);
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException('Failed to update aligner case status');
+    }
+  }
+
   // Get aligner case statistics (Admin only)
   async getAlignerCaseStatistics() {
     try {
-      const [totalCases, totalUsers, recentCases, casesByUser] =
+      const [totalCases, totalUsers, recentCases, casesByUser, statusCounts] =
         await Promise.all([
           this.prisma.alignerCase.count(),
           this.prisma.alignerCase.groupBy({
@@ -424,6 +1092,10 @@ export class AlignerCaseService {
             orderBy: { _count: { userId: 'desc' } },
             take: 10,
           }),
+          this.prisma.alignerCase.groupBy({
+            by: ['status'],
+            _count: { status: true },
+          }),
         ]);
 
       const usersWithCases = totalUsers.length;
@@ -438,6 +1110,14 @@ export class AlignerCaseService {
           userId: item.userId,
           caseCount: item._count.userId,
         })),
+        casesByStatus: Object.fromEntries(
+          Object.values(AlignerCaseStatus).map((status) => [
+            status,
+            statusCounts.find(
+              (item) => (item.status as AlignerCaseStatus) === status,
+            )?._count.status ?? 0,
+          ]),
+        ),
       };
     } catch (error) {
       console.error('Get aligner case statistics error:', error);
@@ -8,6 +8,13 @@ import {
 import { PrismaService } from 'src/prisma/prisma.service';
 import { JwtService } from '@nestjs/jwt';
 import { EmailService } from './email.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { MfaChallengePurpose, MfaService } from './mfa.service';
+import {
+  SessionContext,
+  SessionRevokedReason,
+  SessionService,
+} from './session.service';
 import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
 import {
@@ -15,17 +22,43 @@ import {
   LoginDto,
   ForgotPasswordDto,
   ResetPasswordDto,
+  UnlockAccountDto,
+  MfaChallengeDto,
+  MfaEnrollmentDto,
+  ConfirmMfaEnrollmentDto,
 } from '../dto/auth.dto';
 import { UserRole } from '../../guards/auth.guard';
+import { isStaffRole } from '../../guards/permissions';
+import { isValidObjectId } from '../../helpers/validation.helper';
 
 @Injectable()
 export class AuthService {
+  static readonly ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+  static readonly ADMIN_REFRESH_TOKEN_TTL_SECONDS = 24 * 60 * 60; // 1 day
+  static readonly USER_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+  static readonly INVALID_CREDENTIALS_MESSAGE =
+    'Invalid credentials. Please check your email and password.';
+  // bcrypt hash of a random string, used to equalise login timing
+  private static readonly DUMMY_PASSWORD_HASH =
+    '$2b$10$CAOwco5vMjXW/UoxA1.xRumvP8Nbhvw99JGAU3CVfqABapxodQGly';
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly jwtService: JwtService,
     private readonly emailService: EmailService, // Inject EmailService
+    private readonly sessionService: SessionService,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly mfaService: MfaService,
   ) {}
 
+  // Dentists stay signed in for longer than admin panel staff
+  getRefreshTokenTtl(role: UserRole): number {
+    return isStaffRole(role)
+      ? AuthService.ADMIN_REFRESH_TOKEN_TTL_SECONDS
+      : AuthService.USER_REFRESH_TOKEN_TTL_SECONDS;
+  }
+
   async signup(signupDto: SignupDto) {
     const {
       email,
@@ -50,10 +83,10 @@ export class AuthService {
     }
 
     // Determine user role
-    let role = UserRole.USER;
+    let role = UserRole.DENTIST;
     const adminEmails = process.env.ADMIN_EMAILS.split(',') || [];
     if (adminEmails.includes(email)) {
-      role = UserRole.ADMIN;
+      role = UserRole.SUPER_ADMIN;
     } else {
       // Validate required fields for non-admin users
       if (!clinicName || !location) {
@@ -66,7 +99,7 @@ export class AuthService {
       }
     }
 
-    const isAdmin = role === UserRole.ADMIN;
+    const isAdmin = role === UserRole.SUPER_ADMIN;
 
     // Hash the password
     const salt = await bcrypt.genSalt();
@@ -185,56 +218,107 @@ export class AuthService {
       },
     };
   }
-  async login(loginDto: LoginDto) {
+  async login(loginDto: LoginDto, context: SessionContext = {}) {
     const { email, password } = loginDto;
 
+    await this.loginThrottle.assertCanAttempt(email, context.ipAddress);
+
     // Find the user
     const user = await this.prisma.user.findUnique({
       where: { email },
     });
 
-    // More detailed logging for debugging
-    console.log('Login attempt for email:', email);
-    console.log('User found:', !!user);
-    if (user) {
-      console.log('User verification status:', user.isEmailVerified);
-      console.log('User active status:', user.isActive);
-    }
+    // Compare against a dummy hash for unknown emails so both cases take
+    // the same time
+    const isPasswordValid = await bcrypt.compare(
+      password,
+      user?.password ?? AuthService.DUMMY_PASSWORD_HASH,
+    );
 
-    if (!user) {
-      console.log('User not found in database');
-      throw new NotFoundException('User not found. Please check your email or sign up.');
+    if (!user || !isPasswordValid) {
+      const { accountLocked, lockedUntil } =
+        await this.loginThrottle.recordFailure(email, context.ipAddress);
+
+      if (accountLocked && user) {
+        await this.sendAccountLockedEmail(user, lockedUntil);
+      }
+
+      // Same response whether the email is unknown or the password is wrong
+      throw new UnauthorizedException(AuthService.INVALID_CREDENTIALS_MESSAGE);
     }
 
     // Check if email is verified
     if (!user.isEmailVerified) {
-      console.log('User email not verified');
       throw new UnauthorizedException(
         'Please verify your email address before logging in. Check your email for a verification link.',
       );
     }
 
     if (!user.isActive) {
-      console.log('User account not active');
-      throw new UnauthorizedException('Your account is not active. Please contact support.');
+      throw new UnauthorizedException(
+        'Your account is not active. Please contact support.',
+      );
     }
 
-    // Compare passwords
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    
-    console.log('Password validation result:', isPasswordValid);
+    // Admin accounts (and anyone who opted in) need a second factor first.
+    // The failure counter is only cleared once every factor has passed, so
+    // guessing codes cannot ride on a correct password.
+    if (user.twoFactorEnabled) {
+      return {
+        success: true,
+        mfaRequired: true as const,
+        mfaToken: this.mfaService.createChallengeToken(
+          user.id,
+          MfaChallengePurpose.VERIFY,
+        ),
+        message: 'Enter the code from your authenticator app to continue.',
+      };
+    }
 
-    if (!isPasswordValid) {
-      console.log('Invalid password provided');
-      throw new UnauthorizedException('Invalid credentials. Please check your email and password.');
+    if (this.mfaService.isRequiredForRole(user.role)) {
+      return {
+        success: true,
+        mfaSetupRequired: true as const,
+        mfaToken: this.mfaService.createChallengeToken(
+          user.id,
+          MfaChallengePurpose.ENROLL,
+        ),
+        message:
+          'Two-factor authentication is required for your account. Please set it up to continue.',
+      };
     }
 
-    // Generate token
+    await this.loginThrottle.resetAccount(email);
+
+    return this.createLoginSession(user, context);
+  }
+
+  // Register the device and issue a short-lived access token for it
+  private async createLoginSession(
+    user: {
+      id: string;
+      firstName: string;
+      lastName: string;
+      email: string;
+      role: string;
+      isEmailVerified: boolean;
+    },
+    context: SessionContext,
+  ) {
+    const refreshTokenExpiresIn = this.getRefreshTokenTtl(
+      user.role as UserRole,
+    );
+    const { session, refreshToken } = await this.sessionService.createSession(
+      user.id,
+      refreshTokenExpiresIn,
+      context,
+    );
     const token = this.generateToken(
       user.id,
       user.role as UserRole,
       user.firstName,
       user.lastName,
+      session.id,
     );
 
     return {
@@ -248,6 +332,242 @@ export class AuthService {
         isEmailVerified: user.isEmailVerified,
       },
       token,
+      refreshToken,
+      accessTokenExpiresIn: AuthService.ACCESS_TOKEN_TTL_SECONDS,
+      refreshTokenExpiresIn,
+    };
+  }
+
+  // Loads the user behind an MFA challenge and re-checks they may still sign in
+  private async getChallengedUser(
+    mfaToken: string,
+    purpose: MfaChallengePurpose,
+  ) {
+    const userId = await this.mfaService.verifyChallengeToken(
+      mfaToken,
+      purpose,
+    );
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException(
+        'Your account is not active. Please contact support.',
+      );
+    }
+
+    return user;
+  }
+
+  // Second login step: exchange the MFA token and a code for a session
+  async verifyMfaLogin(
+    mfaChallengeDto: MfaChallengeDto,
+    context: SessionContext = {},
+  ) {
+    const { mfaToken, code, recoveryCode } = mfaChallengeDto;
+
+    if (!code && !recoveryCode) {
+      throw new BadRequestException(
+        'An authentication code or recovery code is required',
+      );
+    }
+
+    const user = await this.getChallengedUser(
+      mfaToken,
+      MfaChallengePurpose.VERIFY,
+    );
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    await this.loginThrottle.assertCanAttempt(user.email, context.ipAddress);
+
+    const isValid = await this.mfaService.verifySecondFactor(user.id, {
+      code,
+      recoveryCode,
+    });
+
+    if (!isValid) {
+      const { accountLocked, lockedUntil } =
+        await this.loginThrottle.recordFailure(user.email, context.ipAddress);
+
+      if (accountLocked) {
+        await this.sendAccountLockedEmail(user, lockedUntil);
+      }
+
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    await this.loginThrottle.resetAccount(user.email);
+
+    return this.createLoginSession(user, context);
+  }
+
+  // Enrollment during login, for roles that must use 2FA but have not set it up
+  async beginMfaEnrollment(mfaEnrollmentDto: MfaEnrollmentDto) {
+    const user = await this.getChallengedUser(
+      mfaEnrollmentDto.mfaToken,
+      MfaChallengePurpose.ENROLL,
+    );
+
+    const enrollment = await this.mfaService.beginEnrollment(user.id);
+
+    return {
+      success: true,
+      ...enrollment,
+    };
+  }
+
+  async confirmMfaEnrollment(
+    confirmMfaEnrollmentDto: ConfirmMfaEnrollmentDto,
+    context: SessionContext = {},
+  ) {
+    const user = await this.getChallengedUser(
+      confirmMfaEnrollmentDto.mfaToken,
+      MfaChallengePurpose.ENROLL,
+    );
+
+    const { recoveryCodes } = await this.mfaService.confirmEnrollment(
+      user.id,
+      confirmMfaEnrollmentDto.code,
+    );
+    await this.loginThrottle.resetAccount(user.email);
+    const session = await this.createLoginSession(user, context);
+
+    return {
+      ...session,
+      recoveryCodes,
+    };
+  }
+
+  async refresh(refreshToken: string, context: SessionContext = {}) {
+    if (!refreshToken) {
+      throw new UnauthorizedException('Refresh token is required');
+    }
+
+    const rotated = await this.sessionService.rotateSession(
+      refreshToken,
+      context,
+    );
+    const { user, session } = rotated;
+
+    const token = this.generateToken(
+      user.id,
+      user.role as UserRole,
+      user.firstName,
+      user.lastName,
+      session.id,
+    );
+
+    return {
+      success: true,
+      token,
+      refreshToken: rotated.refreshToken,
+      accessTokenExpiresIn: AuthService.ACCESS_TOKEN_TTL_SECONDS,
+      // The session keeps its original expiry; rotation does not extend it
+      refreshTokenExpiresIn: Math.max(
+        0,
+        Math.floor((session.expiresAt.getTime() - Date.now()) / 1000),
+      ),
+    };
+  }
+
+  async logout(refreshToken?: string) {
+    if (refreshToken) {
+      await this.sessionService.revokeByRefreshToken(refreshToken);
+    }
+
+    return { message: 'Logged out successfully' };
+  }
+
+  private async sendAccountLockedEmail(
+    user: { id: string; firstName: string; email: string },
+    lockedUntil: Date,
+  ) {
+    const unlockToken = crypto.randomBytes(32).toString('hex');
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        accountUnlockToken: unlockToken,
+        accountUnlockExpires: lockedUntil,
+      },
+    });
+
+    try {
+      await this.emailService.sendAccountLockedEmail({
+        firstName: user.firstName,
+        email: user.email,
+        unlockUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/unlock-account?token=${unlockToken}`,
+        lockedUntil,
+      });
+    } catch (emailError) {
+      console.error('Failed to send account locked email:', emailError);
+    }
+  }
+
+  async unlockAccount(unlockAccountDto: UnlockAccountDto) {
+    const user = await this.prisma.user.findFirst({
+      where: {
+        accountUnlockToken: unlockAccountDto.token,
+        accountUnlockExpires: {
+          gt: new Date(),
+        },
+      },
+    });
+
+    if (!user) {
+      throw new BadRequestException('Invalid or expired unlock token');
+    }
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        accountUnlockToken: null,
+        accountUnlockExpires: null,
+      },
+    });
+    await this.loginThrottle.resetAccount(user.email);
+
+    return {
+      success: true,
+      message: 'Your account has been unlocked. You can now log in.',
+    };
+  }
+
+  async revokeSession(sessionId: string, userId: string) {
+    if (!isValidObjectId(sessionId)) {
+      throw new BadRequestException('Invalid session ID format');
+    }
+
+    const revoked = await this.sessionService.revokeUserSession(
+      sessionId,
+      userId,
+    );
+
+    if (!revoked) {
+      throw new NotFoundException('Session not found');
+    }
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  async getSessions(userId: string, currentSessionId?: string) {
+    return this.sessionService.getUserSessions(userId, currentSessionId);
+  }
+
+  // "Log out everywhere"; optionally keeps the session making the request
+  async revokeAllSessions(userId: string, exceptSessionId?: string) {
+    const revokedCount = await this.sessionService.revokeAllUserSessions(
+      userId,
+      SessionRevokedReason.LOGOUT_EVERYWHERE,
+      exceptSessionId,
+    );
+
+    return {
+      message: exceptSessionId
+        ? 'Logged out of all other devices'
+        : 'Logged out of all devices',
+      revokedCount,
     };
   }
 
@@ -289,9 +609,12 @@ export class AuthService {
     role: UserRole,
     firstName: string,
     lastName: string,
+    sessionId: string,
   ): string {
-    const payload = { id: userId, role, firstName, lastName };
-    return this.jwtService.sign(payload);
+    const payload = { id: userId, role, firstName, lastName, sid: sessionId };
+    return this.jwtService.sign(payload, {
+      expiresIn: AuthService.ACCESS_TOKEN_TTL_SECONDS,
+    });
   }
 
   async validateToken(token: string) {
@@ -389,6 +712,12 @@ export class AuthService {
       },
     });
 
+    // Anyone holding the old password may still be signed in
+    await this.sessionService.revokeAllUserSessions(
+      user.id,
+      SessionRevokedReason.PASSWORD_RESET,
+    );
+
     return {
       message: 'Password reset successfully',
     };
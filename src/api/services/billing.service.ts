@@ -0,0 +1,565 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Invoice, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from './email.service';
+import { CaseActor } from './alignercase.service';
+import { UserRole } from '../../guards/auth.guard';
+import { hasPermission, Permission } from '../../guards/permissions';
+import { AlignerPackage } from '../dto/alignercase.dto';
+import { PlanDecisionType } from '../dto/treatment-plan.dto';
+import {
+  BillingHistoryQueryDto,
+  InvoiceQueryDto,
+  InvoiceStatus,
+  UpdateInvoicePaymentDto,
+  UpsertAlignerPriceDto,
+} from '../dto/billing.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import {
+  calculateGst,
+  financialYear,
+  formatInr,
+} from '../../helpers/gst.helper';
+import {
+  InvoiceSeller,
+  renderInvoicePdf,
+} from '../../helpers/invoice-pdf.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+const PACKAGE_LABELS: Record<AlignerPackage, string> = {
+  [AlignerPackage.LITE]: 'Clear aligner treatment - Lite',
+  [AlignerPackage.MODERATE]: 'Clear aligner treatment - Moderate',
+  [AlignerPackage.COMPREHENSIVE]: 'Clear aligner treatment - Comprehensive',
+  [AlignerPackage.REFINEMENT]: 'Clear aligner refinement',
+};
+
+@Injectable()
+export class BillingService {
+  private readonly logger = new Logger(BillingService.name);
+
+  private static readonly INVOICE_NUMBER_ATTEMPTS = 3;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  // Lab details printed on every invoice
+  private seller(): InvoiceSeller {
+    return {
+      legalName: process.env.BILLING_LEGAL_NAME || 'DentistPortal Aligner Lab',
+      address: process.env.BILLING_ADDRESS || '',
+      state: process.env.BILLING_STATE || 'Maharashtra',
+      gstin: process.env.BILLING_GSTIN || undefined,
+    };
+  }
+
+  private gstRatePercent() {
+    return Number(process.env.ALIGNER_GST_RATE || 12);
+  }
+
+  private isOverdue(invoice: Pick<Invoice, 'status' | 'dueAt'>) {
+    return (
+      (invoice.status as InvoiceStatus) === InvoiceStatus.ISSUED &&
+      invoice.dueAt < new Date()
+    );
+  }
+
+  // ---- Price lists ----
+
+  // The default price list, or one dentist's overrides
+  async getPrices(dentistId?: string) {
+    return this.prisma.alignerPrice.findMany({
+      where: { dentistId: dentistId ?? null },
+      orderBy: { package: 'asc' },
+    });
+  }
+
+  async upsertPrice(upsertDto: UpsertAlignerPriceDto) {
+    const { dentistId, amount, ...rest } = upsertDto;
+
+    if (dentistId) {
+      const dentist = await this.prisma.user.findUnique({
+        where: { id: dentistId },
+        select: { role: true },
+      });
+      if (!dentist || (dentist.role as UserRole) !== UserRole.DENTIST) {
+        throw new NotFoundException('Dentist not found');
+      }
+    }
+
+    const amountPaise = Math.round(amount * 100);
+    const existing = await this.prisma.alignerPrice.findFirst({
+      where: { dentistId: dentistId ?? null, package: upsertDto.package },
+    });
+
+    if (existing) {
+      return this.prisma.alignerPrice.update({
+        where: { id: existing.id },
+        data: { amountPaise, description: rest.description },
+      });
+    }
+
+    try {
+      return await this.prisma.alignerPrice.create({
+        // Stored as an explicit null so the default list can be queried
+        data: { ...rest, dentistId: dentistId ?? null, amountPaise },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'This price was set at the same time by someone else; please reload',
+        );
+      }
+      throw error;
+    }
+  }
+
+  async deletePrice(id: string) {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException('Invalid price ID format');
+    }
+
+    const { count } = await this.prisma.alignerPrice.deleteMany({
+      where: { id },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Price not found');
+    }
+
+    return { message: 'Price deleted successfully' };
+  }
+
+  /**
+   * What a dentist pays for each package: their own price where one is
+   * set, the default otherwise. Packages without any price are left out.
+   */
+  async getEffectivePrices(dentistId: string) {
+    const prices = await this.prisma.alignerPrice.findMany({
+      where: { OR: [{ dentistId }, { dentistId: null }] },
+    });
+
+    return Object.values(AlignerPackage).flatMap((pkg) => {
+      const price =
+        prices.find(
+          (p) =>
+            (p.package as AlignerPackage) === pkg && p.dentistId === dentistId,
+        ) ??
+        prices.find(
+          (p) => (p.package as AlignerPackage) === pkg && p.dentistId === null,
+        );
+      if (!price) {
+        return [];
+      }
+      return [
+        {
+          package: pkg,
+          description: price.description ?? PACKAGE_LABELS[pkg],
+          amountPaise: price.amountPaise,
+          custom: price.dentistId !== null,
+        },
+      ];
+    });
+  }
+
+  // ---- Invoices ----
+
+  /**
+   * Numbers an invoice and creates it in one transaction, so a failed
+   * create hands its number back instead of leaving a gap. Numbers run
+   * sequentially per financial year, e.g. INV/2026-27/00042.
+   */
+  private async createNumberedInvoice(
+    data: Omit<Prisma.InvoiceUncheckedCreateInput, 'number'>,
+    issuedAt: Date,
+    attempt = 1,
+  ): Promise<Invoice> {
+    const fy = financialYear(issuedAt);
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const counter = await tx.invoiceCounter.upsert({
+          where: { financialYear: fy },
+          create: { financialYear: fy, lastNumber: 1 },
+          update: { lastNumber: { increment: 1 } },
+        });
+        return tx.invoice.create({
+          data: {
+            ...data,
+            number: `INV/${fy}/${String(counter.lastNumber).padStart(5, '0')}`,
+            issuedAt,
+          },
+        });
+      });
+    } catch (error) {
+      // Another invoice took the counter (or opened the year's counter) at
+      // the same time; numbering again from the new count is safe
+      if (
+        attempt < BillingService.INVOICE_NUMBER_ATTEMPTS &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === 'P2002' || error.code === 'P2034')
+      ) {
+        return this.createNumberedInvoice(data, issuedAt, attempt + 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Invoices the latest approved plan of a case. The first invoice of a
+   * case bills the case's package; every later approved plan is a
+   * refinement. Called when the dentist approves a plan, and by admins
+   * when that did not go through.
+   */
+  async issueForApprovedPlan(caseId: string) {
+    if (!isValidObjectId(caseId)) {
+      throw new BadRequestException('Invalid aligner case ID format');
+    }
+
+    const alignerCase = await this.prisma.alignerCase.findUnique({
+      where: { id: caseId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+            dentistProfile: {
+              select: {
+                clinicName: true,
+                address: true,
+                city: true,
+                state: true,
+                zipCode: true,
+                gstin: true,
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!alignerCase) {
+      throw new NotFoundException('Aligner case not found');
+    }
+
+    const plan = await this.prisma.treatmentPlan.findFirst({
+      where: {
+        caseId,
+        decision: { is: { decision: PlanDecisionType.APPROVED } },
+      },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true },
+    });
+    if (!plan) {
+      throw new BadRequestException(
+        'This case has no approved treatment plan to invoice',
+      );
+    }
+
+    const billed = await this.prisma.invoice.findMany({
+      where: { caseId, status: { not: InvoiceStatus.VOID } },
+      select: { planId: true },
+    });
+    if (billed.some((invoice) => invoice.planId === plan.id)) {
+      throw new ConflictException(
+        `Treatment plan v${plan.version} has already been invoiced`,
+      );
+    }
+
+    const pkg =
+      billed.length > 0
+        ? AlignerPackage.REFINEMENT
+        : (alignerCase.package as AlignerPackage | null);
+    if (!pkg) {
+      throw new BadRequestException(
+        'Set the aligner package on the case before invoicing it',
+      );
+    }
+
+    const dentistId = alignerCase.userId;
+    const price = (await this.getEffectivePrices(dentistId)).find(
+      (entry) => entry.package === pkg,
+    );
+    if (!price) {
+      throw new BadRequestException(`No price is set for the ${pkg} package`);
+    }
+
+    const seller = this.seller();
+    const gstRatePercent = this.gstRatePercent();
+    const profile = alignerCase.user.dentistProfile;
+    const gst = calculateGst(
+      price.amountPaise,
+      gstRatePercent,
+      seller.state,
+      profile?.state,
+    );
+
+    const issuedAt = new Date();
+    const dueAt = new Date(issuedAt);
+    dueAt.setDate(dueAt.getDate() + Number(process.env.INVOICE_DUE_DAYS || 15));
+
+    // The check above reads before writing; the unique claim is what stops
+    // two approvals racing each other into two invoices
+    try {
+      await this.prisma.invoicePlanClaim.create({ data: { planId: plan.id } });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `Treatment plan v${plan.version} has already been invoiced`,
+        );
+      }
+      throw error;
+    }
+
+    let invoice: Invoice;
+    try {
+      invoice = await this.createNumberedInvoice(
+        {
+          caseId,
+          planId: plan.id,
+          dentistId,
+          billTo: {
+            name: `${alignerCase.user.firstName} ${alignerCase.user.lastName}`,
+            email: alignerCase.user.email,
+            clinicName: profile?.clinicName ?? null,
+            address: profile
+              ? `${profile.address}, ${profile.city}, ${profile.state} ${profile.zipCode}`
+              : null,
+            state: profile?.state ?? null,
+            gstin: profile?.gstin ?? null,
+          },
+          caseName: alignerCase.name,
+          package: pkg,
+          description: `${price.description} (plan v${plan.version})`,
+          hsnCode: process.env.ALIGNER_HSN_CODE || '9021',
+          subtotalPaise: price.amountPaise,
+          gstRatePercent,
+          ...gst,
+          dueAt,
+        },
+        issuedAt,
+      );
+    } catch (error) {
+      await this.prisma.invoicePlanClaim.deleteMany({
+        where: { planId: plan.id },
+      });
+      throw error;
+    }
+
+    try {
+      await this.emailService.sendInvoiceIssuedEmail({
+        firstName: alignerCase.user.firstName,
+        email: alignerCase.user.email,
+        invoiceNumber: invoice.number,
+        caseName: invoice.caseName,
+        total: formatInr(invoice.totalPaise),
+        dueDate: invoice.dueAt.toDateString(),
+        billingUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/billing`,
+        pdf: await renderInvoicePdf(invoice, seller),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to email invoice ${invoice.number}: ${errorMessage(error)}`,
+      );
+    }
+
+    return invoice;
+  }
+
+  // Every invoice, for the lab's accounts
+  async getInvoices(query: InvoiceQueryDto) {
+    const { page = 1, limit = 20, status, dentistId, search } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.InvoiceWhereInput = {};
+    if (status) {
+      where.status = status;
+    }
+    if (dentistId) {
+      where.dentistId = dentistId;
+    }
+    if (search) {
+      where.OR = [
+        { number: { contains: search, mode: 'insensitive' } },
+        { caseName: { contains: search, mode: 'insensitive' } },
+        {
+          billTo: {
+            is: { clinicName: { contains: search, mode: 'insensitive' } },
+          },
+        },
+        { billTo: { is: { name: { contains: search, mode: 'insensitive' } } } },
+      ];
+    }
+
+    const [invoices, total] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where,
+        orderBy: { issuedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.invoice.count({ where }),
+    ]);
+
+    return {
+      data: invoices.map((invoice) => ({
+        ...invoice,
+        isOverdue: this.isOverdue(invoice),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  // A dentist's own invoices, with what they have paid and still owe
+  async getBillingHistory(actor: CaseActor, query: BillingHistoryQueryDto) {
+    if ((actor.role as UserRole) !== UserRole.DENTIST) {
+      throw new ForbiddenException('Only dentists have a billing history');
+    }
+
+    const { page = 1, limit = 20, status } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.InvoiceWhereInput = { dentistId: actor.id };
+    if (status) {
+      where.status = status;
+    }
+
+    const [invoices, total, totals] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where,
+        orderBy: { issuedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.invoice.count({ where }),
+      this.prisma.invoice.groupBy({
+        by: ['status'],
+        where: { dentistId: actor.id },
+        _sum: { totalPaise: true },
+      }),
+    ]);
+
+    const sumFor = (invoiceStatus: InvoiceStatus) =>
+      totals.find((row) => (row.status as InvoiceStatus) === invoiceStatus)
+        ?._sum.totalPaise ?? 0;
+
+    return {
+      data: invoices.map((invoice) => ({
+        ...invoice,
+        isOverdue: this.isOverdue(invoice),
+      })),
+      summary: {
+        currency: 'INR',
+        paidPaise: sumFor(InvoiceStatus.PAID),
+        outstandingPaise: sumFor(InvoiceStatus.ISSUED),
+      },
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  // The invoice, if the actor was billed by it or manages billing
+  async getInvoice(id: string, actor: CaseActor) {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException('Invalid invoice ID format');
+    }
+
+    const invoice = await this.prisma.invoice.findUnique({ where: { id } });
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    if (
+      invoice.dentistId !== actor.id &&
+      !hasPermission(actor.role, Permission.BILLING_MANAGE)
+    ) {
+      throw new ForbiddenException('You can only access your own invoices');
+    }
+
+    return { ...invoice, isOverdue: this.isOverdue(invoice) };
+  }
+
+  async getInvoicePdf(id: string, actor: CaseActor) {
+    const invoice = await this.getInvoice(id, actor);
+    return {
+      fileName: `${invoice.number.replace(/\//g, '-')}.pdf`,
+      pdf: await renderInvoicePdf(invoice, this.seller()),
+    };
+  }
+
+  // Issued invoices are either paid or voided; both are final
+  async updatePayment(id: string, paymentDto: UpdateInvoicePaymentDto) {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException('Invalid invoice ID format');
+    }
+
+    const data: Prisma.InvoiceUpdateManyMutationInput =
+      paymentDto.status === InvoiceStatus.PAID
+        ? {
+            status: InvoiceStatus.PAID,
+            paidAt: paymentDto.paidAt
+              ? new Date(paymentDto.paidAt)
+              : new Date(),
+            paymentReference: paymentDto.paymentReference,
+          }
+        : { status: InvoiceStatus.VOID, voidReason: paymentDto.voidReason };
+
+    const { count } = await this.prisma.invoice.updateMany({
+      where: { id, status: InvoiceStatus.ISSUED },
+      data,
+    });
+
+    if (count === 0) {
+      const exists = await this.prisma.invoice.findUnique({
+        where: { id },
+        select: { status: true },
+      });
+      if (!exists) {
+        throw new NotFoundException('Invoice not found');
+      }
+      throw new ConflictException(`This invoice is already ${exists.status}`);
+    }
+
+    const invoice = await this.prisma.invoice.findUniqueOrThrow({
+      where: { id },
+    });
+
+    // A voided invoice no longer bills its plan, so the plan can be invoiced again
+    if (
+      (invoice.status as InvoiceStatus) === InvoiceStatus.VOID &&
+      invoice.planId
+    ) {
+      await this.prisma.invoicePlanClaim.deleteMany({
+        where: { planId: invoice.planId },
+      });
+    }
+
+    return invoice;
+  }
+}
@@ -4,6 +4,7 @@ import {
   BadRequestException,
   ForbiddenException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import {
   CreateBlogDto,
@@ -11,12 +12,21 @@ import {
   BlogQueryDto,
   BlogStatus,
   PublishBlogDto,
+  BlogServiceQuery,
 } from '../dto/blog.dto';
 import { UserRole } from '../../guards/auth.guard';
+import { Permission, hasPermission } from '../../guards/permissions';
+import {
+  ContentViewer,
+  DentistVerificationService,
+} from './dentist-verification.service';
 
 @Injectable()
 export class BlogService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly verificationService: DentistVerificationService,
+  ) {}
   // Helper function to generate slug from title
   private generateSlug(title: string): string {
     return title
@@ -149,16 +159,26 @@ export class BlogService {
     };
   }
 
-  // Get published blogs for public viewing
-  async getPublishedBlogs(query: BlogQueryDto) {
+  // Get published blogs for public viewing; dentist-only posts need a verified dentist
+  async getPublishedBlogs(query: BlogServiceQuery, viewer?: ContentViewer) {
+    let { isForDentist } = query;
+    if (!(await this.verificationService.canViewDentistContent(viewer))) {
+      if (isForDentist) {
+        await this.verificationService.assertCanViewDentistContent(viewer);
+      }
+      isForDentist = false;
+    }
+
     return this.getAllBlogs({
       ...query,
+      isForDentist,
       status: BlogStatus.PUBLISHED,
     });
   }
 
   // Get blog by ID
-  async getBlogById(id: string, role: UserRole) {
+  async getBlogById(id: string, viewer?: ContentViewer) {
+    const role = viewer?.role;
     const blog = await this.prisma.blog.findUnique({
       where: { id },
       include: {
@@ -176,10 +196,13 @@ export class BlogService {
       throw new NotFoundException('Blog not found');
     }
 
+    if (blog.isForDentist) {
+      await this.verificationService.assertCanViewDentistContent(viewer);
+    }
+
     if (
       blog.status === BlogStatus.PUBLISHED &&
-      role &&
-      role !== UserRole.ADMIN
+      !hasPermission(role, Permission.CONTENT_MANAGE)
     ) {
       await this.prisma.blog.update({
         where: { id },
@@ -191,19 +214,23 @@ export class BlogService {
   }
 
   // Get blog by slug
-  async getBlogBySlug(slug: string, userRole?: UserRole) {
+  async getBlogBySlug(slug: string, viewer?: ContentViewer) {
+    const userRole = viewer?.role;
     const blog = await this.prisma.blog.findUnique({
       where: { slug },
     });
-    if (!userRole && blog.isForDentist) {
-      throw new ForbiddenException('You can only view public blogs');
-    }
     if (!blog) {
       throw new NotFoundException('Blog not found');
     }
+    if (blog.isForDentist) {
+      await this.verificationService.assertCanViewDentistContent(viewer);
+    }
 
     // Only allow non-admins to view published blogs
-    if (userRole !== UserRole.ADMIN && blog.status !== BlogStatus.PUBLISHED) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      blog.status !== BlogStatus.PUBLISHED
+    ) {
       throw new NotFoundException('Blog not found');
     }
 
@@ -234,7 +261,10 @@ export class BlogService {
     }
 
     // Check permissions
-    if (userRole !== UserRole.ADMIN && existingBlog.authorId !== userId) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      existingBlog.authorId !== userId
+    ) {
       throw new ForbiddenException(
         'You can only update your own blogs or you must be an admin',
       );
@@ -359,7 +389,10 @@ export class BlogService {
     }
 
     // Check permissions
-    if (userRole !== UserRole.ADMIN && blog.authorId !== userId) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      blog.authorId !== userId
+    ) {
       throw new ForbiddenException(
         'You can only delete your own blogs or you must be an admin',
       );
@@ -422,8 +455,12 @@ export class BlogService {
   }
 
   // Search blogs with advanced filtering
-  async searchBlogs(query: string, filters?: Partial<BlogQueryDto>) {
-    const where: any = {
+  async searchBlogs(
+    query: string,
+    filters?: Partial<BlogQueryDto>,
+    viewer?: ContentViewer,
+  ) {
+    const where: Prisma.BlogWhereInput = {
       status: BlogStatus.PUBLISHED, // Only search published blogs for public
       OR: [
         { title: { contains: query, mode: 'insensitive' } },
@@ -436,6 +473,9 @@ export class BlogService {
     if (filters.isForDentist !== undefined) {
       where.isForDentist = filters.isForDentist;
     }
+    if (!(await this.verificationService.canViewDentistContent(viewer))) {
+      where.isForDentist = false;
+    }
     if (filters?.category) {
       where.category = { contains: filters.category, mode: 'insensitive' };
     }
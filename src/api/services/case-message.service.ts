@@ -0,0 +1,507 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { MessageAttachment, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ImageKitService } from './imagekit.service';
+import { EmailService } from './email.service';
+import { CaseActor } from './alignercase.service';
+import {
+  hasPermission,
+  Permission,
+  rolesWithPermission,
+} from '../../guards/permissions';
+import {
+  CaseInboxQueryDto,
+  CaseMessageQueryDto,
+  CreateCaseMessageDto,
+} from '../dto/case-message.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { jobTimersEnabled } from '../../helpers/jobs.helper';
+import {
+  fileExtension,
+  hasValidSignature,
+} from '../../helpers/file-signature.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+const SENDER_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+} as const;
+
+type DigestMessage = Prisma.CaseMessageGetPayload<{
+  include: {
+    sender: { select: { firstName: true; lastName: true } };
+    alignerCase: {
+      select: {
+        id: true;
+        name: true;
+        user: { select: { id: true; firstName: true; email: true } };
+      };
+    };
+  };
+}>;
+
+type MessageWithSender = Prisma.CaseMessageGetPayload<{
+  include: { sender: { select: typeof SENDER_SELECT } };
+  omit: { notifiedAt: true };
+}>;
+
+// Keeps digest previews short
+function preview(body: string): string {
+  return body.length > 140 ? `${body.slice(0, 137)}...` : body;
+}
+
+@Injectable()
+export class CaseMessageService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CaseMessageService.name);
+
+  static readonly MAX_ATTACHMENTS = 5;
+  static readonly MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20MB
+  static readonly ATTACHMENT_EXTENSIONS = [
+    'jpg',
+    'jpeg',
+    'png',
+    'pdf',
+    'stl',
+    'ply',
+  ];
+  private static readonly ATTACHMENT_FOLDER = 'case-messages';
+
+  static readonly DIGEST_INTERVAL_MS = 15 * 60 * 1000;
+  // Messages wait this long before going into a digest, so a conversation
+  // that is already being read does not also send email
+  static readonly DIGEST_DELAY_MS = 10 * 60 * 1000;
+  static readonly DIGEST_BATCH_SIZE = 500;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly imageKitService: ImageKitService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  onModuleInit() {
+    if (!jobTimersEnabled()) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.sendDigests(),
+      CaseMessageService.DIGEST_INTERVAL_MS,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // The case, and which side of the thread the actor is on
+  private async findThread(caseId: string, actor: CaseActor) {
+    if (!isValidObjectId(caseId)) {
+      throw new BadRequestException('Invalid aligner case ID format');
+    }
+
+    const alignerCase = await this.prisma.alignerCase.findUnique({
+      where: { id: caseId },
+      select: { id: true, name: true, userId: true },
+    });
+    if (!alignerCase) {
+      throw new NotFoundException('Aligner case not found');
+    }
+
+    if (alignerCase.userId === actor.id) {
+      return { alignerCase, isLab: false };
+    }
+    if (hasPermission(actor.role, Permission.CASES_MANAGE)) {
+      return { alignerCase, isLab: true };
+    }
+    throw new ForbiddenException('You can only access your own cases');
+  }
+
+  // Attachments are private files, so each read gets short-lived signed
+  // URLs. Only call this once findThread has confirmed access.
+  private withAttachmentUrls<T extends { attachments: MessageAttachment[] }>(
+    message: T,
+  ) {
+    return {
+      ...message,
+      attachments: this.imageKitService.withSignedUrls(message.attachments),
+    };
+  }
+
+  // Read receipt: the first time a side opens the thread, everything the
+  // other side sent so far is marked read
+  private async markThreadRead(caseId: string, isLab: boolean) {
+    const readAt = new Date();
+    await this.prisma.caseMessage.updateMany({
+      where: { caseId, fromLab: !isLab, readAt: null },
+      data: { readAt },
+    });
+  }
+
+  async getThread(
+    caseId: string,
+    actor: CaseActor,
+    query: CaseMessageQueryDto,
+  ) {
+    const { isLab } = await this.findThread(caseId, actor);
+    await this.markThreadRead(caseId, isLab);
+
+    const { page = 1, limit = 50 } = query;
+    const skip = (page - 1) * limit;
+
+    const [messages, total] = await Promise.all([
+      this.prisma.caseMessage.findMany({
+        where: { caseId },
+        include: { sender: { select: SENDER_SELECT } },
+        omit: { notifiedAt: true },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.caseMessage.count({ where: { caseId } }),
+    ]);
+
+    return {
+      data: messages.map((message) => this.withAttachmentUrls(message)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  private validateAttachments(files: Express.Multer.File[]) {
+    if (files.length > CaseMessageService.MAX_ATTACHMENTS) {
+      throw new BadRequestException(
+        `At most ${CaseMessageService.MAX_ATTACHMENTS} attachments per message`,
+      );
+    }
+
+    for (const file of files) {
+      const extension = fileExtension(file.originalname);
+      if (!CaseMessageService.ATTACHMENT_EXTENSIONS.includes(extension)) {
+        throw new BadRequestException(
+          `${file.originalname}: attachments must be images, PDFs or STL/PLY scans`,
+        );
+      }
+      if (!hasValidSignature(file.buffer, extension)) {
+        throw new BadRequestException(
+          `${file.originalname} is not a valid ${extension.toUpperCase()} file`,
+        );
+      }
+    }
+  }
+
+  async sendMessage(
+    caseId: string,
+    actor: CaseActor,
+    createDto: CreateCaseMessageDto,
+    files: Express.Multer.File[],
+  ) {
+    const { isLab } = await this.findThread(caseId, actor);
+    this.validateAttachments(files);
+
+    const attachments: Prisma.MessageAttachmentCreateInput[] = [];
+    try {
+      for (const file of files) {
+        const upload = await this.imageKitService.uploadPrivateFile(
+          file.buffer,
+          file.originalname,
+          `${CaseMessageService.ATTACHMENT_FOLDER}/${caseId}`,
+          ['case-message'],
+        );
+        attachments.push({
+          fileId: upload.fileId,
+          filePath: upload.filePath,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+        });
+      }
+    } catch (error) {
+      await this.discardAttachments(attachments);
+      throw error;
+    }
+
+    // Replying means the other side's messages were read
+    await this.markThreadRead(caseId, isLab);
+
+    let message: MessageWithSender;
+    try {
+      message = await this.prisma.caseMessage.create({
+        data: {
+          caseId,
+          senderId: actor.id,
+          fromLab: isLab,
+          body: createDto.body,
+          attachments,
+          // Stored as explicit nulls so the unread and digest filters match
+          readAt: null,
+          notifiedAt: null,
+        },
+        include: { sender: { select: SENDER_SELECT } },
+        omit: { notifiedAt: true },
+      });
+    } catch (error) {
+      await this.discardAttachments(attachments);
+      throw error;
+    }
+
+    return this.withAttachmentUrls(message);
+  }
+
+  private async discardAttachments(attachments: { fileId: string }[]) {
+    if (attachments.length === 0) {
+      return;
+    }
+    try {
+      await this.imageKitService.deleteFiles(
+        attachments.map((attachment) => attachment.fileId),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to remove ${attachments.length} message attachment(s): ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  // ==================== ADMIN INBOX ====================
+
+  // Threads across all cases, most recent activity first
+  async getInbox(query: CaseInboxQueryDto) {
+    const { page = 1, limit = 20, unreadOnly } = query;
+    const skip = (page - 1) * limit;
+
+    const unreadWhere: Prisma.CaseMessageWhereInput = {
+      fromLab: false,
+      readAt: null,
+    };
+
+    const threadWhere = unreadOnly ? unreadWhere : {};
+    const [threads, total] = await Promise.all([
+      this.prisma.caseMessage.groupBy({
+        by: ['caseId'],
+        where: threadWhere,
+        _max: { createdAt: true },
+        orderBy: { _max: { createdAt: 'desc' } },
+        skip,
+        take: limit,
+      }),
+      this.prisma.alignerCase.count({
+        where: { messages: { some: threadWhere } },
+      }),
+    ]);
+    const pageCaseIds = threads.map((thread) => thread.caseId);
+
+    const [cases, unreadCounts, latestMessages] = await Promise.all([
+      this.prisma.alignerCase.findMany({
+        where: { id: { in: pageCaseIds } },
+        select: {
+          id: true,
+          name: true,
+          patientReference: true,
+          status: true,
+          user: { select: { id: true, firstName: true, lastName: true } },
+        },
+      }),
+      this.prisma.caseMessage.groupBy({
+        by: ['caseId'],
+        where: { ...unreadWhere, caseId: { in: pageCaseIds } },
+        _count: { caseId: true },
+      }),
+      Promise.all(
+        pageCaseIds.map((caseId) =>
+          this.prisma.caseMessage.findFirst({
+            where: { caseId },
+            orderBy: { createdAt: 'desc' },
+            select: {
+              body: true,
+              fromLab: true,
+              createdAt: true,
+              // File details only; opening the thread signs their URLs
+              attachments: true,
+              sender: { select: SENDER_SELECT },
+            },
+          }),
+        ),
+      ),
+    ]);
+
+    const casesById = new Map(cases.map((item) => [item.id, item]));
+    const unreadByCase = new Map(
+      unreadCounts.map((item) => [item.caseId, item._count.caseId]),
+    );
+
+    return {
+      data: pageCaseIds.map((caseId, i) => ({
+        case: casesById.get(caseId) ?? null,
+        unreadCount: unreadByCase.get(caseId) ?? 0,
+        lastMessage: latestMessages[i],
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  // ==================== DIGESTS ====================
+
+  /**
+   * Email each recipient one summary of the messages still unread since
+   * the last run, instead of one email per message.
+   */
+  async sendDigests() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const messages = await this.prisma.caseMessage.findMany({
+        where: {
+          notifiedAt: null,
+          createdAt: {
+            lte: new Date(Date.now() - CaseMessageService.DIGEST_DELAY_MS),
+          },
+        },
+        include: {
+          sender: { select: { firstName: true, lastName: true } },
+          alignerCase: {
+            select: {
+              id: true,
+              name: true,
+              user: { select: { id: true, firstName: true, email: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: CaseMessageService.DIGEST_BATCH_SIZE,
+      });
+
+      // Read before the digest went out; nothing to tell anyone
+      const alreadyRead = messages.filter((message) => message.readAt);
+      await this.claimMessages(alreadyRead);
+
+      const unread = messages.filter((message) => !message.readAt);
+
+      // Lab messages go to the dentist owning each case
+      const byDentist = new Map<string, DigestMessage[]>();
+      for (const message of unread.filter((item) => item.fromLab)) {
+        const dentistId = message.alignerCase.user.id;
+        byDentist.set(dentistId, [
+          ...(byDentist.get(dentistId) ?? []),
+          message,
+        ]);
+      }
+      for (const dentistMessages of byDentist.values()) {
+        const claimed = await this.claimMessages(dentistMessages);
+        if (claimed.length === 0) {
+          continue;
+        }
+        const dentist = claimed[0].alignerCase.user;
+        await this.emailService.sendCaseMessageDigestEmail({
+          to: [dentist.email],
+          firstName: dentist.firstName,
+          threads: this.toDigestThreads(
+            claimed,
+            process.env.FRONTEND_URL || 'http://localhost:3000',
+          ),
+        });
+      }
+
+      // Dentist messages go to everyone who manages cases, in one digest
+      const claimedForLab = await this.claimMessages(
+        unread.filter((item) => !item.fromLab),
+      );
+      if (claimedForLab.length > 0) {
+        const managers = await this.prisma.user.findMany({
+          where: {
+            role: { in: rolesWithPermission(Permission.CASES_MANAGE) },
+            isActive: true,
+          },
+          select: { email: true },
+        });
+        if (managers.length > 0) {
+          await this.emailService.sendCaseMessageDigestEmail({
+            to: managers.map((manager) => manager.email),
+            threads: this.toDigestThreads(
+              claimedForLab,
+              process.env.ADMIN_PANEL_URL || 'http://localhost:3001',
+            ),
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Case message digest failed: ${errorMessage(error)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Conditional update so another app instance never sends the same
+  // messages twice; returns the messages this run now owns
+  private async claimMessages(messages: DigestMessage[]) {
+    if (messages.length === 0) {
+      return [];
+    }
+
+    const notifiedAt = new Date();
+    const claimed: DigestMessage[] = [];
+    for (const message of messages) {
+      const result = await this.prisma.caseMessage.updateMany({
+        where: { id: message.id, notifiedAt: null },
+        data: { notifiedAt },
+      });
+      if (result.count > 0) {
+        claimed.push(message);
+      }
+    }
+    return claimed;
+  }
+
+  private toDigestThreads(messages: DigestMessage[], baseUrl: string) {
+    const byCase = new Map<string, DigestMessage[]>();
+    for (const message of messages) {
+      byCase.set(message.caseId, [
+        ...(byCase.get(message.caseId) ?? []),
+        message,
+      ]);
+    }
+
+    return [...byCase.values()].map((caseMessages) => {
+      const latest = caseMessages[caseMessages.length - 1];
+      return {
+        caseName: latest.alignerCase.name,
+        count: caseMessages.length,
+        latestFrom: latest.sender
+          ? `${latest.sender.firstName} ${latest.sender.lastName}`
+          : 'Former user',
+        latestBody: preview(latest.body),
+        url: `${baseUrl}/aligner-cases/${latest.caseId}`,
+      };
+    });
+  }
+}
@@ -0,0 +1,225 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CourseCertificate, Prisma } from '@prisma/client';
+import { randomInt } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ImageKitService } from './imagekit.service';
+import { renderCertificatePdf } from '../../helpers/certificate-pdf.helper';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+// No 0/O or 1/I, so a serial read off paper is typed back correctly
+const SERIAL_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+@Injectable()
+export class CertificateService {
+  private readonly logger = new Logger(CertificateService.name);
+
+  private static readonly CERTIFICATE_FOLDER = 'course-certificates';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly imageKitService: ImageKitService,
+  ) {}
+
+  private issuerName() {
+    return process.env.CERTIFICATE_ISSUER_NAME || 'DentistPortal Academy';
+  }
+
+  private verifyUrl(serial: string) {
+    return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/certificates/verify/${serial}`;
+  }
+
+  // e.g. CERT-2026-7KQ2-MX9D
+  private generateSerial() {
+    const block = () =>
+      Array.from(
+        { length: 4 },
+        () => SERIAL_ALPHABET[randomInt(SERIAL_ALPHABET.length)],
+      ).join('');
+    return `CERT-${new Date().getFullYear()}-${block()}-${block()}`;
+  }
+
+  /**
+   * Creates the certificate record of a completed enrollment, or returns
+   * the existing one. The PDF is stored separately by storePdf.
+   */
+  private async createCertificate(enrollmentId: string) {
+    const existing = await this.prisma.courseCertificate.findUnique({
+      where: { enrollmentId },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const enrollment = await this.prisma.courseEnrollment.findUnique({
+      where: { id: enrollmentId },
+      include: {
+        user: {
+          select: {
+            firstName: true,
+            lastName: true,
+            dci_registration_number: true,
+          },
+        },
+        course: { select: { title: true, ceHours: true } },
+      },
+    });
+    if (!enrollment || enrollment.status !== 'COMPLETED') {
+      throw new BadRequestException(
+        'Certificates are only issued for completed courses',
+      );
+    }
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      try {
+        return await this.prisma.courseCertificate.create({
+          data: {
+            serial: this.generateSerial(),
+            enrollmentId: enrollment.id,
+            userId: enrollment.userId,
+            courseId: enrollment.courseId,
+            recipientName:
+              `${enrollment.user.firstName} ${enrollment.user.lastName}`.trim(),
+            dciNumber: enrollment.user.dci_registration_number || null,
+            courseTitle: enrollment.course.title,
+            ceHours: enrollment.course.ceHours,
+            completedAt: enrollment.completedAt ?? new Date(),
+          },
+        });
+      } catch (error) {
+        if (!(
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        )) {
+          throw error;
+        }
+        // Issued concurrently for this enrollment; otherwise a serial clash
+        const raced = await this.prisma.courseCertificate.findUnique({
+          where: { enrollmentId },
+        });
+        if (raced) {
+          return raced;
+        }
+      }
+    }
+    throw new Error('Could not allocate a unique certificate serial');
+  }
+
+  // Renders the PDF and stores it in ImageKit, unless that already happened
+  private async storePdf(certificate: CourseCertificate) {
+    if (certificate.pdfUrl) {
+      return certificate;
+    }
+
+    const pdf = await renderCertificatePdf(
+      certificate,
+      this.issuerName(),
+      this.verifyUrl(certificate.serial),
+    );
+    const uploaded = await this.imageKitService.uploadFile(
+      pdf,
+      `${certificate.serial}.pdf`,
+      CertificateService.CERTIFICATE_FOLDER,
+      true,
+      ['certificate', certificate.courseId],
+    );
+
+    const { count } = await this.prisma.courseCertificate.updateMany({
+      where: { id: certificate.id, pdfUrl: null },
+      data: { pdfUrl: uploaded.url, pdfFileId: uploaded.fileId },
+    });
+    if (count === 0) {
+      // Another request stored its copy first
+      await this.imageKitService
+        .deleteFile(uploaded.fileId)
+        .catch(() => undefined);
+    }
+
+    return this.prisma.courseCertificate.findUniqueOrThrow({
+      where: { id: certificate.id },
+    });
+  }
+
+  /**
+   * Issues certificates for enrollments that just completed. Failures are
+   * logged, not thrown: the learner can still fetch the certificate later,
+   * which retries.
+   */
+  async issueForEnrollments(enrollmentIds: string[]) {
+    const completed = await this.prisma.courseEnrollment.findMany({
+      where: {
+        id: { in: enrollmentIds },
+        status: 'COMPLETED',
+        certificate: { is: null },
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of completed) {
+      try {
+        await this.storePdf(await this.createCertificate(id));
+      } catch (error) {
+        this.logger.error(
+          `Failed to issue certificate for enrollment ${id}: ${errorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  // The learner's certificate for one enrollment, issued now if missing
+  async getForEnrollment(enrollmentId: string, userId: string) {
+    if (!isValidObjectId(enrollmentId)) {
+      throw new BadRequestException('Invalid enrollment ID format');
+    }
+
+    const enrollment = await this.prisma.courseEnrollment.findUnique({
+      where: { id: enrollmentId },
+      select: { id: true, userId: true },
+    });
+    if (!enrollment) {
+      throw new NotFoundException('Enrollment not found');
+    }
+    if (enrollment.userId !== userId) {
+      throw new ForbiddenException('You can only view your own certificates');
+    }
+
+    return this.storePdf(await this.createCertificate(enrollment.id));
+  }
+
+  async getMyCertificates(userId: string) {
+    return this.prisma.courseCertificate.findMany({
+      where: { userId },
+      orderBy: { issuedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Public check of a printed serial. Only what is on the certificate is
+   * returned.
+   */
+  async verify(serial: string) {
+    const certificate = await this.prisma.courseCertificate.findUnique({
+      where: { serial: serial.trim().toUpperCase() },
+      select: {
+        serial: true,
+        recipientName: true,
+        dciNumber: true,
+        courseTitle: true,
+        ceHours: true,
+        completedAt: true,
+        issuedAt: true,
+      },
+    });
+    if (!certificate) {
+      throw new NotFoundException('No certificate exists with this number');
+    }
+
+    return { valid: true, issuer: this.issuerName(), ...certificate };
+  }
+}
@@ -0,0 +1,588 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Lesson, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ImageKitService } from './imagekit.service';
+import { CourseService } from './course.service';
+import { UserRole } from '../../guards/auth.guard';
+import { hasPermission, Permission } from '../../guards/permissions';
+import { CourseStatus } from '../dto/course.dto';
+import {
+  CreateCourseModuleDto,
+  CreateLessonDto,
+  LessonType,
+  UpdateCourseModuleDto,
+  UpdateLessonDto,
+} from '../dto/course-curriculum.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { hasValidSignature } from '../../helpers/file-signature.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+// What visitors see of a lesson before enrolling
+const OUTLINE_LESSON_SELECT = {
+  id: true,
+  title: true,
+  type: true,
+  position: true,
+  durationMinutes: true,
+  isPreview: true,
+} as const;
+
+@Injectable()
+export class CourseCurriculumService {
+  private readonly logger = new Logger(CourseCurriculumService.name);
+
+  static readonly MAX_LESSON_PDF_SIZE = 25 * 1024 * 1024; // 25MB
+  private static readonly LESSON_PDF_FOLDER = 'course-lessons';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly imageKitService: ImageKitService,
+    private readonly courseService: CourseService,
+  ) {}
+
+  private async findCourse(courseId: string) {
+    if (!isValidObjectId(courseId)) {
+      throw new BadRequestException('Invalid course ID format');
+    }
+
+    const course = await this.prisma.course.findUnique({
+      where: { id: courseId },
+      select: { id: true, status: true },
+    });
+    if (!course) {
+      throw new NotFoundException('Course not found');
+    }
+    return course;
+  }
+
+  private async findModule(courseId: string, moduleId: string) {
+    if (!isValidObjectId(moduleId)) {
+      throw new BadRequestException('Invalid module ID format');
+    }
+
+    const courseModule = await this.prisma.courseModule.findFirst({
+      where: { id: moduleId, courseId },
+    });
+    if (!courseModule) {
+      throw new NotFoundException('Module not found');
+    }
+    return courseModule;
+  }
+
+  private async findLesson(courseId: string, lessonId: string) {
+    if (!isValidObjectId(lessonId)) {
+      throw new BadRequestException('Invalid lesson ID format');
+    }
+
+    const lesson = await this.prisma.lesson.findFirst({
+      where: { id: lessonId, courseId },
+    });
+    if (!lesson) {
+      throw new NotFoundException('Lesson not found');
+    }
+    return lesson;
+  }
+
+  // The learner's enrollment; cancelled or refunded ones give no access
+  private async findEnrollment(courseId: string, userId: string) {
+    const enrollment = await this.prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId, courseId } },
+    });
+    if (
+      !enrollment ||
+      (enrollment.status !== 'ACTIVE' && enrollment.status !== 'COMPLETED')
+    ) {
+      throw new ForbiddenException('You are not enrolled in this course');
+    }
+    return enrollment;
+  }
+
+  // ---- Reading ----
+
+  // Modules and lesson titles of a published course, for the course page
+  async getOutline(courseId: string) {
+    const course = await this.findCourse(courseId);
+    if ((course.status as CourseStatus) !== CourseStatus.PUBLISHED) {
+      throw new NotFoundException('Course not found');
+    }
+
+    const modules = await this.prisma.courseModule.findMany({
+      where: { courseId },
+      orderBy: { position: 'asc' },
+      include: {
+        lessons: {
+          orderBy: { position: 'asc' },
+          select: {
+            ...OUTLINE_LESSON_SELECT,
+            // Preview lessons are readable by anyone
+            videoUrl: true,
+            pdfFilePath: true,
+            body: true,
+          },
+        },
+      },
+    });
+
+    return modules.map((courseModule) => ({
+      ...courseModule,
+      lessons: courseModule.lessons.map(
+        ({ videoUrl, pdfFilePath, body, ...lesson }) =>
+          lesson.isPreview
+            ? this.withPdfUrl({ ...lesson, videoUrl, pdfFilePath, body })
+            : lesson,
+      ),
+    }));
+  }
+
+  /**
+   * The full curriculum with the learner's completed lessons. Content
+   * managers can open any course without enrolling.
+   */
+  async getLearnerCurriculum(
+    courseId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    await this.findCourse(courseId);
+
+    const enrollment = hasPermission(userRole, Permission.CONTENT_MANAGE)
+      ? await this.prisma.courseEnrollment.findUnique({
+          where: { userId_courseId: { userId, courseId } },
+        })
+      : await this.findEnrollment(courseId, userId);
+
+    const [modules, completions] = await Promise.all([
+      this.prisma.courseModule.findMany({
+        where: { courseId },
+        orderBy: { position: 'asc' },
+        include: {
+          lessons: {
+            orderBy: { position: 'asc' },
+            omit: { pdfFileId: true },
+          },
+        },
+      }),
+      enrollment
+        ? this.prisma.lessonCompletion.findMany({
+            where: { enrollmentId: enrollment.id },
+            select: { lessonId: true, completedAt: true },
+          })
+        : Promise.resolve<{ lessonId: string; completedAt: Date }[]>([]),
+    ]);
+
+    const completedAt = new Map(
+      completions.map((completion) => [
+        completion.lessonId,
+        completion.completedAt,
+      ]),
+    );
+
+    return {
+      enrollment: enrollment
+        ? {
+            id: enrollment.id,
+            status: enrollment.status,
+            progress: enrollment.progress,
+            completedAt: enrollment.completedAt,
+          }
+        : null,
+      modules: modules.map((courseModule) => ({
+        ...courseModule,
+        lessons: courseModule.lessons.map((lesson) => ({
+          ...this.withPdfUrl(lesson),
+          completedAt: completedAt.get(lesson.id) ?? null,
+        })),
+      })),
+    };
+  }
+
+  // ---- Modules ----
+
+  async createModule(courseId: string, createDto: CreateCourseModuleDto) {
+    await this.findCourse(courseId);
+
+    const position = await this.prisma.courseModule.count({
+      where: { courseId },
+    });
+    return this.prisma.courseModule.create({
+      data: { ...createDto, courseId, position },
+    });
+  }
+
+  async updateModule(
+    courseId: string,
+    moduleId: string,
+    updateDto: UpdateCourseModuleDto,
+  ) {
+    const courseModule = await this.findModule(courseId, moduleId);
+    return this.prisma.courseModule.update({
+      where: { id: courseModule.id },
+      data: updateDto,
+    });
+  }
+
+  // Removes the module with its lessons and their completions
+  async deleteModule(courseId: string, moduleId: string) {
+    const courseModule = await this.findModule(courseId, moduleId);
+    const lessons = await this.prisma.lesson.findMany({
+      where: { moduleId: courseModule.id },
+      select: { pdfFileId: true },
+    });
+
+    await this.prisma.courseModule.delete({ where: { id: courseModule.id } });
+    await this.renumberModules(courseId);
+    await this.courseService.syncCourseProgress(courseId);
+
+    for (const { pdfFileId } of lessons) {
+      if (pdfFileId) {
+        await this.discardPdf(pdfFileId);
+      }
+    }
+
+    return { message: 'Module deleted successfully' };
+  }
+
+  // `ids` has to list every module of the course exactly once
+  async reorderModules(courseId: string, ids: string[]) {
+    await this.findCourse(courseId);
+
+    const modules = await this.prisma.courseModule.findMany({
+      where: { courseId },
+      select: { id: true },
+    });
+    const known = new Set(modules.map((courseModule) => courseModule.id));
+    if (ids.length !== known.size || !ids.every((id) => known.has(id))) {
+      throw new BadRequestException(
+        'The new order must list every module of the course exactly once',
+      );
+    }
+
+    await this.prisma.$transaction(
+      ids.map((id, position) =>
+        this.prisma.courseModule.update({
+          where: { id },
+          data: { position },
+        }),
+      ),
+    );
+
+    return this.prisma.courseModule.findMany({
+      where: { courseId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  private async renumberModules(courseId: string) {
+    const modules = await this.prisma.courseModule.findMany({
+      where: { courseId },
+      orderBy: { position: 'asc' },
+      select: { id: true, position: true },
+    });
+    await this.prisma.$transaction(
+      modules
+        .map((courseModule, position) => ({ ...courseModule, position }))
+        .filter(
+          (courseModule, i) => modules[i].position !== courseModule.position,
+        )
+        .map(({ id, position }) =>
+          this.prisma.courseModule.update({
+            where: { id },
+            data: { position },
+          }),
+        ),
+    );
+  }
+
+  // ---- Lessons ----
+
+  // Each lesson type needs its own kind of content
+  private assertLessonContent(
+    type: LessonType,
+    content: { videoUrl?: string | null; body?: string | null },
+    hasPdf: boolean,
+  ) {
+    if (type === LessonType.VIDEO && !content.videoUrl) {
+      throw new BadRequestException('Video lessons need a videoUrl');
+    }
+    if (type === LessonType.PDF && !hasPdf) {
+      throw new BadRequestException('PDF lessons need a PDF file');
+    }
+    if (type === LessonType.TEXT && !content.body) {
+      throw new BadRequestException('Text lessons need a body');
+    }
+    if (hasPdf && type !== LessonType.PDF) {
+      throw new BadRequestException('Only PDF lessons take a PDF file');
+    }
+  }
+
+  private async uploadPdf(courseId: string, pdf: Express.Multer.File) {
+    if (!hasValidSignature(pdf.buffer, 'pdf')) {
+      throw new BadRequestException('The lesson file is not a valid PDF');
+    }
+    return this.imageKitService.uploadPrivateFile(
+      pdf.buffer,
+      pdf.originalname,
+      `${CourseCurriculumService.LESSON_PDF_FOLDER}/${courseId}`,
+      ['course-lesson'],
+    );
+  }
+
+  // Lesson PDFs are private files, so each read gets a short-lived signed
+  // URL. Only call this for lessons the reader may open.
+  private withPdfUrl<T extends { pdfFilePath: string | null }>({
+    pdfFilePath,
+    ...lesson
+  }: T) {
+    return {
+      ...lesson,
+      pdfUrl: pdfFilePath
+        ? this.imageKitService.getSignedUrl(pdfFilePath)
+        : null,
+    };
+  }
+
+  async createLesson(
+    courseId: string,
+    moduleId: string,
+    createDto: CreateLessonDto,
+    pdf: Express.Multer.File | undefined,
+  ) {
+    const courseModule = await this.findModule(courseId, moduleId);
+    this.assertLessonContent(createDto.type, createDto, !!pdf);
+
+    const upload = pdf ? await this.uploadPdf(courseId, pdf) : null;
+    const position = await this.prisma.lesson.count({
+      where: { moduleId: courseModule.id },
+    });
+
+    let lesson: Lesson;
+    try {
+      lesson = await this.prisma.lesson.create({
+        data: {
+          ...createDto,
+          moduleId: courseModule.id,
+          courseId,
+          position,
+          pdfFileId: upload?.fileId,
+          pdfFilePath: upload?.filePath,
+        },
+      });
+    } catch (error) {
+      if (upload) {
+        await this.discardPdf(upload.fileId);
+      }
+      throw error;
+    }
+
+    // A new lesson lowers everyone's share of the course
+    await this.courseService.syncCourseProgress(courseId);
+
+    return this.withPdfUrl(lesson);
+  }
+
+  async updateLesson(
+    courseId: string,
+    lessonId: string,
+    updateDto: UpdateLessonDto,
+    pdf: Express.Multer.File | undefined,
+  ) {
+    const lesson = await this.findLesson(courseId, lessonId);
+    this.assertLessonContent(
+      lesson.type as LessonType,
+      { ...lesson, ...updateDto },
+      !!pdf || !!lesson.pdfFileId,
+    );
+    const upload = pdf ? await this.uploadPdf(courseId, pdf) : null;
+
+    let updated: Lesson;
+    try {
+      updated = await this.prisma.lesson.update({
+        where: { id: lesson.id },
+        data: {
+          ...updateDto,
+          ...(upload && {
+            pdfFileId: upload.fileId,
+            pdfFilePath: upload.filePath,
+          }),
+        },
+      });
+    } catch (error) {
+      if (upload) {
+        await this.discardPdf(upload.fileId);
+      }
+      throw error;
+    }
+
+    if (upload && lesson.pdfFileId) {
+      await this.discardPdf(lesson.pdfFileId);
+    }
+
+    return this.withPdfUrl(updated);
+  }
+
+  async deleteLesson(courseId: string, lessonId: string) {
+    const lesson = await this.findLesson(courseId, lessonId);
+
+    await this.prisma.lesson.delete({ where: { id: lesson.id } });
+    await this.renumberLessons([lesson.moduleId]);
+    await this.courseService.syncCourseProgress(courseId);
+
+    if (lesson.pdfFileId) {
+      await this.discardPdf(lesson.pdfFileId);
+    }
+
+    return { message: 'Lesson deleted successfully' };
+  }
+
+  /**
+   * Sets the lesson order of a module. `ids` must hold all of the module's
+   * lessons and may add lessons of other modules in the course, which
+   * moves them here.
+   */
+  async reorderLessons(courseId: string, moduleId: string, ids: string[]) {
+    const courseModule = await this.findModule(courseId, moduleId);
+
+    const lessons = await this.prisma.lesson.findMany({
+      where: { id: { in: ids }, courseId },
+      select: { id: true, moduleId: true },
+    });
+    if (lessons.length !== ids.length) {
+      throw new BadRequestException(
+        'Every lesson in the new order must belong to this course',
+      );
+    }
+
+    const current = await this.prisma.lesson.count({
+      where: { moduleId: courseModule.id },
+    });
+    const staying = lessons.filter(
+      (lesson) => lesson.moduleId === courseModule.id,
+    ).length;
+    if (staying !== current) {
+      throw new BadRequestException(
+        "The new order must include all of the module's lessons",
+      );
+    }
+
+    await this.prisma.$transaction(
+      ids.map((id, position) =>
+        this.prisma.lesson.update({
+          where: { id },
+          data: { moduleId: courseModule.id, position },
+        }),
+      ),
+    );
+
+    // Close the gaps left in the modules lessons were moved out of
+    const sourceModules = [
+      ...new Set(
+        lessons
+          .map((lesson) => lesson.moduleId)
+          .filter((id) => id !== courseModule.id),
+      ),
+    ];
+    await this.renumberLessons(sourceModules);
+
+    const reordered = await this.prisma.lesson.findMany({
+      where: { moduleId: courseModule.id },
+      orderBy: { position: 'asc' },
+      omit: { pdfFileId: true },
+    });
+    return reordered.map((lesson) => this.withPdfUrl(lesson));
+  }
+
+  private async renumberLessons(moduleIds: string[]) {
+    if (moduleIds.length === 0) {
+      return;
+    }
+
+    const lessons = await this.prisma.lesson.findMany({
+      where: { moduleId: { in: moduleIds } },
+      orderBy: [{ moduleId: 'asc' }, { position: 'asc' }],
+      select: { id: true, moduleId: true, position: true },
+    });
+
+    const updates: Prisma.PrismaPromise<unknown>[] = [];
+    const nextPosition = new Map<string, number>();
+    for (const lesson of lessons) {
+      const position = nextPosition.get(lesson.moduleId) ?? 0;
+      nextPosition.set(lesson.moduleId, position + 1);
+      if (lesson.position !== position) {
+        updates.push(
+          this.prisma.lesson.update({
+            where: { id: lesson.id },
+            data: { position },
+          }),
+        );
+      }
+    }
+    await this.prisma.$transaction(updates);
+  }
+
+  // ---- Progress ----
+
+  async completeLesson(courseId: string, lessonId: string, userId: string) {
+    const lesson = await this.findLesson(courseId, lessonId);
+    const enrollment = await this.findEnrollment(courseId, userId);
+
+    // Lessons with a required quiz are completed by passing it
+    const quiz = await this.prisma.quiz.findUnique({
+      where: { lessonId: lesson.id },
+      select: { id: true, isRequired: true },
+    });
+    if (quiz?.isRequired) {
+      const passed = await this.prisma.quizAttempt.count({
+        where: { quizId: quiz.id, enrollmentId: enrollment.id, passed: true },
+      });
+      if (!passed) {
+        throw new BadRequestException(
+          'Pass the quiz of this lesson to complete it',
+        );
+      }
+    }
+
+    try {
+      await this.prisma.lessonCompletion.create({
+        data: { enrollmentId: enrollment.id, lessonId: lesson.id },
+      });
+    } catch (error) {
+      // Completing a lesson twice is harmless
+      if (!(
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      )) {
+        throw error;
+      }
+    }
+
+    return this.courseService.syncEnrollmentProgress(enrollment.id);
+  }
+
+  // Progress goes down again; a completed course stays completed
+  async uncompleteLesson(courseId: string, lessonId: string, userId: string) {
+    const lesson = await this.findLesson(courseId, lessonId);
+    const enrollment = await this.findEnrollment(courseId, userId);
+
+    await this.prisma.lessonCompletion.deleteMany({
+      where: { enrollmentId: enrollment.id, lessonId: lesson.id },
+    });
+
+    return this.courseService.syncEnrollmentProgress(enrollment.id);
+  }
+
+  private async discardPdf(fileId: string) {
+    try {
+      await this.imageKitService.deleteFile(fileId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to remove lesson PDF ${fileId}: ${errorMessage(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,430 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Quiz } from '@prisma/client';
+import { randomInt, randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CourseService } from './course.service';
+import { LessonType } from '../dto/course-curriculum.dto';
+import {
+  QuizAnswerDto,
+  QuizQuestionDto,
+  QuizQuestionType,
+  SubmitQuizAttemptDto,
+  UpsertQuizDto,
+} from '../dto/course-quiz.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+
+type QuizQuestion = Quiz['questions'][number];
+
+// Fisher-Yates with a cryptographic source, so the order cannot be predicted
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+@Injectable()
+export class CourseQuizService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly courseService: CourseService,
+  ) {}
+
+  private async findQuizLesson(courseId: string, lessonId: string) {
+    if (!isValidObjectId(courseId) || !isValidObjectId(lessonId)) {
+      throw new BadRequestException('Invalid course or lesson ID format');
+    }
+
+    const lesson = await this.prisma.lesson.findFirst({
+      where: { id: lessonId, courseId },
+      include: { quiz: true },
+    });
+    if (!lesson) {
+      throw new NotFoundException('Lesson not found');
+    }
+    if ((lesson.type as LessonType) !== LessonType.QUIZ) {
+      throw new BadRequestException('Only quiz lessons have a quiz');
+    }
+    return lesson;
+  }
+
+  private async findQuiz(courseId: string, lessonId: string) {
+    const lesson = await this.findQuizLesson(courseId, lessonId);
+    if (!lesson.quiz) {
+      throw new NotFoundException('This lesson has no quiz yet');
+    }
+    return lesson.quiz;
+  }
+
+  // Cancelled or refunded enrollments cannot take quizzes
+  private async findEnrollment(courseId: string, userId: string) {
+    const enrollment = await this.prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId, courseId } },
+    });
+    if (
+      !enrollment ||
+      (enrollment.status !== 'ACTIVE' && enrollment.status !== 'COMPLETED')
+    ) {
+      throw new ForbiddenException('You are not enrolled in this course');
+    }
+    return enrollment;
+  }
+
+  /**
+   * Builds a stored question from the DTO. Questions and options that
+   * name one of the quiz's current ids keep it; the rest get new ones.
+   * `usedIds` stops one id from being claimed twice in the same edit.
+   */
+  private toQuestion(
+    questionDto: QuizQuestionDto,
+    current: QuizQuestion[],
+    usedIds: Set<string>,
+  ): QuizQuestion {
+    const keepId = (id: string | undefined, knownIds: string[]) => {
+      if (!id || !knownIds.includes(id) || usedIds.has(id)) {
+        return randomUUID();
+      }
+      usedIds.add(id);
+      return id;
+    };
+
+    const previous = current.find((question) => question.id === questionDto.id);
+    const options: { id?: string; text: string; isCorrect: boolean }[] =
+      questionDto.type === QuizQuestionType.TRUE_FALSE
+        ? [
+            // Matched by text, since these options are never sent
+            {
+              id: previous?.options.find((option) => option.text === 'True')
+                ?.id,
+              text: 'True',
+              isCorrect: questionDto.correctAnswer === true,
+            },
+            {
+              id: previous?.options.find((option) => option.text === 'False')
+                ?.id,
+              text: 'False',
+              isCorrect: questionDto.correctAnswer === false,
+            },
+          ]
+        : (questionDto.options ?? []);
+
+    const correctCount = options.filter((option) => option.isCorrect).length;
+    if (
+      questionDto.type === QuizQuestionType.SINGLE_CHOICE &&
+      correctCount !== 1
+    ) {
+      throw new BadRequestException(
+        `"${questionDto.prompt}" must have exactly one correct option`,
+      );
+    }
+    if (
+      questionDto.type === QuizQuestionType.MULTIPLE_CHOICE &&
+      correctCount === 0
+    ) {
+      throw new BadRequestException(
+        `"${questionDto.prompt}" needs at least one correct option`,
+      );
+    }
+
+    return {
+      id: keepId(
+        questionDto.id,
+        current.map((question) => question.id),
+      ),
+      type: questionDto.type,
+      prompt: questionDto.prompt,
+      options: options.map((option) => ({
+        id: keepId(
+          option.id,
+          previous?.options.map((previousOption) => previousOption.id) ?? [],
+        ),
+        text: option.text,
+        isCorrect: option.isCorrect,
+      })),
+      explanation: questionDto.explanation ?? null,
+      points: questionDto.points ?? 1,
+    };
+  }
+
+  // ---- Admin ----
+
+  // The quiz with its answers, for editing
+  async getQuizForEditing(courseId: string, lessonId: string) {
+    return this.findQuiz(courseId, lessonId);
+  }
+
+  /**
+   * Creates the lesson's quiz or replaces it. Questions and options sent
+   * with their id keep it, so earlier attempts still match them; earlier
+   * attempts keep their grades either way.
+   */
+  async upsertQuiz(
+    courseId: string,
+    lessonId: string,
+    upsertDto: UpsertQuizDto,
+  ) {
+    const lesson = await this.findQuizLesson(courseId, lessonId);
+    const { questions, ...settings } = upsertDto;
+    const current = lesson.quiz?.questions ?? [];
+    const usedIds = new Set<string>();
+
+    const data = {
+      ...settings,
+      maxAttempts: settings.maxAttempts ?? null,
+      questions: questions.map((question) =>
+        this.toQuestion(question, current, usedIds),
+      ),
+    };
+
+    const quiz = lesson.quiz
+      ? await this.prisma.quiz.update({ where: { id: lesson.quiz.id }, data })
+      : await this.prisma.quiz.create({
+          data: { ...data, lessonId: lesson.id, courseId },
+        });
+
+    // A quiz that became required can hold back completion from now on;
+    // one that stopped being required may let learners finish
+    await this.courseService.syncCourseProgress(courseId);
+
+    return quiz;
+  }
+
+  async deleteQuiz(courseId: string, lessonId: string) {
+    const quiz = await this.findQuiz(courseId, lessonId);
+
+    await this.prisma.quiz.delete({ where: { id: quiz.id } });
+    await this.courseService.syncCourseProgress(courseId);
+
+    return { message: 'Quiz deleted successfully' };
+  }
+
+  // ---- Learners ----
+
+  private async attemptSummary(quiz: Quiz, enrollmentId: string) {
+    const attempts = await this.prisma.quizAttempt.findMany({
+      where: { quizId: quiz.id, enrollmentId },
+      orderBy: { attemptNumber: 'asc' },
+      select: {
+        id: true,
+        attemptNumber: true,
+        scorePercent: true,
+        passed: true,
+        submittedAt: true,
+      },
+    });
+
+    return {
+      attempts,
+      attemptsUsed: attempts.length,
+      attemptsRemaining:
+        quiz.maxAttempts === null
+          ? null
+          : Math.max(0, quiz.maxAttempts - attempts.length),
+      bestScorePercent: attempts.length
+        ? Math.max(...attempts.map((attempt) => attempt.scorePercent))
+        : null,
+      passed: attempts.some((attempt) => attempt.passed),
+    };
+  }
+
+  /**
+   * The quiz as a learner sees it: no answers, questions and options in
+   * a fresh random order when the quiz asks for it
+   */
+  async getQuiz(courseId: string, lessonId: string, userId: string) {
+    const quiz = await this.findQuiz(courseId, lessonId);
+    const enrollment = await this.findEnrollment(courseId, userId);
+
+    const questions = quiz.shuffleQuestions
+      ? shuffled(quiz.questions)
+      : quiz.questions;
+
+    return {
+      id: quiz.id,
+      lessonId: quiz.lessonId,
+      passMarkPercent: quiz.passMarkPercent,
+      maxAttempts: quiz.maxAttempts,
+      isRequired: quiz.isRequired,
+      questions: questions.map((question) => ({
+        id: question.id,
+        type: question.type,
+        prompt: question.prompt,
+        points: question.points,
+        options: (quiz.shuffleOptions &&
+        (question.type as QuizQuestionType) !== QuizQuestionType.TRUE_FALSE
+          ? shuffled(question.options)
+          : question.options
+        ).map((option) => ({ id: option.id, text: option.text })),
+      })),
+      ...(await this.attemptSummary(quiz, enrollment.id)),
+    };
+  }
+
+  async getMyAttempts(courseId: string, lessonId: string, userId: string) {
+    const quiz = await this.findQuiz(courseId, lessonId);
+    const enrollment = await this.findEnrollment(courseId, userId);
+    return this.attemptSummary(quiz, enrollment.id);
+  }
+
+  // All-or-nothing per question: exactly the correct options must be picked
+  private grade(questions: QuizQuestion[], answers: QuizAnswerDto[]) {
+    const byQuestion = new Map<string, QuizAnswerDto>();
+    for (const answer of answers) {
+      if (!questions.some((question) => question.id === answer.questionId)) {
+        throw new BadRequestException(
+          'Answers refer to a question that is not in this quiz; please reload it',
+        );
+      }
+      if (byQuestion.has(answer.questionId)) {
+        throw new BadRequestException(
+          'Each question can only be answered once',
+        );
+      }
+      byQuestion.set(answer.questionId, answer);
+    }
+
+    return questions.map((question) => {
+      const optionIds = [...new Set(byQuestion.get(question.id)?.optionIds)];
+      if (
+        (question.type as QuizQuestionType) !==
+          QuizQuestionType.MULTIPLE_CHOICE &&
+        optionIds.length > 1
+      ) {
+        throw new BadRequestException(
+          `Only one option can be chosen for "${question.prompt}"`,
+        );
+      }
+
+      const correctIds = question.options
+        .filter((option) => option.isCorrect)
+        .map((option) => option.id);
+      const correct =
+        optionIds.length === correctIds.length &&
+        optionIds.every((id) => correctIds.includes(id));
+
+      return {
+        questionId: question.id,
+        optionIds,
+        correct,
+        points: correct ? question.points : 0,
+      };
+    });
+  }
+
+  /**
+   * Grades a submission on the server and stores it. Passing completes the
+   * quiz lesson. The correct answers are revealed once the quiz is passed
+   * or no attempts are left.
+   */
+  async submitAttempt(
+    courseId: string,
+    lessonId: string,
+    userId: string,
+    submitDto: SubmitQuizAttemptDto,
+  ) {
+    const quiz = await this.findQuiz(courseId, lessonId);
+    const enrollment = await this.findEnrollment(courseId, userId);
+
+    const previous = await this.prisma.quizAttempt.findMany({
+      where: { quizId: quiz.id, enrollmentId: enrollment.id },
+      select: { attemptNumber: true, passed: true },
+    });
+    if (previous.some((attempt) => attempt.passed)) {
+      throw new ConflictException('You have already passed this quiz');
+    }
+    if (quiz.maxAttempts !== null && previous.length >= quiz.maxAttempts) {
+      throw new ForbiddenException('You have used all attempts for this quiz');
+    }
+
+    const answers = this.grade(quiz.questions, submitDto.answers);
+    const totalPoints = quiz.questions.reduce((sum, q) => sum + q.points, 0);
+    const earnedPoints = answers.reduce((sum, a) => sum + a.points, 0);
+    const scorePercent = Math.floor((earnedPoints / totalPoints) * 100);
+    const passed = scorePercent >= quiz.passMarkPercent;
+
+    let attemptId: string;
+    try {
+      const attempt = await this.prisma.quizAttempt.create({
+        data: {
+          quizId: quiz.id,
+          enrollmentId: enrollment.id,
+          attemptNumber: previous.length + 1,
+          answers,
+          earnedPoints,
+          totalPoints,
+          scorePercent,
+          passed,
+        },
+      });
+      attemptId = attempt.id;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'Another attempt was submitted at the same time; please reload',
+        );
+      }
+      throw error;
+    }
+
+    let enrollmentProgress = enrollment.progress;
+    if (passed) {
+      try {
+        await this.prisma.lessonCompletion.create({
+          data: { enrollmentId: enrollment.id, lessonId },
+        });
+      } catch (error) {
+        // The lesson may have been completed before the quiz was added
+        if (!(
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        )) {
+          throw error;
+        }
+      }
+      const synced = await this.courseService.syncEnrollmentProgress(
+        enrollment.id,
+      );
+      enrollmentProgress = synced.progress;
+    }
+
+    const outOfAttempts =
+      quiz.maxAttempts !== null && previous.length + 1 >= quiz.maxAttempts;
+    const reveal = passed || outOfAttempts;
+
+    return {
+      id: attemptId,
+      attemptNumber: previous.length + 1,
+      earnedPoints,
+      totalPoints,
+      scorePercent,
+      passMarkPercent: quiz.passMarkPercent,
+      passed,
+      attemptsRemaining:
+        quiz.maxAttempts === null
+          ? null
+          : quiz.maxAttempts - (previous.length + 1),
+      enrollmentProgress,
+      results: quiz.questions.map((question, i) => ({
+        questionId: question.id,
+        correct: answers[i].correct,
+        ...(reveal && {
+          correctOptionIds: question.options
+            .filter((option) => option.isCorrect)
+            .map((option) => option.id),
+          explanation: question.explanation,
+        }),
+      })),
+    };
+  }
+}
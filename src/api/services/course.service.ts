@@ -6,18 +6,26 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { CertificateService } from './certificate.service';
+import { RefundService } from './refund.service';
 import {
   CreateCourseDto,
   UpdateCourseDto,
   CourseQueryDto,
   CourseStatus,
+  EnrollmentStatus,
   PublishCourseDto,
 } from '../dto/course.dto';
 import { UserRole } from '../../guards/auth.guard';
+import { Permission, hasPermission } from '../../guards/permissions';
 
 @Injectable()
 export class CourseService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly certificateService: CertificateService,
+    private readonly refundService: RefundService,
+  ) {}
 
   // Helper function to generate slug from title
   private generateSlug(title: string): string {
@@ -210,7 +218,7 @@ export class CourseService {
 
     // Only allow non-admins to view published courses
     if (
-      userRole !== UserRole.ADMIN &&
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
       course.status !== CourseStatus.PUBLISHED
     ) {
       throw new NotFoundException('Course not found');
@@ -346,7 +354,10 @@ export class CourseService {
     }
 
     // Check permissions
-    if (userRole !== UserRole.ADMIN && course.createdById !== userId) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      course.createdById !== userId
+    ) {
       throw new ForbiddenException(
         'You can only delete your own courses or you must be an admin',
       );
@@ -444,6 +455,13 @@ export class CourseService {
       throw new BadRequestException('Course is not available for enrollment');
     }
 
+    // Paid courses are enrolled through payment checkout
+    if (!course.isFreeCourse && course.price > 0) {
+      throw new BadRequestException(
+        'This course is paid; start a checkout to enroll',
+      );
+    }
+
     // Check if user is already enrolled
     const existingEnrollment = await this.prisma.courseEnrollment.findUnique({
       where: {
@@ -454,7 +472,11 @@ export class CourseService {
       },
     });
 
-    if (existingEnrollment) {
+    if (
+      existingEnrollment &&
+      (existingEnrollment.status as EnrollmentStatus) !==
+        EnrollmentStatus.PENDING_PAYMENT
+    ) {
       throw new ConflictException('You are already enrolled in this course');
     }
 
@@ -472,12 +494,24 @@ export class CourseService {
       }
     }
 
-    // Create enrollment
-    const enrollment = await this.prisma.courseEnrollment.create({
-      data: {
+    // Create enrollment, or activate one left awaiting payment before the
+    // course became free
+    const enrollment = await this.prisma.courseEnrollment.upsert({
+      where: {
+        userId_courseId: {
+          userId,
+          courseId,
+        },
+      },
+      create: {
         userId,
         courseId,
-        amountPaid: course.isFreeCourse ? 0 : course.price,
+        amountPaid: 0,
+      },
+      update: {
+        status: EnrollmentStatus.ACTIVE,
+        enrolledAt: new Date(),
+        amountPaid: 0,
       },
       include: {
         course: {
@@ -561,6 +595,9 @@ export class CourseService {
             },
           },
         },
+        certificate: {
+          select: { id: true, serial: true, pdfUrl: true, issuedAt: true },
+        },
       },
       orderBy: { enrolledAt: 'desc' },
       skip,
@@ -580,12 +617,70 @@ export class CourseService {
     };
   }
 
-  // Update enrollment progress
-  async updateEnrollmentProgress(
-    enrollmentId: string,
-    userId: string,
-    progress: number,
-  ) {
+  // Share of the course's lessons the enrollment has completed (0-100)
+  private async computeProgress(enrollmentId: string, courseId: string) {
+    const [lessonCount, completedCount] = await Promise.all([
+      this.prisma.lesson.count({ where: { courseId } }),
+      this.prisma.lessonCompletion.count({ where: { enrollmentId } }),
+    ]);
+
+    return lessonCount === 0
+      ? 0
+      : Math.min(100, Math.round((completedCount / lessonCount) * 100));
+  }
+
+  /**
+   * Active enrollments at 100% complete once every required quiz of the
+   * course has been passed, and receive their certificate. Completion is
+   * never taken back.
+   */
+  private async completeIfFinished(courseId: string, enrollmentIds: string[]) {
+    if (enrollmentIds.length === 0) {
+      return;
+    }
+
+    const requiredQuizzes = await this.prisma.quiz.findMany({
+      where: { courseId, isRequired: true },
+      select: { id: true },
+    });
+
+    let finished = enrollmentIds;
+    if (requiredQuizzes.length > 0) {
+      const passed = await this.prisma.quizAttempt.findMany({
+        where: {
+          enrollmentId: { in: enrollmentIds },
+          quizId: { in: requiredQuizzes.map((quiz) => quiz.id) },
+          passed: true,
+        },
+        select: { enrollmentId: true, quizId: true },
+      });
+      const passedBy = new Map<string, Set<string>>();
+      for (const { enrollmentId, quizId } of passed) {
+        passedBy.set(
+          enrollmentId,
+          (passedBy.get(enrollmentId) ?? new Set()).add(quizId),
+        );
+      }
+      finished = enrollmentIds.filter(
+        (id) => (passedBy.get(id)?.size ?? 0) === requiredQuizzes.length,
+      );
+    }
+    if (finished.length === 0) {
+      return;
+    }
+
+    await this.prisma.courseEnrollment.updateMany({
+      where: { id: { in: finished }, status: 'ACTIVE' },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+    await this.certificateService.issueForEnrollments(finished);
+  }
+
+  /**
+   * Recomputes an enrollment's progress from its lesson completions.
+   * Progress is never taken from the client.
+   */
+  async syncEnrollmentProgress(enrollmentId: string) {
     const enrollment = await this.prisma.courseEnrollment.findUnique({
       where: { id: enrollmentId },
     });
@@ -594,21 +689,20 @@ export class CourseService {
       throw new NotFoundException('Enrollment not found');
     }
 
-    if (enrollment.userId !== userId) {
-      throw new ForbiddenException('You can only update your own enrollment');
-    }
-
-    const updateData: any = { progress };
-
-    // Mark as completed if progress is 100%
-    if (progress >= 100 && !enrollment.completedAt) {
-      updateData.status = 'COMPLETED';
-      updateData.completedAt = new Date();
+    const progress = await this.computeProgress(
+      enrollment.id,
+      enrollment.courseId,
+    );
+    await this.prisma.courseEnrollment.update({
+      where: { id: enrollment.id },
+      data: { progress },
+    });
+    if (progress === 100) {
+      await this.completeIfFinished(enrollment.courseId, [enrollment.id]);
     }
 
-    const updatedEnrollment = await this.prisma.courseEnrollment.update({
-      where: { id: enrollmentId },
-      data: updateData,
+    return this.prisma.courseEnrollment.findUniqueOrThrow({
+      where: { id: enrollment.id },
       include: {
         course: {
           select: {
@@ -619,12 +713,52 @@ export class CourseService {
         },
       },
     });
+  }
+
+  // Lessons were added or removed, so every active learner's share moved
+  async syncCourseProgress(courseId: string) {
+    const [enrollments, lessonCount] = await Promise.all([
+      this.prisma.courseEnrollment.findMany({
+        where: { courseId, status: 'ACTIVE' },
+        select: { id: true },
+      }),
+      this.prisma.lesson.count({ where: { courseId } }),
+    ]);
+    if (enrollments.length === 0) {
+      return;
+    }
+
+    const completed = await this.prisma.lessonCompletion.groupBy({
+      by: ['enrollmentId'],
+      where: { enrollmentId: { in: enrollments.map((e) => e.id) } },
+      _count: { _all: true },
+    });
+    const completedBy = new Map(
+      completed.map((row) => [row.enrollmentId, row._count._all]),
+    );
+
+    // One write per distinct progress value rather than per learner
+    const byProgress = new Map<number, string[]>();
+    for (const { id } of enrollments) {
+      const done = completedBy.get(id) ?? 0;
+      const progress =
+        lessonCount === 0
+          ? 0
+          : Math.min(100, Math.round((done / lessonCount) * 100));
+      byProgress.set(progress, [...(byProgress.get(progress) ?? []), id]);
+    }
 
-    return updatedEnrollment;
+    for (const [progress, ids] of byProgress) {
+      await this.prisma.courseEnrollment.updateMany({
+        where: { id: { in: ids } },
+        data: { progress },
+      });
+    }
+    await this.completeIfFinished(courseId, byProgress.get(100) ?? []);
   }
 
-  // Cancel enrollment
-  async cancelEnrollment(enrollmentId: string, userId: string) {
+  // Recalculate enrollment progress (kept for clients of the old endpoint)
+  async updateEnrollmentProgress(enrollmentId: string, userId: string) {
     const enrollment = await this.prisma.courseEnrollment.findUnique({
       where: { id: enrollmentId },
     });
@@ -634,27 +768,91 @@ export class CourseService {
     }
 
     if (enrollment.userId !== userId) {
-      throw new ForbiddenException('You can only cancel your own enrollment');
+      throw new ForbiddenException('You can only update your own enrollment');
     }
 
-    const updatedEnrollment = await this.prisma.courseEnrollment.update({
+    return this.syncEnrollmentProgress(enrollment.id);
+  }
+
+  /**
+   * Cancel enrollment. A paid enrollment cancelled inside the refund policy
+   * opens a refund request for an admin to approve.
+   */
+  async cancelEnrollment(
+    enrollmentId: string,
+    userId: string,
+    reason?: string,
+  ) {
+    const enrollment = await this.prisma.courseEnrollment.findUnique({
       where: { id: enrollmentId },
+    });
+
+    if (!enrollment) {
+      throw new NotFoundException('Enrollment not found');
+    }
+
+    if (enrollment.userId !== userId) {
+      throw new ForbiddenException('You can only cancel your own enrollment');
+    }
+
+    // A completed course has issued its certificate, which stays valid
+    if (
+      (enrollment.status as EnrollmentStatus) === EnrollmentStatus.COMPLETED
+    ) {
+      throw new BadRequestException(
+        'A completed course cannot be cancelled or refunded',
+      );
+    }
+
+    // Only once, so a cancellation cannot open a second refund
+    const { count } = await this.prisma.courseEnrollment.updateMany({
+      where: {
+        id: enrollmentId,
+        status: {
+          in: [EnrollmentStatus.PENDING_PAYMENT, EnrollmentStatus.ACTIVE],
+        },
+      },
       data: {
         status: 'CANCELLED',
       },
     });
+    if (count === 0) {
+      throw new BadRequestException(
+        `This enrollment is already ${enrollment.status.toLowerCase()}`,
+      );
+    }
 
-    // Decrement course enrollment count
-    await this.prisma.course.update({
-      where: { id: enrollment.courseId },
-      data: {
-        enrollmentCount: {
-          decrement: 1,
+    // Decrement course enrollment count; unpaid checkouts were never counted
+    if (
+      (enrollment.status as EnrollmentStatus) !==
+      EnrollmentStatus.PENDING_PAYMENT
+    ) {
+      await this.prisma.course.update({
+        where: { id: enrollment.courseId },
+        data: {
+          enrollmentCount: {
+            decrement: 1,
+          },
         },
-      },
-    });
+      });
+    }
+
+    const { refund, policyNote } =
+      (enrollment.status as EnrollmentStatus) ===
+      EnrollmentStatus.PENDING_PAYMENT
+        ? { refund: null, policyNote: null }
+        : await this.refundService.requestForCancelledEnrollment(
+            enrollment,
+            reason,
+          );
 
-    return updatedEnrollment;
+    return {
+      enrollment: await this.prisma.courseEnrollment.findUniqueOrThrow({
+        where: { id: enrollmentId },
+      }),
+      refund,
+      refundPolicyNote: policyNote,
+    };
   }
 
   // Get course enrollments (Admin only)
@@ -0,0 +1,430 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MapService } from './map.service';
+import { GeocodingJobService } from './geocoding-job.service';
+import { UserRole } from '../../guards/auth.guard';
+import {
+  CreateDentistProfileDto,
+  DentistQueryDto,
+  UpdateDentistProfileDto,
+} from '../dto/dentist.dto';
+import { VerificationStatus } from '../dto/users.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { toGeoPoint } from '../../helpers/geo.helper';
+import { GeocodeStatus, GeocodeTarget } from '../dto/geocoding.dto';
+
+const WEEK_DAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const;
+
+type OpeningHoursInput = CreateDentistProfileDto['openingHours'];
+
+@Injectable()
+export class DentistProfileService {
+  private readonly logger = new Logger(DentistProfileService.name);
+
+  // Owner details shown alongside a profile
+  private static readonly USER_SELECT = {
+    id: true,
+    firstName: true,
+    lastName: true,
+    email: true,
+    verificationStatus: true,
+    isActive: true,
+  } as const;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mapService: MapService,
+    private readonly geocodingJobService: GeocodingJobService,
+  ) {}
+
+  // Helper function to generate slug from clinic name and city
+  private generateSlug(clinicName: string, city: string): string {
+    return `${clinicName} ${city}`
+      .toLowerCase()
+      .replace(/[^a-z0-9 -]/g, '') // Remove special characters
+      .replace(/\s+/g, '-') // Replace spaces with hyphens
+      .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
+      .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
+  }
+
+  // Helper function to ensure unique slug
+  private async ensureUniqueSlug(
+    slug: string,
+    excludeId?: string,
+  ): Promise<string> {
+    let uniqueSlug = slug;
+    let counter = 1;
+
+    while (true) {
+      const existingProfile = await this.prisma.dentistProfile.findUnique({
+        where: { slug: uniqueSlug },
+      });
+
+      if (!existingProfile || existingProfile.id === excludeId) {
+        break;
+      }
+
+      uniqueSlug = `${slug}-${counter}`;
+      counter++;
+    }
+
+    return uniqueSlug;
+  }
+
+  // Keep only known days; the stored composite type rejects other keys
+  private toOpeningHours(openingHours: OpeningHoursInput) {
+    return Object.fromEntries(
+      WEEK_DAYS.filter((day) => typeof openingHours?.[day] === 'string').map(
+        (day) => [day, openingHours[day]],
+      ),
+    );
+  }
+
+  private formatAddress(profile: {
+    address: string;
+    city: string;
+    state: string;
+    zipCode: string;
+  }): string {
+    return `${profile.address}, ${profile.city}, ${profile.state} ${profile.zipCode}`;
+  }
+
+  // Use coordinates from the request, or geocode the clinic address
+  private async resolveCoordinates(
+    address: { address: string; city: string; state: string; zipCode: string },
+    latitude?: number,
+    longitude?: number,
+  ): Promise<{ latitude: number | null; longitude: number | null }> {
+    if (latitude !== undefined && longitude !== undefined) {
+      return { latitude, longitude };
+    }
+
+    const coordinates = await this.mapService.getCoordinates(
+      this.formatAddress(address),
+    );
+    if (!coordinates) {
+      this.logger.warn(
+        `Could not geocode clinic address: ${this.formatAddress(address)}`,
+      );
+      return { latitude: null, longitude: null };
+    }
+
+    return {
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+    };
+  }
+
+  // The map reads the user record, so mirror the clinic details onto it
+  private async syncUserClinic(
+    userId: string,
+    profile: {
+      clinicName: string;
+      address: string;
+      city: string;
+      state: string;
+      zipCode: string;
+      latitude: number | null;
+      longitude: number | null;
+    },
+  ) {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        clinicName: profile.clinicName,
+        location: this.formatAddress(profile),
+        zipCode: profile.zipCode,
+        latitude: profile.latitude,
+        longitude: profile.longitude,
+        geoLocation: toGeoPoint(profile.latitude, profile.longitude),
+        ...(profile.latitude !== null && {
+          geocodeStatus: GeocodeStatus.RESOLVED,
+          geocodeError: null,
+        }),
+      },
+    });
+
+    // The address did not resolve inline; let the background job retry it
+    if (profile.latitude === null) {
+      await this.geocodingJobService.enqueue(
+        GeocodeTarget.USER,
+        userId,
+        this.formatAddress(profile),
+      );
+    }
+  }
+
+  async getProfileById(id: string) {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException('Invalid profile ID format');
+    }
+
+    const profile = await this.prisma.dentistProfile.findUnique({
+      where: { id },
+      include: { user: { select: DentistProfileService.USER_SELECT } },
+    });
+
+    if (!profile) {
+      throw new NotFoundException('Dentist profile not found');
+    }
+
+    return profile;
+  }
+
+  async createProfile(userId: string, createDto: CreateDentistProfileDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { dentistProfile: { select: { id: true } } },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if ((user.role as UserRole) !== UserRole.DENTIST) {
+      throw new BadRequestException(
+        'Only dentists can create a clinic profile',
+      );
+    }
+    if (user.dentistProfile) {
+      throw new ConflictException('You already have a clinic profile');
+    }
+
+    const { latitude, longitude, openingHours, ...rest } = createDto;
+    const coordinates = await this.resolveCoordinates(
+      createDto,
+      latitude,
+      longitude,
+    );
+    const slug = await this.ensureUniqueSlug(
+      this.generateSlug(createDto.clinicName, createDto.city),
+    );
+
+    const profile = await this.prisma.dentistProfile.create({
+      data: {
+        ...rest,
+        ...coordinates,
+        slug,
+        userId,
+        openingHours: this.toOpeningHours(openingHours),
+        specialties: createDto.specialties ?? [],
+      },
+      include: { user: { select: DentistProfileService.USER_SELECT } },
+    });
+
+    await this.syncUserClinic(userId, profile);
+
+    return profile;
+  }
+
+  async getProfileByUserId(userId: string) {
+    const profile = await this.prisma.dentistProfile.findUnique({
+      where: { userId },
+      include: { user: { select: DentistProfileService.USER_SELECT } },
+    });
+
+    if (!profile) {
+      throw new NotFoundException('Dentist profile not found');
+    }
+
+    return profile;
+  }
+
+  // Public profile: only approved, active dentists are listed
+  async getPublicProfileBySlug(slug: string) {
+    const profile = await this.prisma.dentistProfile.findUnique({
+      where: { slug },
+      select: {
+        id: true,
+        slug: true,
+        clinicName: true,
+        phoneNumber: true,
+        address: true,
+        city: true,
+        state: true,
+        zipCode: true,
+        latitude: true,
+        longitude: true,
+        openingHours: true,
+        description: true,
+        specialties: true,
+        website: true,
+        user: {
+          select: {
+            firstName: true,
+            lastName: true,
+            verificationStatus: true,
+            isActive: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !profile ||
+      !profile.user.isActive ||
+      (profile.user.verificationStatus as VerificationStatus) !==
+        VerificationStatus.APPROVED
+    ) {
+      throw new NotFoundException('Dentist profile not found');
+    }
+
+    const { user, ...details } = profile;
+    return {
+      ...details,
+      dentist: {
+        firstName: user.firstName,
+        lastName: user.lastName,
+      },
+    };
+  }
+
+  // Get all profiles with filtering and pagination (Admin only)
+  async getAllProfiles(query: DentistQueryDto) {
+    const { city, state, search, specialty, page = '1', limit = '10' } = query;
+
+    const pageNum = parseInt(page, 10);
+    const limitNum = parseInt(limit, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: Prisma.DentistProfileWhereInput = {};
+
+    if (city) {
+      where.city = { equals: city, mode: 'insensitive' };
+    }
+
+    if (state) {
+      where.state = { equals: state, mode: 'insensitive' };
+    }
+
+    if (specialty) {
+      where.specialties = { has: specialty };
+    }
+
+    if (search) {
+      where.OR = [
+        { clinicName: { contains: search, mode: 'insensitive' } },
+        { description: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const total = await this.prisma.dentistProfile.count({ where });
+
+    const profiles = await this.prisma.dentistProfile.findMany({
+      where,
+      include: { user: { select: DentistProfileService.USER_SELECT } },
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take: limitNum,
+    });
+
+    return {
+      data: profiles,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1,
+      },
+    };
+  }
+
+  private async applyUpdate(
+    existing: Awaited<ReturnType<DentistProfileService['getProfileById']>>,
+    updateDto: UpdateDentistProfileDto,
+  ) {
+    const { latitude, longitude, openingHours, ...rest } = updateDto;
+    const data: Prisma.DentistProfileUpdateInput = { ...rest };
+
+    const merged = {
+      address: updateDto.address ?? existing.address,
+      city: updateDto.city ?? existing.city,
+      state: updateDto.state ?? existing.state,
+      zipCode: updateDto.zipCode ?? existing.zipCode,
+    };
+    const addressChanged =
+      merged.address !== existing.address ||
+      merged.city !== existing.city ||
+      merged.state !== existing.state ||
+      merged.zipCode !== existing.zipCode;
+
+    if (latitude !== undefined && longitude !== undefined) {
+      data.latitude = latitude;
+      data.longitude = longitude;
+    } else if (addressChanged) {
+      Object.assign(data, await this.resolveCoordinates(merged));
+    }
+
+    if (openingHours) {
+      data.openingHours = this.toOpeningHours(openingHours);
+    }
+
+    if (
+      (updateDto.clinicName && updateDto.clinicName !== existing.clinicName) ||
+      merged.city !== existing.city
+    ) {
+      data.slug = await this.ensureUniqueSlug(
+        this.generateSlug(
+          updateDto.clinicName ?? existing.clinicName,
+          merged.city,
+        ),
+        existing.id,
+      );
+    }
+
+    const profile = await this.prisma.dentistProfile.update({
+      where: { id: existing.id },
+      data,
+      include: { user: { select: DentistProfileService.USER_SELECT } },
+    });
+
+    await this.syncUserClinic(profile.userId, profile);
+
+    return profile;
+  }
+
+  async updateProfileByUserId(
+    userId: string,
+    updateDto: UpdateDentistProfileDto,
+  ) {
+    const existing = await this.getProfileByUserId(userId);
+    return this.applyUpdate(existing, updateDto);
+  }
+
+  async updateProfileById(id: string, updateDto: UpdateDentistProfileDto) {
+    const existing = await this.getProfileById(id);
+    return this.applyUpdate(existing, updateDto);
+  }
+
+  private async removeProfile(profile: { id: string }) {
+    await this.prisma.dentistProfile.delete({ where: { id: profile.id } });
+
+    return { message: 'Dentist profile deleted successfully' };
+  }
+
+  async deleteProfileByUserId(userId: string) {
+    const profile = await this.getProfileByUserId(userId);
+    return this.removeProfile(profile);
+  }
+
+  async deleteProfileById(id: string) {
+    const profile = await this.getProfileById(id);
+    return this.removeProfile(profile);
+  }
+}
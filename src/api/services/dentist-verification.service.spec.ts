@@ -0,0 +1,157 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { DentistVerificationService } from './dentist-verification.service';
+import { EmailService } from './email.service';
+import { ImageKitService } from './imagekit.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { VerificationStatus } from '../dto/users.dto';
+
+describe('DentistVerificationService.decide', () => {
+  const reviewerId = '64b0000000000000000000aa';
+
+  let dentist: {
+    id: string;
+    role: string;
+    firstName: string;
+    email: string;
+    verificationStatus: VerificationStatus;
+  };
+  // Status another reviewer writes between our read and our update
+  let decidedMeanwhile: VerificationStatus | null;
+  let prisma: {
+    user: {
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      updateMany: jest.Mock;
+      update: jest.Mock;
+    };
+    verificationReview: { create: jest.Mock };
+    mapUsers: { updateMany: jest.Mock };
+  };
+  let emailService: { sendVerificationDecisionEmail: jest.Mock };
+  let service: DentistVerificationService;
+
+  beforeEach(() => {
+    dentist = {
+      id: '64b000000000000000000001',
+      role: 'dentist',
+      firstName: 'Asha',
+      email: 'asha@example.com',
+      verificationStatus: VerificationStatus.PENDING,
+    };
+    decidedMeanwhile = null;
+
+    // Keeps one dentist in memory, honouring the status condition
+    prisma = {
+      user: {
+        findUnique: jest.fn(() => Promise.resolve({ ...dentist })),
+        findUniqueOrThrow: jest.fn(() => Promise.resolve({ ...dentist })),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { verificationStatus: VerificationStatus };
+            data: { verificationStatus: VerificationStatus };
+          }) => {
+            if (decidedMeanwhile) {
+              dentist.verificationStatus = decidedMeanwhile;
+            }
+            if (dentist.verificationStatus !== where.verificationStatus) {
+              return Promise.resolve({ count: 0 });
+            }
+            dentist = { ...dentist, ...data };
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+        update: jest.fn(),
+      },
+      verificationReview: { create: jest.fn() },
+      mapUsers: { updateMany: jest.fn(() => Promise.resolve({ count: 0 })) },
+    };
+    emailService = { sendVerificationDecisionEmail: jest.fn() };
+    service = new DentistVerificationService(
+      prisma as unknown as PrismaService,
+      {} as ImageKitService,
+      emailService as unknown as EmailService,
+    );
+  });
+
+  it('approves a pending application and records the review', async () => {
+    const result = await service.decide(
+      dentist.id,
+      { status: VerificationStatus.APPROVED },
+      reviewerId,
+    );
+
+    expect(result.verificationStatus).toBe(VerificationStatus.APPROVED);
+    expect(prisma.verificationReview.create).toHaveBeenCalledWith({
+      data: {
+        userId: dentist.id,
+        fromStatus: VerificationStatus.PENDING,
+        toStatus: VerificationStatus.APPROVED,
+        note: undefined,
+        reviewedById: reviewerId,
+      },
+    });
+    expect(emailService.sendVerificationDecisionEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a decision the current status does not allow', async () => {
+    dentist.verificationStatus = VerificationStatus.REJECTED;
+
+    await expect(
+      service.decide(
+        dentist.id,
+        { status: VerificationStatus.NEEDS_INFO, note: 'Upload page 2' },
+        reviewerId,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('requires a note when not approving', async () => {
+    await expect(
+      service.decide(
+        dentist.id,
+        { status: VerificationStatus.REJECTED, note: '  ' },
+        reviewerId,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('lets only the first of two concurrent reviewers decide', async () => {
+    decidedMeanwhile = VerificationStatus.REJECTED;
+
+    await expect(
+      service.decide(
+        dentist.id,
+        { status: VerificationStatus.APPROVED },
+        reviewerId,
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+
+    expect(dentist.verificationStatus).toBe(VerificationStatus.REJECTED);
+    expect(prisma.verificationReview.create).not.toHaveBeenCalled();
+    expect(emailService.sendVerificationDecisionEmail).not.toHaveBeenCalled();
+  });
+
+  it('hands merged listings over to the account on approval', async () => {
+    prisma.mapUsers.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.decide(
+      dentist.id,
+      { status: VerificationStatus.APPROVED },
+      reviewerId,
+    );
+
+    expect(prisma.mapUsers.updateMany).toHaveBeenCalledWith({
+      where: { linkedUserId: dentist.id, showOnMap: true },
+      data: { showOnMap: false },
+    });
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: dentist.id },
+      data: { showOnMap: true },
+    });
+  });
+});
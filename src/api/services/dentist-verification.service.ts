@@ -0,0 +1,524 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, VerificationDocument } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ImageKitService } from './imagekit.service';
+import { EmailService } from './email.service';
+import { UserRole } from '../../guards/auth.guard';
+import {
+  hasPermission,
+  Permission,
+  rolesWithPermission,
+} from '../../guards/permissions';
+import {
+  SubmitVerificationDto,
+  VerificationDecisionDto,
+  VerificationQueueQueryDto,
+  VerificationStatus,
+} from '../dto/users.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { errorMessage } from '../../helpers/error.helper';
+import {
+  fileExtension,
+  hasValidSignature,
+} from '../../helpers/file-signature.helper';
+
+// Decisions a reviewer may make from each status. Dentists move a
+// REJECTED or NEEDS_INFO application back to PENDING by resubmitting.
+const REVIEW_TRANSITIONS: Record<VerificationStatus, VerificationStatus[]> = {
+  [VerificationStatus.PENDING]: [
+    VerificationStatus.APPROVED,
+    VerificationStatus.REJECTED,
+    VerificationStatus.NEEDS_INFO,
+  ],
+  [VerificationStatus.NEEDS_INFO]: [
+    VerificationStatus.APPROVED,
+    VerificationStatus.REJECTED,
+  ],
+  [VerificationStatus.REJECTED]: [VerificationStatus.APPROVED],
+  [VerificationStatus.APPROVED]: [
+    VerificationStatus.REJECTED,
+    VerificationStatus.NEEDS_INFO,
+  ],
+};
+
+const RESUBMITTABLE_STATUSES = [
+  VerificationStatus.PENDING,
+  VerificationStatus.NEEDS_INFO,
+  VerificationStatus.REJECTED,
+];
+
+export interface ContentViewer {
+  id: string;
+  role: UserRole | string;
+}
+
+@Injectable()
+export class DentistVerificationService {
+  private readonly logger = new Logger(DentistVerificationService.name);
+
+  static readonly MAX_DOCUMENTS = 10;
+  static readonly MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+  static readonly ALLOWED_DOCUMENT_TYPES = [
+    'application/pdf',
+    'image/jpeg',
+    'image/jpg',
+    'image/png',
+  ];
+  static readonly ALLOWED_DOCUMENT_EXTENSIONS = ['pdf', 'jpg', 'jpeg', 'png'];
+  private static readonly DOCUMENT_FOLDER = 'verification-documents';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly imageKitService: ImageKitService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  private async findDentist(userId: string) {
+    if (!isValidObjectId(userId)) {
+      throw new BadRequestException('Invalid user ID format');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if ((user.role as UserRole) !== UserRole.DENTIST) {
+      throw new BadRequestException('Only dentist accounts are verified');
+    }
+
+    return user;
+  }
+
+  async isApproved(userId: string): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { verificationStatus: true },
+    });
+    return (
+      (user?.verificationStatus as VerificationStatus | undefined) ===
+      VerificationStatus.APPROVED
+    );
+  }
+
+  // Dentist-only content is for content staff and APPROVED dentists
+  async canViewDentistContent(viewer?: ContentViewer): Promise<boolean> {
+    if (!viewer) {
+      return false;
+    }
+    if (hasPermission(viewer.role, Permission.CONTENT_MANAGE)) {
+      return true;
+    }
+    if ((viewer.role as UserRole) !== UserRole.DENTIST) {
+      return false;
+    }
+    return this.isApproved(viewer.id);
+  }
+
+  async assertCanViewDentistContent(viewer?: ContentViewer) {
+    if (!(await this.canViewDentistContent(viewer))) {
+      throw new ForbiddenException(
+        'This content is only available to verified dentists',
+      );
+    }
+  }
+
+  // ==================== DENTIST ====================
+
+  async getMyVerification(userId: string) {
+    const user = await this.findDentist(userId);
+    const documents = await this.prisma.verificationDocument.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      status: user.verificationStatus,
+      note: user.verificationNote,
+      dci_registration_number: user.dci_registration_number,
+      submittedAt: user.verificationSubmittedAt,
+      reviewedAt: user.verificationReviewedAt,
+      documents: this.imageKitService.withSignedUrls(documents),
+    };
+  }
+
+  async uploadDocument(userId: string, file: Express.Multer.File) {
+    const user = await this.findDentist(userId);
+
+    if (
+      (user.verificationStatus as VerificationStatus) ===
+      VerificationStatus.APPROVED
+    ) {
+      throw new BadRequestException('Your account is already verified');
+    }
+
+    const documentCount = await this.prisma.verificationDocument.count({
+      where: { userId },
+    });
+    if (documentCount >= DentistVerificationService.MAX_DOCUMENTS) {
+      throw new BadRequestException(
+        `You can upload at most ${DentistVerificationService.MAX_DOCUMENTS} documents`,
+      );
+    }
+
+    // The reported MIME type is whatever the client says; check the content
+    const extension = fileExtension(file.originalname);
+    if (
+      !DentistVerificationService.ALLOWED_DOCUMENT_EXTENSIONS.includes(
+        extension,
+      ) ||
+      !hasValidSignature(file.buffer, extension)
+    ) {
+      throw new BadRequestException(
+        `${file.originalname} is not a valid PDF, JPEG or PNG file`,
+      );
+    }
+
+    // Credentials are private; reviewers open them through signed URLs
+    const upload = await this.imageKitService.uploadPrivateFile(
+      file.buffer,
+      file.originalname,
+      `${DentistVerificationService.DOCUMENT_FOLDER}/${userId}`,
+      ['dci-verification'],
+    );
+
+    let document: VerificationDocument;
+    try {
+      document = await this.prisma.verificationDocument.create({
+        data: {
+          userId,
+          fileId: upload.fileId,
+          filePath: upload.filePath,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+        },
+      });
+    } catch (error) {
+      await this.discardDocument(upload.fileId);
+      throw error;
+    }
+
+    const [signed] = this.imageKitService.withSignedUrls([document]);
+    return signed;
+  }
+
+  private async discardDocument(fileId: string) {
+    try {
+      await this.imageKitService.deleteFile(fileId);
+    } catch (error) {
+      // Private files cannot be opened without a signed URL, so a stray one
+      // is harmless
+      this.logger.warn(
+        `Failed to delete verification document ${fileId}: ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  async deleteDocument(userId: string, documentId: string) {
+    if (!isValidObjectId(documentId)) {
+      throw new BadRequestException('Invalid document ID format');
+    }
+
+    const user = await this.findDentist(userId);
+    if (
+      (user.verificationStatus as VerificationStatus) ===
+      VerificationStatus.APPROVED
+    ) {
+      throw new BadRequestException(
+        'Documents cannot be removed after verification',
+      );
+    }
+
+    const document = await this.prisma.verificationDocument.findFirst({
+      where: { id: documentId, userId },
+    });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    await this.discardDocument(document.fileId);
+
+    await this.prisma.verificationDocument.delete({
+      where: { id: document.id },
+    });
+
+    return { message: 'Document deleted successfully' };
+  }
+
+  // Put the application (back) in the review queue
+  async submitForReview(userId: string, submitDto: SubmitVerificationDto) {
+    const user = await this.findDentist(userId);
+
+    if (
+      !RESUBMITTABLE_STATUSES.includes(
+        user.verificationStatus as VerificationStatus,
+      )
+    ) {
+      throw new BadRequestException('Your account is already verified');
+    }
+
+    const dciRegistrationNumber =
+      submitDto.dci_registration_number ?? user.dci_registration_number;
+    if (!dciRegistrationNumber) {
+      throw new BadRequestException('Please provide DCI number.');
+    }
+
+    const documentCount = await this.prisma.verificationDocument.count({
+      where: { userId },
+    });
+    if (documentCount === 0) {
+      throw new BadRequestException(
+        'Please upload your DCI registration certificate before submitting',
+      );
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        dci_registration_number: dciRegistrationNumber,
+        verificationStatus: VerificationStatus.PENDING,
+        verificationSubmittedAt: new Date(),
+      },
+    });
+    await this.prisma.verificationReview.create({
+      data: {
+        userId,
+        fromStatus: user.verificationStatus,
+        toStatus: VerificationStatus.PENDING,
+        note: submitDto.note,
+      },
+    });
+
+    await this.notifyReviewers(updated);
+
+    return {
+      status: updated.verificationStatus,
+      submittedAt: updated.verificationSubmittedAt,
+    };
+  }
+
+  private async notifyReviewers(user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    dci_registration_number: string | null;
+  }) {
+    const reviewers = await this.prisma.user.findMany({
+      where: {
+        role: { in: rolesWithPermission(Permission.VERIFICATIONS_REVIEW) },
+        isActive: true,
+      },
+      select: { email: true },
+    });
+    if (reviewers.length === 0) {
+      return;
+    }
+
+    await this.emailService.sendVerificationSubmittedEmail({
+      to: reviewers.map((reviewer) => reviewer.email),
+      dentistName: `${user.firstName} ${user.lastName}`,
+      dentistEmail: user.email,
+      dciRegistrationNumber: user.dci_registration_number,
+      reviewUrl: `${process.env.ADMIN_PANEL_URL || 'http://localhost:3001'}/verifications/${user.id}`,
+    });
+  }
+
+  // ==================== REVIEWERS ====================
+
+  // Oldest submissions first, so nobody waits at the back of the queue
+  async getReviewQueue(query: VerificationQueueQueryDto) {
+    const {
+      status = VerificationStatus.PENDING,
+      search,
+      page = '1',
+      limit = '10',
+    } = query;
+
+    const pageNum = parseInt(page, 10);
+    const limitNum = parseInt(limit, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: Prisma.UserWhereInput = {
+      role: UserRole.DENTIST,
+      isEmailVerified: true,
+      verificationStatus: status,
+    };
+    // New sign-ups are PENDING too, but there is nothing to review until
+    // they submit their documents
+    if (status === VerificationStatus.PENDING) {
+      where.verificationSubmittedAt = { not: null };
+    }
+
+    if (search) {
+      where.OR = [
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+        { clinicName: { contains: search, mode: 'insensitive' } },
+        { dci_registration_number: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const total = await this.prisma.user.count({ where });
+
+    const users = await this.prisma.user.findMany({
+      where,
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        phone: true,
+        clinicName: true,
+        location: true,
+        dci_registration_number: true,
+        verificationStatus: true,
+        verificationSubmittedAt: true,
+        verificationReviewedAt: true,
+        createdAt: true,
+        _count: { select: { verificationDocuments: true } },
+      },
+      orderBy: [{ verificationSubmittedAt: 'asc' }, { createdAt: 'asc' }],
+      skip,
+      take: limitNum,
+    });
+
+    return {
+      users,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1,
+      },
+    };
+  }
+
+  async getVerificationDetails(userId: string) {
+    const user = await this.findDentist(userId);
+
+    const [documents, history] = await Promise.all([
+      this.prisma.verificationDocument.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.verificationReview.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      phone: user.phone,
+      clinicName: user.clinicName,
+      location: user.location,
+      dci_registration_number: user.dci_registration_number,
+      status: user.verificationStatus,
+      note: user.verificationNote,
+      submittedAt: user.verificationSubmittedAt,
+      reviewedAt: user.verificationReviewedAt,
+      documents: this.imageKitService.withSignedUrls(documents),
+      history,
+    };
+  }
+
+  async decide(
+    userId: string,
+    decisionDto: VerificationDecisionDto,
+    reviewerId: string,
+  ) {
+    const user = await this.findDentist(userId);
+    const currentStatus = user.verificationStatus as VerificationStatus;
+    const { status, note } = decisionDto;
+
+    if (!REVIEW_TRANSITIONS[currentStatus].includes(status)) {
+      throw new BadRequestException(
+        `Cannot change verification status from ${currentStatus} to ${status}`,
+      );
+    }
+    if (status !== VerificationStatus.APPROVED && !note?.trim()) {
+      throw new BadRequestException(
+        'Please include a note telling the dentist what to do next',
+      );
+    }
+
+    // Only from the status the decision was checked against, so two
+    // reviewers deciding at once cannot both win (and both email the dentist)
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: userId, verificationStatus: currentStatus },
+      data: {
+        verificationStatus: status,
+        verificationNote: note ?? null,
+        verificationReviewedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException(
+        'This application was reviewed by someone else in the meantime',
+      );
+    }
+
+    const updated = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        verificationStatus: true,
+        verificationNote: true,
+        verificationReviewedAt: true,
+      },
+    });
+    await this.prisma.verificationReview.create({
+      data: {
+        userId,
+        fromStatus: currentStatus,
+        toStatus: status,
+        note,
+        reviewedById: reviewerId,
+      },
+    });
+
+    // Listings merged while the account awaited approval hand over to it now
+    if (status === VerificationStatus.APPROVED) {
+      const { count } = await this.prisma.mapUsers.updateMany({
+        where: { linkedUserId: userId, showOnMap: true },
+        data: { showOnMap: false },
+      });
+      if (count > 0) {
+        await this.prisma.user.update({
+          where: { id: userId },
+          data: { showOnMap: true },
+        });
+      }
+    }
+
+    await this.emailService.sendVerificationDecisionEmail({
+      firstName: user.firstName,
+      email: user.email,
+      status,
+      note,
+      dashboardUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/dashboard`,
+    });
+
+    return updated;
+  }
+}
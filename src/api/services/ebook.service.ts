@@ -4,6 +4,7 @@ import {
   BadRequestException,
   ForbiddenException,
 } from '@nestjs/common';
+import { Ebook } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import {
   CreateEbookDto,
@@ -13,6 +14,7 @@ import {
   PublishEbookDto,
 } from '../dto/ebook.dto';
 import { UserRole } from '../../guards/auth.guard';
+import { Permission, hasPermission } from '../../guards/permissions';
 
 @Injectable()
 export class EbookService {
@@ -171,12 +173,32 @@ export class EbookService {
     };
   }
 
+  private isPaid(ebook: {
+    isFree: boolean;
+    isFreeEbook: boolean;
+    price: number;
+  }) {
+    return !ebook.isFree && !ebook.isFreeEbook && ebook.price > 0;
+  }
+
+  // Public listings never carry a paid ebook's files; downloadEbook hands
+  // them out after checking the purchase
+  private hidePaidFiles<T extends Ebook>(ebook: T): T {
+    return this.isPaid(ebook)
+      ? { ...ebook, pdf: null, courseAttachmentUrl: null }
+      : ebook;
+  }
+
   // Get published ebooks for public viewing
   async getPublishedEbooks(query: EbookQueryDto) {
-    return this.getAllEbooks({
+    const result = await this.getAllEbooks({
       ...query,
       status: EbookStatus.PUBLISHED,
     });
+    return {
+      ...result,
+      data: result.data.map((ebook) => this.hidePaidFiles(ebook)),
+    };
   }
 
   // Get ebook by ID
@@ -208,7 +230,7 @@ export class EbookService {
       });
     }
 
-    return ebook;
+    return this.hidePaidFiles(ebook);
   }
 
   // Update ebook (Admin only)
@@ -240,7 +262,10 @@ export class EbookService {
     }
 
     // Check permissions
-    if (userRole !== UserRole.ADMIN && existingEbook.uploadedById !== userId) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      existingEbook.uploadedById !== userId
+    ) {
       throw new ForbiddenException(
         'You can only update your own ebooks or you must be an admin',
       );
@@ -391,7 +416,10 @@ export class EbookService {
     }
 
     // Check permissions
-    if (userRole !== UserRole.ADMIN && ebook.uploadedById !== userId) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      ebook.uploadedById !== userId
+    ) {
       throw new ForbiddenException(
         'You can only delete your own ebooks or you must be an admin',
       );
@@ -468,11 +496,11 @@ export class EbookService {
       take: 20, // Limit search results
     });
 
-    return ebooks;
+    return ebooks.map((ebook) => this.hidePaidFiles(ebook));
   }
 
-  // Download ebook (track download)
-  async downloadEbook(id: string, userId?: string) {
+  // Download ebook (track download). Paid ebooks need a purchase.
+  async downloadEbook(id: string, userId?: string, userRole?: UserRole) {
     const ebook = await this.prisma.ebook.findUnique({
       where: { id },
     });
@@ -489,6 +517,20 @@ export class EbookService {
       throw new BadRequestException('This ebook is not downloadable');
     }
 
+    if (
+      this.isPaid(ebook) &&
+      !hasPermission(userRole, Permission.CONTENT_MANAGE)
+    ) {
+      const purchase = userId
+        ? await this.prisma.ebookPurchase.findUnique({
+            where: { userId_ebookId: { userId, ebookId: id } },
+          })
+        : null;
+      if (purchase?.status !== 'ACTIVE') {
+        throw new ForbiddenException('Buy this ebook to download it');
+      }
+    }
+
     // Increment download count
     await this.prisma.ebook.update({
       where: { id },
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as nodemailer from 'nodemailer';
 import { Injectable, Logger } from '@nestjs/common';
+import { escapeHtml } from '../../helpers/html.helper';
 
 export interface EmailVerificationData {
   firstName: string;
@@ -17,6 +18,7 @@ export interface EmailOptions {
   subject: string;
   html: string;
   text?: string;
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
 }
 
 @Injectable()
@@ -89,6 +91,7 @@ export class EmailService {
         subject: options.subject,
         html: options.html,
         text: options.text,
+        attachments: options.attachments,
       });
 
       this.logger.log(
@@ -211,4 +214,367 @@ Professional Dental Network | Trusted by 10,000+ Professionals
       html,
     });
   }
+
+  async sendAccountLockedEmail(data: {
+    firstName: string;
+    email: string;
+    unlockUrl: string;
+    lockedUntil: Date;
+  }): Promise<boolean> {
+    const html = `
+      <h1>Your Account Has Been Locked</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>We noticed several failed attempts to sign in to your account, so we have temporarily locked it to keep it safe.</p>
+      <p>It will unlock automatically at ${data.lockedUntil.toUTCString()}. If this was you, you can unlock it right away:</p>
+      <a href="${data.unlockUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Unlock My Account
+      </a>
+      <p>If you didn't try to sign in, we recommend resetting your password.</p>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject: 'Your DentistPortal Account Has Been Locked',
+      html,
+    });
+  }
+
+  async sendVerificationDecisionEmail(data: {
+    firstName: string;
+    email: string;
+    status: string;
+    note?: string | null;
+    dashboardUrl: string;
+  }): Promise<boolean> {
+    const content: Record<
+      string,
+      { subject: string; heading: string; body: string }
+    > = {
+      APPROVED: {
+        subject: 'Your DCI Registration Has Been Verified',
+        heading: 'You are verified!',
+        body: 'Your DCI registration has been verified. You now have full access to dentist resources and can appear on the provider map.',
+      },
+      REJECTED: {
+        subject: 'Your DCI Registration Could Not Be Verified',
+        heading: 'Verification unsuccessful',
+        body: 'We were unable to verify your DCI registration. You can update your details and resubmit from your dashboard.',
+      },
+      NEEDS_INFO: {
+        subject: 'More Information Needed to Verify Your Account',
+        heading: 'We need a little more information',
+        body: 'Our team needs more information before we can verify your DCI registration. Please upload the requested documents and resubmit.',
+      },
+    };
+    const { subject, heading, body } = content[data.status];
+
+    const html = `
+      <h1>${heading}</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>${body}</p>
+      ${data.note ? `<p><strong>Note from our team:</strong> ${escapeHtml(data.note)}</p>` : ''}
+      <a href="${data.dashboardUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Go to Dashboard
+      </a>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject,
+      html,
+    });
+  }
+
+  async sendVerificationSubmittedEmail(data: {
+    to: string[];
+    dentistName: string;
+    dentistEmail: string;
+    dciRegistrationNumber?: string | null;
+    reviewUrl: string;
+  }): Promise<boolean> {
+    const html = `
+      <h1>New Dentist Verification Request</h1>
+      <p>${escapeHtml(data.dentistName)} (${escapeHtml(data.dentistEmail)}) has submitted their credentials for review.</p>
+      <p><strong>DCI registration number:</strong> ${data.dciRegistrationNumber ? escapeHtml(data.dciRegistrationNumber) : 'Not provided'}</p>
+      <a href="${data.reviewUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Review Request
+      </a>
+    `;
+
+    return await this.sendEmail({
+      to: data.to.join(','),
+      subject: `Verification Request: ${data.dentistName}`,
+      html,
+    });
+  }
+
+  async sendListingClaimSubmittedEmail(data: {
+    to: string[];
+    dentistName: string;
+    dentistEmail: string;
+    clinicName: string;
+    reviewUrl: string;
+  }): Promise<boolean> {
+    const html = `
+      <h1>New Directory Listing Claim</h1>
+      <p>${escapeHtml(data.dentistName)} (${escapeHtml(data.dentistEmail)}) has asked to claim the directory listing for <strong>${escapeHtml(data.clinicName)}</strong>.</p>
+      <a href="${data.reviewUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Review Claim
+      </a>
+    `;
+
+    return await this.sendEmail({
+      to: data.to.join(','),
+      subject: `Listing Claim: ${data.clinicName}`,
+      html,
+    });
+  }
+
+  async sendListingClaimDecisionEmail(data: {
+    firstName: string;
+    email: string;
+    clinicName: string;
+    status: string;
+    note?: string | null;
+    dashboardUrl: string;
+  }): Promise<boolean> {
+    const approved = data.status === 'APPROVED';
+    const html = `
+      <h1>${approved ? 'Your listing claim was approved' : 'Your listing claim was not approved'}</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>${
+        approved
+          ? `The directory listing for <strong>${escapeHtml(data.clinicName)}</strong> is now part of your account. Patients will find your clinic on the map through your profile.`
+          : `We could not confirm that the directory listing for <strong>${escapeHtml(data.clinicName)}</strong> belongs to you.`
+      }</p>
+      ${data.note ? `<p><strong>Note from our team:</strong> ${escapeHtml(data.note)}</p>` : ''}
+      <a href="${data.dashboardUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Go to Dashboard
+      </a>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject: approved
+        ? 'Your Listing Claim Was Approved'
+        : 'Your Listing Claim Was Not Approved',
+      html,
+    });
+  }
+
+  async sendTreatmentPlanSharedEmail(data: {
+    firstName: string;
+    email: string;
+    caseName: string;
+    version: number;
+    caseUrl: string;
+  }): Promise<boolean> {
+    const html = `
+      <h1>Your Treatment Plan Is Ready for Review</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>Version ${data.version} of the treatment plan for <strong>${escapeHtml(data.caseName)}</strong> is ready. Please review the setup and approve it or let us know what should change.</p>
+      <a href="${data.caseUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Review Treatment Plan
+      </a>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject: `Treatment Plan Ready: ${data.caseName}`,
+      html,
+    });
+  }
+
+  async sendTreatmentPlanDecisionEmail(data: {
+    to: string[];
+    dentistName: string;
+    caseName: string;
+    version: number;
+    decision: string;
+    comment?: string | null;
+    caseUrl: string;
+  }): Promise<boolean> {
+    const approved = data.decision === 'APPROVED';
+    const html = `
+      <h1>${approved ? 'Treatment Plan Approved' : 'Treatment Plan Changes Requested'}</h1>
+      <p>${escapeHtml(data.dentistName)} has ${approved ? 'approved' : 'requested changes to'} version ${data.version} of the treatment plan for <strong>${escapeHtml(data.caseName)}</strong>.</p>
+      ${data.comment ? `<p><strong>Comments:</strong> ${escapeHtml(data.comment)}</p>` : ''}
+      <a href="${data.caseUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Open Case
+      </a>
+    `;
+
+    return await this.sendEmail({
+      to: data.to.join(','),
+      subject: approved
+        ? `Plan Approved: ${data.caseName}`
+        : `Plan Changes Requested: ${data.caseName}`,
+      html,
+    });
+  }
+
+  async sendInvoiceIssuedEmail(data: {
+    firstName: string;
+    email: string;
+    invoiceNumber: string;
+    caseName: string;
+    total: string;
+    dueDate: string;
+    billingUrl: string;
+    pdf: Buffer;
+  }): Promise<boolean> {
+    const html = `
+      <h1>Invoice ${data.invoiceNumber}</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>Thank you for approving the treatment plan for <strong>${escapeHtml(data.caseName)}</strong>. Your invoice for <strong>${data.total}</strong> is attached and is due by ${data.dueDate}.</p>
+      <a href="${data.billingUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        View Billing History
+      </a>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject: `Invoice ${data.invoiceNumber}: ${data.caseName}`,
+      html,
+      attachments: [
+        {
+          filename: `${data.invoiceNumber.replace(/\//g, '-')}.pdf`,
+          content: data.pdf,
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+  }
+
+  async sendShipmentUpdateEmail(data: {
+    firstName: string;
+    email: string;
+    caseName: string;
+    carrier: string;
+    awbNumber: string;
+    steps: string;
+    status: string;
+    detail?: string | null;
+    caseUrl: string;
+  }): Promise<boolean> {
+    const headings: Record<string, string> = {
+      DISPATCHED: 'Your Aligners Are on Their Way',
+      IN_TRANSIT: 'Your Aligners Are in Transit',
+      OUT_FOR_DELIVERY: 'Your Aligners Are Out for Delivery',
+      DELIVERED: 'Your Aligners Have Been Delivered',
+      EXCEPTION: 'There Is a Problem with Your Aligner Delivery',
+      RETURNED: 'Your Aligner Shipment Was Returned',
+    };
+    const heading = headings[data.status] ?? 'Aligner Shipment Update';
+    const html = `
+      <h1>${heading}</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>Aligner steps ${data.steps} for <strong>${escapeHtml(data.caseName)}</strong> (${escapeHtml(data.carrier)}, AWB ${escapeHtml(data.awbNumber)}) are now <strong>${data.status.replace(/_/g, ' ').toLowerCase()}</strong>.</p>
+      ${data.detail ? `<p>${escapeHtml(data.detail)}</p>` : ''}
+      <a href="${data.caseUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Track Shipment
+      </a>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject: `${heading}: ${data.caseName}`,
+      html,
+    });
+  }
+
+  async sendCaseMessageDigestEmail(data: {
+    to: string[];
+    firstName?: string;
+    threads: {
+      caseName: string;
+      count: number;
+      latestFrom: string;
+      latestBody: string;
+      url: string;
+    }[];
+  }): Promise<boolean> {
+    const total = data.threads.reduce((sum, thread) => sum + thread.count, 0);
+    const threads = data.threads
+      .map(
+        (thread) => `
+        <div style="border-left: 3px solid #3b82f6; padding: 8px 12px; margin: 16px 0;">
+          <p><strong>${escapeHtml(thread.caseName)}</strong> &middot; ${thread.count} new message${thread.count === 1 ? '' : 's'}</p>
+          <p style="color: #4b5563;">${escapeHtml(thread.latestFrom)}: ${escapeHtml(thread.latestBody)}</p>
+          <a href="${thread.url}">Open conversation</a>
+        </div>`,
+      )
+      .join('');
+    const html = `
+      <h1>You Have Unread Case Messages</h1>
+      ${data.firstName ? `<p>Hello ${escapeHtml(data.firstName)},</p>` : ''}
+      <p>There ${total === 1 ? 'is 1 unread message' : `are ${total} unread messages`} waiting for you:</p>
+      ${threads}
+    `;
+
+    return await this.sendEmail({
+      to: data.to.join(','),
+      subject: `${total} Unread Case Message${total === 1 ? '' : 's'}`,
+      html,
+    });
+  }
+
+  async sendPasswordChangedEmail(data: {
+    firstName: string;
+    email: string;
+  }): Promise<boolean> {
+    const html = `
+      <h1>Your Password Was Changed</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>The password for your DentistPortal account was just changed, and other devices have been signed out.</p>
+      <p>If you didn't make this change, please reset your password immediately and contact support.</p>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject: 'Your DentistPortal Password Was Changed',
+      html,
+    });
+  }
+
+  async sendEmailChangeVerificationEmail(data: {
+    firstName: string;
+    email: string;
+    confirmUrl: string;
+  }): Promise<boolean> {
+    const html = `
+      <h1>Confirm Your New Email Address</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>Please confirm that you want to use this address for your DentistPortal account:</p>
+      <a href="${data.confirmUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+        Confirm Email Address
+      </a>
+      <p>This link will expire in 24 hours. If you didn't request this change, please ignore this email.</p>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject: 'Confirm Your New DentistPortal Email Address',
+      html,
+    });
+  }
+
+  async sendEmailChangeNoticeEmail(data: {
+    firstName: string;
+    email: string;
+    newEmail: string;
+  }): Promise<boolean> {
+    const html = `
+      <h1>Email Change Requested</h1>
+      <p>Hello ${escapeHtml(data.firstName)},</p>
+      <p>We received a request to change your DentistPortal email address to <strong>${escapeHtml(data.newEmail)}</strong>. The change will take effect once the new address is confirmed.</p>
+      <p>If you didn't request this, please change your password immediately and contact support.</p>
+    `;
+
+    return await this.sendEmail({
+      to: data.email,
+      subject: 'DentistPortal Email Change Requested',
+      html,
+    });
+  }
 }
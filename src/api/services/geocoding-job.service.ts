@@ -0,0 +1,429 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { GeocodingService } from './geocoding.service';
+import { GeocodingResult } from './geocoding.provider';
+import {
+  FixGeocodeAddressDto,
+  GeocodeFailuresQueryDto,
+  GeocodeJobStatus,
+  GeocodeStatus,
+  GeocodeTarget,
+  PinLocationDto,
+} from '../dto/geocoding.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { toGeoPoint } from '../../helpers/geo.helper';
+import { jobTimersEnabled } from '../../helpers/jobs.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+interface GeocodeJob {
+  id: string;
+  targetType: string;
+  targetId: string;
+  address: string;
+  attempts: number;
+}
+
+// Fields shown for each entry in the failure queue
+const FAILURE_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  clinicName: true,
+  location: true,
+  zipCode: true,
+  geocodeStatus: true,
+  geocodeError: true,
+  updatedAt: true,
+} as const;
+
+type GeocodeFailure = Prisma.UserGetPayload<{ select: typeof FAILURE_SELECT }>;
+
+@Injectable()
+export class GeocodingJobService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(GeocodingJobService.name);
+
+  static readonly POLL_INTERVAL_MS = 5000;
+  static readonly BATCH_SIZE = 10;
+  static readonly MAX_ATTEMPTS = 5;
+  static readonly BASE_RETRY_DELAY_MS = 60 * 1000; // Doubles on every retry
+  // A job locked for longer than this belongs to a worker that died
+  static readonly LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly geocodingService: GeocodingService,
+  ) {}
+
+  onModuleInit() {
+    if (!jobTimersEnabled()) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.processDueJobs(),
+      GeocodingJobService.POLL_INTERVAL_MS,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async updateTarget(
+    target: GeocodeTarget,
+    id: string,
+    data: Record<string, unknown>,
+    where: Record<string, unknown> = {},
+  ): Promise<boolean> {
+    const args = { where: { id, ...where }, data };
+    const result =
+      target === GeocodeTarget.USER
+        ? await this.prisma.user.updateMany(args)
+        : await this.prisma.mapUsers.updateMany(args);
+    return result.count > 0;
+  }
+
+  private async findTarget(target: GeocodeTarget, id: string) {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    const record =
+      target === GeocodeTarget.USER
+        ? await this.prisma.user.findUnique({
+            where: { id },
+            select: FAILURE_SELECT,
+          })
+        : await this.prisma.mapUsers.findUnique({
+            where: { id },
+            select: FAILURE_SELECT,
+          });
+
+    if (!record) {
+      throw new NotFoundException(
+        target === GeocodeTarget.USER ? 'User not found' : 'Map user not found',
+      );
+    }
+
+    return record;
+  }
+
+  // Drop queued or failed work that a newer address or pin replaces
+  private async cancelOpenJobs(target: GeocodeTarget, targetId: string) {
+    await this.prisma.geocodeJob.deleteMany({
+      where: {
+        targetType: target,
+        targetId,
+        status: { in: [GeocodeJobStatus.PENDING, GeocodeJobStatus.FAILED] },
+      },
+    });
+  }
+
+  /**
+   * Queue a location for background geocoding. The target is marked
+   * PENDING until the worker resolves it or gives up.
+   */
+  async enqueue(target: GeocodeTarget, targetId: string, address: string) {
+    await this.cancelOpenJobs(target, targetId);
+    await this.updateTarget(target, targetId, {
+      geocodeStatus: GeocodeStatus.PENDING,
+      geocodeError: null,
+    });
+
+    return this.prisma.geocodeJob.create({
+      data: { targetType: target, targetId, address },
+    });
+  }
+
+  // ==================== WORKER ====================
+
+  async processDueJobs() {
+    // Polls overlap when the provider is slow; one pass at a time
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      await this.releaseStaleLocks();
+
+      for (let i = 0; i < GeocodingJobService.BATCH_SIZE; i++) {
+        const job = await this.claimNextJob();
+        if (!job) {
+          break;
+        }
+        await this.processJob(job);
+      }
+    } catch (error) {
+      this.logger.error(`Geocoding worker pass failed: ${errorMessage(error)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async releaseStaleLocks() {
+    await this.prisma.geocodeJob.updateMany({
+      where: {
+        status: GeocodeJobStatus.PROCESSING,
+        lockedAt: {
+          lt: new Date(Date.now() - GeocodingJobService.LOCK_TIMEOUT_MS),
+        },
+      },
+      data: { status: GeocodeJobStatus.PENDING, lockedAt: null },
+    });
+  }
+
+  // Conditional update so two app instances never take the same job
+  private async claimNextJob(): Promise<GeocodeJob | null> {
+    const job = await this.prisma.geocodeJob.findFirst({
+      where: {
+        status: GeocodeJobStatus.PENDING,
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+    });
+    if (!job) {
+      return null;
+    }
+
+    const claimed = await this.prisma.geocodeJob.updateMany({
+      where: { id: job.id, status: GeocodeJobStatus.PENDING },
+      data: {
+        status: GeocodeJobStatus.PROCESSING,
+        lockedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+    if (claimed.count === 0) {
+      return this.claimNextJob();
+    }
+
+    return { ...job, attempts: job.attempts + 1 };
+  }
+
+  private async processJob(job: GeocodeJob) {
+    const target = job.targetType as GeocodeTarget;
+
+    let result: GeocodingResult | null;
+    try {
+      result = await this.geocodingService.geocodeOrThrow(job.address);
+    } catch (error) {
+      const reason = errorMessage(error);
+      if (job.attempts >= GeocodingJobService.MAX_ATTEMPTS) {
+        await this.failJob(job, reason);
+      } else {
+        await this.scheduleRetry(job, reason);
+      }
+      return;
+    }
+
+    // An unknown address will not resolve on retry; it needs an admin
+    if (!result) {
+      await this.failJob(job, 'Address could not be found');
+      return;
+    }
+
+    // Skip the write if the location changed while this job was running
+    const applied = await this.updateTarget(
+      target,
+      job.targetId,
+      {
+        latitude: result.latitude,
+        longitude: result.longitude,
+        geoLocation: toGeoPoint(result.latitude, result.longitude),
+        geocodeStatus: GeocodeStatus.RESOLVED,
+        geocodeError: null,
+      },
+      { location: job.address },
+    );
+
+    if (!applied) {
+      await this.prisma.geocodeJob.delete({ where: { id: job.id } });
+      return;
+    }
+
+    await this.prisma.geocodeJob.update({
+      where: { id: job.id },
+      data: {
+        status: GeocodeJobStatus.SUCCEEDED,
+        lockedAt: null,
+        lastError: null,
+      },
+    });
+  }
+
+  private async scheduleRetry(job: GeocodeJob, reason: string) {
+    const delay =
+      GeocodingJobService.BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1);
+
+    this.logger.warn(
+      `Geocoding job ${job.id} failed (attempt ${job.attempts}), retrying in ${delay / 1000}s: ${reason}`,
+    );
+
+    await this.prisma.geocodeJob.update({
+      where: { id: job.id },
+      data: {
+        status: GeocodeJobStatus.PENDING,
+        lockedAt: null,
+        lastError: reason,
+        nextAttemptAt: new Date(Date.now() + delay),
+      },
+    });
+  }
+
+  private async failJob(job: GeocodeJob, reason: string) {
+    this.logger.warn(`Geocoding job ${job.id} gave up: ${reason}`);
+
+    await this.prisma.geocodeJob.update({
+      where: { id: job.id },
+      data: {
+        status: GeocodeJobStatus.FAILED,
+        lockedAt: null,
+        lastError: reason,
+      },
+    });
+    await this.updateTarget(
+      job.targetType as GeocodeTarget,
+      job.targetId,
+      { geocodeStatus: GeocodeStatus.FAILED, geocodeError: reason },
+      { location: job.address },
+    );
+  }
+
+  // ==================== ADMIN ====================
+
+  // Users and map entries whose location could not be resolved
+  async getFailures(query: GeocodeFailuresQueryDto) {
+    const { target, search, page = '1', limit = '10' } = query;
+
+    const pageNum = parseInt(page, 10);
+    const limitNum = parseInt(limit, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    // Users and map entries share these fields, so one filter serves both
+    const where: Prisma.UserWhereInput & Prisma.MapUsersWhereInput = {
+      geocodeStatus: GeocodeStatus.FAILED,
+    };
+
+    if (search) {
+      where.OR = [
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+        { clinicName: { contains: search, mode: 'insensitive' } },
+        { location: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const includeUsers = !target || target === GeocodeTarget.USER;
+    const includeMapUsers = !target || target === GeocodeTarget.MAP_USER;
+
+    // With both sources, either could fill the page, so read enough of each
+    const take = target ? limitNum : skip + limitNum;
+    const sourceSkip = target ? skip : 0;
+
+    const [users, userTotal, mapUsers, mapUserTotal] = await Promise.all([
+      includeUsers
+        ? this.prisma.user.findMany({
+            where,
+            select: FAILURE_SELECT,
+            orderBy: { updatedAt: 'desc' },
+            skip: sourceSkip,
+            take,
+          })
+        : Promise.resolve<GeocodeFailure[]>([]),
+      includeUsers ? this.prisma.user.count({ where }) : 0,
+      includeMapUsers
+        ? this.prisma.mapUsers.findMany({
+            where,
+            select: FAILURE_SELECT,
+            orderBy: { updatedAt: 'desc' },
+            skip: sourceSkip,
+            take,
+          })
+        : Promise.resolve<GeocodeFailure[]>([]),
+      includeMapUsers ? this.prisma.mapUsers.count({ where }) : 0,
+    ]);
+
+    const failures = [
+      ...users.map((user) => ({ target: GeocodeTarget.USER, ...user })),
+      ...mapUsers.map((mapUser) => ({
+        target: GeocodeTarget.MAP_USER,
+        ...mapUser,
+      })),
+    ].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+    const total = userTotal + mapUserTotal;
+
+    return {
+      data: target ? failures : failures.slice(skip, skip + limitNum),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1,
+      },
+    };
+  }
+
+  // Correct the address and send it back through the geocoder
+  async fixAddress(
+    target: GeocodeTarget,
+    id: string,
+    fixDto: FixGeocodeAddressDto,
+  ) {
+    await this.findTarget(target, id);
+
+    await this.updateTarget(target, id, {
+      location: fixDto.location,
+      latitude: null,
+      longitude: null,
+      geoLocation: null,
+    });
+    await this.enqueue(target, id, fixDto.location);
+
+    return this.findTarget(target, id);
+  }
+
+  // Place the pin by hand when the address cannot be geocoded
+  async pinLocation(target: GeocodeTarget, id: string, pinDto: PinLocationDto) {
+    await this.findTarget(target, id);
+    await this.cancelOpenJobs(target, id);
+
+    await this.updateTarget(target, id, {
+      latitude: pinDto.latitude,
+      longitude: pinDto.longitude,
+      geoLocation: toGeoPoint(pinDto.latitude, pinDto.longitude),
+      geocodeStatus: GeocodeStatus.MANUAL,
+      geocodeError: null,
+    });
+
+    return this.findTarget(target, id);
+  }
+
+  // Try the current address again, e.g. after a provider outage
+  async retry(target: GeocodeTarget, id: string) {
+    const record = await this.findTarget(target, id);
+    if (!record.location) {
+      throw new BadRequestException('There is no address to geocode');
+    }
+
+    await this.enqueue(target, id, record.location);
+
+    return this.findTarget(target, id);
+  }
+}
@@ -0,0 +1,206 @@
+import { Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+
+export const GEOCODING_PROVIDER = 'GEOCODING_PROVIDER';
+
+export interface GeocodingResult {
+  latitude: number;
+  longitude: number;
+  formattedAddress: string;
+}
+
+// Resolves free-text addresses to coordinates. Return null when the address
+// is not found; throw when the lookup itself failed (network, quota, ...).
+export interface GeocodingProvider {
+  readonly name: string;
+  // Smallest gap between two requests the upstream service allows
+  readonly minIntervalMs: number;
+  geocode(address: string): Promise<GeocodingResult | null>;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+interface GoogleGeocodeResponse {
+  status: string;
+  error_message?: string;
+  results: {
+    formatted_address: string;
+    geometry: { location: { lat: number; lng: number } };
+  }[];
+}
+
+export class NominatimGeocodingProvider implements GeocodingProvider {
+  readonly name = 'nominatim';
+  readonly minIntervalMs = 1000; // Nominatim usage policy: 1 request/second
+
+  async geocode(address: string): Promise<GeocodingResult | null> {
+    const url = new URL('https://nominatim.openstreetmap.org/search');
+    url.searchParams.append('q', address);
+    url.searchParams.append('format', 'json');
+    url.searchParams.append('limit', '1');
+    url.searchParams.append('addressdetails', '1');
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'DentistPortal/1.0', // Required by Nominatim
+        Accept: 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Nominatim error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const places = (await response.json()) as NominatimPlace[] | null;
+    const place = places?.[0];
+    if (!place) {
+      return null;
+    }
+
+    return {
+      latitude: parseFloat(place.lat),
+      longitude: parseFloat(place.lon),
+      formattedAddress: place.display_name,
+    };
+  }
+}
+
+export class GoogleGeocodingProvider implements GeocodingProvider {
+  readonly name = 'google';
+  readonly minIntervalMs = 50;
+
+  constructor(private readonly apiKey: string) {}
+
+  async geocode(address: string): Promise<GeocodingResult | null> {
+    const url = new URL('https://maps.googleapis.com/maps/api/geocode/json');
+    url.searchParams.append('address', address);
+    url.searchParams.append('key', this.apiKey);
+
+    const response = await fetch(url.toString());
+    if (!response.ok) {
+      throw new Error(
+        `Google geocoding error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const data = (await response.json()) as GoogleGeocodeResponse;
+    if (data.status === 'ZERO_RESULTS') {
+      return null;
+    }
+    if (data.status !== 'OK') {
+      throw new Error(
+        `Google geocoding error: ${data.status} ${data.error_message ?? ''}`.trim(),
+      );
+    }
+
+    const result = data.results[0];
+    return {
+      latitude: result.geometry.location.lat,
+      longitude: result.geometry.location.lng,
+      formattedAddress: result.formatted_address,
+    };
+  }
+}
+
+// Offline provider for tests and local development. Addresses listed in the
+// fixtures file resolve to their fixture; anything else gets a stable point
+// derived from the address, so the same input always lands in the same place.
+export class StubGeocodingProvider implements GeocodingProvider {
+  readonly name = 'stub';
+  readonly minIntervalMs = 0;
+
+  // Rough bounding box of mainland India
+  private static readonly BOUNDS = {
+    minLatitude: 8,
+    maxLatitude: 32,
+    minLongitude: 68,
+    maxLongitude: 92,
+  };
+
+  private readonly fixtures: Map<string, GeocodingResult | null>;
+
+  constructor(fixtures: Record<string, GeocodingResult | null> = {}) {
+    this.fixtures = new Map(
+      Object.entries(fixtures).map(([address, result]) => [
+        normalizeAddress(address),
+        result,
+      ]),
+    );
+  }
+
+  geocode(address: string): Promise<GeocodingResult | null> {
+    const key = normalizeAddress(address);
+    if (this.fixtures.has(key)) {
+      return Promise.resolve(this.fixtures.get(key) ?? null);
+    }
+
+    const digest = createHash('sha256').update(key).digest();
+    const { minLatitude, maxLatitude, minLongitude, maxLongitude } =
+      StubGeocodingProvider.BOUNDS;
+    const fraction = (offset: number) => digest.readUInt32BE(offset) / 2 ** 32;
+
+    return Promise.resolve({
+      latitude: minLatitude + fraction(0) * (maxLatitude - minLatitude),
+      longitude: minLongitude + fraction(4) * (maxLongitude - minLongitude),
+      formattedAddress: address,
+    });
+  }
+}
+
+/**
+ * Canonical form of an address, used for cache keys and fixture lookups
+ * @param address - Free-text address
+ * @returns string - Lower-cased, punctuation-insensitive address
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ') // Punctuation and runs of spaces
+    .trim();
+}
+
+// Picks the provider from GEOCODING_PROVIDER (nominatim | google | stub)
+export function createGeocodingProvider(): GeocodingProvider {
+  const logger = new Logger('GeocodingProvider');
+  const configured =
+    process.env.GEOCODING_PROVIDER ||
+    (process.env.NODE_ENV === 'test' ? 'stub' : 'nominatim');
+
+  switch (configured.toLowerCase()) {
+    case 'google':
+      if (!process.env.GOOGLE_MAPS_API_KEY) {
+        throw new Error(
+          'GOOGLE_MAPS_API_KEY is required when GEOCODING_PROVIDER=google',
+        );
+      }
+      return new GoogleGeocodingProvider(process.env.GOOGLE_MAPS_API_KEY);
+
+    case 'stub': {
+      const fixturesFile = process.env.GEOCODING_FIXTURES_FILE;
+      const fixtures = fixturesFile
+        ? (JSON.parse(readFileSync(fixturesFile, 'utf8')) as Record<
+            string,
+            GeocodingResult | null
+          >)
+        : {};
+      return new StubGeocodingProvider(fixtures);
+    }
+
+    case 'nominatim':
+      return new NominatimGeocodingProvider();
+
+    default:
+      logger.warn(
+        `Unknown GEOCODING_PROVIDER "${configured}", falling back to nominatim`,
+      );
+      return new NominatimGeocodingProvider();
+  }
+}
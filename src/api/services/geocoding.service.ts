@@ -0,0 +1,144 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  GEOCODING_PROVIDER,
+  GeocodingProvider,
+  GeocodingResult,
+  normalizeAddress,
+} from './geocoding.provider';
+import { ThrottledQueue } from '../../helpers/throttle-queue.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+@Injectable()
+export class GeocodingService {
+  private readonly logger = new Logger(GeocodingService.name);
+
+  // How long an address that could not be found stays cached
+  static readonly MISS_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+  private readonly queue: ThrottledQueue;
+  // Concurrent lookups of the same address share one upstream request
+  private readonly inFlight = new Map<
+    string,
+    Promise<GeocodingResult | null>
+  >();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(GEOCODING_PROVIDER) private readonly provider: GeocodingProvider,
+  ) {
+    this.queue = new ThrottledQueue(provider.minIntervalMs);
+  }
+
+  /**
+   * Resolves an address, answering from the cache when possible.
+   * Returns null when the address is unknown or the provider failed.
+   */
+  async geocode(address: string): Promise<GeocodingResult | null> {
+    try {
+      return await this.geocodeOrThrow(address);
+    } catch (error) {
+      this.logger.error(
+        `Geocoding via ${this.provider.name} failed: ${errorMessage(error)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Like geocode, but a provider failure (network, quota, ...) is thrown
+   * instead of being reported as "not found", so callers can retry it.
+   */
+  async geocodeOrThrow(address: string): Promise<GeocodingResult | null> {
+    const key = normalizeAddress(address);
+    if (!key) {
+      return null;
+    }
+
+    const cached = await this.readCache(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    if (this.inFlight.has(key)) {
+      return this.inFlight.get(key);
+    }
+
+    const lookup = this.lookup(key, address).finally(() =>
+      this.inFlight.delete(key),
+    );
+    this.inFlight.set(key, lookup);
+    return lookup;
+  }
+
+  // undefined = not cached (or expired); null = cached miss
+  private async readCache(
+    key: string,
+  ): Promise<GeocodingResult | null | undefined> {
+    try {
+      const entry = await this.prisma.geocodeCache.findUnique({
+        where: { provider_key: { provider: this.provider.name, key } },
+      });
+      if (!entry || (entry.expiresAt && entry.expiresAt < new Date())) {
+        return undefined;
+      }
+      if (!entry.found) {
+        return null;
+      }
+
+      return {
+        latitude: entry.latitude,
+        longitude: entry.longitude,
+        formattedAddress: entry.formattedAddress,
+      };
+    } catch (error) {
+      this.logger.warn(`Geocode cache read failed: ${errorMessage(error)}`);
+      return undefined;
+    }
+  }
+
+  private async lookup(
+    key: string,
+    address: string,
+  ): Promise<GeocodingResult | null> {
+    // Provider failures propagate uncached, so the next call tries again
+    const result = await this.queue.schedule(() =>
+      this.provider.geocode(address),
+    );
+
+    if (!result) {
+      this.logger.warn(`No coordinates found for location: ${address}`);
+    }
+
+    await this.writeCache(key, address, result);
+    return result;
+  }
+
+  private async writeCache(
+    key: string,
+    address: string,
+    result: GeocodingResult | null,
+  ) {
+    const provider = this.provider.name;
+    const data = {
+      query: address,
+      found: result !== null,
+      latitude: result?.latitude ?? null,
+      longitude: result?.longitude ?? null,
+      formattedAddress: result?.formattedAddress ?? null,
+      expiresAt: result
+        ? null
+        : new Date(Date.now() + GeocodingService.MISS_TTL_MS),
+    };
+
+    try {
+      await this.prisma.geocodeCache.upsert({
+        where: { provider_key: { provider, key } },
+        create: { provider, key, ...data },
+        update: data,
+      });
+    } catch (error) {
+      this.logger.warn(`Geocode cache write failed: ${errorMessage(error)}`);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import ImageKit from 'imagekit';
+import { errorMessage } from '../../helpers/error.helper';
 
 // Handle both CommonJS and ES Module imports
 
@@ -8,6 +9,9 @@ export class ImageKitService {
   private readonly logger = new Logger(ImageKitService.name);
   private imagekit: ImageKit;
 
+  // Signed URLs for private files stop working after this long
+  static readonly SIGNED_URL_TTL_SECONDS = 10 * 60;
+
   constructor() {
     this.initializeImageKit();
   }
@@ -38,7 +42,7 @@ export class ImageKitService {
       this.logger.error('Failed to initialize ImageKit:', error.message);
     }
   }
-   async uploadFile(
+  async uploadFile(
     file: Buffer | string,
     fileName: string,
     folder: string,
@@ -80,6 +84,68 @@ export class ImageKitService {
     }
   }
 
+  /**
+   * Upload a private file; it can only be opened through a signed URL, so
+   * only the fileId is returned
+   */
+  async uploadPrivateFile(
+    file: Buffer,
+    fileName: string,
+    folder: string,
+    tags?: string[],
+  ): Promise<{ fileId: string; filePath: string }> {
+    if (!this.imagekit) {
+      throw new BadRequestException('ImageKit is not properly configured');
+    }
+
+    try {
+      const result = await this.imagekit.upload({
+        file,
+        fileName,
+        folder,
+        useUniqueFileName: true,
+        isPrivateFile: true,
+        ...(tags?.length && { tags }),
+      });
+
+      this.logger.log(`Private file uploaded successfully: ${result.fileId}`);
+      return { fileId: result.fileId, filePath: result.filePath };
+    } catch (error) {
+      this.logger.error(
+        `Failed to upload private file ${fileName}: ${errorMessage(error)}`,
+      );
+      throw new BadRequestException(
+        `Failed to upload file: ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Short-lived signed URL for a file; callers check access first
+   */
+  getSignedUrl(
+    filePath: string,
+    expireSeconds: number = ImageKitService.SIGNED_URL_TTL_SECONDS,
+  ): string {
+    if (!this.imagekit) {
+      throw new BadRequestException('ImageKit is not properly configured');
+    }
+
+    return this.imagekit.url({ path: filePath, signed: true, expireSeconds });
+  }
+
+  /**
+   * Attach a signed URL to each stored file
+   */
+  withSignedUrls<T extends { filePath: string }>(
+    files: T[],
+  ): (T & { url: string })[] {
+    return files.map((file) => ({
+      ...file,
+      url: this.getSignedUrl(file.filePath),
+    }));
+  }
+
   /**
    * Upload a file from URL
    */ async uploadFromUrl(
@@ -12,6 +12,7 @@ import {
   SessionStatus,
 } from '../dto/livesession.dto';
 import { UserRole } from '../../guards/auth.guard';
+import { Permission, hasPermission } from '../../guards/permissions';
 import * as moment from 'moment-timezone';
 
 @Injectable()
@@ -237,7 +238,10 @@ export class LiveSessionService {
     }
 
     // Only allow non-admins to view active sessions
-    if (userRole !== UserRole.ADMIN && !session.isActive) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      !session.isActive
+    ) {
       throw new NotFoundException('Live session not found');
     }
 
@@ -260,7 +264,10 @@ export class LiveSessionService {
     }
 
     // Check permissions
-    if (userRole !== UserRole.ADMIN && existingSession.createdById !== userId) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      existingSession.createdById !== userId
+    ) {
       throw new ForbiddenException(
         'You can only update your own sessions or you must be an admin',
       );
@@ -425,7 +432,10 @@ export class LiveSessionService {
     }
 
     // Check permissions
-    if (userRole !== UserRole.ADMIN && session.createdById !== userId) {
+    if (
+      !hasPermission(userRole, Permission.CONTENT_MANAGE) &&
+      session.createdById !== userId
+    ) {
       throw new ForbiddenException(
         'You can only delete your own sessions or you must be an admin',
       );
@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+
+export const LOGIN_ATTEMPT_STORE = 'LOGIN_ATTEMPT_STORE';
+
+export interface LoginAttemptRecord {
+  key: string;
+  failures: number;
+  firstFailureAt: Date;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+// Storage for failed-login counters. Swap in InMemoryLoginAttemptStore for tests.
+// Writes are atomic so concurrent failures cannot overwrite each other.
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  // Adds one failure; a lock that has run out, or an unlocked record whose
+  // window started before windowStart, begins a fresh count instead
+  recordFailure(
+    key: string,
+    now: Date,
+    windowStart: Date,
+  ): Promise<LoginAttemptRecord>;
+  // Locks the key unless it is already locked; true if this call locked it
+  lock(key: string, now: Date, lockedUntil: Date): Promise<boolean>;
+  clear(key: string): Promise<void>;
+}
+
+const RECORD_SELECT = {
+  key: true,
+  failures: true,
+  firstFailureAt: true,
+  lastFailureAt: true,
+  lockedUntil: true,
+} as const;
+
+@Injectable()
+export class PrismaLoginAttemptStore implements LoginAttemptStore {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    return this.prisma.loginAttempt.findUnique({
+      where: { key },
+      select: RECORD_SELECT,
+    });
+  }
+
+  async recordFailure(
+    key: string,
+    now: Date,
+    windowStart: Date,
+  ): Promise<LoginAttemptRecord> {
+    await this.prisma.loginAttempt.updateMany({
+      where: {
+        key,
+        OR: [
+          { lockedUntil: { lte: now } },
+          { lockedUntil: null, firstFailureAt: { lt: windowStart } },
+        ],
+      },
+      data: { failures: 0, firstFailureAt: now, lockedUntil: null },
+    });
+
+    const upsert = () =>
+      this.prisma.loginAttempt.upsert({
+        where: { key },
+        create: {
+          key,
+          failures: 1,
+          firstFailureAt: now,
+          lastFailureAt: now,
+          lockedUntil: null,
+        },
+        update: { failures: { increment: 1 }, lastFailureAt: now },
+        select: RECORD_SELECT,
+      });
+
+    try {
+      return await upsert();
+    } catch (error) {
+      // Another request created the record first; increment that one
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return upsert();
+      }
+      throw error;
+    }
+  }
+
+  async lock(key: string, now: Date, lockedUntil: Date): Promise<boolean> {
+    const { count } = await this.prisma.loginAttempt.updateMany({
+      where: {
+        key,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+      },
+      data: { lockedUntil },
+    });
+    return count > 0;
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.prisma.loginAttempt.deleteMany({ where: { key } });
+  }
+}
+
+export class InMemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly records = new Map<string, LoginAttemptRecord>();
+
+  get(key: string): Promise<LoginAttemptRecord | null> {
+    const record = this.records.get(key);
+    return Promise.resolve(record ? { ...record } : null);
+  }
+
+  recordFailure(
+    key: string,
+    now: Date,
+    windowStart: Date,
+  ): Promise<LoginAttemptRecord> {
+    const existing = this.records.get(key);
+    const stale =
+      !existing ||
+      (existing.lockedUntil
+        ? existing.lockedUntil <= now
+        : existing.firstFailureAt < windowStart);
+
+    const record: LoginAttemptRecord = stale
+      ? {
+          key,
+          failures: 1,
+          firstFailureAt: now,
+          lastFailureAt: now,
+          lockedUntil: null,
+        }
+      : { ...existing, failures: existing.failures + 1, lastFailureAt: now };
+
+    this.records.set(key, record);
+    return Promise.resolve({ ...record });
+  }
+
+  lock(key: string, now: Date, lockedUntil: Date): Promise<boolean> {
+    const record = this.records.get(key);
+    if (!record || (record.lockedUntil && record.lockedUntil > now)) {
+      return Promise.resolve(false);
+    }
+    record.lockedUntil = lockedUntil;
+    return Promise.resolve(true);
+  }
+
+  clear(key: string): Promise<void> {
+    this.records.delete(key);
+    return Promise.resolve();
+  }
+}
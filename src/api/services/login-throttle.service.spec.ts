@@ -0,0 +1,105 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { LoginThrottleService } from './login-throttle.service';
+import { InMemoryLoginAttemptStore } from './login-attempt.store';
+
+describe('LoginThrottleService', () => {
+  const email = 'dentist@example.com';
+  let store: InMemoryLoginAttemptStore;
+  let throttle: LoginThrottleService;
+
+  const advance = (ms: number) => jest.setSystemTime(new Date(Date.now() + ms));
+
+  // Fails `count` times, waiting out the backoff between attempts
+  const failRepeatedly = async (count: number) => {
+    let last = { accountLocked: false, lockedUntil: null as Date | null };
+    for (let i = 0; i < count; i++) {
+      last = await throttle.recordFailure(email, '10.0.0.1');
+      advance(LoginThrottleService.ACCOUNT_MAX_BACKOFF_MS);
+    }
+    return last;
+  };
+
+  const expectTooManyAttempts = async (promise: Promise<unknown>) => {
+    const error = await promise.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).getStatus()).toBe(
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T09:00:00Z') });
+    store = new InMemoryLoginAttemptStore();
+    throttle = new LoginThrottleService(store);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows attempts before any failure', async () => {
+    await expect(
+      throttle.assertCanAttempt(email, '10.0.0.1'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('backs off after a few failures', async () => {
+    for (let i = 0; i < LoginThrottleService.ACCOUNT_BACKOFF_AFTER; i++) {
+      await throttle.recordFailure(email);
+    }
+
+    await expectTooManyAttempts(throttle.assertCanAttempt(email));
+
+    advance(1000);
+    await expect(throttle.assertCanAttempt(email)).resolves.toBeUndefined();
+  });
+
+  it('locks the account once the limit is reached and reports it once', async () => {
+    const beforeLock = await failRepeatedly(
+      LoginThrottleService.ACCOUNT_LOCK_AFTER - 1,
+    );
+    expect(beforeLock.accountLocked).toBe(false);
+
+    const locking = await throttle.recordFailure(email);
+    expect(locking.accountLocked).toBe(true);
+    expect(locking.lockedUntil).toEqual(
+      new Date(Date.now() + LoginThrottleService.ACCOUNT_LOCK_DURATION_MS),
+    );
+
+    await expectTooManyAttempts(throttle.assertCanAttempt(email));
+
+    // Further failures while locked do not lock (or email) again
+    const whileLocked = await throttle.recordFailure(email);
+    expect(whileLocked.accountLocked).toBe(false);
+    expect(whileLocked.lockedUntil).toEqual(locking.lockedUntil);
+  });
+
+  it('starts a fresh count when the lock expires', async () => {
+    await failRepeatedly(LoginThrottleService.ACCOUNT_LOCK_AFTER);
+    advance(LoginThrottleService.ACCOUNT_LOCK_DURATION_MS);
+
+    await expect(throttle.assertCanAttempt(email)).resolves.toBeUndefined();
+
+    const next = await throttle.recordFailure(email);
+    expect(next.accountLocked).toBe(false);
+    expect((await store.get(`account:${email}`))?.failures).toBe(1);
+  });
+
+  it('forgets failures once the window has passed', async () => {
+    await failRepeatedly(LoginThrottleService.ACCOUNT_LOCK_AFTER - 1);
+    advance(LoginThrottleService.FAILURE_WINDOW_MS);
+
+    const next = await throttle.recordFailure(email);
+    expect(next.accountLocked).toBe(false);
+    expect((await store.get(`account:${email}`))?.failures).toBe(1);
+  });
+
+  it('clears the account counter on reset', async () => {
+    await failRepeatedly(LoginThrottleService.ACCOUNT_LOCK_AFTER);
+
+    await throttle.resetAccount(email.toUpperCase());
+
+    await expect(throttle.assertCanAttempt(email)).resolves.toBeUndefined();
+    expect(await store.get(`account:${email}`)).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { HttpException, HttpStatus, Inject, Injectable } from '@nestjs/common';
+import {
+  LOGIN_ATTEMPT_STORE,
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from './login-attempt.store';
+
+export interface LoginFailureResult {
+  accountLocked: boolean;
+  lockedUntil: Date | null;
+}
+
+@Injectable()
+export class LoginThrottleService {
+  // Failures older than this no longer count
+  static readonly FAILURE_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+  // Per account: delays grow after a few failures, then the account locks
+  static readonly ACCOUNT_BACKOFF_AFTER = 3;
+  static readonly ACCOUNT_MAX_BACKOFF_MS = 60 * 1000; // 1 minute
+  static readonly ACCOUNT_LOCK_AFTER = 10;
+  static readonly ACCOUNT_LOCK_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+
+  // Per IP: a higher ceiling, since offices and clinics share addresses
+  static readonly IP_LOCK_AFTER = 50;
+  static readonly IP_LOCK_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+
+  constructor(
+    @Inject(LOGIN_ATTEMPT_STORE)
+    private readonly store: LoginAttemptStore,
+  ) {}
+
+  private accountKey(email: string): string {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `ip:${ipAddress}`;
+  }
+
+  private tooManyAttempts(retryAfterMs: number): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: 'Too many failed login attempts. Please try again later.',
+        retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  // Delay required before the next attempt on an account, in ms
+  private getBackoffMs(failures: number): number {
+    if (failures < LoginThrottleService.ACCOUNT_BACKOFF_AFTER) {
+      return 0;
+    }
+    const exponent = failures - LoginThrottleService.ACCOUNT_BACKOFF_AFTER;
+    return Math.min(
+      1000 * 2 ** exponent,
+      LoginThrottleService.ACCOUNT_MAX_BACKOFF_MS,
+    );
+  }
+
+  // A lock that has run out starts the count again, as does a window with
+  // no lock in it that has passed
+  private isExpired(record: LoginAttemptRecord, now: Date): boolean {
+    if (record.lockedUntil) {
+      return record.lockedUntil <= now;
+    }
+    return (
+      now.getTime() - record.firstFailureAt.getTime() >
+      LoginThrottleService.FAILURE_WINDOW_MS
+    );
+  }
+
+  private async getActiveRecord(key: string, now: Date) {
+    const record = await this.store.get(key);
+    return record && !this.isExpired(record, now) ? record : null;
+  }
+
+  // Throws 429 while the account or IP is locked or backing off
+  async assertCanAttempt(email: string, ipAddress?: string) {
+    const now = new Date();
+
+    if (ipAddress) {
+      const ipRecord = await this.getActiveRecord(this.ipKey(ipAddress), now);
+      if (ipRecord?.lockedUntil && ipRecord.lockedUntil > now) {
+        throw this.tooManyAttempts(
+          ipRecord.lockedUntil.getTime() - now.getTime(),
+        );
+      }
+    }
+
+    const record = await this.getActiveRecord(this.accountKey(email), now);
+    if (!record) {
+      return;
+    }
+
+    if (record.lockedUntil && record.lockedUntil > now) {
+      throw this.tooManyAttempts(record.lockedUntil.getTime() - now.getTime());
+    }
+
+    const nextAttemptAt =
+      record.lastFailureAt.getTime() + this.getBackoffMs(record.failures);
+    if (nextAttemptAt > now.getTime()) {
+      throw this.tooManyAttempts(nextAttemptAt - now.getTime());
+    }
+  }
+
+  private async increment(
+    key: string,
+    lockAfter: number,
+    lockDurationMs: number,
+    now: Date,
+  ): Promise<{ record: LoginAttemptRecord; newlyLocked: boolean }> {
+    const record = await this.store.recordFailure(
+      key,
+      now,
+      new Date(now.getTime() - LoginThrottleService.FAILURE_WINDOW_MS),
+    );
+    if (record.failures < lockAfter) {
+      return { record, newlyLocked: false };
+    }
+
+    // Only the failure that takes the key from unlocked to locked reports it,
+    // so the lockout email goes out once per lock
+    const lockedUntil = new Date(now.getTime() + lockDurationMs);
+    const newlyLocked = await this.store.lock(key, now, lockedUntil);
+    return {
+      record: newlyLocked ? { ...record, lockedUntil } : record,
+      newlyLocked,
+    };
+  }
+
+  // Record a failed attempt. Counts apply whether or not the email exists,
+  // so lockouts do not reveal which accounts are registered.
+  async recordFailure(
+    email: string,
+    ipAddress?: string,
+  ): Promise<LoginFailureResult> {
+    const now = new Date();
+
+    if (ipAddress) {
+      await this.increment(
+        this.ipKey(ipAddress),
+        LoginThrottleService.IP_LOCK_AFTER,
+        LoginThrottleService.IP_LOCK_DURATION_MS,
+        now,
+      );
+    }
+
+    const { record, newlyLocked } = await this.increment(
+      this.accountKey(email),
+      LoginThrottleService.ACCOUNT_LOCK_AFTER,
+      LoginThrottleService.ACCOUNT_LOCK_DURATION_MS,
+      now,
+    );
+
+    return {
+      accountLocked: newlyLocked,
+      lockedUntil: record.lockedUntil,
+    };
+  }
+
+  // A successful login or an unlock clears the account's counter
+  async resetAccount(email: string) {
+    await this.store.clear(this.accountKey(email));
+  }
+}
@@ -0,0 +1,677 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from './email.service';
+import { UserRole } from '../../guards/auth.guard';
+import { Permission, rolesWithPermission } from '../../guards/permissions';
+import {
+  ClaimDecisionDto,
+  ClaimMapUserDto,
+  ClaimQueryDto,
+  ClaimStatus,
+  DuplicateQueryDto,
+} from '../dto/mapusers.dto';
+import { VerificationStatus } from '../dto/users.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { distanceKm } from '../../helpers/geo.helper';
+
+export enum DuplicateReason {
+  PHONE = 'phone',
+  EMAIL = 'email',
+  CLINIC_NAME = 'clinic_name',
+  NEARBY = 'nearby',
+}
+
+interface Candidate {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  clinicName: string | null;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Listings that have not been merged into an account yet
+const UNLINKED = {
+  OR: [{ linkedUserId: null }, { linkedUserId: { isSet: false } }],
+};
+
+const LISTING_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  clinicName: true,
+  location: true,
+  zipCode: true,
+  latitude: true,
+  longitude: true,
+  showOnMap: true,
+} as const;
+
+const DENTIST_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  clinicName: true,
+  location: true,
+  latitude: true,
+  longitude: true,
+  verificationStatus: true,
+} as const;
+
+// Comparable form of a phone number: its last 10 digits, so "+91 98765
+// 43210" and "09876543210" match
+function normalizePhone(phone?: string | null): string | null {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  return digits.length >= 6 ? digits.slice(-10) : null;
+}
+
+function normalizeText(value?: string | null): string | null {
+  const text = value
+    ?.toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  return text || null;
+}
+
+// Nearby-lookup bucket; 0.01 degrees is roughly 1.1km
+const GRID_SIZE_DEGREES = 0.01;
+
+function gridCell(latitude: number, longitude: number) {
+  return [
+    Math.floor(latitude / GRID_SIZE_DEGREES),
+    Math.floor(longitude / GRID_SIZE_DEGREES),
+  ];
+}
+
+@Injectable()
+export class MapUserLinkService {
+  // How much each kind of evidence counts towards a duplicate score
+  static readonly SCORE_PHONE = 50;
+  static readonly SCORE_EMAIL = 50;
+  static readonly SCORE_CLINIC_NAME = 25;
+  static readonly SCORE_SAME_BUILDING = 25; // Within 200m
+  static readonly SCORE_NEARBY = 10; // Within 1km
+  static readonly DEFAULT_MIN_SCORE = 50;
+  // A dentist is shown listings with weaker evidence and decides for themselves
+  static readonly CLAIM_SUGGESTION_MIN_SCORE = 25;
+  private static readonly CLAIM_SUGGESTION_LIMIT = 20;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  // ==================== DUPLICATE DETECTION ====================
+
+  private score(listing: Candidate, dentist: Candidate) {
+    const reasons: DuplicateReason[] = [];
+    let score = 0;
+    let distance: number | null = null;
+
+    const phone = normalizePhone(listing.phone);
+    if (phone && phone === normalizePhone(dentist.phone)) {
+      reasons.push(DuplicateReason.PHONE);
+      score += MapUserLinkService.SCORE_PHONE;
+    }
+
+    const email = listing.email?.trim().toLowerCase();
+    if (email && email === dentist.email?.trim().toLowerCase()) {
+      reasons.push(DuplicateReason.EMAIL);
+      score += MapUserLinkService.SCORE_EMAIL;
+    }
+
+    const clinic = normalizeText(listing.clinicName);
+    const otherClinic = normalizeText(dentist.clinicName);
+    if (
+      clinic &&
+      otherClinic &&
+      (clinic === otherClinic ||
+        clinic.includes(otherClinic) ||
+        otherClinic.includes(clinic))
+    ) {
+      reasons.push(DuplicateReason.CLINIC_NAME);
+      score += MapUserLinkService.SCORE_CLINIC_NAME;
+    }
+
+    if (
+      listing.latitude !== null &&
+      listing.longitude !== null &&
+      dentist.latitude !== null &&
+      dentist.longitude !== null
+    ) {
+      distance = distanceKm(
+        { latitude: listing.latitude, longitude: listing.longitude },
+        { latitude: dentist.latitude, longitude: dentist.longitude },
+      );
+      if (distance <= 0.2) {
+        reasons.push(DuplicateReason.NEARBY);
+        score += MapUserLinkService.SCORE_SAME_BUILDING;
+      } else if (distance <= 1) {
+        reasons.push(DuplicateReason.NEARBY);
+        score += MapUserLinkService.SCORE_NEARBY;
+      }
+    }
+
+    return {
+      score,
+      reasons,
+      distanceKm: distance === null ? null : Math.round(distance * 1000) / 1000,
+    };
+  }
+
+  // Index dentists by each matching key, so a listing is only scored
+  // against accounts that share at least one of them
+  private buildIndex(dentists: Candidate[]) {
+    const index = new Map<string, Candidate[]>();
+    const add = (key: string, dentist: Candidate) => {
+      const bucket = index.get(key);
+      if (bucket) {
+        bucket.push(dentist);
+      } else {
+        index.set(key, [dentist]);
+      }
+    };
+
+    for (const dentist of dentists) {
+      const phone = normalizePhone(dentist.phone);
+      if (phone) add(`phone:${phone}`, dentist);
+
+      const email = dentist.email?.trim().toLowerCase();
+      if (email) add(`email:${email}`, dentist);
+
+      const clinic = normalizeText(dentist.clinicName);
+      if (clinic) add(`clinic:${clinic}`, dentist);
+
+      if (dentist.latitude !== null && dentist.longitude !== null) {
+        const [row, column] = gridCell(dentist.latitude, dentist.longitude);
+        add(`cell:${row}:${column}`, dentist);
+      }
+    }
+
+    return (listing: Candidate): Candidate[] => {
+      const keys: string[] = [];
+      const phone = normalizePhone(listing.phone);
+      if (phone) keys.push(`phone:${phone}`);
+      const email = listing.email?.trim().toLowerCase();
+      if (email) keys.push(`email:${email}`);
+      const clinic = normalizeText(listing.clinicName);
+      if (clinic) keys.push(`clinic:${clinic}`);
+      if (listing.latitude !== null && listing.longitude !== null) {
+        const [row, column] = gridCell(listing.latitude, listing.longitude);
+        for (let dRow = -1; dRow <= 1; dRow++) {
+          for (let dColumn = -1; dColumn <= 1; dColumn++) {
+            keys.push(`cell:${row + dRow}:${column + dColumn}`);
+          }
+        }
+      }
+
+      const matches = new Map<string, Candidate>();
+      for (const key of keys) {
+        for (const dentist of index.get(key) ?? []) {
+          matches.set(dentist.id, dentist);
+        }
+      }
+      return [...matches.values()];
+    };
+  }
+
+  // Likely duplicates between directory listings and dentist accounts (Admin only)
+  async findDuplicates(query: DuplicateQueryDto) {
+    const {
+      minScore = MapUserLinkService.DEFAULT_MIN_SCORE,
+      page = '1',
+      limit = '10',
+    } = query;
+
+    const pageNum = parseInt(page, 10);
+    const limitNum = parseInt(limit, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [listings, dentists] = await Promise.all([
+      this.prisma.mapUsers.findMany({
+        where: UNLINKED,
+        select: LISTING_SELECT,
+      }),
+      this.prisma.user.findMany({
+        where: { role: UserRole.DENTIST },
+        select: DENTIST_SELECT,
+      }),
+    ]);
+
+    const candidatesFor = this.buildIndex(dentists);
+
+    // Clinic-name matches are not indexed by substring, so a listing named
+    // "Smile Care" is compared with "Smile Care Dental" only when another
+    // key (phone, email, location) brings them together
+    const pairs = listings.flatMap((listing) =>
+      candidatesFor(listing)
+        .map((dentist) => ({
+          ...this.score(listing, dentist),
+          listing,
+          dentist,
+        }))
+        .filter((pair) => pair.score >= minScore),
+    );
+
+    pairs.sort((a, b) => b.score - a.score);
+    const total = pairs.length;
+
+    return {
+      data: pairs.slice(skip, skip + limitNum),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1,
+      },
+    };
+  }
+
+  // ==================== MERGE ====================
+
+  /**
+   * Fold a directory listing into a dentist's account: details the account
+   * is missing are copied over and, once the account is verified, the
+   * listing is hidden from the map so the clinic appears once, through the
+   * account.
+   */
+  async mergeListing(mapUserId: string, userId: string) {
+    if (!isValidObjectId(mapUserId) || !isValidObjectId(userId)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    const [listing, user] = await Promise.all([
+      this.prisma.mapUsers.findUnique({ where: { id: mapUserId } }),
+      this.prisma.user.findUnique({ where: { id: userId } }),
+    ]);
+
+    if (!listing) {
+      throw new NotFoundException('Map user not found');
+    }
+    if (listing.linkedUserId) {
+      throw new ConflictException(
+        'This listing is already linked to an account',
+      );
+    }
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if ((user.role as UserRole) !== UserRole.DENTIST) {
+      throw new BadRequestException(
+        'Listings can only be merged into dentist accounts',
+      );
+    }
+
+    const data: Prisma.UserUpdateInput = {
+      phone: user.phone || listing.phone,
+      clinicName: user.clinicName || listing.clinicName,
+      zipCode: user.zipCode || listing.zipCode,
+    };
+
+    // Keep the account's own pin; borrow the listing's only when it has none
+    if (
+      user.latitude === null &&
+      listing.latitude !== null &&
+      listing.longitude !== null
+    ) {
+      data.location = listing.location;
+      data.latitude = listing.latitude;
+      data.longitude = listing.longitude;
+      data.geoLocation = listing.geoLocation;
+      data.geocodeStatus = listing.geocodeStatus;
+      data.geocodeError = null;
+    } else if (!user.location) {
+      data.location = listing.location;
+    }
+
+    // A visible listing stays visible: through the account once it is
+    // verified, and as the listing itself until then
+    const handOver =
+      listing.showOnMap &&
+      (user.verificationStatus as VerificationStatus) ===
+        VerificationStatus.APPROVED;
+    if (handOver) {
+      data.showOnMap = true;
+    }
+
+    // Claim the listing before touching the account, so two merges of the
+    // same listing cannot both copy their details over
+    const { count } = await this.prisma.mapUsers.updateMany({
+      where: { id: mapUserId, ...UNLINKED },
+      data: {
+        linkedUserId: userId,
+        linkedAt: new Date(),
+        showOnMap: handOver ? false : listing.showOnMap,
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException(
+        'This listing is already linked to an account',
+      );
+    }
+
+    try {
+      await this.prisma.user.update({ where: { id: userId }, data });
+    } catch (error) {
+      await this.prisma.mapUsers.updateMany({
+        where: { id: mapUserId, linkedUserId: userId },
+        data: {
+          linkedUserId: null,
+          linkedAt: null,
+          showOnMap: listing.showOnMap,
+        },
+      });
+      throw error;
+    }
+
+    return this.prisma.mapUsers.findUniqueOrThrow({
+      where: { id: mapUserId },
+      include: { linkedUser: { select: DENTIST_SELECT } },
+    });
+  }
+
+  // Undo a merge; the listing stays hidden until an admin shows it again
+  async unlinkListing(mapUserId: string) {
+    if (!isValidObjectId(mapUserId)) {
+      throw new BadRequestException('Invalid map user ID format');
+    }
+
+    const listing = await this.prisma.mapUsers.findUnique({
+      where: { id: mapUserId },
+    });
+    if (!listing) {
+      throw new NotFoundException('Map user not found');
+    }
+    if (!listing.linkedUserId) {
+      throw new BadRequestException('This listing is not linked to an account');
+    }
+
+    return this.prisma.mapUsers.update({
+      where: { id: mapUserId },
+      data: { linkedUserId: null, linkedAt: null },
+    });
+  }
+
+  // ==================== DENTIST CLAIMS ====================
+
+  private async findVerifiedDentist(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { ...DENTIST_SELECT, role: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (
+      (user.role as UserRole) !== UserRole.DENTIST ||
+      (user.verificationStatus as VerificationStatus) !==
+        VerificationStatus.APPROVED
+    ) {
+      throw new ForbiddenException(
+        'Only verified dentists can claim a directory listing',
+      );
+    }
+
+    return user;
+  }
+
+  // Listings that look like the dentist's own clinic
+  async findClaimableListings(userId: string) {
+    const dentist = await this.findVerifiedDentist(userId);
+
+    const listings = await this.prisma.mapUsers.findMany({
+      where: UNLINKED,
+      select: LISTING_SELECT,
+    });
+
+    return listings
+      .map((listing) => ({ listing, ...this.score(listing, dentist) }))
+      .filter(
+        (match) => match.score >= MapUserLinkService.CLAIM_SUGGESTION_MIN_SCORE,
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MapUserLinkService.CLAIM_SUGGESTION_LIMIT)
+      .map(({ listing, score, reasons, distanceKm }) => ({
+        id: listing.id,
+        firstName: listing.firstName,
+        lastName: listing.lastName,
+        clinicName: listing.clinicName,
+        location: listing.location,
+        zipCode: listing.zipCode,
+        score,
+        reasons,
+        distanceKm,
+      }));
+  }
+
+  async claimListing(
+    userId: string,
+    mapUserId: string,
+    claimDto: ClaimMapUserDto,
+  ) {
+    if (!isValidObjectId(mapUserId)) {
+      throw new BadRequestException('Invalid map user ID format');
+    }
+
+    const dentist = await this.findVerifiedDentist(userId);
+
+    const listing = await this.prisma.mapUsers.findUnique({
+      where: { id: mapUserId },
+    });
+    if (!listing) {
+      throw new NotFoundException('Map user not found');
+    }
+    if (listing.linkedUserId) {
+      throw new ConflictException('This listing has already been claimed');
+    }
+
+    const pendingClaim = await this.prisma.mapUserClaim.findFirst({
+      where: { mapUserId, userId, status: ClaimStatus.PENDING },
+    });
+    if (pendingClaim) {
+      throw new ConflictException(
+        'You have already asked to claim this listing',
+      );
+    }
+
+    const claim = await this.prisma.mapUserClaim.create({
+      data: { mapUserId, userId, note: claimDto.note },
+    });
+
+    await this.notifyClaimReviewers(dentist, listing.clinicName);
+
+    return claim;
+  }
+
+  private async notifyClaimReviewers(
+    dentist: { firstName: string; lastName: string; email: string },
+    clinicName: string,
+  ) {
+    const reviewers = await this.prisma.user.findMany({
+      where: {
+        role: { in: rolesWithPermission(Permission.MAP_MANAGE) },
+        isActive: true,
+      },
+      select: { email: true },
+    });
+    if (reviewers.length === 0) {
+      return;
+    }
+
+    await this.emailService.sendListingClaimSubmittedEmail({
+      to: reviewers.map((reviewer) => reviewer.email),
+      dentistName: `${dentist.firstName} ${dentist.lastName}`,
+      dentistEmail: dentist.email,
+      clinicName,
+      reviewUrl: `${process.env.ADMIN_PANEL_URL || 'http://localhost:3001'}/map-users/claims`,
+    });
+  }
+
+  async getMyClaims(userId: string) {
+    return this.prisma.mapUserClaim.findMany({
+      where: { userId },
+      include: {
+        mapUser: {
+          select: {
+            id: true,
+            clinicName: true,
+            location: true,
+            zipCode: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Oldest claims first (Admin only)
+  async getClaims(query: ClaimQueryDto) {
+    const { status = ClaimStatus.PENDING, page = '1', limit = '10' } = query;
+
+    const pageNum = parseInt(page, 10);
+    const limitNum = parseInt(limit, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where = { status };
+
+    const total = await this.prisma.mapUserClaim.count({ where });
+
+    const claims = await this.prisma.mapUserClaim.findMany({
+      where,
+      include: {
+        mapUser: { select: LISTING_SELECT },
+        user: { select: DENTIST_SELECT },
+      },
+      orderBy: { createdAt: 'asc' },
+      skip,
+      take: limitNum,
+    });
+
+    return {
+      data: claims.map((claim) => ({
+        ...claim,
+        match: this.score(claim.mapUser, claim.user),
+      })),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1,
+      },
+    };
+  }
+
+  async decideClaim(
+    claimId: string,
+    decisionDto: ClaimDecisionDto,
+    reviewerId: string,
+  ) {
+    if (!isValidObjectId(claimId)) {
+      throw new BadRequestException('Invalid claim ID format');
+    }
+
+    const claim = await this.prisma.mapUserClaim.findUnique({
+      where: { id: claimId },
+      include: {
+        mapUser: { select: { clinicName: true } },
+        user: { select: { firstName: true, email: true } },
+      },
+    });
+    if (!claim) {
+      throw new NotFoundException('Claim not found');
+    }
+    if ((claim.status as ClaimStatus) !== ClaimStatus.PENDING) {
+      throw new BadRequestException('This claim has already been decided');
+    }
+
+    const { status, note } = decisionDto;
+    if (status === ClaimStatus.REJECTED && !note?.trim()) {
+      throw new BadRequestException(
+        'Please include a note telling the dentist why the claim was rejected',
+      );
+    }
+
+    // Decide the claim only if it is still pending, so two reviewers cannot
+    // both act on it
+    const reviewedAt = new Date();
+    const { count } = await this.prisma.mapUserClaim.updateMany({
+      where: { id: claimId, status: ClaimStatus.PENDING },
+      data: {
+        status,
+        reviewNote: note ?? null,
+        reviewedById: reviewerId,
+        reviewedAt,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('This claim has already been decided');
+    }
+
+    if (status === ClaimStatus.APPROVED) {
+      try {
+        await this.mergeListing(claim.mapUserId, claim.userId);
+      } catch (error) {
+        await this.prisma.mapUserClaim.updateMany({
+          where: { id: claimId, status },
+          data: {
+            status: ClaimStatus.PENDING,
+            reviewNote: null,
+            reviewedById: null,
+            reviewedAt: null,
+          },
+        });
+        throw error;
+      }
+    }
+
+    const updated = await this.prisma.mapUserClaim.findUniqueOrThrow({
+      where: { id: claimId },
+    });
+
+    // A listing has one owner; close the competing claims
+    if (status === ClaimStatus.APPROVED) {
+      await this.prisma.mapUserClaim.updateMany({
+        where: {
+          mapUserId: claim.mapUserId,
+          status: ClaimStatus.PENDING,
+          id: { not: claimId },
+        },
+        data: {
+          status: ClaimStatus.REJECTED,
+          reviewNote: 'This listing was claimed by another account',
+          reviewedById: reviewerId,
+          reviewedAt,
+        },
+      });
+    }
+
+    await this.emailService.sendListingClaimDecisionEmail({
+      firstName: claim.user.firstName,
+      email: claim.user.email,
+      clinicName: claim.mapUser.clinicName,
+      status,
+      note,
+      dashboardUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/dashboard`,
+    });
+
+    return updated;
+  }
+}
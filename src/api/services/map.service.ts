@@ -1,55 +1,25 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { UserRole } from 'src/guards/auth.guard';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { VerificationStatus } from '../dto/users.dto';
+import { GeocodingService } from './geocoding.service';
+import { GeocodingJobService } from './geocoding-job.service';
+import { GeocodeTarget } from '../dto/geocoding.dto';
 
 @Injectable()
 export class MapService {
   private readonly logger = new Logger(MapService.name);
-  constructor(private readonly prismaService: PrismaService) {}
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly geocodingService: GeocodingService,
+    private readonly geocodingJobService: GeocodingJobService,
+  ) {}
 
   async getCoordinates(location: string) {
-    try {
-      // Build the URL with query parameters
-      const url = new URL('https://nominatim.openstreetmap.org/search');
-      url.searchParams.append('q', location);
-      url.searchParams.append('format', 'json');
-      url.searchParams.append('limit', '1');
-      url.searchParams.append('addressdetails', '1');
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'DentistPortal/1.0', // Required by Nominatim
-          Accept: 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        this.logger.error(
-          `Geocoding API error: ${response.status} ${response.statusText}`,
-        );
-        return null;
-      }
-
-      const data = await response.json();
-
-      if (data && data.length > 0) {
-        const result = data[0];
-        return {
-          latitude: parseFloat(result.lat),
-          longitude: parseFloat(result.lon),
-          formattedAddress: result.display_name,
-        };
-      }
-
-      this.logger.warn(`No coordinates found for location: ${location}`);
-      return null;
-    } catch (error) {
-      this.logger.error('Error getting coordinates:', error.message);
-      return null;
-    }
+    return this.geocodingService.geocode(location);
   }
 
+  // Geocoding runs in the background; the user is marked PENDING meanwhile
   async updateUserLocationOnMap(userId: string, location: string) {
     try {
       if (!userId || !location) {
@@ -62,17 +32,11 @@ export class MapService {
       if (!user) {
         throw new NotFoundException('User not found');
       }
-      const coordinates = await this.getCoordinates(location);
-      if (!coordinates) {
-        throw new Error('Could not geocode the provided location');
-      }
-      await this.prismaService.user.update({
-        where: { id: userId },
-        data: {
-          latitude: coordinates.latitude,
-          longitude: coordinates.longitude,
-        },
-      });
+      await this.geocodingJobService.enqueue(
+        GeocodeTarget.USER,
+        userId,
+        location,
+      );
     } catch (error) {
       this.logger.error('Error updating user location:', error.message);
     }
@@ -85,7 +49,8 @@ export class MapService {
           latitude: { not: null },
           longitude: { not: null },
           showOnMap: true,
-          NOT: { role: UserRole.ADMIN },
+          role: UserRole.DENTIST,
+          verificationStatus: VerificationStatus.APPROVED,
         },
         select: {
           id: true,
@@ -97,6 +62,20 @@ export class MapService {
           latitude: true,
           longitude: true,
           phone: true,
+          dentistProfile: {
+            select: {
+              slug: true,
+              phoneNumber: true,
+              address: true,
+              city: true,
+              state: true,
+              zipCode: true,
+              openingHours: true,
+              description: true,
+              specialties: true,
+              website: true,
+            },
+          },
         },
       });
 
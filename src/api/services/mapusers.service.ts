@@ -4,24 +4,83 @@ import {
   BadRequestException,
   ConflictException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import {
   CreateMapUserDto,
   UpdateMapUserDto,
   MapUserQuery,
 } from '../dto/mapusers.dto';
-import { MapService } from './map.service';
+import { GeocodingJobService } from './geocoding-job.service';
+import { GeocodeTarget } from '../dto/geocoding.dto';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import {
+  detectSpreadsheetFormat,
+  readSpreadsheet,
+  SpreadsheetRow,
+  toCsvLine,
+} from '../../helpers/spreadsheet.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+// Spreadsheet header (lower-cased, letters and digits only) -> DTO field
+const IMPORT_COLUMNS: Record<string, keyof CreateMapUserDto> = {
+  firstname: 'firstName',
+  lastname: 'lastName',
+  phone: 'phone',
+  phonenumber: 'phone',
+  mobile: 'phone',
+  location: 'location',
+  address: 'location',
+  clinic: 'clinicName',
+  clinicname: 'clinicName',
+  zip: 'zipCode',
+  zipcode: 'zipCode',
+  pincode: 'zipCode',
+  postalcode: 'zipCode',
+  email: 'email',
+  emailaddress: 'email',
+  showonmap: 'showOnMap',
+};
+
+const EXPORT_COLUMNS = [
+  'id',
+  'firstName',
+  'lastName',
+  'phone',
+  'clinicName',
+  'location',
+  'zipCode',
+  'email',
+  'latitude',
+  'longitude',
+  'geocodeStatus',
+  'showOnMap',
+  'createdAt',
+] as const;
+
+export interface MapUserImportRow {
+  row: number; // Line in the spreadsheet, counting the header as 1
+  status: 'created' | 'skipped' | 'failed';
+  id?: string;
+  phone?: string;
+  errors?: string[];
+}
 
 @Injectable()
 export class MapUsersService {
+  static readonly MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+  static readonly MAX_IMPORT_ROWS = 2000;
+  private static readonly EXPORT_BATCH_SIZE = 500;
+
   constructor(
     private readonly prisma: PrismaService,
-    private readonly mapService: MapService,
+    private readonly geocodingJobService: GeocodingJobService,
   ) {}
 
   // Create a new map user (Admin only)
   async createMapUser(createMapUserDto: CreateMapUserDto) {
-    const { phone, location, ...rest } = createMapUserDto;
+    const { phone } = createMapUserDto;
 
     // Check if phone number already exists
     const existingUser = await this.prisma.mapUsers.findFirst({
@@ -34,43 +93,171 @@ export class MapUsersService {
       );
     }
 
-    const coordinates = await this.mapService.getCoordinates(location);
+    const mapUser = await this.createEntry(createMapUserDto);
 
-    if (!coordinates) {
-      throw new Error('Could not geocode the provided location');
-    }
+    return this.getMapUserById(mapUser.id);
+  }
 
+  // Coordinates are filled in by the background geocoder, which throttles
+  // requests to the provider's rate limit
+  private async createEntry(createMapUserDto: CreateMapUserDto) {
     const mapUser = await this.prisma.mapUsers.create({
       data: {
-        phone,
-        ...rest,
+        ...createMapUserDto,
         showOnMap: createMapUserDto.showOnMap ?? false,
-        location,
-        latitude: coordinates.latitude,
-        longitude: coordinates.longitude,
       },
     });
 
+    await this.geocodingJobService.enqueue(
+      GeocodeTarget.MAP_USER,
+      mapUser.id,
+      mapUser.location,
+    );
+
     return mapUser;
   }
 
-  // Get all map users with filtering and pagination (Admin only)
-  async getAllMapUsers(query: MapUserQuery) {
+  private toImportDto(row: SpreadsheetRow): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+
+    for (const [header, value] of Object.entries(row)) {
+      const field =
+        IMPORT_COLUMNS[header.toLowerCase().replace(/[^a-z0-9]/g, '')];
+      if (!field || value === '') {
+        continue;
+      }
+
+      if (field === 'showOnMap') {
+        const flag = value.toLowerCase();
+        // Unrecognised values are passed through so validation reports them
+        data.showOnMap = ['true', 'yes', 'y', '1'].includes(flag)
+          ? true
+          : ['false', 'no', 'n', '0'].includes(flag)
+            ? false
+            : value;
+      } else {
+        data[field] = value;
+      }
+    }
+
+    return data;
+  }
+
+  // Import map users from a CSV or XLSX file (Admin only)
+  async importMapUsers(file: Express.Multer.File) {
+    const format = detectSpreadsheetFormat(file.originalname, file.mimetype);
+    if (!format) {
+      throw new BadRequestException('File must be a CSV or XLSX spreadsheet');
+    }
+
+    let rows: SpreadsheetRow[];
+    try {
+      rows = await readSpreadsheet(file.buffer, format);
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not read the spreadsheet: ${errorMessage(error)}`,
+      );
+    }
+
+    if (rows.length > MapUsersService.MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `A single import can contain at most ${MapUsersService.MAX_IMPORT_ROWS} rows`,
+      );
+    }
+
+    const candidates = rows
+      .map((row, index) => ({ row: index + 2, data: this.toImportDto(row) }))
+      .filter((candidate) => Object.keys(candidate.data).length > 0);
+
+    if (candidates.length === 0) {
+      throw new BadRequestException('The spreadsheet has no rows to import');
+    }
+
+    // Phones already in the directory, plus those seen earlier in the file
+    const phones = candidates
+      .map((candidate) => candidate.data.phone)
+      .filter((phone): phone is string => typeof phone === 'string');
+    const existing = await this.prisma.mapUsers.findMany({
+      where: { phone: { in: phones } },
+      select: { phone: true },
+    });
+    const seenPhones = new Set(existing.map((mapUser) => mapUser.phone));
+
+    const report: MapUserImportRow[] = [];
+
+    for (const candidate of candidates) {
+      const dto = plainToInstance(CreateMapUserDto, candidate.data);
+      const validationErrors = await validate(dto, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      });
+
+      if (validationErrors.length > 0) {
+        report.push({
+          row: candidate.row,
+          status: 'failed',
+          phone: dto.phone,
+          errors: validationErrors.flatMap((error) =>
+            Object.values(error.constraints ?? {}),
+          ),
+        });
+        continue;
+      }
+
+      if (seenPhones.has(dto.phone)) {
+        report.push({
+          row: candidate.row,
+          status: 'skipped',
+          phone: dto.phone,
+          errors: ['A user with this phone number already exists'],
+        });
+        continue;
+      }
+      seenPhones.add(dto.phone);
+
+      try {
+        const mapUser = await this.createEntry(dto);
+        report.push({
+          row: candidate.row,
+          status: 'created',
+          id: mapUser.id,
+          phone: dto.phone,
+        });
+      } catch (error) {
+        report.push({
+          row: candidate.row,
+          status: 'failed',
+          phone: dto.phone,
+          errors: [errorMessage(error)],
+        });
+      }
+    }
+
+    const count = (status: MapUserImportRow['status']) =>
+      report.filter((entry) => entry.status === status).length;
+
+    return {
+      summary: {
+        total: report.length,
+        created: count('created'),
+        skipped: count('skipped'),
+        failed: count('failed'),
+      },
+      rows: report,
+    };
+  }
+
+  // Filters and sort shared by the admin list and the CSV export
+  private buildListQuery(query: MapUserQuery) {
     const {
       search,
       showOnMap,
-      page = '1',
-      limit = '10',
       sortBy = 'createdAt',
       sortOrder = 'desc',
     } = query;
 
-    const pageNum = parseInt(page, 10);
-    const limitNum = parseInt(limit, 10);
-    const skip = (pageNum - 1) * limitNum;
-
     // Build where condition
-    const where: any = {};
+    const where: Prisma.MapUsersWhereInput = {};
 
     if (search) {
       where.OR = [
@@ -88,8 +275,22 @@ export class MapUsersService {
     }
 
     // Build sort condition
-    const orderBy: any = {};
-    orderBy[sortBy] = sortOrder;
+    const orderBy = {
+      [sortBy]: sortOrder,
+    } as Prisma.MapUsersOrderByWithRelationInput;
+
+    return { where, orderBy };
+  }
+
+  // Get all map users with filtering and pagination (Admin only)
+  async getAllMapUsers(query: MapUserQuery) {
+    const { page = '1', limit = '10' } = query;
+
+    const pageNum = parseInt(page, 10);
+    const limitNum = parseInt(limit, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const { where, orderBy } = this.buildListQuery(query);
 
     const [mapUsers, total] = await Promise.all([
       this.prisma.mapUsers.findMany({
@@ -155,28 +356,60 @@ export class MapUsersService {
         );
       }
     }
-    let coordinates: { latitude: number; longitude: number } | null = null;
-    if (updateMapUserDto.location) {
-      coordinates = await this.mapService.getCoordinates(
-        updateMapUserDto.location,
-      );
-      if (!coordinates) {
-        throw new Error('Could not geocode the provided location');
-      }
-    }
+    const locationChanged =
+      updateMapUserDto.location !== undefined &&
+      updateMapUserDto.location !== existingUser.location;
 
     const updatedUser = await this.prisma.mapUsers.update({
       where: { id },
       data: {
         ...updateMapUserDto,
-        latitude: coordinates?.latitude,
-        longitude: coordinates?.longitude,
+        // The old pin is wrong for the new address until it is geocoded
+        ...(locationChanged && {
+          latitude: null,
+          longitude: null,
+          geoLocation: null,
+        }),
       },
     });
 
+    if (locationChanged) {
+      await this.geocodingJobService.enqueue(
+        GeocodeTarget.MAP_USER,
+        id,
+        updatedUser.location,
+      );
+      return this.getMapUserById(id);
+    }
+
     return updatedUser;
   }
 
+  // Export the filtered admin list as CSV, one batch at a time (Admin only)
+  async *exportMapUsers(query: MapUserQuery): AsyncGenerator<string> {
+    const { where, orderBy } = this.buildListQuery(query);
+
+    yield toCsvLine([...EXPORT_COLUMNS]);
+
+    for (let skip = 0; ; skip += MapUsersService.EXPORT_BATCH_SIZE) {
+      const batch = await this.prisma.mapUsers.findMany({
+        where,
+        // Tie-break on id so batches never overlap or skip records
+        orderBy: [orderBy, { id: 'asc' }],
+        skip,
+        take: MapUsersService.EXPORT_BATCH_SIZE,
+      });
+
+      for (const mapUser of batch) {
+        yield toCsvLine(EXPORT_COLUMNS.map((column) => mapUser[column]));
+      }
+
+      if (batch.length < MapUsersService.EXPORT_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
   // Toggle showOnMap status (Admin only)
   async toggleShowOnMap(id: string, showOnMap: boolean) {
     const existingUser = await this.prisma.mapUsers.findUnique({
@@ -186,6 +419,11 @@ export class MapUsersService {
     if (!existingUser) {
       throw new NotFoundException('Map user not found');
     }
+    if (showOnMap && existingUser.linkedUserId) {
+      throw new BadRequestException(
+        "This listing is merged into a dentist's account, which is shown on the map instead",
+      );
+    }
 
     const updatedUser = await this.prisma.mapUsers.update({
       where: { id },
@@ -244,7 +482,13 @@ export class MapUsersService {
   // Get all visible map users for public display
   async getVisibleMapUsers() {
     const mapUsers = await this.prisma.mapUsers.findMany({
-      where: { showOnMap: true },
+      where: {
+        // Merged listings are hidden once the dentist's account is verified
+        // and shown in their place; until then the listing stays up
+        showOnMap: true,
+        latitude: { not: null },
+        longitude: { not: null },
+      },
       select: {
         id: true,
         firstName: true,
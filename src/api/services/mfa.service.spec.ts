@@ -0,0 +1,142 @@
+import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcrypt';
+import { MfaService } from './mfa.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpStep,
+} from '../../helpers/totp.helper';
+
+describe('MfaService', () => {
+  const now = new Date('2026-01-01T09:00:10Z');
+  const secret = generateTotpSecret();
+  const recoveryCode = 'abcde-12345';
+  let recoveryHash: string;
+
+  let user: {
+    id: string;
+    role: string;
+    twoFactorEnabled: boolean;
+    twoFactorSecret: string | null;
+    twoFactorLastUsedStep: number | null;
+    twoFactorRecoveryCodes: string[];
+  };
+  let prisma: {
+    user: { findUnique: jest.Mock; updateMany: jest.Mock };
+  };
+  let service: MfaService;
+
+  const codeAt = (step: number) => generateTotpCode(secret, step);
+
+  beforeAll(async () => {
+    recoveryHash = await bcrypt.hash('abcde12345', 4);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    user = {
+      id: '64b000000000000000000001',
+      role: 'ADMIN',
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodes: [recoveryHash],
+    };
+
+    // Keeps one user in memory, honouring the conditions on updateMany
+    prisma = {
+      user: {
+        findUnique: jest.fn(() => Promise.resolve({ ...user })),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: {
+              OR?: { twoFactorLastUsedStep?: { lt: number } | null }[];
+              twoFactorRecoveryCodes?: { has: string };
+            };
+            data: Partial<typeof user>;
+          }) => {
+            const last = user.twoFactorLastUsedStep;
+            const stepAllowed =
+              !where.OR ||
+              last === null ||
+              where.OR.some(
+                (condition) =>
+                  condition.twoFactorLastUsedStep?.lt !== undefined &&
+                  last < condition.twoFactorLastUsedStep.lt,
+              );
+            const codeUnused =
+              !where.twoFactorRecoveryCodes ||
+              user.twoFactorRecoveryCodes.includes(
+                where.twoFactorRecoveryCodes.has,
+              );
+            if (!stepAllowed || !codeUnused) {
+              return Promise.resolve({ count: 0 });
+            }
+            user = { ...user, ...data };
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+      },
+    };
+    service = new MfaService(
+      prisma as unknown as PrismaService,
+      {} as JwtService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('accepts a current code and records its step', async () => {
+    const step = getTotpStep();
+
+    await expect(
+      service.verifySecondFactor(user.id, { code: codeAt(step) }),
+    ).resolves.toBe(true);
+    expect(user.twoFactorLastUsedStep).toBe(step);
+  });
+
+  it('rejects a code that was already used', async () => {
+    const code = codeAt(getTotpStep());
+
+    await expect(service.verifySecondFactor(user.id, { code })).resolves.toBe(
+      true,
+    );
+    await expect(service.verifySecondFactor(user.id, { code })).resolves.toBe(
+      false,
+    );
+  });
+
+  it('rejects an older step once a newer one was used', async () => {
+    const step = getTotpStep();
+    await service.verifySecondFactor(user.id, { code: codeAt(step + 1) });
+
+    await expect(
+      service.verifySecondFactor(user.id, { code: codeAt(step) }),
+    ).resolves.toBe(false);
+    expect(user.twoFactorLastUsedStep).toBe(step + 1);
+  });
+
+  it('rejects a wrong code without recording it', async () => {
+    await expect(
+      service.verifySecondFactor(user.id, { code: codeAt(getTotpStep() + 5) }),
+    ).resolves.toBe(false);
+    expect(prisma.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('accepts a recovery code only once', async () => {
+    await expect(
+      service.verifySecondFactor(user.id, { recoveryCode }),
+    ).resolves.toBe(true);
+    expect(user.twoFactorRecoveryCodes).toHaveLength(0);
+
+    await expect(
+      service.verifySecondFactor(user.id, { recoveryCode }),
+    ).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,297 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { STAFF_ROLES } from '../../guards/permissions';
+import {
+  buildTotpUri,
+  generateTotpSecret,
+  verifyTotpCode,
+} from '../../helpers/totp.helper';
+
+export enum MfaChallengePurpose {
+  // Password accepted, waiting for a TOTP or recovery code
+  VERIFY = 'mfa_verify',
+  // Password accepted, but the role requires 2FA and none is set up yet
+  ENROLL = 'mfa_enroll',
+}
+
+interface MfaChallengePayload {
+  sub: string;
+  purpose: MfaChallengePurpose;
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+@Injectable()
+export class MfaService {
+  static readonly CHALLENGE_TOKEN_TTL_SECONDS = 5 * 60; // 5 minutes
+  static readonly RECOVERY_CODE_COUNT = 10;
+  static readonly TOTP_ISSUER = 'DentistPortal';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  // MFA_REQUIRED_ROLES is a comma-separated list of roles; defaults to all staff
+  private getRequiredRoles(): string[] {
+    const configured = process.env.MFA_REQUIRED_ROLES;
+    if (configured === undefined) {
+      return STAFF_ROLES;
+    }
+    return configured
+      .split(',')
+      .map((role) => role.trim())
+      .filter(Boolean);
+  }
+
+  isRequiredForRole(role: string): boolean {
+    return this.getRequiredRoles().includes(role);
+  }
+
+  createChallengeToken(userId: string, purpose: MfaChallengePurpose): string {
+    const payload: MfaChallengePayload = { sub: userId, purpose };
+    return this.jwtService.sign(payload, {
+      expiresIn: MfaService.CHALLENGE_TOKEN_TTL_SECONDS,
+    });
+  }
+
+  // Returns the user id the challenge was issued for
+  async verifyChallengeToken(
+    token: string,
+    purpose: MfaChallengePurpose,
+  ): Promise<string> {
+    let payload: MfaChallengePayload;
+    try {
+      payload = await this.jwtService.verifyAsync<MfaChallengePayload>(token);
+    } catch {
+      throw new UnauthorizedException(
+        'Your sign-in attempt has expired. Please log in again.',
+      );
+    }
+
+    if (payload.purpose !== purpose || !payload.sub) {
+      throw new UnauthorizedException('Invalid MFA token');
+    }
+
+    return payload.sub;
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+
+  // Returns plain codes for the user to save, plus their bcrypt hashes to store
+  private async generateRecoveryCodes() {
+    const codes = Array.from({ length: MfaService.RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    const hashes = await Promise.all(
+      codes.map(async (code) =>
+        bcrypt.hash(this.normalizeRecoveryCode(code), await bcrypt.genSalt()),
+      ),
+    );
+
+    return { codes, hashes };
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  // Start (or restart) enrollment by generating a secret to scan
+  async beginEnrollment(userId: string) {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorPendingSecret: secret },
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildTotpUri(secret, user.email, MfaService.TOTP_ISSUER),
+    };
+  }
+
+  // Confirm enrollment with a code from the app; returns the recovery codes once
+  async confirmEnrollment(userId: string, code: string) {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestException(
+        'Start two-factor setup before confirming it',
+      );
+    }
+
+    const step = verifyTotpCode(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    const { codes, hashes } = await this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: null,
+        twoFactorRecoveryCodes: hashes,
+        twoFactorLastUsedStep: step,
+        twoFactorEnabledAt: new Date(),
+      },
+    });
+
+    return { recoveryCodes: codes };
+  }
+
+  // Checks a TOTP code or a recovery code. Each is accepted only once.
+  async verifySecondFactor(
+    userId: string,
+    factor: SecondFactor,
+  ): Promise<boolean> {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    if (factor.code) {
+      const step = verifyTotpCode(user.twoFactorSecret, factor.code);
+      if (step === null) {
+        return false;
+      }
+
+      // Only accept a time step newer than the last one used
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [
+            { twoFactorLastUsedStep: { isSet: false } },
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+      return count > 0;
+    }
+
+    if (factor.recoveryCode) {
+      const normalized = this.normalizeRecoveryCode(factor.recoveryCode);
+      for (const hash of user.twoFactorRecoveryCodes) {
+        if (await bcrypt.compare(normalized, hash)) {
+          // Consume the code; the condition stops it being used twice
+          const { count } = await this.prisma.user.updateMany({
+            where: { id: user.id, twoFactorRecoveryCodes: { has: hash } },
+            data: {
+              twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(
+                (stored) => stored !== hash,
+              ),
+            },
+          });
+          return count > 0;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  private async assertSecondFactor(userId: string, factor: SecondFactor) {
+    if (!factor.code && !factor.recoveryCode) {
+      throw new BadRequestException(
+        'An authentication code or recovery code is required',
+      );
+    }
+    if (!(await this.verifySecondFactor(userId, factor))) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+  }
+
+  async disable(userId: string, factor: SecondFactor) {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (this.isRequiredForRole(user.role)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required for your role',
+      );
+    }
+
+    await this.assertSecondFactor(user.id, factor);
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorPendingSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+        twoFactorEnabledAt: null,
+      },
+    });
+  }
+
+  async regenerateRecoveryCodes(userId: string, factor: SecondFactor) {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    await this.assertSecondFactor(user.id, factor);
+
+    const { codes, hashes } = await this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorRecoveryCodes: hashes },
+    });
+
+    return { recoveryCodes: codes };
+  }
+
+  async getStatus(userId: string) {
+    const user = await this.findUser(userId);
+    return {
+      enabled: user.twoFactorEnabled,
+      required: this.isRequiredForRole(user.role),
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+    };
+  }
+}
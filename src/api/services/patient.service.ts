@@ -0,0 +1,199 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { UserRole } from '../../guards/auth.guard';
+import { CaseActor } from './alignercase.service';
+import {
+  CreatePatientDto,
+  PatientQueryDto,
+  UpdatePatientDto,
+} from '../dto/patient.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+
+const CONSENT_FIELDS = [
+  'consentTreatment',
+  'consentRecordsSharing',
+  'consentEducationalUse',
+] as const;
+
+@Injectable()
+export class PatientService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Patients belong to a dentist's practice; nobody else manages them here
+  private assertDentist(actor: CaseActor) {
+    if ((actor.role as UserRole) !== UserRole.DENTIST) {
+      throw new ForbiddenException('Only dentists can manage patients');
+    }
+  }
+
+  // Another dentist's patient is reported as missing, not forbidden
+  async findOwnPatient(dentistId: string, patientId: string) {
+    if (!isValidObjectId(patientId)) {
+      throw new BadRequestException('Invalid patient ID format');
+    }
+
+    const patient = await this.prisma.patient.findFirst({
+      where: { id: patientId, dentistId },
+      include: { _count: { select: { alignerCases: true } } },
+    });
+    if (!patient) {
+      throw new NotFoundException('Patient not found');
+    }
+
+    return patient;
+  }
+
+  /**
+   * A patient a new case can be opened for: owned by the dentist, with
+   * consent to share their records with the lab
+   */
+  async findPatientForCase(dentistId: string, patientId: string) {
+    const patient = await this.findOwnPatient(dentistId, patientId);
+    if (!patient.consentRecordsSharing) {
+      throw new BadRequestException(
+        'The patient has not consented to sharing their records with the lab',
+      );
+    }
+    return patient;
+  }
+
+  async createPatient(actor: CaseActor, createDto: CreatePatientDto) {
+    this.assertDentist(actor);
+
+    const hasConsent = CONSENT_FIELDS.some(
+      (field) => createDto[field] !== undefined,
+    );
+
+    return this.prisma.patient.create({
+      data: {
+        ...createDto,
+        dentistId: actor.id,
+        dateOfBirth: createDto.dateOfBirth
+          ? new Date(createDto.dateOfBirth)
+          : undefined,
+        consentUpdatedAt: hasConsent ? new Date() : undefined,
+      },
+    });
+  }
+
+  async getPatients(actor: CaseActor, query: PatientQueryDto) {
+    this.assertDentist(actor);
+
+    const { page = 1, limit = 20, search } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PatientWhereInput = { dentistId: actor.id };
+    if (search) {
+      where.OR = [
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+        { chartNumber: { contains: search, mode: 'insensitive' } },
+        { phone: { contains: search } },
+        { email: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [patients, total] = await Promise.all([
+      this.prisma.patient.findMany({
+        where,
+        include: { _count: { select: { alignerCases: true } } },
+        orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.patient.count({ where }),
+    ]);
+
+    return {
+      data: patients,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  async getPatient(actor: CaseActor, patientId: string) {
+    this.assertDentist(actor);
+    return this.findOwnPatient(actor.id, patientId);
+  }
+
+  async updatePatient(
+    actor: CaseActor,
+    patientId: string,
+    updateDto: UpdatePatientDto,
+  ) {
+    this.assertDentist(actor);
+    const patient = await this.findOwnPatient(actor.id, patientId);
+
+    // Only stamp the consent date when a consent actually changes
+    const consentChanged = CONSENT_FIELDS.some(
+      (field) =>
+        updateDto[field] !== undefined && updateDto[field] !== patient[field],
+    );
+
+    return this.prisma.patient.update({
+      where: { id: patient.id },
+      data: {
+        ...updateDto,
+        dateOfBirth: updateDto.dateOfBirth
+          ? new Date(updateDto.dateOfBirth)
+          : undefined,
+        consentUpdatedAt: consentChanged ? new Date() : undefined,
+      },
+    });
+  }
+
+  async deletePatient(actor: CaseActor, patientId: string) {
+    this.assertDentist(actor);
+    const patient = await this.findOwnPatient(actor.id, patientId);
+
+    // Case history is clinical record keeping; it must not lose its patient
+    if (patient._count.alignerCases > 0) {
+      throw new ConflictException(
+        'This patient has aligner cases and cannot be deleted',
+      );
+    }
+
+    await this.prisma.patient.delete({ where: { id: patient.id } });
+
+    return { message: 'Patient deleted successfully' };
+  }
+
+  // Every aligner case for the patient, newest first
+  async getPatientCases(actor: CaseActor, patientId: string) {
+    this.assertDentist(actor);
+    const patient = await this.findOwnPatient(actor.id, patientId);
+
+    return this.prisma.alignerCase.findMany({
+      where: { patientId: patient.id, userId: actor.id },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        statusChangedAt: true,
+        upperAlignerCount: true,
+        lowerAlignerCount: true,
+        chiefComplaint: true,
+        createdAt: true,
+        treatmentPlans: {
+          orderBy: { version: 'desc' },
+          take: 1,
+          select: { version: true, createdAt: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,345 @@
+import { Logger, ServiceUnavailableException } from '@nestjs/common';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
+
+export interface GatewayOrderRequest {
+  amountPaise: number;
+  currency: string;
+  receipt: string; // Our reference, shown in the gateway's dashboard
+  description: string;
+}
+
+export interface GatewayCustomer {
+  name: string;
+  email: string;
+  phone?: string | null;
+}
+
+// What a verified webhook tells us about an order
+export interface GatewayPaymentEvent {
+  outcome: 'PAID' | 'FAILED';
+  gatewayOrderId: string;
+  gatewayPaymentId: string;
+  amountPaise: number;
+  failureReason?: string;
+}
+
+// Takes payments through a hosted checkout. Orders are created server-side;
+// the client completes payment with checkoutParams, and the result arrives
+// through a webhook signed with a secret shared with the gateway.
+export interface PaymentGateway {
+  readonly name: string;
+  // Request header carrying the webhook signature
+  readonly signatureHeader: string;
+  createOrder(
+    request: GatewayOrderRequest,
+  ): Promise<{ gatewayOrderId: string }>;
+  // Parameters the client hands to the gateway's checkout widget
+  checkoutParams(
+    gatewayOrderId: string,
+    request: GatewayOrderRequest,
+    customer: GatewayCustomer,
+  ): Record<string, unknown>;
+  verifyWebhook(rawBody: Buffer, signature: string | undefined): boolean;
+  // Null for events that do not settle an order
+  parseWebhook(payload: unknown): GatewayPaymentEvent | null;
+  // Returns money from a captured payment; throws when the gateway refuses
+  refund(
+    gatewayPaymentId: string,
+    amountPaise: number,
+    note?: string,
+  ): Promise<{ gatewayRefundId: string }>;
+}
+
+function hmacMatches(secret: string, rawBody: Buffer, signature?: string) {
+  if (!signature) {
+    return false;
+  }
+  const expected = createHmac('sha256', secret).update(rawBody).digest();
+  const given = Buffer.from(signature, 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+interface RazorpayWebhook {
+  event?: string;
+  payload?: {
+    payment?: {
+      entity?: {
+        id: string;
+        order_id: string;
+        amount: number;
+        error_description?: string | null;
+      };
+    };
+  };
+}
+
+export class RazorpayPaymentGateway implements PaymentGateway {
+  readonly name = 'razorpay';
+  readonly signatureHeader = 'x-razorpay-signature';
+  private static readonly BASE_URL = 'https://api.razorpay.com/v1';
+
+  constructor(
+    private readonly keyId: string,
+    private readonly keySecret: string,
+    private readonly webhookSecret: string,
+  ) {}
+
+  private headers() {
+    return {
+      Authorization: `Basic ${Buffer.from(`${this.keyId}:${this.keySecret}`).toString('base64')}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  async createOrder(
+    request: GatewayOrderRequest,
+  ): Promise<{ gatewayOrderId: string }> {
+    const response = await fetch(`${RazorpayPaymentGateway.BASE_URL}/orders`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        amount: request.amountPaise,
+        currency: request.currency,
+        receipt: request.receipt,
+        notes: { description: request.description },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Razorpay error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const order = (await response.json()) as { id: string };
+    return { gatewayOrderId: order.id };
+  }
+
+  checkoutParams(
+    gatewayOrderId: string,
+    request: GatewayOrderRequest,
+    customer: GatewayCustomer,
+  ) {
+    return {
+      key: this.keyId,
+      order_id: gatewayOrderId,
+      amount: request.amountPaise,
+      currency: request.currency,
+      description: request.description,
+      prefill: {
+        name: customer.name,
+        email: customer.email,
+        contact: customer.phone ?? undefined,
+      },
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, signature: string | undefined) {
+    return hmacMatches(this.webhookSecret, rawBody, signature);
+  }
+
+  parseWebhook(payload: unknown): GatewayPaymentEvent | null {
+    const { event, payload: body } = payload as RazorpayWebhook;
+    const payment = body?.payment?.entity;
+    if (!payment) {
+      return null;
+    }
+
+    switch (event) {
+      case 'payment.captured':
+      case 'order.paid':
+        return {
+          outcome: 'PAID',
+          gatewayOrderId: payment.order_id,
+          gatewayPaymentId: payment.id,
+          amountPaise: payment.amount,
+        };
+      case 'payment.failed':
+        return {
+          outcome: 'FAILED',
+          gatewayOrderId: payment.order_id,
+          gatewayPaymentId: payment.id,
+          amountPaise: payment.amount,
+          failureReason: payment.error_description ?? undefined,
+        };
+      default:
+        return null;
+    }
+  }
+
+  async refund(
+    gatewayPaymentId: string,
+    amountPaise: number,
+    note?: string,
+  ): Promise<{ gatewayRefundId: string }> {
+    const response = await fetch(
+      `${RazorpayPaymentGateway.BASE_URL}/payments/${encodeURIComponent(gatewayPaymentId)}/refund`,
+      {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          amount: amountPaise,
+          notes: note ? { note } : undefined,
+        }),
+      },
+    );
+    if (!response.ok) {
+      const error = (await response.json().catch(() => null)) as {
+        error?: { description?: string };
+      } | null;
+      throw new Error(
+        `Razorpay refund error: ${error?.error?.description ?? `${response.status} ${response.statusText}`}`,
+      );
+    }
+
+    const refund = (await response.json()) as { id: string };
+    return { gatewayRefundId: refund.id };
+  }
+}
+
+interface FakeWebhook {
+  event?: 'payment.paid' | 'payment.failed';
+  orderId: string;
+  paymentId: string;
+  amount: number;
+  reason?: string;
+}
+
+// Offline gateway for tests and local development. Orders exist only in
+// our database; tests settle them by posting a FakeWebhook body signed
+// with sign(). Refunds succeed except for payment ids listed as failing.
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  readonly signatureHeader = 'x-fake-signature';
+
+  constructor(
+    private readonly webhookSecret = 'fake-webhook-secret',
+    private readonly failingRefunds: string[] = [],
+  ) {}
+
+  createOrder(): Promise<{ gatewayOrderId: string }> {
+    return Promise.resolve({
+      gatewayOrderId: `order_fake_${randomBytes(8).toString('hex')}`,
+    });
+  }
+
+  checkoutParams(gatewayOrderId: string, request: GatewayOrderRequest) {
+    return {
+      orderId: gatewayOrderId,
+      amount: request.amountPaise,
+      currency: request.currency,
+    };
+  }
+
+  sign(rawBody: Buffer | string) {
+    return createHmac('sha256', this.webhookSecret)
+      .update(rawBody)
+      .digest('hex');
+  }
+
+  verifyWebhook(rawBody: Buffer, signature: string | undefined) {
+    return hmacMatches(this.webhookSecret, rawBody, signature);
+  }
+
+  parseWebhook(payload: unknown): GatewayPaymentEvent | null {
+    const body = payload as FakeWebhook;
+    if (body.event !== 'payment.paid' && body.event !== 'payment.failed') {
+      return null;
+    }
+
+    return {
+      outcome: body.event === 'payment.paid' ? 'PAID' : 'FAILED',
+      gatewayOrderId: body.orderId,
+      gatewayPaymentId: body.paymentId,
+      amountPaise: body.amount,
+      failureReason: body.reason,
+    };
+  }
+
+  refund(gatewayPaymentId: string): Promise<{ gatewayRefundId: string }> {
+    if (this.failingRefunds.includes(gatewayPaymentId)) {
+      return Promise.reject(new Error('Fake gateway: refund declined'));
+    }
+    return Promise.resolve({
+      gatewayRefundId: `rfnd_fake_${randomBytes(8).toString('hex')}`,
+    });
+  }
+}
+
+// No gateway configured: the app still boots, but nothing can be bought or
+// refunded and every webhook is rejected
+export class DisabledPaymentGateway implements PaymentGateway {
+  readonly name = 'disabled';
+  readonly signatureHeader = 'x-payment-signature';
+
+  private unavailable() {
+    return new ServiceUnavailableException(
+      'Online payments are not configured on this server',
+    );
+  }
+
+  createOrder(): Promise<{ gatewayOrderId: string }> {
+    return Promise.reject(this.unavailable());
+  }
+
+  checkoutParams(): Record<string, unknown> {
+    return {};
+  }
+
+  verifyWebhook(): boolean {
+    return false;
+  }
+
+  parseWebhook(): GatewayPaymentEvent | null {
+    return null;
+  }
+
+  refund(): Promise<{ gatewayRefundId: string }> {
+    return Promise.reject(this.unavailable());
+  }
+}
+
+// Picks the gateway from PAYMENT_GATEWAY (razorpay | fake), falling back to
+// a disabled gateway when it is missing its keys
+export function createPaymentGateway(): PaymentGateway {
+  const logger = new Logger('PaymentGateway');
+  const configured =
+    process.env.PAYMENT_GATEWAY ||
+    (process.env.NODE_ENV === 'test' ? 'fake' : 'razorpay');
+
+  switch (configured.toLowerCase()) {
+    case 'razorpay': {
+      const { RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET } =
+        process.env;
+      if (
+        !RAZORPAY_KEY_ID ||
+        !RAZORPAY_KEY_SECRET ||
+        !RAZORPAY_WEBHOOK_SECRET
+      ) {
+        logger.warn(
+          'RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET are not all set; online payments are disabled',
+        );
+        return new DisabledPaymentGateway();
+      }
+      return new RazorpayPaymentGateway(
+        RAZORPAY_KEY_ID,
+        RAZORPAY_KEY_SECRET,
+        RAZORPAY_WEBHOOK_SECRET,
+      );
+    }
+
+    case 'fake':
+      // Anyone who knows the secret can mark orders paid
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('PAYMENT_GATEWAY=fake cannot be used in production');
+      }
+      return new FakePaymentGateway(process.env.FAKE_PAYMENT_WEBHOOK_SECRET);
+
+    default:
+      logger.warn(
+        `Unknown PAYMENT_GATEWAY "${configured}", online payments are disabled`,
+      );
+      return new DisabledPaymentGateway();
+  }
+}
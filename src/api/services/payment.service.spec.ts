@@ -0,0 +1,277 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { PaymentOrder } from '@prisma/client';
+import { PaymentService } from './payment.service';
+import { FakePaymentGateway } from './payment-gateway.provider';
+import { RefundService } from './refund.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('PaymentService.handleWebhook', () => {
+  const order: PaymentOrder = {
+    id: '64b000000000000000000001',
+    userId: '64b000000000000000000002',
+    itemType: 'COURSE',
+    itemId: '64b000000000000000000003',
+    itemTitle: 'Clear aligner fundamentals',
+    amountPaise: 499900,
+    currency: 'INR',
+    status: 'CREATED',
+    gateway: 'fake',
+    gatewayOrderId: 'order_fake_1',
+    gatewayPaymentId: null,
+    failureReason: null,
+    paidAt: null,
+    createdAt: new Date('2026-01-01T09:00:00Z'),
+    updatedAt: new Date('2026-01-01T09:00:00Z'),
+  };
+
+  let gateway: FakePaymentGateway;
+  let prisma: {
+    paymentOrder: { findUnique: jest.Mock; updateMany: jest.Mock };
+    courseEnrollment: {
+      updateMany: jest.Mock;
+      findUnique: jest.Mock;
+      create: jest.Mock;
+    };
+    course: { update: jest.Mock };
+    ebookPurchase: {
+      updateMany: jest.Mock;
+      findUnique: jest.Mock;
+      create: jest.Mock;
+    };
+    liveSessionRegistration: {
+      updateMany: jest.Mock;
+      findUnique: jest.Mock;
+      create: jest.Mock;
+    };
+    liveSession: { update: jest.Mock };
+  };
+  let refundService: { requestForUnusedPayment: jest.Mock };
+  let service: PaymentService;
+
+  const paidEvent = (amount = order.amountPaise) => ({
+    event: 'payment.paid',
+    orderId: order.gatewayOrderId,
+    paymentId: 'pay_fake_1',
+    amount,
+  });
+
+  // Delivers the payload signed the way the gateway would sign it
+  const deliver = (payload: unknown, signature?: string) => {
+    const rawBody = Buffer.from(JSON.stringify(payload));
+    return service.handleWebhook(
+      rawBody,
+      signature ?? gateway.sign(rawBody),
+      payload,
+    );
+  };
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway();
+    prisma = {
+      paymentOrder: {
+        findUnique: jest.fn().mockResolvedValue(order),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      courseEnrollment: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+      },
+      course: { update: jest.fn() },
+      ebookPurchase: {
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+      },
+      liveSessionRegistration: {
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+      },
+      liveSession: { update: jest.fn() },
+    };
+    refundService = { requestForUnusedPayment: jest.fn() };
+    service = new PaymentService(
+      prisma as unknown as PrismaService,
+      gateway,
+      refundService as unknown as RefundService,
+    );
+  });
+
+  it('rejects a webhook with a bad signature', async () => {
+    await expect(
+      deliver(paidEvent(), gateway.sign('something else')),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(prisma.paymentOrder.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('activates the enrollment and marks the order paid', async () => {
+    await expect(deliver(paidEvent())).resolves.toEqual({ handled: true });
+
+    const [{ data: enrollment }] = prisma.courseEnrollment.updateMany.mock
+      .calls[0] as [{ data: { status: string; paymentId: string } }];
+    expect(enrollment).toMatchObject({
+      status: 'ACTIVE',
+      paymentId: 'pay_fake_1',
+    });
+    expect(prisma.course.update).toHaveBeenCalledWith({
+      where: { id: order.itemId },
+      data: { enrollmentCount: { increment: 1 } },
+    });
+    const [{ data: paid }] = prisma.paymentOrder.updateMany.mock.calls[0] as [
+      { data: { status: string } },
+    ];
+    expect(paid.status).toBe('PAID');
+  });
+
+  it('does not fulfil when the amount paid differs from the order', async () => {
+    await expect(deliver(paidEvent(100))).resolves.toEqual({
+      handled: false,
+    });
+
+    expect(prisma.courseEnrollment.updateMany).not.toHaveBeenCalled();
+    expect(prisma.paymentOrder.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('ignores a redelivery of an order that is already paid', async () => {
+    prisma.paymentOrder.findUnique.mockResolvedValue({
+      ...order,
+      status: 'PAID',
+    });
+
+    await expect(deliver(paidEvent())).resolves.toEqual({ handled: true });
+
+    expect(prisma.courseEnrollment.updateMany).not.toHaveBeenCalled();
+    expect(prisma.paymentOrder.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('does not enroll twice when a redelivery races the first one', async () => {
+    prisma.courseEnrollment.updateMany.mockResolvedValue({ count: 0 });
+    prisma.courseEnrollment.findUnique.mockResolvedValue({
+      status: 'ACTIVE',
+      paymentId: 'pay_fake_1',
+    });
+
+    await expect(deliver(paidEvent())).resolves.toEqual({ handled: true });
+
+    expect(prisma.course.update).not.toHaveBeenCalled();
+    expect(refundService.requestForUnusedPayment).not.toHaveBeenCalled();
+  });
+
+  it('reactivates an enrollment cancelled before the payment landed', async () => {
+    await deliver(paidEvent());
+
+    const [{ where }] = prisma.courseEnrollment.updateMany.mock.calls[0] as [
+      { where: { status: { in: string[] } } },
+    ];
+    expect(where.status.in).toEqual(
+      expect.arrayContaining(['PENDING_PAYMENT', 'CANCELLED']),
+    );
+    expect(prisma.course.update).toHaveBeenCalled();
+    expect(refundService.requestForUnusedPayment).not.toHaveBeenCalled();
+  });
+
+  it('requests a refund when the course was already owned', async () => {
+    prisma.courseEnrollment.updateMany.mockResolvedValue({ count: 0 });
+    prisma.courseEnrollment.findUnique.mockResolvedValue({
+      status: 'ACTIVE',
+      paymentId: 'pay_earlier',
+    });
+
+    await expect(deliver(paidEvent())).resolves.toEqual({ handled: true });
+
+    expect(refundService.requestForUnusedPayment).toHaveBeenCalledWith(
+      order,
+      expect.any(String),
+    );
+    expect(prisma.course.update).not.toHaveBeenCalled();
+  });
+
+  it('grants an ebook on its first payment', async () => {
+    prisma.paymentOrder.findUnique.mockResolvedValue({
+      ...order,
+      itemType: 'EBOOK',
+    });
+
+    await deliver(paidEvent());
+
+    const [{ data }] = prisma.ebookPurchase.create.mock.calls[0] as [
+      { data: { ebookId: string; paymentOrderId: string; status: string } },
+    ];
+    expect(data).toMatchObject({
+      ebookId: order.itemId,
+      paymentOrderId: order.id,
+      status: 'ACTIVE',
+    });
+  });
+
+  it('requests a refund when the ebook was already bought', async () => {
+    const ebookOrder = { ...order, itemType: 'EBOOK' as const };
+    prisma.paymentOrder.findUnique.mockResolvedValue(ebookOrder);
+    prisma.ebookPurchase.findUnique.mockResolvedValue({
+      status: 'ACTIVE',
+      paymentOrderId: '64b000000000000000000009',
+    });
+
+    await expect(deliver(paidEvent())).resolves.toEqual({ handled: true });
+
+    expect(refundService.requestForUnusedPayment).toHaveBeenCalledWith(
+      ebookOrder,
+      expect.any(String),
+    );
+    expect(prisma.ebookPurchase.create).not.toHaveBeenCalled();
+  });
+
+  it('requests a refund when already registered for the live session', async () => {
+    const sessionOrder = { ...order, itemType: 'LIVE_SESSION' as const };
+    prisma.paymentOrder.findUnique.mockResolvedValue(sessionOrder);
+    prisma.liveSessionRegistration.findUnique.mockResolvedValue({
+      status: 'ACTIVE',
+      paymentOrderId: '64b000000000000000000009',
+    });
+
+    await expect(deliver(paidEvent())).resolves.toEqual({ handled: true });
+
+    expect(refundService.requestForUnusedPayment).toHaveBeenCalledWith(
+      sessionOrder,
+      expect.any(String),
+    );
+    expect(prisma.liveSession.update).not.toHaveBeenCalled();
+  });
+
+  it('ignores a redelivery for a live session already registered', async () => {
+    prisma.paymentOrder.findUnique.mockResolvedValue({
+      ...order,
+      itemType: 'LIVE_SESSION',
+    });
+    prisma.liveSessionRegistration.findUnique.mockResolvedValue({
+      status: 'ACTIVE',
+      paymentOrderId: order.id,
+    });
+
+    await deliver(paidEvent());
+
+    expect(refundService.requestForUnusedPayment).not.toHaveBeenCalled();
+    expect(prisma.liveSession.update).not.toHaveBeenCalled();
+  });
+
+  it('marks the order failed on a failed payment', async () => {
+    await deliver({
+      event: 'payment.failed',
+      orderId: order.gatewayOrderId,
+      paymentId: 'pay_fake_1',
+      amount: order.amountPaise,
+      reason: 'Card declined',
+    });
+
+    expect(prisma.paymentOrder.updateMany).toHaveBeenCalledWith({
+      where: { id: order.id, status: 'CREATED' },
+      data: {
+        status: 'FAILED',
+        gatewayPaymentId: 'pay_fake_1',
+        failureReason: 'Card declined',
+      },
+    });
+    expect(prisma.courseEnrollment.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,594 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PaymentOrder, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  GatewayOrderRequest,
+  PAYMENT_GATEWAY,
+  PaymentGateway,
+} from './payment-gateway.provider';
+import {
+  CheckoutDto,
+  PaymentItemType,
+  PaymentOrderStatus,
+} from '../dto/payment.dto';
+import { CourseStatus } from '../dto/course.dto';
+import { RefundService } from './refund.service';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+interface PurchasableItem {
+  title: string;
+  price: number;
+  currency: string;
+}
+
+@Injectable()
+export class PaymentService {
+  private readonly logger = new Logger(PaymentService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(PAYMENT_GATEWAY) private readonly gateway: PaymentGateway,
+    private readonly refundService: RefundService,
+  ) {}
+
+  // ---- Checkout ----
+
+  /**
+   * Loads what is being bought and checks the user may buy it now: the item
+   * is on sale, not free, not already owned and not sold out
+   */
+  private async findPurchasableItem(
+    itemType: PaymentItemType,
+    itemId: string,
+    userId: string,
+  ): Promise<PurchasableItem> {
+    switch (itemType) {
+      case PaymentItemType.COURSE: {
+        const course = await this.prisma.course.findUnique({
+          where: { id: itemId },
+        });
+        if (!course) {
+          throw new NotFoundException('Course not found');
+        }
+        if (
+          (course.status as CourseStatus) !== CourseStatus.PUBLISHED ||
+          !course.isActive
+        ) {
+          throw new BadRequestException(
+            'Course is not available for enrollment',
+          );
+        }
+        if (course.isFreeCourse || course.price <= 0) {
+          throw new BadRequestException(
+            'This course is free; enroll without checkout',
+          );
+        }
+
+        const enrollment = await this.prisma.courseEnrollment.findUnique({
+          where: { userId_courseId: { userId, courseId: itemId } },
+        });
+        // Cancelled and refunded learners may buy the course again
+        if (
+          enrollment?.status === 'ACTIVE' ||
+          enrollment?.status === 'COMPLETED'
+        ) {
+          throw new ConflictException(
+            'You are already enrolled in this course',
+          );
+        }
+        if (course.maxEnrollments) {
+          const active = await this.prisma.courseEnrollment.count({
+            where: { courseId: itemId, status: 'ACTIVE' },
+          });
+          if (active >= course.maxEnrollments) {
+            throw new BadRequestException('Course enrollment limit reached');
+          }
+        }
+        return course;
+      }
+
+      case PaymentItemType.EBOOK: {
+        const ebook = await this.prisma.ebook.findUnique({
+          where: { id: itemId },
+        });
+        if (!ebook) {
+          throw new NotFoundException('Ebook not found');
+        }
+        if (ebook.status !== 'PUBLISHED' || !ebook.isActive) {
+          throw new BadRequestException('Ebook is not available for purchase');
+        }
+        if (ebook.isFree || ebook.isFreeEbook || ebook.price <= 0) {
+          throw new BadRequestException('This ebook is free to download');
+        }
+
+        const purchase = await this.prisma.ebookPurchase.findUnique({
+          where: { userId_ebookId: { userId, ebookId: itemId } },
+        });
+        if (purchase?.status === 'ACTIVE') {
+          throw new ConflictException('You have already bought this ebook');
+        }
+        return ebook;
+      }
+
+      case PaymentItemType.LIVE_SESSION: {
+        const session = await this.prisma.liveSession.findUnique({
+          where: { id: itemId },
+        });
+        if (!session) {
+          throw new NotFoundException('Live session not found');
+        }
+        if (
+          session.status !== 'SCHEDULED' ||
+          !session.isActive ||
+          session.scheduledAt <= new Date()
+        ) {
+          throw new BadRequestException(
+            'Live session is not open for registration',
+          );
+        }
+        if (session.isFree || session.price <= 0) {
+          throw new BadRequestException('This live session is free');
+        }
+
+        const registration =
+          await this.prisma.liveSessionRegistration.findUnique({
+            where: { userId_sessionId: { userId, sessionId: itemId } },
+          });
+        if (registration?.status === 'ACTIVE') {
+          throw new ConflictException(
+            'You are already registered for this session',
+          );
+        }
+        if (session.maxParticipants) {
+          const registered = await this.prisma.liveSessionRegistration.count({
+            where: { sessionId: itemId, status: 'ACTIVE' },
+          });
+          if (registered >= session.maxParticipants) {
+            throw new BadRequestException('Live session is full');
+          }
+        }
+        return session;
+      }
+    }
+  }
+
+  private toCheckout(order: PaymentOrder, params: Record<string, unknown>) {
+    return {
+      orderId: order.id,
+      status: order.status,
+      itemType: order.itemType,
+      itemId: order.itemId,
+      itemTitle: order.itemTitle,
+      amountPaise: order.amountPaise,
+      currency: order.currency,
+      gateway: order.gateway,
+      checkout: params,
+    };
+  }
+
+  /**
+   * Starts paying for a course, ebook or live session. Returns the
+   * parameters for the gateway's checkout; access follows once the
+   * gateway's webhook confirms the payment.
+   */
+  async checkout(checkoutDto: CheckoutDto, userId: string) {
+    const { itemType, itemId } = checkoutDto;
+    const item = await this.findPurchasableItem(itemType, itemId, userId);
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { firstName: true, lastName: true, email: true, phone: true },
+    });
+
+    const request: GatewayOrderRequest = {
+      amountPaise: Math.round(item.price * 100),
+      currency: item.currency,
+      receipt: `${itemType}-${itemId}`,
+      description: item.title,
+    };
+    const customer = {
+      name: `${user.firstName} ${user.lastName}`.trim(),
+      email: user.email,
+      phone: user.phone,
+    };
+
+    // A retried checkout continues the open order while the price holds
+    const open = await this.prisma.paymentOrder.findFirst({
+      where: {
+        userId,
+        itemType,
+        itemId,
+        status: PaymentOrderStatus.CREATED,
+        gateway: this.gateway.name,
+        amountPaise: request.amountPaise,
+        currency: request.currency,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (open) {
+      return this.toCheckout(
+        open,
+        this.gateway.checkoutParams(open.gatewayOrderId, request, customer),
+      );
+    }
+
+    let gatewayOrderId: string;
+    try {
+      ({ gatewayOrderId } = await this.gateway.createOrder(request));
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      const reason = errorMessage(error);
+      this.logger.error(
+        `Failed to create ${this.gateway.name} order for ${itemType} ${itemId}: ${reason}`,
+      );
+      throw new BadGatewayException(
+        'The payment gateway is unavailable; please try again',
+      );
+    }
+
+    const order = await this.prisma.paymentOrder.create({
+      data: {
+        userId,
+        itemType,
+        itemId,
+        itemTitle: item.title,
+        amountPaise: request.amountPaise,
+        currency: request.currency,
+        gateway: this.gateway.name,
+        gatewayOrderId,
+      },
+    });
+
+    // The course shows up as awaiting payment among the user's enrollments
+    if (itemType === PaymentItemType.COURSE) {
+      await this.prisma.courseEnrollment.upsert({
+        where: { userId_courseId: { userId, courseId: itemId } },
+        create: { userId, courseId: itemId, status: 'PENDING_PAYMENT' },
+        update: {},
+      });
+      await this.prisma.courseEnrollment.updateMany({
+        where: {
+          userId,
+          courseId: itemId,
+          status: { in: ['CANCELLED', 'REFUNDED'] },
+        },
+        data: { status: 'PENDING_PAYMENT' },
+      });
+    }
+
+    return this.toCheckout(
+      order,
+      this.gateway.checkoutParams(gatewayOrderId, request, customer),
+    );
+  }
+
+  // ---- Webhook ----
+
+  webhookSignatureHeader() {
+    return this.gateway.signatureHeader;
+  }
+
+  /**
+   * Grants what was paid for. Safe to repeat: webhooks are delivered at
+   * least once, and a failure here makes the gateway deliver again.
+   */
+  private async fulfil(order: PaymentOrder, gatewayPaymentId: string) {
+    const amountPaid = order.amountPaise / 100;
+
+    switch (order.itemType as PaymentItemType) {
+      case PaymentItemType.COURSE:
+        return this.fulfilCourse(order, gatewayPaymentId, amountPaid);
+
+      case PaymentItemType.EBOOK:
+        return this.fulfilEbook(order, amountPaid);
+
+      case PaymentItemType.LIVE_SESSION:
+        return this.fulfilLiveSession(order, amountPaid);
+    }
+  }
+
+  /**
+   * Grants the ebook an order paid for. An ebook the user already owns
+   * through another order keeps that order, and this payment is sent for a
+   * refund.
+   */
+  private async fulfilEbook(
+    order: PaymentOrder,
+    amountPaid: number,
+  ): Promise<void> {
+    const where = { userId: order.userId, ebookId: order.itemId };
+    const data = {
+      paymentOrderId: order.id,
+      amountPaid,
+      currency: order.currency,
+      status: 'ACTIVE' as const,
+      purchasedAt: new Date(),
+    };
+
+    // Bought again after a refund
+    const { count } = await this.prisma.ebookPurchase.updateMany({
+      where: { ...where, status: 'REFUNDED' },
+      data,
+    });
+    if (count > 0) {
+      return;
+    }
+
+    const purchase = await this.prisma.ebookPurchase.findUnique({
+      where: { userId_ebookId: where },
+    });
+    // Redelivery of the webhook that already granted it
+    if (purchase?.paymentOrderId === order.id) {
+      return;
+    }
+    if (purchase) {
+      this.logger.warn(
+        `Paid order ${order.id} is for an ebook the user already has; requesting a refund`,
+      );
+      await this.refundService.requestForUnusedPayment(
+        order,
+        'Paid for an ebook the user already owned',
+      );
+      return;
+    }
+
+    try {
+      await this.prisma.ebookPurchase.create({ data: { ...where, ...data } });
+    } catch (error) {
+      // Another delivery got there first; settle against what it wrote
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return this.fulfilEbook(order, amountPaid);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Registers the user for the live session an order paid for. A second
+   * payment for a session they are already registered for is sent for a
+   * refund.
+   */
+  private async fulfilLiveSession(
+    order: PaymentOrder,
+    amountPaid: number,
+  ): Promise<void> {
+    const where = { userId: order.userId, sessionId: order.itemId };
+    const data = {
+      paymentOrderId: order.id,
+      amountPaid,
+      currency: order.currency,
+      status: 'ACTIVE' as const,
+      registeredAt: new Date(),
+    };
+
+    // Registering again after a refund
+    const { count } = await this.prisma.liveSessionRegistration.updateMany({
+      where: { ...where, status: 'REFUNDED' },
+      data,
+    });
+
+    if (count === 0) {
+      const existing = await this.prisma.liveSessionRegistration.findUnique({
+        where: { userId_sessionId: where },
+      });
+      // Redelivery of the webhook that already registered them
+      if (existing?.paymentOrderId === order.id) {
+        return;
+      }
+      if (existing) {
+        this.logger.warn(
+          `Paid order ${order.id} is for a live session the user is already registered for; requesting a refund`,
+        );
+        await this.refundService.requestForUnusedPayment(
+          order,
+          'Paid for a live session the user was already registered for',
+        );
+        return;
+      }
+
+      try {
+        await this.prisma.liveSessionRegistration.create({
+          data: { ...where, ...data },
+        });
+      } catch (error) {
+        // Another delivery got there first; settle against what it wrote
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          return this.fulfilLiveSession(order, amountPaid);
+        }
+        throw error;
+      }
+    }
+
+    await this.prisma.liveSession.update({
+      where: { id: order.itemId },
+      data: { registrationCount: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Activates the enrollment a course payment was for. The payment may land
+   * after the learner cancelled the pending enrollment; the money arrived,
+   * so the course is theirs (and cancelling again follows the refund
+   * policy). A payment for a course already owned is sent for a refund.
+   */
+  private async fulfilCourse(
+    order: PaymentOrder,
+    gatewayPaymentId: string,
+    amountPaid: number,
+  ) {
+    const where = { userId: order.userId, courseId: order.itemId };
+    const data = {
+      status: 'ACTIVE' as const,
+      enrolledAt: new Date(),
+      paymentId: gatewayPaymentId,
+      amountPaid,
+    };
+
+    const { count } = await this.prisma.courseEnrollment.updateMany({
+      where: {
+        ...where,
+        status: { in: ['PENDING_PAYMENT', 'CANCELLED', 'REFUNDED'] },
+      },
+      data,
+    });
+
+    if (count === 0) {
+      const enrollment = await this.prisma.courseEnrollment.findUnique({
+        where: { userId_courseId: where },
+      });
+      // Redelivery of the webhook that already activated it
+      if (enrollment?.paymentId === gatewayPaymentId) {
+        return;
+      }
+      if (enrollment) {
+        this.logger.warn(
+          `Paid order ${order.id} is for a course the user already has; requesting a refund`,
+        );
+        await this.refundService.requestForUnusedPayment(
+          order,
+          'Paid for a course the learner was already enrolled in',
+        );
+        return;
+      }
+
+      try {
+        await this.prisma.courseEnrollment.create({
+          data: { ...where, ...data },
+        });
+      } catch (error) {
+        // A concurrent delivery of the same webhook enrolled first
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          return;
+        }
+        throw error;
+      }
+    }
+
+    await this.prisma.course.update({
+      where: { id: order.itemId },
+      data: { enrollmentCount: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Settles an order from the gateway's webhook. Events are trusted only
+   * when signed with the webhook secret; unknown orders and events are
+   * acknowledged and ignored so the gateway stops retrying them.
+   */
+  async handleWebhook(
+    rawBody: Buffer | undefined,
+    signature: string | undefined,
+    payload: unknown,
+  ) {
+    if (!rawBody || !this.gateway.verifyWebhook(rawBody, signature)) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const event = this.gateway.parseWebhook(payload);
+    if (!event) {
+      return { handled: false };
+    }
+
+    const order = await this.prisma.paymentOrder.findUnique({
+      where: { gatewayOrderId: event.gatewayOrderId },
+    });
+    if (!order) {
+      this.logger.warn(
+        `Webhook for unknown ${this.gateway.name} order ${event.gatewayOrderId}`,
+      );
+      return { handled: false };
+    }
+
+    if (event.outcome === 'FAILED') {
+      // A later successful payment on the same order still counts
+      await this.prisma.paymentOrder.updateMany({
+        where: { id: order.id, status: PaymentOrderStatus.CREATED },
+        data: {
+          status: PaymentOrderStatus.FAILED,
+          gatewayPaymentId: event.gatewayPaymentId,
+          failureReason: event.failureReason ?? 'Payment failed',
+        },
+      });
+      return { handled: true };
+    }
+
+    if (event.amountPaise !== order.amountPaise) {
+      this.logger.error(
+        `Order ${order.id} expected ${order.amountPaise} but ${event.amountPaise} was paid; not fulfilled`,
+      );
+      return { handled: false };
+    }
+    // Redelivered after settling, possibly after a refund
+    if (
+      (order.status as PaymentOrderStatus) === PaymentOrderStatus.PAID ||
+      (order.status as PaymentOrderStatus) === PaymentOrderStatus.REFUNDED
+    ) {
+      return { handled: true };
+    }
+
+    await this.fulfil(order, event.gatewayPaymentId);
+    await this.prisma.paymentOrder.updateMany({
+      where: {
+        id: order.id,
+        status: {
+          in: [PaymentOrderStatus.CREATED, PaymentOrderStatus.FAILED],
+        },
+      },
+      data: {
+        status: PaymentOrderStatus.PAID,
+        gatewayPaymentId: event.gatewayPaymentId,
+        failureReason: null,
+        paidAt: new Date(),
+      },
+    });
+
+    return { handled: true };
+  }
+
+  // ---- Orders ----
+
+  async getMyOrders(userId: string) {
+    return this.prisma.paymentOrder.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Polled by the client after checkout until the webhook has arrived
+  async getOrder(id: string, userId: string) {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException('Invalid order ID format');
+    }
+
+    const order = await this.prisma.paymentOrder.findUnique({ where: { id } });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (order.userId !== userId) {
+      throw new ForbiddenException('You can only view your own orders');
+    }
+    return order;
+  }
+}
@@ -0,0 +1,254 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MapService } from './map.service';
+import { UserRole } from '../../guards/auth.guard';
+import { VerificationStatus } from '../dto/users.dto';
+import {
+  NearbyProvider,
+  NearbyProvidersQueryDto,
+  ProviderSource,
+} from '../dto/provider.dto';
+import { errorMessage } from '../../helpers/error.helper';
+
+// Raw $geoNear output; ids come back as extended JSON
+interface GeoNearDocument {
+  _id: { $oid: string };
+  firstName: string;
+  lastName: string;
+  clinicName?: string | null;
+  phone?: string | null;
+  location?: string | null;
+  zipCode?: string | null;
+  latitude: number;
+  longitude: number;
+  distance: number; // metres
+}
+
+interface GeoNearPage {
+  total: number;
+  items: GeoNearDocument[];
+}
+
+@Injectable()
+export class ProviderService implements OnModuleInit {
+  private readonly logger = new Logger(ProviderService.name);
+
+  static readonly DEFAULT_RADIUS_KM = 25;
+  static readonly MAX_PAGE_SIZE = 50;
+  // PIN codes are geocoded within this country
+  static readonly SEARCH_COUNTRY = 'India';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mapService: MapService,
+  ) {}
+
+  // $geoNear needs a 2dsphere index on each collection it searches
+  async onModuleInit() {
+    for (const collection of ['User', 'MapUsers']) {
+      try {
+        await this.prisma.$runCommandRaw({
+          createIndexes: collection,
+          indexes: [
+            { key: { geoLocation: '2dsphere' }, name: 'geoLocation_2dsphere' },
+          ],
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to ensure 2dsphere index on ${collection}: ${errorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  private async resolveCenter(query: NearbyProvidersQueryDto) {
+    if (query.lat !== undefined && query.lng !== undefined) {
+      return { latitude: query.lat, longitude: query.lng };
+    }
+
+    if (query.zip) {
+      const coordinates = await this.mapService.getCoordinates(
+        `${query.zip}, ${ProviderService.SEARCH_COUNTRY}`,
+      );
+      if (!coordinates) {
+        throw new BadRequestException(
+          'Could not find a location for that PIN code',
+        );
+      }
+      return coordinates;
+    }
+
+    throw new BadRequestException(
+      'Please provide either lat and lng, or a zip code',
+    );
+  }
+
+  // Nearest matches first, capped at `take`, plus the total within the radius
+  private async geoNear(
+    collection: 'user' | 'mapUsers',
+    center: { latitude: number; longitude: number },
+    radiusKm: number,
+    filter: Prisma.InputJsonObject,
+    take: number,
+  ): Promise<GeoNearPage> {
+    const pipeline: Prisma.InputJsonObject[] = [
+      {
+        $geoNear: {
+          near: {
+            type: 'Point',
+            coordinates: [center.longitude, center.latitude],
+          },
+          distanceField: 'distance',
+          maxDistance: radiusKm * 1000,
+          spherical: true,
+          query: filter,
+        },
+      },
+      {
+        $facet: {
+          total: [{ $count: 'count' }],
+          items: [
+            { $limit: take },
+            {
+              $project: {
+                firstName: 1,
+                lastName: 1,
+                clinicName: 1,
+                phone: 1,
+                location: 1,
+                zipCode: 1,
+                latitude: 1,
+                longitude: 1,
+                distance: 1,
+              },
+            },
+          ],
+        },
+      },
+    ];
+
+    const [result] = (await this.prisma[collection].aggregateRaw({
+      pipeline,
+    })) as unknown as {
+      total: { count: number }[];
+      items: GeoNearDocument[];
+    }[];
+
+    return {
+      total: result?.total[0]?.count ?? 0,
+      items: result?.items ?? [],
+    };
+  }
+
+  async findNearby(query: NearbyProvidersQueryDto) {
+    const center = await this.resolveCenter(query);
+    const radiusKm = query.radiusKm ?? ProviderService.DEFAULT_RADIUS_KM;
+
+    const pageNum = Math.max(parseInt(query.page ?? '1', 10), 1);
+    const limitNum = Math.min(
+      Math.max(parseInt(query.limit ?? '20', 10), 1),
+      ProviderService.MAX_PAGE_SIZE,
+    );
+    const skip = (pageNum - 1) * limitNum;
+    // Either source could fill the whole page, so fetch enough from both
+    const take = skip + limitNum;
+
+    const dentistFilter: Record<string, Prisma.InputJsonValue> = {
+      role: UserRole.DENTIST,
+      showOnMap: true,
+      isActive: true,
+      verificationStatus: VerificationStatus.APPROVED,
+    };
+
+    // Specialties live on dentist profiles; directory entries have none
+    if (query.specialty) {
+      const profiles = await this.prisma.dentistProfile.findMany({
+        where: { specialties: { has: query.specialty } },
+        select: { userId: true },
+      });
+      dentistFilter._id = {
+        $in: profiles.map((profile) => ({ $oid: profile.userId })),
+      };
+    }
+
+    const [dentists, directory] = await Promise.all([
+      this.geoNear('user', center, radiusKm, dentistFilter, take),
+      query.specialty
+        ? Promise.resolve<GeoNearPage>({ total: 0, items: [] })
+        : this.geoNear(
+            'mapUsers',
+            center,
+            radiusKm,
+            // A merged listing is hidden once the dentist's account is
+            // verified and returned in its place; until then it stays listed
+            { showOnMap: true },
+            take,
+          ),
+    ]);
+
+    const profiles = await this.prisma.dentistProfile.findMany({
+      where: {
+        userId: { in: dentists.items.map((dentist) => dentist._id.$oid) },
+      },
+      select: { userId: true, slug: true, specialties: true },
+    });
+    const profilesByUserId = new Map(
+      profiles.map((profile) => [profile.userId, profile]),
+    );
+
+    const toProvider = (
+      doc: GeoNearDocument,
+      source: ProviderSource,
+    ): NearbyProvider => {
+      const profile =
+        source === ProviderSource.DENTIST
+          ? profilesByUserId.get(doc._id.$oid)
+          : undefined;
+      return {
+        id: doc._id.$oid,
+        source,
+        firstName: doc.firstName,
+        lastName: doc.lastName,
+        clinicName: doc.clinicName ?? null,
+        phone: doc.phone ?? null,
+        location: doc.location ?? null,
+        zipCode: doc.zipCode ?? null,
+        latitude: doc.latitude,
+        longitude: doc.longitude,
+        distanceKm: Math.round(doc.distance) / 1000,
+        profileSlug: profile?.slug ?? null,
+        specialties: profile?.specialties ?? [],
+      };
+    };
+
+    const providers = [
+      ...dentists.items.map((doc) => toProvider(doc, ProviderSource.DENTIST)),
+      ...directory.items.map((doc) =>
+        toProvider(doc, ProviderSource.DIRECTORY),
+      ),
+    ]
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(skip, skip + limitNum);
+
+    const total = dentists.total + directory.total;
+
+    return {
+      center: { ...center, radiusKm },
+      data: providers,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNextPage: pageNum * limitNum < total,
+        hasPrevPage: pageNum > 1,
+      },
+    };
+  }
+}
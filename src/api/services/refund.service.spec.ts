@@ -0,0 +1,223 @@
+import { BadGatewayException, ConflictException } from '@nestjs/common';
+import { CourseEnrollment } from '@prisma/client';
+import { RefundService } from './refund.service';
+import { FakePaymentGateway } from './payment-gateway.provider';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RefundStatus } from '../dto/refund.dto';
+
+describe('RefundService', () => {
+  const adminId = '64b0000000000000000000aa';
+  const paymentOrder = {
+    id: '64b000000000000000000001',
+    gateway: 'fake',
+    gatewayPaymentId: 'pay_fake_1',
+  };
+
+  let refund: {
+    id: string;
+    status: string;
+    amountPaise: number;
+    enrollmentId: string;
+    decisionNote?: string | null;
+    gatewayRefundId?: string | null;
+    failureReason?: string | null;
+  };
+  let events: { fromStatus: string; toStatus: string }[];
+  let failingRefunds: string[];
+  let orders: {
+    id: string;
+    gatewayPaymentId: string;
+    refunds: { status: string }[];
+  }[];
+  let prisma: {
+    refundRequest: {
+      findUnique: jest.Mock;
+      updateMany: jest.Mock;
+      create: jest.Mock;
+    };
+    refundEvent: { create: jest.Mock };
+    paymentOrder: { update: jest.Mock; findFirst: jest.Mock };
+    courseEnrollment: { updateMany: jest.Mock };
+  };
+  let service: RefundService;
+
+  beforeEach(() => {
+    refund = {
+      id: '64b000000000000000000002',
+      status: RefundStatus.REQUESTED,
+      amountPaise: 499900,
+      enrollmentId: '64b000000000000000000003',
+    };
+    events = [];
+    failingRefunds = [];
+    orders = [];
+
+    // Keeps one refund request in memory, honouring conditional updates
+    prisma = {
+      refundRequest: {
+        findUnique: jest.fn(() =>
+          Promise.resolve({ ...refund, paymentOrder, events }),
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { status: string };
+            data: typeof refund;
+          }) => {
+            if (refund.status !== where.status) {
+              return Promise.resolve({ count: 0 });
+            }
+            refund = { ...refund, ...data };
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+        create: jest.fn(({ data }: { data: { paymentOrderId: string } }) =>
+          Promise.resolve(data),
+        ),
+      },
+      refundEvent: {
+        create: jest.fn(({ data }: { data: (typeof events)[number] }) => {
+          events.push(data);
+          return Promise.resolve(data);
+        }),
+      },
+      paymentOrder: {
+        update: jest.fn(),
+        // Honours the payment match and the "no live refund" filter
+        findFirst: jest.fn(
+          ({ where }: { where: { gatewayPaymentId: string } }) =>
+            Promise.resolve(
+              orders.find(
+                (order) =>
+                  order.gatewayPaymentId === where.gatewayPaymentId &&
+                  order.refunds.every(
+                    (r) => r.status === (RefundStatus.DENIED as string),
+                  ),
+              ) ?? null,
+            ),
+        ),
+      },
+      courseEnrollment: { updateMany: jest.fn() },
+    };
+    service = new RefundService(
+      prisma as unknown as PrismaService,
+      new FakePaymentGateway(undefined, failingRefunds),
+    );
+  });
+
+  it('refunds through the gateway on approval', async () => {
+    const result = await service.approve(
+      refund.id,
+      { note: 'Within policy' },
+      adminId,
+    );
+
+    expect(result.status).toBe(RefundStatus.REFUNDED);
+    expect(refund.gatewayRefundId).toMatch(/^rfnd_fake_/);
+    expect(events.map((e) => e.toStatus)).toEqual([
+      RefundStatus.PROCESSING,
+      RefundStatus.REFUNDED,
+    ]);
+    expect(prisma.paymentOrder.update).toHaveBeenCalledWith({
+      where: { id: paymentOrder.id },
+      data: { status: 'REFUNDED' },
+    });
+    expect(prisma.courseEnrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: refund.enrollmentId, status: 'CANCELLED' },
+      data: { status: 'REFUNDED' },
+    });
+  });
+
+  it('denies a refund without touching the gateway', async () => {
+    const result = await service.deny(
+      refund.id,
+      { note: 'Outside the refund window' },
+      adminId,
+    );
+
+    expect(result.status).toBe(RefundStatus.DENIED);
+    expect(refund.decisionNote).toBe('Outside the refund window');
+    expect(prisma.paymentOrder.update).not.toHaveBeenCalled();
+  });
+
+  it('marks the refund failed when the gateway refuses, and allows a retry', async () => {
+    failingRefunds.push(paymentOrder.gatewayPaymentId);
+
+    await expect(service.approve(refund.id, {}, adminId)).rejects.toThrow(
+      BadGatewayException,
+    );
+    expect(refund.status).toBe(RefundStatus.FAILED);
+    expect(refund.failureReason).toMatch(/declined/);
+    expect(prisma.paymentOrder.update).not.toHaveBeenCalled();
+
+    failingRefunds.length = 0;
+    const retried = await service.approve(refund.id, {}, adminId);
+
+    expect(retried.status).toBe(RefundStatus.REFUNDED);
+    expect(refund.failureReason).toBeNull();
+    expect(events.map((e) => e.toStatus)).toEqual([
+      RefundStatus.PROCESSING,
+      RefundStatus.FAILED,
+      RefundStatus.PROCESSING,
+      RefundStatus.REFUNDED,
+    ]);
+  });
+
+  it('does not decide a refund twice', async () => {
+    await service.deny(refund.id, { note: 'No' }, adminId);
+
+    await expect(service.approve(refund.id, {}, adminId)).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  describe('requestForCancelledEnrollment', () => {
+    const enrollment = {
+      id: '64b000000000000000000003',
+      userId: '64b000000000000000000004',
+      courseId: '64b000000000000000000005',
+      enrolledAt: new Date(),
+      progress: 0,
+      paymentId: 'pay_enrollment',
+    } as CourseEnrollment;
+
+    it('refunds the order that paid for the enrollment', async () => {
+      orders = [
+        {
+          id: '64b000000000000000000006',
+          gatewayPaymentId: 'pay_duplicate',
+          refunds: [],
+        },
+        {
+          id: '64b000000000000000000007',
+          gatewayPaymentId: 'pay_enrollment',
+          refunds: [],
+        },
+      ];
+
+      await service.requestForCancelledEnrollment(enrollment);
+
+      const [{ data }] = prisma.refundRequest.create.mock.calls[0] as [
+        { data: { paymentOrderId: string } },
+      ];
+      expect(data.paymentOrderId).toBe('64b000000000000000000007');
+    });
+
+    it('does not open a second refund on an order', async () => {
+      orders = [
+        {
+          id: '64b000000000000000000007',
+          gatewayPaymentId: 'pay_enrollment',
+          refunds: [{ status: RefundStatus.REQUESTED }],
+        },
+      ];
+
+      const result = await service.requestForCancelledEnrollment(enrollment);
+
+      expect(result.refund).toBeNull();
+      expect(prisma.refundRequest.create).not.toHaveBeenCalled();
+    });
+  });
+});
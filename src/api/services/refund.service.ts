@@ -0,0 +1,351 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CourseEnrollment, PaymentOrder, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PAYMENT_GATEWAY, PaymentGateway } from './payment-gateway.provider';
+import { PaymentItemType, PaymentOrderStatus } from '../dto/payment.dto';
+import {
+  ApproveRefundDto,
+  DenyRefundDto,
+  RefundQueryDto,
+  RefundStatus,
+} from '../dto/refund.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+// Statuses an admin can still decide on; FAILED is retried by approving
+const OPEN_STATUSES = [RefundStatus.REQUESTED, RefundStatus.FAILED];
+
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(PAYMENT_GATEWAY) private readonly gateway: PaymentGateway,
+  ) {}
+
+  // Full refund within windowDays of enrolling while progress is under
+  // maxProgressPercent
+  getPolicy() {
+    return {
+      windowDays: Number(process.env.REFUND_WINDOW_DAYS || 7),
+      maxProgressPercent: Number(process.env.REFUND_MAX_PROGRESS_PERCENT || 20),
+    };
+  }
+
+  private evaluatePolicy(enrollment: CourseEnrollment) {
+    const { windowDays, maxProgressPercent } = this.getPolicy();
+    const daysEnrolled =
+      (Date.now() - enrollment.enrolledAt.getTime()) / 86_400_000;
+
+    if (daysEnrolled > windowDays) {
+      return {
+        eligible: false,
+        note: `Refunds are only available within ${windowDays} days of enrolling`,
+      };
+    }
+    if (enrollment.progress >= maxProgressPercent) {
+      return {
+        eligible: false,
+        note: `Refunds are only available before ${maxProgressPercent}% of the course is completed`,
+      };
+    }
+    return {
+      eligible: true,
+      note: `Cancelled after ${Math.floor(daysEnrolled)} day(s) at ${enrollment.progress}% progress`,
+    };
+  }
+
+  /**
+   * Opens a refund request for a paid enrollment that was just cancelled,
+   * when the cancellation falls inside the refund policy. Free enrollments
+   * have nothing to refund.
+   */
+  async requestForCancelledEnrollment(
+    enrollment: CourseEnrollment,
+    reason?: string,
+  ) {
+    if (!enrollment.paymentId) {
+      return { refund: null, policyNote: null };
+    }
+
+    // The order that paid for this enrollment, unless a refund for it is
+    // already open or done (a denied one may be asked for again)
+    const order = await this.prisma.paymentOrder.findFirst({
+      where: {
+        userId: enrollment.userId,
+        itemType: PaymentItemType.COURSE,
+        itemId: enrollment.courseId,
+        gatewayPaymentId: enrollment.paymentId,
+        status: PaymentOrderStatus.PAID,
+        refunds: {
+          none: { status: { not: RefundStatus.DENIED } },
+        },
+      },
+    });
+    if (!order) {
+      return { refund: null, policyNote: null };
+    }
+
+    const policy = this.evaluatePolicy(enrollment);
+    if (!policy.eligible) {
+      return { refund: null, policyNote: policy.note };
+    }
+
+    const refund = await this.prisma.refundRequest.create({
+      data: {
+        paymentOrderId: order.id,
+        userId: enrollment.userId,
+        enrollmentId: enrollment.id,
+        itemTitle: order.itemTitle,
+        amountPaise: order.amountPaise,
+        currency: order.currency,
+        reason,
+        policyNote: policy.note,
+        events: {
+          create: {
+            toStatus: RefundStatus.REQUESTED,
+            note: reason,
+            changedById: enrollment.userId,
+          },
+        },
+      },
+    });
+    return { refund, policyNote: policy.note };
+  }
+
+  /**
+   * Opens a refund request for a payment that bought nothing, e.g. a second
+   * payment for a course the learner already owns. Outside the cancellation
+   * policy; an admin still decides. Repeat calls return the open request.
+   */
+  async requestForUnusedPayment(order: PaymentOrder, note: string) {
+    const existing = await this.prisma.refundRequest.findFirst({
+      where: { paymentOrderId: order.id },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    return this.prisma.refundRequest.create({
+      data: {
+        paymentOrderId: order.id,
+        userId: order.userId,
+        itemTitle: order.itemTitle,
+        amountPaise: order.amountPaise,
+        currency: order.currency,
+        policyNote: note,
+        events: {
+          create: { toStatus: RefundStatus.REQUESTED, note },
+        },
+      },
+    });
+  }
+
+  async getRefunds(query: RefundQueryDto) {
+    const { page = 1, limit = 20, status } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.RefundRequestWhereInput = {};
+    if (status) {
+      where.status = status;
+    }
+
+    const [refunds, total] = await Promise.all([
+      this.prisma.refundRequest.findMany({
+        where,
+        include: {
+          user: {
+            select: { id: true, firstName: true, lastName: true, email: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.refundRequest.count({ where }),
+    ]);
+
+    return {
+      data: refunds,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  async getMyRefunds(userId: string) {
+    return this.prisma.refundRequest.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // A refund request with its payment and full audit trail
+  async getRefund(id: string) {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException('Invalid refund ID format');
+    }
+
+    const refund = await this.prisma.refundRequest.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+        paymentOrder: true,
+        events: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            changedBy: {
+              select: { id: true, firstName: true, lastName: true },
+            },
+          },
+        },
+      },
+    });
+    if (!refund) {
+      throw new NotFoundException('Refund request not found');
+    }
+    return refund;
+  }
+
+  /**
+   * Moves a refund from one status to another and records the change.
+   * The update only applies if the refund is still in `from`, so two
+   * admins deciding at once cannot both win.
+   */
+  private async transition(
+    id: string,
+    from: RefundStatus,
+    to: RefundStatus,
+    actorId: string,
+    data: Prisma.RefundRequestUpdateManyMutationInput = {},
+    note?: string,
+  ) {
+    const { count } = await this.prisma.refundRequest.updateMany({
+      where: { id, status: from },
+      data: { ...data, status: to },
+    });
+    if (count === 0) {
+      throw new ConflictException(
+        'This refund request was updated by someone else; please reload',
+      );
+    }
+
+    await this.prisma.refundEvent.create({
+      data: {
+        refundRequestId: id,
+        fromStatus: from,
+        toStatus: to,
+        note,
+        changedById: actorId,
+      },
+    });
+  }
+
+  private async findOpenRefund(id: string) {
+    const refund = await this.getRefund(id);
+    if (!OPEN_STATUSES.includes(refund.status as RefundStatus)) {
+      throw new ConflictException(`This refund is already ${refund.status}`);
+    }
+    return refund;
+  }
+
+  /**
+   * Refunds the payment through the gateway. The enrollment and the order
+   * become REFUNDED; if the gateway refuses, the request is marked FAILED
+   * and can be approved again.
+   */
+  async approve(id: string, approveDto: ApproveRefundDto, actorId: string) {
+    const refund = await this.findOpenRefund(id);
+    const order = refund.paymentOrder;
+
+    if (order.gateway !== this.gateway.name || !order.gatewayPaymentId) {
+      throw new ConflictException(
+        `This payment was taken through ${order.gateway} and cannot be refunded automatically`,
+      );
+    }
+
+    await this.transition(
+      refund.id,
+      refund.status as RefundStatus,
+      RefundStatus.PROCESSING,
+      actorId,
+      { decisionNote: approveDto.note },
+      approveDto.note,
+    );
+
+    let gatewayRefundId: string;
+    try {
+      ({ gatewayRefundId } = await this.gateway.refund(
+        order.gatewayPaymentId,
+        refund.amountPaise,
+        `Refund request ${refund.id}`,
+      ));
+    } catch (error) {
+      const reason = errorMessage(error);
+      this.logger.error(`Refund ${refund.id} failed: ${reason}`);
+      await this.transition(
+        refund.id,
+        RefundStatus.PROCESSING,
+        RefundStatus.FAILED,
+        actorId,
+        { failureReason: reason },
+        reason,
+      );
+      throw new BadGatewayException(
+        `The payment gateway refused the refund: ${reason}`,
+      );
+    }
+
+    await this.transition(
+      refund.id,
+      RefundStatus.PROCESSING,
+      RefundStatus.REFUNDED,
+      actorId,
+      { gatewayRefundId, failureReason: null, refundedAt: new Date() },
+    );
+    await this.prisma.paymentOrder.update({
+      where: { id: order.id },
+      data: { status: PaymentOrderStatus.REFUNDED },
+    });
+    if (refund.enrollmentId) {
+      await this.prisma.courseEnrollment.updateMany({
+        where: { id: refund.enrollmentId, status: 'CANCELLED' },
+        data: { status: 'REFUNDED' },
+      });
+    }
+
+    return this.getRefund(refund.id);
+  }
+
+  // The enrollment stays cancelled; nothing is paid back
+  async deny(id: string, denyDto: DenyRefundDto, actorId: string) {
+    const refund = await this.findOpenRefund(id);
+
+    await this.transition(
+      refund.id,
+      refund.status as RefundStatus,
+      RefundStatus.DENIED,
+      actorId,
+      { decisionNote: denyDto.note },
+      denyDto.note,
+    );
+
+    return this.getRefund(refund.id);
+  }
+}
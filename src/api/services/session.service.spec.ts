@@ -0,0 +1,82 @@
+import { Session } from '@prisma/client';
+import { SessionService, SessionRevokedReason } from './session.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+type Where = Record<string, unknown> & { OR?: Record<string, unknown>[] };
+
+describe('SessionService.revokeByRefreshToken', () => {
+  const user = { id: '64b000000000000000000002', isActive: true };
+
+  let sessions: Session[];
+  let service: SessionService;
+
+  const matches = (session: Session, where: Where): boolean =>
+    Object.entries(where).every(([key, value]) =>
+      key === 'OR'
+        ? (value as Where[]).some((branch) => matches(session, branch))
+        : session[key as keyof Session] === value,
+    );
+
+  beforeEach(() => {
+    sessions = [];
+
+    // Keeps sessions in memory; updateMany honours equality and OR filters,
+    // which is all the service uses to guard revocation and rotation
+    const prisma = {
+      session: {
+        create: jest.fn(({ data }: { data: Partial<Session> }) => {
+          const session = {
+            id: `64b0000000000000000000${String(10 + sessions.length)}`,
+            previousRefreshTokenHash: null,
+            revokedAt: null,
+            revokedReason: null,
+            lastSeenAt: new Date(),
+            createdAt: new Date(),
+            ...data,
+          } as Session;
+          sessions.push(session);
+          return Promise.resolve(session);
+        }),
+        findUnique: jest.fn(({ where }: { where: { id: string } }) => {
+          const session = sessions.find((s) => s.id === where.id);
+          return Promise.resolve(session ? { ...session, user } : null);
+        }),
+        updateMany: jest.fn(
+          ({ where, data }: { where: Where; data: Partial<Session> }) => {
+            const matched = sessions.filter((s) => matches(s, where));
+            matched.forEach((s) => Object.assign(s, data));
+            return Promise.resolve({ count: matched.length });
+          },
+        ),
+      },
+    };
+
+    service = new SessionService(prisma as unknown as PrismaService);
+  });
+
+  it('logs the session out with its refresh token', async () => {
+    const { refreshToken } = await service.createSession(user.id, 3600, {});
+
+    await service.revokeByRefreshToken(refreshToken);
+
+    expect(sessions[0].revokedAt).toBeInstanceOf(Date);
+    expect(sessions[0].revokedReason).toBe(SessionRevokedReason.LOGOUT);
+  });
+
+  it('ignores a logout with the wrong secret', async () => {
+    const { session } = await service.createSession(user.id, 3600, {});
+
+    await service.revokeByRefreshToken(`${session.id}.x`);
+
+    expect(sessions[0].revokedAt).toBeNull();
+  });
+
+  it('still logs out with the token a refresh just replaced', async () => {
+    const { refreshToken } = await service.createSession(user.id, 3600, {});
+    await service.rotateSession(refreshToken, {});
+
+    await service.revokeByRefreshToken(refreshToken);
+
+    expect(sessions[0].revokedReason).toBe(SessionRevokedReason.LOGOUT);
+  });
+});
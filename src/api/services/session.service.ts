@@ -0,0 +1,263 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export enum SessionRevokedReason {
+  LOGOUT = 'LOGOUT',
+  USER_REVOKED = 'USER_REVOKED',
+  REUSE_DETECTED = 'REUSE_DETECTED',
+  LOGOUT_EVERYWHERE = 'LOGOUT_EVERYWHERE',
+  ACCOUNT_DEACTIVATED = 'ACCOUNT_DEACTIVATED',
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  PASSWORD_CHANGED = 'PASSWORD_CHANGED',
+  ROLE_CHANGED = 'ROLE_CHANGED',
+}
+
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  // Avoid a write on every request just to track last-seen time
+  private static readonly LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(48).toString('hex');
+  }
+
+  private parseRefreshToken(refreshToken: string) {
+    const [sessionId, secret] = refreshToken?.split('.') ?? [];
+    if (!sessionId || !secret || !/^[0-9a-fA-F]{24}$/.test(sessionId)) {
+      return null;
+    }
+    return { sessionId, secret };
+  }
+
+  // Create a session for a freshly authenticated user
+  async createSession(
+    userId: string,
+    ttlSeconds: number,
+    context: SessionContext,
+  ) {
+    const secret = this.generateSecret();
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    const session = await this.prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: this.hashSecret(secret),
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt,
+      },
+    });
+
+    return {
+      session,
+      refreshToken: `${session.id}.${secret}`,
+    };
+  }
+
+  // Exchange a refresh token for a new one. Presenting a token that has
+  // already been rotated away revokes the whole session; a secret that was
+  // never issued for it is simply rejected, so guessing cannot log anyone out.
+  async rotateSession(refreshToken: string, context: SessionContext) {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: parsed.sessionId },
+      include: { user: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Session expired. Please log in again.');
+    }
+
+    if (!session.user.isActive) {
+      throw new UnauthorizedException(
+        'Your account is not active. Please contact support.',
+      );
+    }
+
+    const presentedHash = this.hashSecret(parsed.secret);
+    const newSecret = this.generateSecret();
+
+    // Conditional update so two concurrent refreshes cannot both succeed
+    const { count } = await this.prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: presentedHash,
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: this.hashSecret(newSecret),
+        previousRefreshTokenHash: presentedHash,
+        lastSeenAt: new Date(),
+        userAgent: context.userAgent ?? session.userAgent,
+        ipAddress: context.ipAddress ?? session.ipAddress,
+      },
+    });
+
+    if (count === 0) {
+      if (presentedHash === session.previousRefreshTokenHash) {
+        this.logger.warn(
+          `Refresh token reuse detected for session ${session.id} (user ${session.userId})`,
+        );
+        await this.revokeSessionById(
+          session.id,
+          SessionRevokedReason.REUSE_DETECTED,
+        );
+      }
+      throw new UnauthorizedException('Session expired. Please log in again.');
+    }
+
+    return {
+      session,
+      user: session.user,
+      refreshToken: `${session.id}.${newSecret}`,
+    };
+  }
+
+  // Used by AuthGuard on every authenticated request. A session only counts
+  // as active while its owner's account is active too.
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        revokedAt: true,
+        expiresAt: true,
+        lastSeenAt: true,
+        user: { select: { isActive: true } },
+      },
+    });
+
+    if (
+      !session ||
+      session.revokedAt ||
+      session.expiresAt <= new Date() ||
+      !session.user.isActive
+    ) {
+      return false;
+    }
+
+    if (
+      Date.now() - session.lastSeenAt.getTime() >
+      SessionService.LAST_SEEN_UPDATE_INTERVAL_MS
+    ) {
+      await this.prisma.session.update({
+        where: { id: sessionId },
+        data: { lastSeenAt: new Date() },
+      });
+    }
+
+    return true;
+  }
+
+  // List the user's signed-in devices
+  async getUserSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        lastSeenAt: true,
+        createdAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      isCurrent: session.id === currentSessionId,
+    }));
+  }
+
+  // Revoke the session a refresh token belongs to (logout). The secret must
+  // match the current token or the one it just replaced; anything else is
+  // ignored, since logout is open to unauthenticated callers.
+  async revokeByRefreshToken(refreshToken: string) {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return;
+    }
+
+    const presentedHash = this.hashSecret(parsed.secret);
+    await this.prisma.session.updateMany({
+      where: {
+        id: parsed.sessionId,
+        revokedAt: null,
+        OR: [
+          { refreshTokenHash: presentedHash },
+          { previousRefreshTokenHash: presentedHash },
+        ],
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: SessionRevokedReason.LOGOUT,
+      },
+    });
+  }
+
+  // Revoke one of the user's own sessions (per-device logout)
+  async revokeUserSession(sessionId: string, userId: string) {
+    const { count } = await this.prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: SessionRevokedReason.USER_REVOKED,
+      },
+    });
+
+    return count > 0;
+  }
+
+  // Revoke every session of a user, optionally keeping one (the caller's)
+  async revokeAllUserSessions(
+    userId: string,
+    reason: SessionRevokedReason,
+    exceptSessionId?: string,
+  ) {
+    const where: Prisma.SessionWhereInput = { userId, revokedAt: null };
+    if (exceptSessionId) {
+      where.id = { not: exceptSessionId };
+    }
+
+    const { count } = await this.prisma.session.updateMany({
+      where,
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return count;
+  }
+
+  async revokeSessionById(sessionId: string, reason: SessionRevokedReason) {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+}
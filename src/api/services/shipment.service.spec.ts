@@ -0,0 +1,208 @@
+import { Shipment } from '@prisma/client';
+import { ShipmentService } from './shipment.service';
+import { FakeCarrierTrackingAdapter } from './carrier-tracking.provider';
+import { EmailService } from './email.service';
+import { AlignerCaseService } from './alignercase.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ShipmentStatus } from '../dto/shipment.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+const settled: string[] = [ShipmentStatus.DELIVERED, ShipmentStatus.RETURNED];
+
+describe('ShipmentService.pollCarriers', () => {
+  const dispatchedAt = new Date('2026-01-01T09:00:00Z');
+  const alignerCase = {
+    id: '64b000000000000000000001',
+    name: 'Upper and lower crowding',
+    user: { firstName: 'Asha', email: 'asha@example.com' },
+  };
+
+  let now: Date;
+  let shipments: Shipment[];
+  let events: { shipmentId: string; status: string }[];
+  let adapter: FakeCarrierTrackingAdapter;
+  let emailService: { sendShipmentUpdateEmail: jest.Mock };
+  let service: ShipmentService;
+
+  const shipment = (overrides: Partial<Shipment> = {}): Shipment => ({
+    id: '64b000000000000000000010',
+    caseId: alignerCase.id,
+    carrier: 'bluedart',
+    awbNumber: '1234567890',
+    fromStep: 1,
+    toStep: 6,
+    status: ShipmentStatus.DISPATCHED,
+    dispatchedAt,
+    deliveredAt: null,
+    lastCheckedAt: null,
+    notes: null,
+    createdById: null,
+    createdAt: dispatchedAt,
+    updatedAt: dispatchedAt,
+    ...overrides,
+  });
+
+  const pollAt = async (hoursAfterDispatch: number) => {
+    now = new Date(dispatchedAt.getTime() + hoursAfterDispatch * HOUR_MS);
+    jest.setSystemTime(now);
+    await service.pollCarriers();
+  };
+
+  const sameValue = (a: unknown, b: unknown) =>
+    a instanceof Date && b instanceof Date
+      ? a.getTime() === b.getTime()
+      : a === b;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: dispatchedAt });
+    now = dispatchedAt;
+    shipments = [shipment()];
+    events = [];
+
+    // Keeps shipments in memory; updateMany honours its where clause, which
+    // is how the service claims shipments and guards status changes
+    const prisma = {
+      shipment: {
+        findMany: jest.fn(
+          ({ where }: { where: { OR: { lastCheckedAt: unknown }[] } }) => {
+            const [, { lastCheckedAt }] = where.OR;
+            const checkedBefore = (lastCheckedAt as { lt: Date }).lt;
+            return Promise.resolve(
+              shipments
+                .filter(
+                  (s) =>
+                    !settled.includes(s.status) &&
+                    (!s.lastCheckedAt || s.lastCheckedAt < checkedBefore),
+                )
+                .map((s) => ({ ...s, alignerCase })),
+            );
+          },
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: Record<string, unknown>;
+            data: Record<string, unknown>;
+          }) => {
+            const matches = shipments.filter((s) =>
+              Object.entries(where).every(([key, value]) =>
+                sameValue(s[key as keyof Shipment], value),
+              ),
+            );
+            for (const match of matches) {
+              for (const [key, value] of Object.entries(data)) {
+                if (value !== undefined) {
+                  Object.assign(match, { [key]: value });
+                }
+              }
+            }
+            return Promise.resolve({ count: matches.length });
+          },
+        ),
+      },
+      shipmentEvent: {
+        create: jest.fn(({ data }: { data: (typeof events)[number] }) => {
+          events.push(data);
+          return Promise.resolve(data);
+        }),
+      },
+    };
+
+    adapter = new FakeCarrierTrackingAdapter({}, () => now);
+    emailService = { sendShipmentUpdateEmail: jest.fn() };
+    service = new ShipmentService(
+      prisma as unknown as PrismaService,
+      emailService as unknown as EmailService,
+      {} as AlignerCaseService,
+      adapter,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('leaves a shipment alone while the carrier has no news', async () => {
+    await pollAt(1);
+
+    expect(shipments[0].status).toBe(ShipmentStatus.DISPATCHED);
+    expect(shipments[0].lastCheckedAt).toEqual(now);
+    expect(events).toHaveLength(0);
+    expect(emailService.sendShipmentUpdateEmail).not.toHaveBeenCalled();
+  });
+
+  it('follows the carrier through to delivery', async () => {
+    await pollAt(7);
+    expect(shipments[0].status).toBe(ShipmentStatus.IN_TRANSIT);
+
+    await pollAt(37);
+    expect(shipments[0].status).toBe(ShipmentStatus.OUT_FOR_DELIVERY);
+
+    await pollAt(49);
+    expect(shipments[0].status).toBe(ShipmentStatus.DELIVERED);
+    expect(shipments[0].deliveredAt).toEqual(
+      new Date(dispatchedAt.getTime() + 48 * HOUR_MS),
+    );
+
+    expect(events.map((e) => e.status)).toEqual([
+      ShipmentStatus.IN_TRANSIT,
+      ShipmentStatus.OUT_FOR_DELIVERY,
+      ShipmentStatus.DELIVERED,
+    ]);
+    expect(emailService.sendShipmentUpdateEmail).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        email: alignerCase.user.email,
+        status: ShipmentStatus.DELIVERED,
+      }),
+    );
+  });
+
+  it('does not ask again before the poll interval has passed', async () => {
+    await pollAt(7);
+    const track = jest.spyOn(adapter, 'track');
+
+    now = new Date(now.getTime() + ShipmentService.POLL_INTERVAL_MS / 2);
+    jest.setSystemTime(now);
+    await service.pollCarriers();
+
+    expect(track).not.toHaveBeenCalled();
+  });
+
+  it('stops polling delivered shipments', async () => {
+    await pollAt(49);
+    const track = jest.spyOn(adapter, 'track');
+
+    await pollAt(60);
+
+    expect(track).not.toHaveBeenCalled();
+    expect(events).toHaveLength(1);
+  });
+
+  it('records carrier exceptions', async () => {
+    shipments = [shipment({ awbNumber: 'EXC0001' })];
+
+    await pollAt(8);
+
+    expect(shipments[0].status).toBe(ShipmentStatus.EXCEPTION);
+    expect(emailService.sendShipmentUpdateEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ detail: 'Consignee address incomplete' }),
+    );
+  });
+
+  it('keeps going when one carrier lookup fails', async () => {
+    shipments = [
+      shipment(),
+      shipment({ id: '64b000000000000000000011', awbNumber: '222' }),
+    ];
+    jest
+      .spyOn(adapter, 'track')
+      .mockRejectedValueOnce(new Error('Carrier timed out'));
+
+    await pollAt(7);
+
+    expect(shipments[0].status).toBe(ShipmentStatus.DISPATCHED);
+    expect(shipments[1].status).toBe(ShipmentStatus.IN_TRANSIT);
+  });
+});
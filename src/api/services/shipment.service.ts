@@ -0,0 +1,466 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma, Shipment } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from './email.service';
+import { AlignerCaseService, CaseActor } from './alignercase.service';
+import {
+  CARRIER_TRACKING_ADAPTER,
+  CarrierTrackingAdapter,
+  TrackingCheckpoint,
+} from './carrier-tracking.provider';
+import { hasPermission, Permission } from '../../guards/permissions';
+import { AlignerCaseStatus } from '../dto/alignercase.dto';
+import {
+  CreateShipmentDto,
+  ShipmentStatus,
+  UpdateShipmentStatusDto,
+} from '../dto/shipment.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { jobTimersEnabled } from '../../helpers/jobs.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+// Once here the carrier is done with the consignment
+const FINAL_SHIPMENT_STATUSES = [
+  ShipmentStatus.DELIVERED,
+  ShipmentStatus.RETURNED,
+];
+
+// Aligners only leave the lab once manufactured
+const SHIPPABLE_CASE_STATUSES = [
+  AlignerCaseStatus.MANUFACTURING,
+  AlignerCaseStatus.SHIPPED,
+  AlignerCaseStatus.IN_TREATMENT,
+];
+
+const SHIPMENT_INCLUDE = {
+  events: {
+    orderBy: { occurredAt: 'asc' },
+    include: {
+      recordedBy: { select: { id: true, firstName: true, lastName: true } },
+    },
+  },
+} as const;
+
+type CaseForShipment = {
+  id: string;
+  name: string;
+  user: { firstName: string; email: string };
+};
+
+@Injectable()
+export class ShipmentService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ShipmentService.name);
+
+  static readonly POLL_INTERVAL_MS = 30 * 60 * 1000;
+  static readonly POLL_BATCH_SIZE = 50;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailService: EmailService,
+    private readonly alignerCaseService: AlignerCaseService,
+    @Inject(CARRIER_TRACKING_ADAPTER)
+    private readonly carrierTracking: CarrierTrackingAdapter,
+  ) {}
+
+  onModuleInit() {
+    if (!jobTimersEnabled()) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.pollCarriers(),
+      ShipmentService.POLL_INTERVAL_MS,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // The case, if the actor is its dentist or manages cases
+  private async findCase(caseId: string, actor: CaseActor) {
+    if (!isValidObjectId(caseId)) {
+      throw new BadRequestException('Invalid aligner case ID format');
+    }
+
+    const alignerCase = await this.prisma.alignerCase.findUnique({
+      where: { id: caseId },
+      include: { user: { select: { firstName: true, email: true } } },
+    });
+    if (!alignerCase) {
+      throw new NotFoundException('Aligner case not found');
+    }
+
+    if (
+      alignerCase.userId !== actor.id &&
+      !hasPermission(actor.role, Permission.CASES_MANAGE)
+    ) {
+      throw new ForbiddenException('You can only access your own cases');
+    }
+
+    return alignerCase;
+  }
+
+  private async findShipment(caseId: string, shipmentId: string) {
+    if (!isValidObjectId(shipmentId)) {
+      throw new BadRequestException('Invalid shipment ID format');
+    }
+
+    const shipment = await this.prisma.shipment.findFirst({
+      where: { id: shipmentId, caseId },
+    });
+    if (!shipment) {
+      throw new NotFoundException('Shipment not found');
+    }
+    return shipment;
+  }
+
+  // Every shipment of a case with its status history, oldest first
+  async getShipments(caseId: string, actor: CaseActor) {
+    await this.findCase(caseId, actor);
+
+    return this.prisma.shipment.findMany({
+      where: { caseId },
+      include: SHIPMENT_INCLUDE,
+      orderBy: { dispatchedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Record a dispatched consignment. The first shipment of a manufactured
+   * case moves it to SHIPPED.
+   */
+  async createShipment(
+    caseId: string,
+    createDto: CreateShipmentDto,
+    actor: CaseActor,
+  ) {
+    const alignerCase = await this.findCase(caseId, actor);
+
+    if (
+      !SHIPPABLE_CASE_STATUSES.includes(alignerCase.status as AlignerCaseStatus)
+    ) {
+      throw new BadRequestException(
+        `Aligners cannot be shipped while the case is ${alignerCase.status}`,
+      );
+    }
+
+    const { fromStep, toStep } = createDto;
+    if (fromStep > toStep) {
+      throw new BadRequestException('fromStep cannot be after toStep');
+    }
+    const lastStep = Math.max(
+      alignerCase.upperAlignerCount,
+      alignerCase.lowerAlignerCount,
+    );
+    if (lastStep > 0 && toStep > lastStep) {
+      throw new BadRequestException(
+        `This case only has ${lastStep} aligner steps`,
+      );
+    }
+
+    // A step is only sent again when its earlier shipment came back
+    const overlapping = await this.prisma.shipment.findFirst({
+      where: {
+        caseId,
+        status: { not: ShipmentStatus.RETURNED },
+        fromStep: { lte: toStep },
+        toStep: { gte: fromStep },
+      },
+      select: { awbNumber: true },
+    });
+    if (overlapping) {
+      throw new ConflictException(
+        `Some of these steps already went out with AWB ${overlapping.awbNumber}`,
+      );
+    }
+
+    const dispatchedAt = createDto.dispatchedAt
+      ? new Date(createDto.dispatchedAt)
+      : new Date();
+
+    let shipment: Shipment;
+    try {
+      shipment = await this.prisma.shipment.create({
+        data: {
+          ...createDto,
+          caseId,
+          dispatchedAt,
+          // Explicit null so the poller can find never-checked shipments
+          lastCheckedAt: null,
+          createdById: actor.id,
+          events: {
+            create: {
+              caseId,
+              status: ShipmentStatus.DISPATCHED,
+              detail: `Steps ${fromStep}-${toStep} handed to ${createDto.carrier}`,
+              occurredAt: dispatchedAt,
+              recordedById: actor.id,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'This AWB number is already registered for that carrier',
+        );
+      }
+      throw error;
+    }
+
+    if (
+      (alignerCase.status as AlignerCaseStatus) ===
+      AlignerCaseStatus.MANUFACTURING
+    ) {
+      try {
+        await this.alignerCaseService.applyStatusChange(
+          caseId,
+          AlignerCaseStatus.MANUFACTURING,
+          AlignerCaseStatus.SHIPPED,
+          actor.id,
+          `Steps ${fromStep}-${toStep} dispatched via ${shipment.carrier} (AWB ${shipment.awbNumber})`,
+        );
+      } catch (error) {
+        // The parcel left either way; someone moved the case meanwhile
+        this.logger.warn(
+          `Case ${caseId} not moved to SHIPPED: ${errorMessage(error)}`,
+        );
+      }
+    }
+
+    await this.notifyDentist(alignerCase, shipment, null);
+
+    return this.prisma.shipment.findUniqueOrThrow({
+      where: { id: shipment.id },
+      include: SHIPMENT_INCLUDE,
+    });
+  }
+
+  // Status entered by the lab, e.g. for carriers that are not tracked
+  async updateStatus(
+    caseId: string,
+    shipmentId: string,
+    updateDto: UpdateShipmentStatusDto,
+    actor: CaseActor,
+  ) {
+    const alignerCase = await this.findCase(caseId, actor);
+    const shipment = await this.findShipment(caseId, shipmentId);
+
+    if (FINAL_SHIPMENT_STATUSES.includes(shipment.status as ShipmentStatus)) {
+      throw new BadRequestException(
+        `This shipment is already ${shipment.status}`,
+      );
+    }
+    if (updateDto.status === (shipment.status as ShipmentStatus)) {
+      throw new BadRequestException(
+        `The shipment is already ${shipment.status}`,
+      );
+    }
+
+    const recorded = await this.recordStatus(
+      alignerCase,
+      shipment,
+      {
+        status: updateDto.status,
+        detail: updateDto.detail,
+        location: updateDto.location,
+        occurredAt: updateDto.occurredAt
+          ? new Date(updateDto.occurredAt)
+          : new Date(),
+      },
+      actor.id,
+    );
+    if (!recorded) {
+      throw new ConflictException(
+        'The shipment status changed meanwhile; please reload',
+      );
+    }
+
+    return this.prisma.shipment.findUniqueOrThrow({
+      where: { id: shipment.id },
+      include: SHIPMENT_INCLUDE,
+    });
+  }
+
+  // Ask the carrier for news now instead of waiting for the next poll
+  async refreshShipment(caseId: string, shipmentId: string, actor: CaseActor) {
+    const alignerCase = await this.findCase(caseId, actor);
+    const shipment = await this.findShipment(caseId, shipmentId);
+
+    if (!FINAL_SHIPMENT_STATUSES.includes(shipment.status as ShipmentStatus)) {
+      await this.prisma.shipment.update({
+        where: { id: shipment.id },
+        data: { lastCheckedAt: new Date() },
+      });
+      try {
+        await this.checkCarrier(alignerCase, shipment);
+      } catch (error) {
+        this.logger.warn(
+          `Tracking ${shipment.carrier} ${shipment.awbNumber} failed: ${errorMessage(error)}`,
+        );
+        throw new BadRequestException(
+          'The carrier could not be reached; please try again later',
+        );
+      }
+    }
+
+    return this.prisma.shipment.findUniqueOrThrow({
+      where: { id: shipment.id },
+      include: SHIPMENT_INCLUDE,
+    });
+  }
+
+  /**
+   * Checks shipments still on the road with the carrier. Each is claimed by
+   * moving its lastCheckedAt, so several app instances share the work.
+   */
+  async pollCarriers() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const checkedBefore = new Date(
+        Date.now() - ShipmentService.POLL_INTERVAL_MS,
+      );
+      const due = await this.prisma.shipment.findMany({
+        where: {
+          status: { notIn: FINAL_SHIPMENT_STATUSES },
+          OR: [
+            { lastCheckedAt: null },
+            { lastCheckedAt: { lt: checkedBefore } },
+          ],
+        },
+        include: {
+          alignerCase: {
+            select: {
+              id: true,
+              name: true,
+              user: { select: { firstName: true, email: true } },
+            },
+          },
+        },
+        orderBy: { lastCheckedAt: 'asc' },
+        take: ShipmentService.POLL_BATCH_SIZE,
+      });
+
+      for (const { alignerCase, ...shipment } of due) {
+        const { count } = await this.prisma.shipment.updateMany({
+          where: { id: shipment.id, lastCheckedAt: shipment.lastCheckedAt },
+          data: { lastCheckedAt: new Date() },
+        });
+        if (count === 0) {
+          continue;
+        }
+
+        try {
+          await this.checkCarrier(alignerCase, shipment);
+        } catch (error) {
+          this.logger.warn(
+            `Tracking ${shipment.carrier} ${shipment.awbNumber} failed: ${errorMessage(error)}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Shipment polling failed: ${errorMessage(error)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async checkCarrier(alignerCase: CaseForShipment, shipment: Shipment) {
+    const checkpoint = await this.carrierTracking.track(
+      shipment.carrier,
+      shipment.awbNumber,
+      shipment.dispatchedAt,
+    );
+    if (
+      checkpoint &&
+      checkpoint.status !== (shipment.status as ShipmentStatus)
+    ) {
+      await this.recordStatus(alignerCase, shipment, checkpoint, null);
+    }
+  }
+
+  /**
+   * Moves the shipment to a new status, adds it to the case timeline and
+   * tells the dentist. False when the status changed under us.
+   */
+  private async recordStatus(
+    alignerCase: CaseForShipment,
+    shipment: Shipment,
+    checkpoint: TrackingCheckpoint,
+    recordedById: string | null,
+  ) {
+    const { count } = await this.prisma.shipment.updateMany({
+      where: { id: shipment.id, status: shipment.status },
+      data: {
+        status: checkpoint.status,
+        deliveredAt:
+          checkpoint.status === ShipmentStatus.DELIVERED
+            ? checkpoint.occurredAt
+            : undefined,
+      },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await this.prisma.shipmentEvent.create({
+      data: {
+        shipmentId: shipment.id,
+        caseId: shipment.caseId,
+        status: checkpoint.status,
+        detail: checkpoint.detail,
+        location: checkpoint.location,
+        occurredAt: checkpoint.occurredAt,
+        recordedById,
+      },
+    });
+
+    await this.notifyDentist(
+      alignerCase,
+      { ...shipment, status: checkpoint.status },
+      checkpoint.detail ?? null,
+    );
+    return true;
+  }
+
+  private async notifyDentist(
+    alignerCase: CaseForShipment,
+    shipment: Shipment,
+    detail: string | null,
+  ) {
+    await this.emailService.sendShipmentUpdateEmail({
+      firstName: alignerCase.user.firstName,
+      email: alignerCase.user.email,
+      caseName: alignerCase.name,
+      carrier: shipment.carrier,
+      awbNumber: shipment.awbNumber,
+      steps: `${shipment.fromStep}-${shipment.toStep}`,
+      status: shipment.status,
+      detail,
+      caseUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/aligner-cases/${alignerCase.id}`,
+    });
+  }
+}
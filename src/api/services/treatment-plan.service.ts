@@ -0,0 +1,382 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ImageKitService } from './imagekit.service';
+import { EmailService } from './email.service';
+import { AlignerCaseService, CaseActor } from './alignercase.service';
+import { BillingService } from './billing.service';
+import {
+  hasPermission,
+  Permission,
+  rolesWithPermission,
+} from '../../guards/permissions';
+import { AlignerCaseStatus } from '../dto/alignercase.dto';
+import {
+  CreateTreatmentPlanDto,
+  PlanDecisionDto,
+  PlanDecisionType,
+  TreatmentPlanState,
+} from '../dto/treatment-plan.dto';
+import { isValidObjectId } from '../../helpers/validation.helper';
+import { hasValidSignature } from '../../helpers/file-signature.helper';
+import { errorMessage } from '../../helpers/error.helper';
+
+const PLAN_INCLUDE = {
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  decision: {
+    include: {
+      decidedBy: { select: { id: true, firstName: true, lastName: true } },
+    },
+  },
+} as const;
+
+type PlanWithDecision = Prisma.TreatmentPlanGetPayload<{
+  include: typeof PLAN_INCLUDE;
+}>;
+
+@Injectable()
+export class TreatmentPlanService {
+  private readonly logger = new Logger(TreatmentPlanService.name);
+
+  static readonly MAX_STAGING_PDF_SIZE = 20 * 1024 * 1024; // 20MB
+  private static readonly STAGING_PDF_FOLDER = 'treatment-plans';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly imageKitService: ImageKitService,
+    private readonly emailService: EmailService,
+    private readonly alignerCaseService: AlignerCaseService,
+    private readonly billingService: BillingService,
+  ) {}
+
+  // The case, if the actor is its dentist or manages cases
+  private async findCase(caseId: string, actor: CaseActor) {
+    if (!isValidObjectId(caseId)) {
+      throw new BadRequestException('Invalid aligner case ID format');
+    }
+
+    const alignerCase = await this.prisma.alignerCase.findUnique({
+      where: { id: caseId },
+      include: {
+        user: { select: { firstName: true, lastName: true, email: true } },
+      },
+    });
+    if (!alignerCase) {
+      throw new NotFoundException('Aligner case not found');
+    }
+
+    if (
+      alignerCase.userId !== actor.id &&
+      !hasPermission(actor.role, Permission.CASES_MANAGE)
+    ) {
+      throw new ForbiddenException('You can only access your own cases');
+    }
+
+    return alignerCase;
+  }
+
+  // Staging PDFs are private files, so each read gets a short-lived signed
+  // URL. Only call this once findCase has confirmed access.
+  private withState(plan: PlanWithDecision, latestVersion: number) {
+    let state = TreatmentPlanState.AWAITING_REVIEW;
+    if (plan.decision) {
+      state = plan.decision.decision as TreatmentPlanState;
+    } else if (plan.version < latestVersion) {
+      state = TreatmentPlanState.SUPERSEDED;
+    }
+    const stagingPdfUrl = plan.stagingPdfFilePath
+      ? this.imageKitService.getSignedUrl(plan.stagingPdfFilePath)
+      : null;
+    return { ...plan, stagingPdfUrl, state };
+  }
+
+  private caseUrl(caseId: string) {
+    return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/aligner-cases/${caseId}`;
+  }
+
+  // Every version of the plan, newest first
+  async getPlans(caseId: string, actor: CaseActor) {
+    await this.findCase(caseId, actor);
+
+    const plans = await this.prisma.treatmentPlan.findMany({
+      where: { caseId },
+      include: PLAN_INCLUDE,
+      orderBy: { version: 'desc' },
+    });
+
+    const latestVersion = plans[0]?.version ?? 0;
+    return plans.map((plan) => this.withState(plan, latestVersion));
+  }
+
+  /**
+   * Share a new plan version with the dentist. Only possible while the lab
+   * is planning, and it moves the case to PLAN_SENT.
+   */
+  async createPlan(
+    caseId: string,
+    createDto: CreateTreatmentPlanDto,
+    stagingPdf: Express.Multer.File | undefined,
+    actor: CaseActor,
+  ) {
+    const alignerCase = await this.findCase(caseId, actor);
+
+    if (
+      (alignerCase.status as AlignerCaseStatus) !== AlignerCaseStatus.PLANNING
+    ) {
+      throw new BadRequestException(
+        `Plans can only be shared while the case is PLANNING (it is ${alignerCase.status})`,
+      );
+    }
+    // The package decides what the plan is billed as once approved
+    if (!alignerCase.package) {
+      throw new BadRequestException(
+        'Set the aligner package on the case before sharing a plan',
+      );
+    }
+    if (!createDto.viewerUrl && !stagingPdf) {
+      throw new BadRequestException(
+        'A plan needs a 3D viewer link or a staging PDF',
+      );
+    }
+    if (stagingPdf && !hasValidSignature(stagingPdf.buffer, 'pdf')) {
+      throw new BadRequestException('The staging file is not a valid PDF');
+    }
+
+    const latest = await this.prisma.treatmentPlan.findFirst({
+      where: { caseId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    const version = (latest?.version ?? 0) + 1;
+
+    const upload = stagingPdf
+      ? await this.imageKitService.uploadPrivateFile(
+          stagingPdf.buffer,
+          stagingPdf.originalname,
+          `${TreatmentPlanService.STAGING_PDF_FOLDER}/${caseId}`,
+          ['treatment-plan'],
+        )
+      : null;
+
+    let plan: PlanWithDecision;
+    try {
+      plan = await this.prisma.treatmentPlan.create({
+        data: {
+          caseId,
+          version,
+          viewerUrl: createDto.viewerUrl,
+          stagingPdfFileId: upload?.fileId,
+          stagingPdfFilePath: upload?.filePath,
+          iprChart: createDto.iprChart?.map((entry) => ({ ...entry })),
+          upperSteps: createDto.upperSteps,
+          lowerSteps: createDto.lowerSteps,
+          notes: createDto.notes,
+          createdById: actor.id,
+        },
+        include: PLAN_INCLUDE,
+      });
+    } catch (error) {
+      if (upload) {
+        await this.discardStagingPdf(upload.fileId);
+      }
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'Another plan version was shared at the same time; please reload',
+        );
+      }
+      throw error;
+    }
+
+    try {
+      await this.alignerCaseService.applyStatusChange(
+        caseId,
+        AlignerCaseStatus.PLANNING,
+        AlignerCaseStatus.PLAN_SENT,
+        actor.id,
+        `Treatment plan v${version} shared`,
+      );
+    } catch (error) {
+      // Never shared, so removing it leaves the audit trail intact
+      await this.prisma.treatmentPlan.delete({ where: { id: plan.id } });
+      if (upload) {
+        await this.discardStagingPdf(upload.fileId);
+      }
+      throw error;
+    }
+
+    await this.emailService.sendTreatmentPlanSharedEmail({
+      firstName: alignerCase.user.firstName,
+      email: alignerCase.user.email,
+      caseName: alignerCase.name,
+      version,
+      caseUrl: this.caseUrl(caseId),
+    });
+
+    return this.withState(plan, version);
+  }
+
+  /**
+   * The treating dentist approves the latest plan or sends it back with
+   * comments. The decision is final for that version.
+   */
+  async decide(
+    caseId: string,
+    planId: string,
+    decisionDto: PlanDecisionDto,
+    actor: CaseActor,
+  ) {
+    if (!isValidObjectId(planId)) {
+      throw new BadRequestException('Invalid treatment plan ID format');
+    }
+
+    const alignerCase = await this.findCase(caseId, actor);
+    if (alignerCase.userId !== actor.id) {
+      throw new ForbiddenException(
+        'Only the treating dentist can approve or request changes to a plan',
+      );
+    }
+
+    const plan = await this.prisma.treatmentPlan.findFirst({
+      where: { id: planId, caseId },
+      include: PLAN_INCLUDE,
+    });
+    if (!plan) {
+      throw new NotFoundException('Treatment plan not found');
+    }
+
+    const latest = await this.prisma.treatmentPlan.findFirst({
+      where: { caseId },
+      orderBy: { version: 'desc' },
+      select: { id: true },
+    });
+    if (latest?.id !== plan.id) {
+      throw new BadRequestException(
+        'Only the latest plan version can be reviewed',
+      );
+    }
+    if (plan.decision) {
+      throw new ConflictException(
+        'This plan version has already been reviewed',
+      );
+    }
+    if (
+      (alignerCase.status as AlignerCaseStatus) !== AlignerCaseStatus.PLAN_SENT
+    ) {
+      throw new BadRequestException('This case is not waiting for plan review');
+    }
+
+    const { decision, comment } = decisionDto;
+    if (decision === PlanDecisionType.CHANGES_REQUESTED && !comment) {
+      throw new BadRequestException(
+        'Please describe the changes you would like',
+      );
+    }
+
+    let created: { id: string };
+    try {
+      created = await this.prisma.treatmentPlanDecision.create({
+        data: { planId, decision, comment, decidedById: actor.id },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'This plan version has already been reviewed',
+        );
+      }
+      throw error;
+    }
+
+    try {
+      await this.alignerCaseService.applyStatusChange(
+        caseId,
+        AlignerCaseStatus.PLAN_SENT,
+        decision === PlanDecisionType.APPROVED
+          ? AlignerCaseStatus.APPROVED
+          : AlignerCaseStatus.PLANNING,
+        actor.id,
+        decision === PlanDecisionType.APPROVED
+          ? `Treatment plan v${plan.version} approved`
+          : `Changes requested on treatment plan v${plan.version}`,
+      );
+    } catch (error) {
+      // The decision never took effect
+      await this.prisma.treatmentPlanDecision.delete({
+        where: { id: created.id },
+      });
+      throw error;
+    }
+
+    if (decision === PlanDecisionType.APPROVED) {
+      // The approval stands either way; billing can issue the invoice by hand
+      try {
+        await this.billingService.issueForApprovedPlan(caseId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to invoice plan v${plan.version} of case ${caseId}: ${errorMessage(error)}`,
+        );
+      }
+    }
+
+    await this.notifyCaseManagers(alignerCase, plan.version, decisionDto);
+
+    const updated = await this.prisma.treatmentPlan.findUniqueOrThrow({
+      where: { id: planId },
+      include: PLAN_INCLUDE,
+    });
+    return this.withState(updated, updated.version);
+  }
+
+  private async notifyCaseManagers(
+    alignerCase: {
+      id: string;
+      name: string;
+      user: { firstName: string; lastName: string };
+    },
+    version: number,
+    decisionDto: PlanDecisionDto,
+  ) {
+    const managers = await this.prisma.user.findMany({
+      where: {
+        role: { in: rolesWithPermission(Permission.CASES_MANAGE) },
+        isActive: true,
+      },
+      select: { email: true },
+    });
+    if (managers.length === 0) {
+      return;
+    }
+
+    await this.emailService.sendTreatmentPlanDecisionEmail({
+      to: managers.map((manager) => manager.email),
+      dentistName: `${alignerCase.user.firstName} ${alignerCase.user.lastName}`,
+      caseName: alignerCase.name,
+      version,
+      decision: decisionDto.decision,
+      comment: decisionDto.comment,
+      caseUrl: `${process.env.ADMIN_PANEL_URL || 'http://localhost:3001'}/aligner-cases/${alignerCase.id}`,
+    });
+  }
+
+  private async discardStagingPdf(fileId: string) {
+    try {
+      await this.imageKitService.deleteFile(fileId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to remove staging PDF ${fileId}: ${errorMessage(error)}`,
+      );
+    }
+  }
+}
@@ -2,9 +2,26 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
 } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { UserRole } from '../../guards/auth.guard';
+import { STAFF_ROLES, isStaffRole } from '../../guards/permissions';
+import { SessionRevokedReason, SessionService } from './session.service';
+import {
+  ChangePasswordDto,
+  ConfirmEmailChangeDto,
+  RequestEmailChangeDto,
+  UpdateProfileDto,
+  VerificationStatus,
+} from '../dto/users.dto';
+import { EmailService } from './email.service';
+import { MapService } from './map.service';
 
 export interface UserQuery {
   search?: string;
@@ -18,7 +35,32 @@ export interface UserQuery {
 
 @Injectable()
 export class UsersService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sessionService: SessionService,
+    private readonly emailService: EmailService,
+    private readonly mapService: MapService,
+  ) {}
+
+  // Fields a user sees about their own account
+  private static readonly PROFILE_SELECT = {
+    id: true,
+    email: true,
+    pendingEmail: true,
+    firstName: true,
+    lastName: true,
+    phone: true,
+    clinicName: true,
+    location: true,
+    zipCode: true,
+    latitude: true,
+    longitude: true,
+    agreeToMarketing: true,
+    role: true,
+    isEmailVerified: true,
+    verificationStatus: true,
+    updatedAt: true,
+  } as const;
 
   // Get all users with filtering and pagination (Admin only)
   async getAllUsers(query: UserQuery) {
@@ -37,7 +79,7 @@ export class UsersService {
     const skip = (pageNum - 1) * limitNum;
 
     // Build where condition
-    const where: any = {};
+    const where: Prisma.UserWhereInput = {};
 
     if (search) {
       where.OR = [
@@ -48,6 +90,10 @@ export class UsersService {
       ];
     }
 
+    if (role) {
+      where.role = role;
+    }
+
     if (isEmailVerified !== undefined) {
       where.isEmailVerified = isEmailVerified;
     }
@@ -113,6 +159,7 @@ export class UsersService {
         type: true,
         showOnMap: true,
         isActive: true,
+        verificationStatus: true,
       },
     });
 
@@ -120,7 +167,7 @@ export class UsersService {
       throw new NotFoundException('User not found');
     }
 
-    if (user.role === UserRole.ADMIN) {
+    if (isStaffRole(user.role)) {
       throw new ForbiddenException('Cannot access admin user details');
     }
 
@@ -128,7 +175,7 @@ export class UsersService {
   }
 
   // Update user status (Admin only)
-  async updateUserStatus(id: string, isEmailVerified: boolean) {
+  async updateUserStatus(id: string, isActive: boolean) {
     const user = await this.prisma.user.findUnique({
       where: { id },
     });
@@ -137,13 +184,13 @@ export class UsersService {
       throw new NotFoundException('User not found');
     }
 
-    if (user.role === UserRole.ADMIN) {
+    if (isStaffRole(user.role)) {
       throw new ForbiddenException('Cannot modify admin user');
     }
 
     const updatedUser = await this.prisma.user.update({
       where: { id },
-      data: { isEmailVerified },
+      data: { isActive },
       select: {
         id: true,
         email: true,
@@ -159,6 +206,14 @@ export class UsersService {
       },
     });
 
+    // A deactivated user must not stay signed in on any device
+    if (!isActive) {
+      await this.sessionService.revokeAllUserSessions(
+        id,
+        SessionRevokedReason.ACCOUNT_DEACTIVATED,
+      );
+    }
+
     return updatedUser;
   }
 
@@ -172,7 +227,7 @@ export class UsersService {
       throw new NotFoundException('User not found');
     }
 
-    if (user.role === UserRole.ADMIN) {
+    if (isStaffRole(user.role)) {
       throw new ForbiddenException('Cannot delete admin user');
     }
 
@@ -193,30 +248,32 @@ export class UsersService {
       totalOrthodontists,
     ] = await Promise.all([
       this.prisma.user.count({
-        where: { NOT: { role: UserRole.ADMIN } },
+        where: { role: { notIn: STAFF_ROLES } },
       }),
       this.prisma.user.count({
         where: {
           isEmailVerified: true,
-          NOT: { role: UserRole.ADMIN },
+          role: { notIn: STAFF_ROLES },
         },
       }),
       this.prisma.user.count({
         where: {
           isEmailVerified: false,
-          NOT: { role: UserRole.ADMIN },
+          role: { notIn: STAFF_ROLES },
         },
       }),
       this.prisma.user.count({
         where: {
           type: 'DENTIST',
-          NOT: [{ role: UserRole.ADMIN }, { type: null }],
+          role: { notIn: STAFF_ROLES },
+          NOT: { type: null },
         },
       }),
       this.prisma.user.count({
         where: {
           type: 'ORTHODONTIST',
-          NOT: [{ role: UserRole.ADMIN }, { type: null }],
+          role: { notIn: STAFF_ROLES },
+          NOT: { type: null },
         },
       }),
     ]);
@@ -230,6 +287,43 @@ export class UsersService {
     };
   }
 
+  // Change a user's role (Super admin only)
+  async updateUserRole(id: string, role: UserRole, actingUserId: string) {
+    if (id === actingUserId) {
+      throw new ForbiddenException('You cannot change your own role');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const updatedUser = await this.prisma.user.update({
+      where: { id },
+      data: { role },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        isActive: true,
+        updatedAt: true,
+      },
+    });
+
+    // Make the new role take effect immediately rather than at next refresh
+    await this.sessionService.revokeAllUserSessions(
+      id,
+      SessionRevokedReason.ROLE_CHANGED,
+    );
+
+    return updatedUser;
+  }
+
   // Toggle user showOnMap status (Admin only)
   async toggleShowOnMap(id: string, showOnMap: boolean) {
     const user = await this.prisma.user.findUnique({
@@ -240,10 +334,21 @@ export class UsersService {
       throw new NotFoundException('User not found');
     }
 
-    if (user.role === UserRole.ADMIN) {
+    if (isStaffRole(user.role)) {
       throw new ForbiddenException('Cannot modify admin user');
     }
 
+    // Only verified dentists may be listed publicly
+    if (
+      showOnMap &&
+      (user.verificationStatus as VerificationStatus) !==
+        VerificationStatus.APPROVED
+    ) {
+      throw new BadRequestException(
+        'Only dentists with an approved DCI registration can be shown on the map',
+      );
+    }
+
     const updatedUser = await this.prisma.user.update({
       where: { id },
       data: { showOnMap },
@@ -277,10 +382,217 @@ export class UsersService {
         isEmailVerified: true,
         isActive: true,
         type: true,
+        verificationStatus: true,
       },
     });
 
     return user;
   }
-}
 
+  private async findUserOrFail(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private async assertCurrentPassword(password: string, hash: string) {
+    const isPasswordValid = await bcrypt.compare(password, hash);
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+  }
+
+  // Update the logged-in user's own profile
+  async updateProfile(userId: string, updateProfileDto: UpdateProfileDto) {
+    const user = await this.findUserOrFail(userId);
+
+    const locationChanged =
+      updateProfileDto.location !== undefined &&
+      updateProfileDto.location !== user.location;
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...updateProfileDto,
+        // Old coordinates would pin the clinic to the previous address
+        ...(locationChanged && {
+          latitude: null,
+          longitude: null,
+          geoLocation: null,
+        }),
+      },
+    });
+
+    if (locationChanged) {
+      await this.mapService.updateUserLocationOnMap(
+        userId,
+        updateProfileDto.location,
+      );
+    }
+
+    return this.prisma.user.findUnique({
+      where: { id: userId },
+      select: UsersService.PROFILE_SELECT,
+    });
+  }
+
+  // Change password while logged in; other devices are signed out
+  async changePassword(
+    userId: string,
+    changePasswordDto: ChangePasswordDto,
+    currentSessionId?: string,
+  ) {
+    const { currentPassword, newPassword } = changePasswordDto;
+    const user = await this.findUserOrFail(userId);
+
+    await this.assertCurrentPassword(currentPassword, user.password);
+
+    if (await bcrypt.compare(newPassword, user.password)) {
+      throw new BadRequestException(
+        'New password must be different from your current password',
+      );
+    }
+
+    const salt = await bcrypt.genSalt();
+    const hashedPassword = await bcrypt.hash(newPassword, salt);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: hashedPassword,
+        // A reset link issued for the old password should no longer work
+        resetPasswordToken: null,
+        resetPasswordExpires: null,
+      },
+    });
+
+    await this.sessionService.revokeAllUserSessions(
+      userId,
+      SessionRevokedReason.PASSWORD_CHANGED,
+      currentSessionId,
+    );
+
+    await this.emailService.sendPasswordChangedEmail({
+      firstName: user.firstName,
+      email: user.email,
+    });
+
+    return { message: 'Password changed successfully' };
+  }
+
+  // Start an email change; the new address must be confirmed with a token
+  async requestEmailChange(
+    userId: string,
+    requestEmailChangeDto: RequestEmailChangeDto,
+  ) {
+    // Kept as typed, like at signup, since login looks addresses up exactly
+    const { newEmail } = requestEmailChangeDto;
+    const user = await this.findUserOrFail(userId);
+
+    await this.assertCurrentPassword(
+      requestEmailChangeDto.currentPassword,
+      user.password,
+    );
+
+    if (newEmail === user.email) {
+      throw new BadRequestException(
+        'New email must be different from your current email',
+      );
+    }
+
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: newEmail },
+    });
+    if (existingUser) {
+      throw new ConflictException('Email already in use');
+    }
+
+    const emailChangeToken = crypto.randomBytes(32).toString('hex');
+    const emailChangeExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        pendingEmail: newEmail,
+        emailChangeToken,
+        emailChangeExpires,
+      },
+    });
+
+    await this.emailService.sendEmailChangeVerificationEmail({
+      firstName: user.firstName,
+      email: newEmail,
+      confirmUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/confirm-email-change?token=${emailChangeToken}`,
+    });
+    await this.emailService.sendEmailChangeNoticeEmail({
+      firstName: user.firstName,
+      email: user.email,
+      newEmail,
+    });
+
+    return {
+      message: `We sent a confirmation link to ${newEmail}. Your email will change once it is confirmed.`,
+    };
+  }
+
+  async confirmEmailChange(confirmEmailChangeDto: ConfirmEmailChangeDto) {
+    const user = await this.prisma.user.findFirst({
+      where: {
+        emailChangeToken: confirmEmailChangeDto.token,
+        emailChangeExpires: {
+          gt: new Date(),
+        },
+      },
+    });
+
+    if (!user || !user.pendingEmail) {
+      throw new BadRequestException('Invalid or expired confirmation token');
+    }
+
+    // The address may have been registered since the change was requested
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: user.pendingEmail },
+    });
+    if (existingUser) {
+      throw new ConflictException('Email already in use');
+    }
+
+    const updatedUser = await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        email: user.pendingEmail,
+        isEmailVerified: true,
+        pendingEmail: null,
+        emailChangeToken: null,
+        emailChangeExpires: null,
+      },
+      select: UsersService.PROFILE_SELECT,
+    });
+
+    return {
+      message: 'Email address updated successfully',
+      user: updatedUser,
+    };
+  }
+
+  async cancelEmailChange(userId: string) {
+    await this.findUserOrFail(userId);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        pendingEmail: null,
+        emailChangeToken: null,
+        emailChangeExpires: null,
+      },
+    });
+
+    return { message: 'Email change cancelled' };
+  }
+}
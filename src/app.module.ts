@@ -15,7 +15,7 @@ import { PrismaModule } from './prisma/prisma.module';
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
-        signOptions: { expiresIn: '24h' }, // Token expires in 24 hours
+        signOptions: { expiresIn: '15m' }, // Short-lived; renewed via /auth/refresh
       }),
       inject: [ConfigService],
       global: true,
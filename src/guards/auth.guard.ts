@@ -8,16 +8,30 @@ import { JwtService } from '@nestjs/jwt';
 import { Request } from 'express';
 import { ConfigService } from '@nestjs/config';
 import { CookieHelper } from '../helpers/cookies.helper';
+import { SessionService } from '../api/services/session.service';
 
 export enum UserRole {
-  ADMIN = 'admin',
-  USER = 'user',
+  SUPER_ADMIN = 'super_admin',
+  CONTENT_EDITOR = 'content_editor',
+  CASE_MANAGER = 'case_manager',
+  DENTIST = 'dentist',
+  PATIENT = 'patient',
+}
+
+export interface AccessTokenPayload {
+  id: string;
+  role: UserRole;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  sid: string;
 }
 @Injectable()
 export class AuthGuard implements CanActivate {
   constructor(
     private jwtService: JwtService,
     private configService: ConfigService,
+    private sessionService: SessionService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -30,23 +44,33 @@ export class AuthGuard implements CanActivate {
       throw new UnauthorizedException('Authentication required');
     }
 
+    let payload: AccessTokenPayload;
     try {
-      const payload = await this.jwtService.verifyAsync(token, {
+      payload = await this.jwtService.verifyAsync<AccessTokenPayload>(token, {
         secret: this.configService.get<string>('JWT_SECRET'),
       });
-
-      // Set user data in request object
-      request['user'] = {
-        id: payload.id,
-        firstName: payload.firstName,
-        lastName: payload.lastName,
-        email: payload.email,
-        role: payload.role,
-      };
-    } catch (error) {
+    } catch {
       throw new UnauthorizedException('Invalid token');
     }
 
+    // Access tokens are bound to a server-side session so they can be revoked
+    const isSessionActive = await this.sessionService.isSessionActive(
+      payload.sid,
+    );
+    if (!isSessionActive) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Set user data in request object
+    request['user'] = {
+      id: payload.id,
+      firstName: payload.firstName,
+      lastName: payload.lastName,
+      email: payload.email,
+      role: payload.role,
+      sessionId: payload.sid,
+    };
+
     return true;
   }
 
@@ -59,3 +83,18 @@ export class AuthGuard implements CanActivate {
     return type === 'Bearer' ? token : undefined;
   }
 }
+
+// Sets req.user when a valid token is sent, but lets anonymous requests through
+@Injectable()
+export class OptionalAuthGuard extends AuthGuard {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    try {
+      return await super.canActivate(context);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        return true;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+// For routes a scheduler calls, such as Vercel Cron, which sends
+// `Authorization: Bearer <CRON_SECRET>`. Closed while CRON_SECRET is unset.
+@Injectable()
+export class CronGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const secret = process.env.CRON_SECRET;
+    const request = context.switchToHttp().getRequest<Request>();
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const given = Buffer.from(request.headers.authorization ?? '');
+    if (
+      !secret ||
+      given.length !== expected.length ||
+      !timingSafeEqual(given, expected)
+    ) {
+      throw new UnauthorizedException('Invalid cron secret');
+    }
+
+    return true;
+  }
+}
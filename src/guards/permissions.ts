@@ -0,0 +1,50 @@
+import { UserRole } from './auth.guard';
+
+export enum Permission {
+  USERS_READ = 'users:read',
+  USERS_MANAGE = 'users:manage',
+  ROLES_MANAGE = 'roles:manage',
+  CONTENT_MANAGE = 'content:manage', // blogs, courses, ebooks, live sessions, case studies, testimonials
+  CASES_MANAGE = 'cases:manage',
+  MAP_MANAGE = 'map:manage',
+  CONTACTS_READ = 'contacts:read',
+  MEDIA_MANAGE = 'media:manage',
+  VERIFICATIONS_REVIEW = 'verifications:review', // dentist DCI credential checks
+  BILLING_MANAGE = 'billing:manage', // price lists, invoices and payments
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.SUPER_ADMIN]: Object.values(Permission),
+  [UserRole.CONTENT_EDITOR]: [
+    Permission.CONTENT_MANAGE,
+    Permission.MEDIA_MANAGE,
+  ],
+  [UserRole.CASE_MANAGER]: [Permission.CASES_MANAGE, Permission.USERS_READ],
+  [UserRole.DENTIST]: [],
+  [UserRole.PATIENT]: [],
+};
+
+// Roles that sign in to the admin panel rather than the dentist portal
+export const STAFF_ROLES: UserRole[] = [
+  UserRole.SUPER_ADMIN,
+  UserRole.CONTENT_EDITOR,
+  UserRole.CASE_MANAGER,
+];
+
+export function hasPermission(
+  role: UserRole | string | undefined,
+  permission: Permission,
+): boolean {
+  return ROLE_PERMISSIONS[role as UserRole]?.includes(permission) ?? false;
+}
+
+// Roles holding a permission, e.g. to find who should be notified
+export function rolesWithPermission(permission: Permission): UserRole[] {
+  return (Object.keys(ROLE_PERMISSIONS) as UserRole[]).filter((role) =>
+    ROLE_PERMISSIONS[role].includes(permission),
+  );
+}
+
+export function isStaffRole(role: UserRole | string | undefined): boolean {
+  return STAFF_ROLES.includes(role as UserRole);
+}
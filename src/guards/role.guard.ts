@@ -3,30 +3,44 @@ import {
   ExecutionContext,
   CanActivate,
   UnauthorizedException,
+  ForbiddenException,
   SetMetadata,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
 import { UserRole } from './auth.guard';
+import { Permission, hasPermission } from './permissions';
 
-export const Roles = (...roles: UserRole[]) => SetMetadata('roles', roles);
+export const ROLES_KEY = 'roles';
+export const PERMISSIONS_KEY = 'permissions';
 
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+
+// Every listed permission must be granted by the user's role
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
 
 @Injectable()
 export class RolesGuard implements CanActivate {
   constructor(private reflector: Reflector) {}
 
   canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.get<UserRole[]>(
-      'roles',
-      context.getHandler(),
+    const targets = [context.getHandler(), context.getClass()];
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      targets,
+    );
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      targets,
     );
 
-    // If no roles are required, allow access
-    if (!requiredRoles || requiredRoles.length === 0) {
+    // If nothing is required, allow access
+    if (!requiredRoles?.length && !requiredPermissions?.length) {
       return true;
     }
 
-    const request = context.switchToHttp().getRequest();
+    const request = context.switchToHttp().getRequest<Request>();
     const user = request.user;
 
     // Ensure user exists and has a role
@@ -37,15 +51,23 @@ export class RolesGuard implements CanActivate {
     }
 
     // Check if the user's role is in the required roles
-    const hasRequiredRole = requiredRoles.some((role) => user.role === role);
-
-    if (!hasRequiredRole) {
-      throw new UnauthorizedException(
+    if (requiredRoles?.length && !requiredRoles.includes(user.role)) {
+      throw new ForbiddenException(
         `Access denied. Required role: ${requiredRoles.join(' or ')}`,
       );
     }
 
+    // Check the user's role grants every required permission
+    const missingPermissions = (requiredPermissions ?? []).filter(
+      (permission) => !hasPermission(user.role, permission),
+    );
+
+    if (missingPermissions.length > 0) {
+      throw new ForbiddenException(
+        `Access denied. Missing permission: ${missingPermissions.join(', ')}`,
+      );
+    }
+
     return true;
   }
 }
-
@@ -0,0 +1,113 @@
+/**
+ * Course certificate PDF helper utilities
+ */
+import PDFDocument from 'pdfkit';
+
+export interface CertificatePdfData {
+  serial: string;
+  recipientName: string;
+  dciNumber?: string | null;
+  courseTitle: string;
+  ceHours?: number | null;
+  completedAt: Date;
+  issuedAt: Date;
+}
+
+/**
+ * Renders a course completion certificate as a landscape A4 PDF
+ * @param certificate - Certificate as stored
+ * @param issuer - Organisation named as the issuer
+ * @param verifyUrl - Public page where the serial can be checked
+ * @returns Promise<Buffer> - PDF file content
+ */
+export function renderCertificatePdf(
+  certificate: CertificatePdfData,
+  issuer: string,
+  verifyUrl: string,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: 60,
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const inset = 25;
+    doc
+      .lineWidth(3)
+      .rect(
+        inset,
+        inset,
+        doc.page.width - inset * 2,
+        doc.page.height - inset * 2,
+      )
+      .stroke();
+
+    const date = (value: Date) =>
+      value.toLocaleDateString('en-IN', {
+        day: '2-digit',
+        month: 'long',
+        year: 'numeric',
+      });
+
+    doc.moveDown(2);
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(30)
+      .text('Certificate of Completion', { align: 'center' });
+    doc.moveDown();
+    doc
+      .font('Helvetica')
+      .fontSize(14)
+      .text('This is to certify that', { align: 'center' });
+    doc.moveDown(0.5);
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(24)
+      .text(certificate.recipientName, { align: 'center' });
+    if (certificate.dciNumber) {
+      doc
+        .font('Helvetica')
+        .fontSize(12)
+        .text(`DCI Registration No. ${certificate.dciNumber}`, {
+          align: 'center',
+        });
+    }
+    doc.moveDown(0.5);
+    doc
+      .font('Helvetica')
+      .fontSize(14)
+      .text('has successfully completed the course', { align: 'center' });
+    doc.moveDown(0.5);
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .text(certificate.courseTitle, { align: 'center' });
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(14);
+    if (certificate.ceHours) {
+      doc.text(`${certificate.ceHours} Continuing Education hours`, {
+        align: 'center',
+      });
+    }
+    doc.text(`Completed on ${date(certificate.completedAt)}`, {
+      align: 'center',
+    });
+
+    doc.moveDown(2);
+    doc.fontSize(12).text(`Issued by ${issuer}`, { align: 'center' });
+    doc
+      .fontSize(10)
+      .text(
+        `Certificate No. ${certificate.serial} | Issued ${date(certificate.issuedAt)}`,
+        { align: 'center' },
+      )
+      .text(`Verify at ${verifyUrl}`, { align: 'center' });
+
+    doc.end();
+  });
+}
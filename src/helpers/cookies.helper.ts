@@ -2,6 +2,9 @@ import { Response } from 'express';
 
 export class CookieHelper {
   static readonly ACCESS_TOKEN_COOKIE = 'access_token';
+  static readonly REFRESH_TOKEN_COOKIE = 'refresh_token';
+  // The refresh token is only ever needed by the auth routes
+  static readonly REFRESH_TOKEN_PATH = '/api/v1/auth';
 
   /**
    * Set HTTP-only cookie with access token
@@ -33,4 +36,35 @@ export class CookieHelper {
       path: '/',
     });
   }
+
+  /**
+   * Set HTTP-only cookie with refresh token, scoped to the auth routes
+   */
+  static setRefreshTokenCookie(
+    response: Response,
+    token: string,
+    expiresInSeconds: number,
+  ): void {
+    const isProduction = process.env.NODE_ENV === 'production';
+    response.cookie(this.REFRESH_TOKEN_COOKIE, token, {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: isProduction ? 'none' : 'lax',
+      maxAge: expiresInSeconds * 1000,
+      path: this.REFRESH_TOKEN_PATH,
+    });
+  }
+
+  /**
+   * Clear refresh token cookie
+   */
+  static clearRefreshTokenCookie(response: Response): void {
+    const isProduction = process.env.NODE_ENV === 'production';
+    response.clearCookie(this.REFRESH_TOKEN_COOKIE, {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: isProduction ? 'none' : 'lax',
+      path: this.REFRESH_TOKEN_PATH,
+    });
+  }
 }
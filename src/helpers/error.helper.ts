@@ -0,0 +1,17 @@
+/**
+ * Error helper utilities
+ */
+
+/**
+ * Message of a caught value, for logs and stored failure reasons. Catch
+ * bindings are untyped; a thrown string is kept and anything else that is
+ * not an Error is serialised.
+ * @param error - The caught value
+ * @returns string - The error's message
+ */
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return typeof error === 'string' ? error : JSON.stringify(error);
+}
@@ -0,0 +1,58 @@
+/**
+ * File signature helper utilities
+ */
+
+/**
+ * Lower-cased extension of a file name, without the dot
+ * @param fileName - Original file name
+ * @returns string - Extension, or an empty string when there is none
+ */
+export function fileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+// A binary STL is an 80-byte header, a triangle count and 50 bytes per
+// triangle; ASCII STL starts with "solid"
+function isStl(buffer: Buffer): boolean {
+  if (buffer.subarray(0, 5).toString('ascii').toLowerCase() === 'solid') {
+    return true;
+  }
+  if (buffer.length < 84) {
+    return false;
+  }
+  return buffer.length === 84 + buffer.readUInt32LE(80) * 50;
+}
+
+/**
+ * Checks that the file content matches what its extension claims, so a
+ * renamed executable cannot pass as a photo or scan. Browsers report
+ * unreliable MIME types for STL/PLY, so the content is the real check.
+ * @param buffer - File content
+ * @param extension - Extension from fileExtension()
+ * @returns boolean - True when the content looks like that file type
+ */
+export function hasValidSignature(buffer: Buffer, extension: string): boolean {
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg':
+      return startsWith(buffer, [0xff, 0xd8, 0xff]);
+    case 'png':
+      return startsWith(buffer, [0x89, 0x50, 0x4e, 0x47]);
+    case 'pdf':
+      return startsWith(buffer, [0x25, 0x50, 0x44, 0x46]); // %PDF
+    case 'dcm':
+      // DICOM: 128-byte preamble followed by "DICM"
+      return startsWith(buffer, [0x44, 0x49, 0x43, 0x4d], 128);
+    case 'ply':
+      return buffer.subarray(0, 3).toString('ascii') === 'ply';
+    case 'stl':
+      return isStl(buffer);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Geo helper utilities
+ */
+
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number]; // [longitude, latitude]
+}
+
+/**
+ * Builds a GeoJSON point for the 2dsphere-indexed `geoLocation` fields
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @returns GeoPoint | null - Null when either coordinate is missing
+ */
+export function toGeoPoint(
+  latitude: number | null | undefined,
+  longitude: number | null | undefined,
+): GeoPoint | null {
+  if (
+    latitude === null ||
+    latitude === undefined ||
+    longitude === null ||
+    longitude === undefined
+  ) {
+    return null;
+  }
+
+  return { type: 'Point', coordinates: [longitude, latitude] };
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle (haversine) distance between two points
+ * @param from - First point in degrees
+ * @param to - Second point in degrees
+ * @returns number - Distance in kilometres
+ */
+export function distanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,78 @@
+import { calculateGst, financialYear, formatInr } from './gst.helper';
+
+describe('gst helper', () => {
+  describe('calculateGst', () => {
+    it('splits tax into CGST and SGST within the seller state', () => {
+      expect(calculateGst(10000000, 12, 'Maharashtra', 'Maharashtra')).toEqual({
+        cgstPaise: 600000,
+        sgstPaise: 600000,
+        igstPaise: 0,
+        totalPaise: 11200000,
+      });
+    });
+
+    it('charges IGST across states', () => {
+      expect(calculateGst(10000000, 12, 'Maharashtra', 'Karnataka')).toEqual({
+        cgstPaise: 0,
+        sgstPaise: 0,
+        igstPaise: 1200000,
+        totalPaise: 11200000,
+      });
+    });
+
+    it('matches states regardless of case and spacing', () => {
+      const gst = calculateGst(10000, 12, 'Maharashtra', '  maharashtra ');
+      expect(gst.igstPaise).toBe(0);
+      expect(gst.cgstPaise).toBe(600);
+    });
+
+    it('treats an unknown place of supply as intra-state', () => {
+      for (const buyerState of [undefined, null, '']) {
+        expect(calculateGst(10000, 12, 'Maharashtra', buyerState)).toEqual({
+          cgstPaise: 600,
+          sgstPaise: 600,
+          igstPaise: 0,
+          totalPaise: 11200,
+        });
+      }
+    });
+
+    it('rounds IGST to the nearest paisa', () => {
+      // 12% of 123.45 is 14.814
+      expect(calculateGst(12345, 12, 'Maharashtra', 'Goa')).toEqual({
+        cgstPaise: 0,
+        sgstPaise: 0,
+        igstPaise: 1481,
+        totalPaise: 13826,
+      });
+    });
+
+    it('rounds each half so CGST and SGST stay equal', () => {
+      // 6% of 123.75 is 7.425; each half rounds to 7.43
+      expect(calculateGst(12375, 12, 'Maharashtra', 'Maharashtra')).toEqual({
+        cgstPaise: 743,
+        sgstPaise: 743,
+        igstPaise: 0,
+        totalPaise: 13861,
+      });
+    });
+  });
+
+  describe('financialYear', () => {
+    it('starts a new year in April', () => {
+      expect(financialYear(new Date(2027, 2, 31))).toBe('2026-27');
+      expect(financialYear(new Date(2027, 3, 1))).toBe('2027-28');
+    });
+
+    it('pads the closing year across a century', () => {
+      expect(financialYear(new Date(2099, 5, 1))).toBe('2099-00');
+    });
+  });
+
+  describe('formatInr', () => {
+    it('groups digits the Indian way', () => {
+      expect(formatInr(12345600)).toBe('INR 1,23,456.00');
+      expect(formatInr(5)).toBe('INR 0.05');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * GST helper utilities. Amounts are integer paise throughout so totals
+ * never pick up floating point drift.
+ */
+
+export interface GstBreakdown {
+  cgstPaise: number;
+  sgstPaise: number;
+  igstPaise: number;
+  totalPaise: number;
+}
+
+function normalizeState(state: string): string {
+  return state.trim().toLowerCase();
+}
+
+/**
+ * Splits GST the way the invoice must show it: CGST + SGST (half each)
+ * within the seller's state, IGST across states
+ * @param subtotalPaise - Taxable value in paise
+ * @param ratePercent - Combined GST rate, e.g. 12
+ * @param sellerState - State the lab is registered in
+ * @param buyerState - Place of supply; when unknown it is treated as intra-state
+ * @returns GstBreakdown - Tax components and the grand total in paise
+ */
+export function calculateGst(
+  subtotalPaise: number,
+  ratePercent: number,
+  sellerState: string,
+  buyerState?: string | null,
+): GstBreakdown {
+  const interState =
+    !!buyerState && normalizeState(buyerState) !== normalizeState(sellerState);
+
+  if (interState) {
+    const igstPaise = Math.round((subtotalPaise * ratePercent) / 100);
+    return {
+      cgstPaise: 0,
+      sgstPaise: 0,
+      igstPaise,
+      totalPaise: subtotalPaise + igstPaise,
+    };
+  }
+
+  // Rounded per half so CGST and SGST always match
+  const halfPaise = Math.round((subtotalPaise * ratePercent) / 200);
+  return {
+    cgstPaise: halfPaise,
+    sgstPaise: halfPaise,
+    igstPaise: 0,
+    totalPaise: subtotalPaise + halfPaise * 2,
+  };
+}
+
+/**
+ * Formats paise as rupees with Indian digit grouping
+ * @param paise - Amount in paise
+ * @returns string - e.g. "INR 1,23,456.00"
+ */
+export function formatInr(paise: number): string {
+  const rupees = (paise / 100).toLocaleString('en-IN', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return `INR ${rupees}`;
+}
+
+/**
+ * Indian financial year (April to March) a date falls in
+ * @param date - Date to classify
+ * @returns string - e.g. "2026-27"
+ */
+export function financialYear(date: Date): string {
+  const startYear =
+    date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
@@ -0,0 +1,17 @@
+/**
+ * HTML helper utilities for the emails we build as strings
+ */
+
+/**
+ * Escapes text so it shows literally inside HTML element content or a
+ * double-quoted attribute. Use for anything a user typed.
+ * @param text - The raw text
+ * @returns string - Text with &, <, > and " replaced by entities
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,131 @@
+/**
+ * Invoice PDF helper utilities
+ */
+import PDFDocument from 'pdfkit';
+import { formatInr } from './gst.helper';
+
+export interface InvoiceSeller {
+  legalName: string;
+  address: string;
+  state: string;
+  gstin?: string;
+}
+
+export interface InvoicePdfData {
+  number: string;
+  issuedAt: Date;
+  dueAt: Date;
+  status: string;
+  billTo: {
+    name: string;
+    clinicName?: string | null;
+    email: string;
+    address?: string | null;
+    state?: string | null;
+    gstin?: string | null;
+  };
+  caseName: string;
+  description: string;
+  hsnCode: string;
+  subtotalPaise: number;
+  gstRatePercent: number;
+  cgstPaise: number;
+  sgstPaise: number;
+  igstPaise: number;
+  totalPaise: number;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Renders a GST tax invoice as an A4 PDF
+ * @param invoice - Invoice as stored
+ * @param seller - Lab details printed as the supplier
+ * @returns Promise<Buffer> - PDF file content
+ */
+export function renderInvoicePdf(
+  invoice: InvoicePdfData,
+  seller: InvoiceSeller,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(20).text('TAX INVOICE', { align: 'right' });
+    doc
+      .fontSize(10)
+      .text(`Invoice No: ${invoice.number}`, { align: 'right' })
+      .text(`Date: ${formatDate(invoice.issuedAt)}`, { align: 'right' })
+      .text(`Due: ${formatDate(invoice.dueAt)}`, { align: 'right' });
+    if (invoice.status !== 'ISSUED') {
+      doc.text(`Status: ${invoice.status}`, { align: 'right' });
+    }
+
+    doc.moveDown();
+    doc.fontSize(12).text(seller.legalName);
+    doc.fontSize(10).text(seller.address).text(`State: ${seller.state}`);
+    if (seller.gstin) {
+      doc.text(`GSTIN: ${seller.gstin}`);
+    }
+
+    doc.moveDown();
+    doc.fontSize(11).text('Bill to');
+    doc.fontSize(10).text(invoice.billTo.clinicName || invoice.billTo.name);
+    if (invoice.billTo.clinicName) {
+      doc.text(invoice.billTo.name);
+    }
+    if (invoice.billTo.address) {
+      doc.text(invoice.billTo.address);
+    }
+    doc.text(invoice.billTo.email);
+    if (invoice.billTo.gstin) {
+      doc.text(`GSTIN: ${invoice.billTo.gstin}`);
+    }
+    doc.text(`Place of supply: ${invoice.billTo.state || seller.state}`);
+
+    doc.moveDown(2);
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const amountWidth = 120;
+    const row = (label: string, amount: string, bold = false) => {
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      doc.text(label, left, y, { width: right - left - amountWidth });
+      const labelBottom = doc.y;
+      doc.text(amount, right - amountWidth, y, {
+        width: amountWidth,
+        align: 'right',
+      });
+      doc.y = Math.max(labelBottom, doc.y) + 4;
+    };
+
+    row('Description', 'Amount', true);
+    row(
+      `${invoice.description}\nCase: ${invoice.caseName} | HSN: ${invoice.hsnCode}`,
+      formatInr(invoice.subtotalPaise),
+    );
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke();
+    doc.moveDown(0.5);
+
+    row('Taxable value', formatInr(invoice.subtotalPaise));
+    if (invoice.igstPaise > 0) {
+      row(`IGST @ ${invoice.gstRatePercent}%`, formatInr(invoice.igstPaise));
+    } else {
+      const half = invoice.gstRatePercent / 2;
+      row(`CGST @ ${half}%`, formatInr(invoice.cgstPaise));
+      row(`SGST @ ${half}%`, formatInr(invoice.sgstPaise));
+    }
+    row('Total', formatInr(invoice.totalPaise), true);
+
+    doc.end();
+  });
+}
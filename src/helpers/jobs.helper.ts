@@ -0,0 +1,13 @@
+/**
+ * Background job helper utilities
+ */
+
+/**
+ * Whether background jobs run on in-process timers. Timers need a
+ * long-running instance (Render); serverless deployments (vercel.json) set
+ * JOB_TIMERS_ENABLED=false and have a cron call the /jobs routes instead.
+ * @returns boolean - False only when JOB_TIMERS_ENABLED is "false"
+ */
+export function jobTimersEnabled(): boolean {
+  return process.env.JOB_TIMERS_ENABLED !== 'false';
+}
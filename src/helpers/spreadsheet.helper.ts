@@ -0,0 +1,148 @@
+/**
+ * Spreadsheet helper utilities (CSV and XLSX import, CSV export)
+ */
+import { parse } from 'csv-parse/sync';
+import { Workbook, CellValue } from 'exceljs';
+
+export type SpreadsheetRow = Record<string, string>;
+
+export enum SpreadsheetFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+/**
+ * Works out the upload format from its extension, falling back to MIME type
+ * (browsers report CSV files under several different types)
+ * @param fileName - Original file name
+ * @param mimeType - Reported MIME type
+ * @returns SpreadsheetFormat | null - Null when the file is neither
+ */
+export function detectSpreadsheetFormat(
+  fileName: string,
+  mimeType: string,
+): SpreadsheetFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') {
+    return SpreadsheetFormat.CSV;
+  }
+  if (extension === 'xlsx') {
+    return SpreadsheetFormat.XLSX;
+  }
+  if (mimeType === 'text/csv' || mimeType === 'application/csv') {
+    return SpreadsheetFormat.CSV;
+  }
+  if (
+    mimeType ===
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ) {
+    return SpreadsheetFormat.XLSX;
+  }
+  return null;
+}
+
+function cellToString(value: CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    if ('result' in value) {
+      // Formula cell: use the cached result, not the formula
+      return cellToString(value.result);
+    }
+    return '';
+  }
+  return String(value);
+}
+
+async function readXlsx(buffer: Buffer): Promise<SpreadsheetRow[]> {
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell((cell, column) => {
+    headers[column] = cellToString(cell.value).trim();
+  });
+
+  const rows: SpreadsheetRow[] = [];
+  for (let rowNumber = 2; rowNumber <= sheet.rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    const record: SpreadsheetRow = {};
+    headers.forEach((header, column) => {
+      if (header) {
+        record[header] = cellToString(row.getCell(column).value).trim();
+      }
+    });
+    rows.push(record);
+  }
+
+  return rows;
+}
+
+/**
+ * Reads the first sheet of a CSV or XLSX file. The first row is the header;
+ * every later row becomes an object keyed by header, including blank rows,
+ * so row positions still line up with the file.
+ * @param buffer - File contents
+ * @param format - Format from detectSpreadsheetFormat
+ * @returns Promise<SpreadsheetRow[]> - Trimmed string values
+ */
+export async function readSpreadsheet(
+  buffer: Buffer,
+  format: SpreadsheetFormat,
+): Promise<SpreadsheetRow[]> {
+  if (format === SpreadsheetFormat.XLSX) {
+    return readXlsx(buffer);
+  }
+
+  return parse(buffer, {
+    bom: true,
+    columns: (header: string[]) => header.map((name) => name.trim()),
+    skip_empty_lines: false,
+    relax_column_count: true,
+    trim: true,
+  }) as SpreadsheetRow[];
+}
+
+/**
+ * Formats one CSV line. Text that a spreadsheet would run as a formula is
+ * prefixed with a quote so exported data cannot execute on open; phone
+ * numbers such as "+91 98765 43210" are left as they are.
+ * @param values - Cell values in column order
+ * @returns string - CSV line ending in CRLF
+ */
+export function toCsvLine(
+  values: (string | number | boolean | Date | null | undefined)[],
+): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) {
+          return '';
+        }
+        let text = value instanceof Date ? value.toISOString() : String(value);
+        if (
+          typeof value === 'string' &&
+          (/^[=@\t\r]/.test(text) || /^[+-](?![\d\s().-]*$)/.test(text))
+        ) {
+          text = `'${text}`;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Throttle queue helper
+ */
+
+/**
+ * Runs tasks one at a time, leaving at least `minIntervalMs` between the
+ * start of consecutive tasks. Used to stay inside third-party rate limits.
+ */
+export class ThrottledQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private lastStartedAt = 0;
+
+  constructor(private readonly minIntervalMs: number) {}
+
+  /**
+   * Queues a task behind everything already scheduled
+   * @param task - Async work to run once the queue reaches it
+   * @returns Promise<T> - Settles with the task's own result or error
+   */
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(async () => {
+      const wait = this.lastStartedAt + this.minIntervalMs - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      this.lastStartedAt = Date.now();
+      return task();
+    });
+
+    // A failed task must not stall the tasks queued after it
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+}
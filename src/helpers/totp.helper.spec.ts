@@ -0,0 +1,92 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotpCode,
+} from './totp.helper';
+
+describe('totp helper', () => {
+  // RFC 6238 Appendix B uses the ASCII seed "12345678901234567890" for SHA1
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+  describe('base32', () => {
+    it('encodes the RFC 4648 test vectors without padding', () => {
+      expect(base32Encode(Buffer.from('f'))).toBe('MY');
+      expect(base32Encode(Buffer.from('fooba'))).toBe('MZXW6YTB');
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    });
+
+    it('round-trips random secrets', () => {
+      for (let i = 0; i < 20; i++) {
+        const secret = generateTotpSecret();
+        expect(base32Encode(base32Decode(secret))).toBe(secret);
+        expect(base32Decode(secret)).toHaveLength(20);
+      }
+    });
+
+    it('ignores case, spaces and padding when decoding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpCode', () => {
+    // The RFC lists 8-digit codes; a 6-digit code is their last six digits
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ])('matches the RFC 6238 SHA1 vector at T=%d', (seconds, code) => {
+      expect(generateTotpCode(rfcSecret, getTotpStep(seconds * 1000))).toBe(
+        code,
+      );
+    });
+  });
+
+  describe('verifyTotpCode', () => {
+    const now = new Date('2026-01-01T09:00:10Z');
+    const currentStep = getTotpStep(now.getTime());
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('returns the step of a code within one step of drift', () => {
+      for (const offset of [-1, 0, 1]) {
+        const code = generateTotpCode(rfcSecret, currentStep + offset);
+        expect(verifyTotpCode(rfcSecret, code)).toBe(currentStep + offset);
+      }
+    });
+
+    it('rejects codes outside the drift window', () => {
+      expect(
+        verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, currentStep - 2)),
+      ).toBeNull();
+      expect(
+        verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, currentStep + 2)),
+      ).toBeNull();
+    });
+
+    it('accepts spaces but rejects malformed codes', () => {
+      const code = generateTotpCode(rfcSecret, currentStep);
+      expect(
+        verifyTotpCode(rfcSecret, `${code.slice(0, 3)} ${code.slice(3)}`),
+      ).toBe(currentStep);
+      expect(verifyTotpCode(rfcSecret, code.slice(1))).toBeNull();
+      expect(verifyTotpCode(rfcSecret, 'abcdef')).toBeNull();
+      expect(verifyTotpCode(rfcSecret, '')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Upload helper utilities
+ */
+
+import { PayloadTooLargeException } from '@nestjs/common';
+import { Request } from 'express';
+import { StorageEngine } from 'multer';
+
+const MB = 1024 * 1024;
+
+/**
+ * Multer storage that keeps files in memory like memoryStorage(), but stops
+ * reading a file as soon as it passes its field's limit or the request
+ * passes its total, so an oversized upload is never held in memory
+ * @param maxFileSize - Largest allowed size of one file in a given field
+ * @param maxTotalSize - Largest allowed size of all files in one request
+ * @returns StorageEngine - Storage for multer's `storage` option
+ */
+export function limitedMemoryStorage(
+  maxFileSize: (fieldName: string) => number,
+  maxTotalSize: number,
+): StorageEngine {
+  const receivedByRequest = new WeakMap<Request, number>();
+
+  return {
+    _handleFile(req, file, callback) {
+      const limit = maxFileSize(file.fieldname);
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let failed = false;
+
+      const fail = (error: unknown) => {
+        if (failed) {
+          return;
+        }
+        failed = true;
+        chunks.length = 0;
+        // Drain the rest without keeping it; multer aborts the request
+        file.stream.removeAllListeners('data');
+        file.stream.resume();
+        callback(error);
+      };
+
+      file.stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        const received = (receivedByRequest.get(req) ?? 0) + chunk.length;
+        receivedByRequest.set(req, received);
+
+        if (size > limit) {
+          fail(
+            new PayloadTooLargeException(
+              `${file.originalname} is larger than ${limit / MB}MB`,
+            ),
+          );
+        } else if (received > maxTotalSize) {
+          fail(
+            new PayloadTooLargeException(
+              `Uploads are limited to ${maxTotalSize / MB}MB per request`,
+            ),
+          );
+        } else {
+          chunks.push(chunk);
+        }
+      });
+      file.stream.on('error', fail);
+      file.stream.on('end', () => {
+        if (!failed) {
+          callback(null, { buffer: Buffer.concat(chunks, size), size });
+        }
+      });
+    },
+
+    _removeFile(req, file, callback) {
+      callback(null);
+    },
+  };
+}
@@ -6,9 +6,23 @@ import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
 async function bootstrap() {
-  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  // Raw bodies are kept for payment webhook signature checks
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
+  });
   const configService = app.get(ConfigService);
 
+  // Behind the Vercel/Render proxy the client address only arrives in
+  // X-Forwarded-For. TRUST_PROXY is the number of proxy hops to believe (or
+  // an Express trust list); login throttling and sessions rely on req.ip.
+  const trustProxy = configService.get<string>('TRUST_PROXY');
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy,
+    );
+  }
+
   // Middleware
   app.use(cookieParser());
   app.setGlobalPrefix('api/v1');
@@ -18,9 +32,9 @@ async function bootstrap() {
     origin: [
       'https://www.aligner360.in', // production frontend
       'https://aligner-360-admin-panel.vercel.app', // production admin panel
-      'http://localhost:3000',     // local development frontend
-      'http://localhost:3001',     // local development admin panel
-      'http://localhost:3002',     // alternative local development
+      'http://localhost:3000', // local development frontend
+      'http://localhost:3001', // local development admin panel
+      'http://localhost:3002', // alternative local development
     ],
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
     credentials: true,
@@ -28,11 +42,13 @@ async function bootstrap() {
   });
 
   // ✅ Global validation pipes
-  app.useGlobalPipes(new ValidationPipe({ 
-    whitelist: true,
-    forbidNonWhitelisted: true,
-    transform: true
-  }));
+  app.useGlobalPipes(
+    new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+    }),
+  );
 
   // ✅ Port configuration
   const port = configService.get<number>('PORT') || 8080;
@@ -41,4 +57,4 @@ async function bootstrap() {
   console.log(`🚀 Application is running on: http://localhost:${port}`);
 }
 
-bootstrap();
\ No newline at end of file
+bootstrap();